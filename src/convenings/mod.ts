@@ -31,12 +31,16 @@ export {
 import { createSimpleOpenRouterDialogue } from "./workflows/openrouter_dialogue_workflow.ts";
 export { createSimpleOpenRouterDialogue };
 
+import { type ScoreAggregationMethod } from "./workflows/judging_panel.ts";
+
 // Export Mastra-OpenRouter integration
 export {
   OpenRouterClient,
   OpenRouterAgent,
+  OpenRouterConversationAgent,
   createOpenRouterClient,
   createOpenRouterAgent,
+  createOpenRouterConversationAgent,
   type OpenRouterConfig,
   type ChatMessage,
   type ChatCompletionOptions
@@ -254,6 +258,18 @@ export interface CreateDebateOptions {
    */
   scoringEnabled?: boolean;
   
+  /**
+   * Models for a panel of judges, one judge per model
+   * Default: the moderator scores alone
+   */
+  judgeModels?: string[];
+  
+  /**
+   * How the judges' scores are combined (mean, median, trimmed_mean)
+   * Default: "mean"
+   */
+  scoreAggregation?: ScoreAggregationMethod;
+  
   /**
    * Whether to include moderator summaries after each round
    * Default: true
@@ -322,7 +338,7 @@ export async function createDebate(
   // Import necessary classes and functions directly
   const { OpenRouterClient } = await import("../mastra/openrouter_client.ts");
   const { createOpenRouterAgent } = await import("../mastra/openrouter_client.ts");
-  const { createDebateParticipant, createDebateModerator } = await import("./participants/debate_participant.ts");
+  const { createDebateParticipant, createDebateModerator, createDebateJudge } = await import("./participants/debate_participant.ts");
   const { DebateWorkflow } = await import("./workflows/debate_workflow.ts");
   const { LogLevel } = await import("./utils/logger.ts");
   
@@ -408,6 +424,24 @@ You are advocating for the position: "${positionB}".
 Present persuasive arguments supporting your position using clear logic,
 credible evidence, and addressing counterarguments effectively.`,
     }, client)),
+    
+    // Judges, each scoring independently on its own model
+    ...(options.judgeModels ?? []).map((model, i) => {
+      const judgeConfig = {
+        id: `judge_${i + 1}`,
+        model,
+        systemPrompt: `You are an impartial judge scoring arguments in a debate on ${topic}.
+Evaluate each argument on its own merits against the scoring criteria,
+regardless of which position it supports.`,
+      };
+      
+      return createDebateJudge({
+        name: `Judge ${i + 1}`,
+        agentConfig: judgeConfig,
+        dialogueStyle: "analytical",
+        preferredFormat: debateFormat
+      }, createOpenRouterAgent(judgeConfig, client));
+    }),
   ];
   
   // Create debate workflow with the participants
@@ -416,6 +450,7 @@ credible evidence, and addressing counterarguments effectively.`,
     roundCount: options.roundCount || 2,
     maxTurns: 30,
     scoringEnabled: options.scoringEnabled !== false,
+    scoreAggregation: options.scoreAggregation,
     roundSummariesEnabled: options.roundSummariesEnabled !== false,
     openingStatementMaxTokens: options.openingStatementMaxTokens,
     argumentMaxTokens: options.argumentMaxTokens,
@@ -7,6 +7,7 @@ import { IBiddingStrategy, BiddingStrategyFactory } from "./bidding_strategy.ts"
 import { ContextualBiddingStrategy, ExtendedBidContext } from "./advanced_bidding_strategy.ts";
 import { EmotionalBiddingStrategy } from "./advanced_bidding_strategy.ts";
 import { CoalitionBiddingStrategy } from "./coalition_bidding_strategy.ts";
+import { RelationshipGraph } from "../relationship_graph.ts";
 import { InterruptionBiddingStrategy, QuestionRespondingBiddingStrategy } from "./interruption_bidding_strategy.ts";
 
 /**
@@ -46,13 +47,15 @@ export class AdvancedBiddingStrategyFactory {
    * 
    * @param baseStrength - Base bid strength
    * @param coalitionBoost - How much coalition membership boosts bids
+   * @param relationshipGraph - Optional graph whose mutual alliances form coalitions
    * @returns Coalition bidding strategy
    */
   static createCoalitionStrategy(
     baseStrength: number = 0.5,
-    coalitionBoost: number = 0.3
+    coalitionBoost: number = 0.3,
+    relationshipGraph?: RelationshipGraph
   ): IBiddingStrategy {
-    return new CoalitionBiddingStrategy(baseStrength, coalitionBoost);
+    return new CoalitionBiddingStrategy(baseStrength, coalitionBoost, relationshipGraph);
   }
 
   /**
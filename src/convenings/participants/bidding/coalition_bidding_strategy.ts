@@ -5,6 +5,7 @@
 
 import { Bid, BidContext, IBiddingStrategy } from "./bidding_strategy.ts";
 import { DialogueState } from "../../workflows/dialogue_workflow.ts";
+import { RelationshipGraph } from "../relationship_graph.ts";
 
 /**
  * Extended bid context with coalition information
@@ -47,19 +48,24 @@ export interface CoalitionBidContext extends BidContext {
 export class CoalitionBiddingStrategy implements IBiddingStrategy {
   private baseStrength: number;
   private coalitionBoost: number;
+  private relationshipGraph?: RelationshipGraph;
   
   /**
    * Create a new coalition-based bidding strategy
    * 
    * @param baseStrength - Base bid strength to use (0.0 to 1.0)
    * @param coalitionBoost - How much coalition membership boosts bids (0.0 to 1.0)
+   * @param relationshipGraph - Optional graph whose mutual alliances form coalitions
+   *   in addition to those given in the bid context
    */
   constructor(
     baseStrength: number = 0.5,
-    coalitionBoost: number = 0.3
+    coalitionBoost: number = 0.3,
+    relationshipGraph?: RelationshipGraph
   ) {
     this.baseStrength = Math.max(0, Math.min(1, baseStrength));
     this.coalitionBoost = Math.max(0, Math.min(1, coalitionBoost));
+    this.relationshipGraph = relationshipGraph;
   }
   
   /**
@@ -70,7 +76,7 @@ export class CoalitionBiddingStrategy implements IBiddingStrategy {
    */
   async calculateBid(context: BidContext): Promise<Bid> {
     const { participantId } = context;
-    const coalitionContext = context as CoalitionBidContext;
+    const coalitionContext = this.withEmergentCoalitions(context as CoalitionBidContext);
     
     // Start with base strength
     let bidStrength = this.baseStrength;
@@ -152,6 +158,27 @@ export class CoalitionBiddingStrategy implements IBiddingStrategy {
     };
   }
   
+  /**
+   * Add the coalitions that have emerged in the relationship graph to a bid context
+   * 
+   * @param context - Bid context with any pre-configured coalitions
+   * @returns Bid context with pre-configured and emergent coalitions
+   */
+  private withEmergentCoalitions(context: CoalitionBidContext): CoalitionBidContext {
+    if (!this.relationshipGraph) {
+      return context;
+    }
+    
+    const emergent = this.relationshipGraph.deriveCoalitions(
+      context.dialogueState.participants.map(p => p.id)
+    );
+    
+    return {
+      ...context,
+      coalitions: [...(context.coalitions ?? []), ...emergent],
+    };
+  }
+  
   /**
    * Calculate coalition factor for a participant in a coalition
    * 
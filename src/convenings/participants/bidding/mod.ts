@@ -35,5 +35,20 @@ export {
   QuestionRespondingBiddingStrategy
 } from "./interruption_bidding_strategy.ts";
 
+// Speaker selection strategies
+export {
+  type SelectionContext,
+  type SpeakerSelection,
+  type ISelectionStrategy,
+  type ModeratorOverrideResolver,
+  RoundRobinSelectionStrategy,
+  HighestBidSelectionStrategy,
+  WeightedLotterySelectionStrategy,
+  ThresholdSelectionStrategy,
+  ModeratorOverrideSelectionStrategy,
+  SelectionStrategyFactory,
+  resolveModeratorDirective
+} from "./selection_strategy.ts";
+
 // Advanced factory for creating specialized bidding strategies
 export { AdvancedBiddingStrategyFactory } from "./advanced_bidding_factory.ts";
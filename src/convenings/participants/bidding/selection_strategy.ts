@@ -0,0 +1,461 @@
+/**
+ * Speaker Selection Strategy Implementation
+ * Provides strategies for choosing the next speaker from a table of participant bids
+ */
+
+import { Bid } from "./bidding_strategy.ts";
+import { DialogueState } from "../../workflows/dialogue_workflow.ts";
+
+/**
+ * Context provided to a selection strategy for each turn
+ */
+export interface SelectionContext {
+  /**
+   * Current state of the dialogue
+   */
+  dialogueState: DialogueState;
+
+  /**
+   * Bids collected from every participant for this turn
+   */
+  bids: Bid[];
+}
+
+/**
+ * Decision made by a selection strategy
+ */
+export interface SpeakerSelection {
+  /**
+   * ID of the selected participant
+   */
+  participantId: string;
+
+  /**
+   * Name of the policy that made the decision
+   */
+  policy: string;
+
+  /**
+   * Explanation of why this participant was selected
+   */
+  reason: string;
+
+  /**
+   * Strength of the winning bid (if the selection was bid-driven)
+   */
+  winningBid?: number;
+
+  /**
+   * Optional additional metadata for the decision
+   */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Interface for speaker selection strategies
+ */
+export interface ISelectionStrategy {
+  /**
+   * Name of the selection policy
+   */
+  readonly name: string;
+
+  /**
+   * Select the next speaker based on the collected bids
+   *
+   * @param context - Context for the selection
+   * @returns The selection decision
+   */
+  selectSpeaker(context: SelectionContext): Promise<SpeakerSelection>;
+}
+
+/**
+ * Count the turns since a participant last spoke
+ *
+ * @param dialogueState - Current state of the dialogue
+ * @param participantId - ID of the participant
+ * @returns Number of turns since last spoke (Infinity if never)
+ */
+function turnsSinceLastSpoke(dialogueState: DialogueState, participantId: string): number {
+  const messages = dialogueState.messages;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].participantId === participantId) {
+      return messages.length - 1 - i;
+    }
+  }
+
+  return Infinity;
+}
+
+/**
+ * Get the participant whose turn it is under strict rotation
+ *
+ * @param dialogueState - Current state of the dialogue
+ * @returns ID of the participant next in rotation
+ */
+function roundRobinParticipant(dialogueState: DialogueState): string {
+  const participantIndex = dialogueState.currentTurn % dialogueState.participants.length;
+  return dialogueState.participants[participantIndex].id;
+}
+
+/**
+ * Selection strategy that ignores bids and rotates through participants
+ */
+export class RoundRobinSelectionStrategy implements ISelectionStrategy {
+  readonly name = "round_robin";
+
+  /**
+   * Select the participant next in rotation
+   *
+   * @param context - Context for the selection
+   * @returns The selection decision
+   */
+  selectSpeaker(context: SelectionContext): Promise<SpeakerSelection> {
+    return Promise.resolve({
+      participantId: roundRobinParticipant(context.dialogueState),
+      policy: this.name,
+      reason: `Round-robin rotation (turn ${context.dialogueState.currentTurn})`,
+    });
+  }
+}
+
+/**
+ * Selection strategy that picks the participant with the highest bid
+ * Ties are broken in favor of the participant who has waited longest
+ */
+export class HighestBidSelectionStrategy implements ISelectionStrategy {
+  readonly name = "highest_bid";
+
+  /**
+   * Select the participant with the highest bid
+   *
+   * @param context - Context for the selection
+   * @returns The selection decision
+   */
+  selectSpeaker(context: SelectionContext): Promise<SpeakerSelection> {
+    const { bids, dialogueState } = context;
+
+    if (bids.length === 0) {
+      return Promise.reject(new Error("Cannot select a speaker without any bids"));
+    }
+
+    const winner = bids.reduce((best, bid) => {
+      if (bid.strength > best.strength) {
+        return bid;
+      }
+
+      if (bid.strength === best.strength &&
+          turnsSinceLastSpoke(dialogueState, bid.participantId) >
+          turnsSinceLastSpoke(dialogueState, best.participantId)) {
+        return bid;
+      }
+
+      return best;
+    });
+
+    return Promise.resolve({
+      participantId: winner.participantId,
+      policy: this.name,
+      reason: `Highest bid (${winner.strength.toFixed(2)}): ${winner.reason}`,
+      winningBid: winner.strength,
+    });
+  }
+}
+
+/**
+ * Selection strategy that draws a speaker at random, weighted by bid strength
+ */
+export class WeightedLotterySelectionStrategy implements ISelectionStrategy {
+  readonly name = "weighted_lottery";
+  private random: () => number;
+
+  /**
+   * Create a new weighted lottery selection strategy
+   *
+   * @param random - Random number source returning values in [0, 1)
+   */
+  constructor(random: () => number = Math.random) {
+    this.random = random;
+  }
+
+  /**
+   * Select a participant with probability proportional to their bid
+   *
+   * @param context - Context for the selection
+   * @returns The selection decision
+   */
+  selectSpeaker(context: SelectionContext): Promise<SpeakerSelection> {
+    const { bids } = context;
+
+    if (bids.length === 0) {
+      return Promise.reject(new Error("Cannot select a speaker without any bids"));
+    }
+
+    const totalStrength = bids.reduce((sum, bid) => sum + Math.max(0, bid.strength), 0);
+
+    // With no positive bids every participant gets an equal ticket
+    const tickets = bids.map(bid =>
+      totalStrength > 0 ? Math.max(0, bid.strength) / totalStrength : 1 / bids.length
+    );
+
+    const draw = this.random();
+    let cumulative = 0;
+    let winnerIndex = bids.length - 1;
+
+    for (let i = 0; i < tickets.length; i++) {
+      cumulative += tickets[i];
+      if (draw < cumulative) {
+        winnerIndex = i;
+        break;
+      }
+    }
+
+    const winner = bids[winnerIndex];
+
+    return Promise.resolve({
+      participantId: winner.participantId,
+      policy: this.name,
+      reason: `Won weighted lottery with ${(tickets[winnerIndex] * 100).toFixed(0)}% chance: ${winner.reason}`,
+      winningBid: winner.strength,
+      metadata: {
+        draw,
+        probabilities: Object.fromEntries(
+          bids.map((bid, i) => [bid.participantId, tickets[i]])
+        ),
+      },
+    });
+  }
+}
+
+/**
+ * Selection strategy that only lets a participant take the floor when their bid
+ * clears a threshold, falling back to round-robin rotation otherwise
+ */
+export class ThresholdSelectionStrategy implements ISelectionStrategy {
+  readonly name = "threshold";
+  private threshold: number;
+  private fallback: ISelectionStrategy;
+
+  /**
+   * Create a new threshold selection strategy
+   *
+   * @param threshold - Minimum bid strength needed to take the floor (0.0 to 1.0)
+   */
+  constructor(threshold: number = 0.7) {
+    this.threshold = Math.max(0, Math.min(1, threshold));
+    this.fallback = new RoundRobinSelectionStrategy();
+  }
+
+  /**
+   * Select the highest bidder above the threshold, or rotate if none qualify
+   *
+   * @param context - Context for the selection
+   * @returns The selection decision
+   */
+  async selectSpeaker(context: SelectionContext): Promise<SpeakerSelection> {
+    const qualifyingBids = context.bids.filter(bid => bid.strength >= this.threshold);
+
+    if (qualifyingBids.length > 0) {
+      const selection = await new HighestBidSelectionStrategy().selectSpeaker({
+        ...context,
+        bids: qualifyingBids,
+      });
+
+      return {
+        ...selection,
+        policy: this.name,
+        reason: `Bid cleared threshold ${this.threshold.toFixed(2)}. ${selection.reason}`,
+      };
+    }
+
+    const selection = await this.fallback.selectSpeaker(context);
+
+    return {
+      ...selection,
+      policy: this.name,
+      reason: `No bid cleared threshold ${this.threshold.toFixed(2)}. ${selection.reason}`,
+      metadata: { fallback: this.fallback.name },
+    };
+  }
+}
+
+/**
+ * Function that decides whether the moderator is overriding the next speaker
+ * Returns the ID of the participant to select, or undefined to defer to bids
+ */
+export type ModeratorOverrideResolver = (
+  context: SelectionContext,
+  moderatorId: string
+) => string | undefined | Promise<string | undefined>;
+
+/**
+ * Default override resolver
+ * Looks for a "Next speaker: <name>" directive or an @mention of a participant
+ * name in the moderator's most recent message
+ *
+ * @param context - Context for the selection
+ * @param moderatorId - ID of the moderator
+ * @returns ID of the requested participant, if any
+ */
+export function resolveModeratorDirective(
+  context: SelectionContext,
+  moderatorId: string
+): string | undefined {
+  const { messages, participants } = context.dialogueState;
+  const lastMessage = messages[messages.length - 1];
+
+  // Only a directive in the message just spoken by the moderator counts
+  if (!lastMessage || lastMessage.participantId !== moderatorId) {
+    return undefined;
+  }
+
+  const content = lastMessage.content.toLowerCase();
+  const directive = content.match(/next speaker:\s*([^\n.,!?]+)/);
+
+  for (const participant of participants) {
+    if (participant.id === moderatorId) {
+      continue;
+    }
+
+    const name = participant.name.toLowerCase();
+
+    if ((directive && directive[1].trim().startsWith(name)) ||
+        content.includes(`@${name}`) ||
+        content.includes(`@${participant.id.toLowerCase()}`)) {
+      return participant.id;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Selection strategy that lets a moderator hand the floor to a specific participant,
+ * deferring to another selection strategy when no override is given
+ */
+export class ModeratorOverrideSelectionStrategy implements ISelectionStrategy {
+  readonly name = "moderator_override";
+  private moderatorId: string;
+  private fallback: ISelectionStrategy;
+  private resolveOverride: ModeratorOverrideResolver;
+
+  /**
+   * Create a new moderator override selection strategy
+   *
+   * @param moderatorId - ID of the moderating participant
+   * @param fallback - Strategy to use when the moderator does not override
+   * @param resolveOverride - Function that extracts the moderator's choice
+   */
+  constructor(
+    moderatorId: string,
+    fallback: ISelectionStrategy = new HighestBidSelectionStrategy(),
+    resolveOverride: ModeratorOverrideResolver = resolveModeratorDirective
+  ) {
+    this.moderatorId = moderatorId;
+    this.fallback = fallback;
+    this.resolveOverride = resolveOverride;
+  }
+
+  /**
+   * Select the participant named by the moderator, or defer to the fallback
+   *
+   * @param context - Context for the selection
+   * @returns The selection decision
+   */
+  async selectSpeaker(context: SelectionContext): Promise<SpeakerSelection> {
+    const overrideId = await this.resolveOverride(context, this.moderatorId);
+
+    if (overrideId && context.dialogueState.participants.some(p => p.id === overrideId)) {
+      const bid = context.bids.find(b => b.participantId === overrideId);
+
+      return {
+        participantId: overrideId,
+        policy: this.name,
+        reason: `Moderator ${this.moderatorId} gave the floor to ${overrideId}`,
+        winningBid: bid?.strength,
+        metadata: { overridden: true },
+      };
+    }
+
+    const selection = await this.fallback.selectSpeaker(context);
+
+    return {
+      ...selection,
+      policy: this.name,
+      metadata: {
+        ...selection.metadata,
+        overridden: false,
+        fallback: this.fallback.name,
+      },
+    };
+  }
+}
+
+/**
+ * Factory for creating speaker selection strategies
+ */
+export class SelectionStrategyFactory {
+  /**
+   * Create a round-robin selection strategy
+   *
+   * @returns New round-robin selection strategy
+   */
+  static createRoundRobinStrategy(): ISelectionStrategy {
+    return new RoundRobinSelectionStrategy();
+  }
+
+  /**
+   * Create a highest-bid selection strategy
+   *
+   * @returns New highest-bid selection strategy
+   */
+  static createHighestBidStrategy(): ISelectionStrategy {
+    return new HighestBidSelectionStrategy();
+  }
+
+  /**
+   * Create a weighted lottery selection strategy
+   *
+   * @param random - Random number source returning values in [0, 1)
+   * @returns New weighted lottery selection strategy
+   */
+  static createWeightedLotteryStrategy(random?: () => number): ISelectionStrategy {
+    return new WeightedLotterySelectionStrategy(random);
+  }
+
+  /**
+   * Create a threshold selection strategy with round-robin fallback
+   *
+   * @param threshold - Minimum bid strength needed to take the floor
+   * @returns New threshold selection strategy
+   */
+  static createThresholdStrategy(threshold?: number): ISelectionStrategy {
+    return new ThresholdSelectionStrategy(threshold);
+  }
+
+  /**
+   * Create a moderator override selection strategy
+   *
+   * @param moderatorId - ID of the moderating participant
+   * @param fallback - Strategy to use when the moderator does not override
+   * @param resolveOverride - Function that extracts the moderator's choice
+   * @returns New moderator override selection strategy
+   */
+  static createModeratorOverrideStrategy(
+    moderatorId: string,
+    fallback?: ISelectionStrategy,
+    resolveOverride?: ModeratorOverrideResolver
+  ): ISelectionStrategy {
+    return new ModeratorOverrideSelectionStrategy(moderatorId, fallback, resolveOverride);
+  }
+
+  /**
+   * Create the default selection strategy for dialogues
+   *
+   * @returns Default selection strategy (round-robin)
+   */
+  static createDefaultStrategy(): ISelectionStrategy {
+    return this.createRoundRobinStrategy();
+  }
+}
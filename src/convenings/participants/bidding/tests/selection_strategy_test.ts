@@ -0,0 +1,190 @@
+/**
+ * Tests for speaker selection strategies
+ *
+ * Verifies that selection policies choose speakers from bids correctly and
+ * that DialogueWorkflow records the bid table for each turn.
+ */
+
+import { assertEquals, assertExists } from "https://deno.land/std/testing/asserts.ts";
+import {
+  Bid,
+  HighestBidSelectionStrategy,
+  ModeratorOverrideSelectionStrategy,
+  RoundRobinSelectionStrategy,
+  SelectionStrategyFactory,
+  ThresholdSelectionStrategy,
+  WeightedLotterySelectionStrategy
+} from "../mod.ts";
+import {
+  createDialogueWorkflow,
+  DialogueParticipant,
+  DialogueState
+} from "../../../workflows/dialogue_workflow.ts";
+
+// Mock participants for testing
+const createMockParticipant = (id: string, bidStrength?: number): DialogueParticipant => ({
+  id,
+  name: id.charAt(0).toUpperCase() + id.slice(1),
+  agent: {
+    id: `${id}-agent`,
+    execute: (_input: string) => Promise.resolve(`Response from ${id}`),
+  },
+  calculateBid: bidStrength === undefined ? undefined : () => Promise.resolve({
+    participantId: id,
+    strength: bidStrength,
+    reason: `Fixed bid from ${id}`,
+  }),
+});
+
+// Mock dialogue state for testing
+const createMockState = (
+  messages: Array<{ participantId: string; content: string }> = [],
+  currentTurn = 0
+): DialogueState => ({
+  id: "test-dialogue",
+  topic: "Testing",
+  participants: ["alice", "bob", "carol"].map(id => createMockParticipant(id)),
+  messages: messages.map(m => ({ ...m, timestamp: Date.now() })),
+  currentTurn,
+  isComplete: false,
+  startTime: Date.now(),
+  context: {},
+});
+
+const createBids = (strengths: Record<string, number>): Bid[] =>
+  Object.entries(strengths).map(([participantId, strength]) => ({
+    participantId,
+    strength,
+    reason: "test",
+  }));
+
+Deno.test("RoundRobinSelectionStrategy - rotates by turn number", async () => {
+  const strategy = new RoundRobinSelectionStrategy();
+  const bids = createBids({ alice: 0.1, bob: 0.9, carol: 0.5 });
+
+  const selection = await strategy.selectSpeaker({
+    dialogueState: createMockState([], 4),
+    bids,
+  });
+
+  assertEquals(selection.participantId, "bob");
+  assertEquals(selection.policy, "round_robin");
+});
+
+Deno.test("HighestBidSelectionStrategy - picks highest bid and breaks ties by waiting time", async () => {
+  const strategy = new HighestBidSelectionStrategy();
+
+  const selection = await strategy.selectSpeaker({
+    dialogueState: createMockState(),
+    bids: createBids({ alice: 0.3, bob: 0.8, carol: 0.5 }),
+  });
+  assertEquals(selection.participantId, "bob");
+  assertEquals(selection.winningBid, 0.8);
+
+  // Alice spoke most recently, so Carol wins the tie
+  const tied = await strategy.selectSpeaker({
+    dialogueState: createMockState([
+      { participantId: "carol", content: "First" },
+      { participantId: "alice", content: "Second" },
+    ]),
+    bids: createBids({ alice: 0.6, bob: 0.2, carol: 0.6 }),
+  });
+  assertEquals(tied.participantId, "carol");
+});
+
+Deno.test("WeightedLotterySelectionStrategy - draws proportionally to bid strength", async () => {
+  const bids = createBids({ alice: 0.2, bob: 0.2, carol: 0.6 });
+
+  const low = await new WeightedLotterySelectionStrategy(() => 0.1)
+    .selectSpeaker({ dialogueState: createMockState(), bids });
+  const high = await new WeightedLotterySelectionStrategy(() => 0.5)
+    .selectSpeaker({ dialogueState: createMockState(), bids });
+
+  assertEquals(low.participantId, "alice");
+  assertEquals(high.participantId, "carol");
+  assertExists(high.metadata?.probabilities);
+});
+
+Deno.test("ThresholdSelectionStrategy - falls back to rotation when no bid qualifies", async () => {
+  const strategy = new ThresholdSelectionStrategy(0.7);
+
+  const qualified = await strategy.selectSpeaker({
+    dialogueState: createMockState([], 0),
+    bids: createBids({ alice: 0.2, bob: 0.4, carol: 0.75 }),
+  });
+  assertEquals(qualified.participantId, "carol");
+
+  const fallback = await strategy.selectSpeaker({
+    dialogueState: createMockState([], 1),
+    bids: createBids({ alice: 0.2, bob: 0.4, carol: 0.5 }),
+  });
+  assertEquals(fallback.participantId, "bob");
+  assertEquals(fallback.metadata?.fallback, "round_robin");
+});
+
+Deno.test("ModeratorOverrideSelectionStrategy - honors moderator directives", async () => {
+  const strategy = new ModeratorOverrideSelectionStrategy("alice");
+  const bids = createBids({ alice: 0.1, bob: 0.9, carol: 0.2 });
+
+  const overridden = await strategy.selectSpeaker({
+    dialogueState: createMockState([
+      { participantId: "alice", content: "Thank you. Next speaker: Carol, please." },
+    ]),
+    bids,
+  });
+  assertEquals(overridden.participantId, "carol");
+  assertEquals(overridden.metadata?.overridden, true);
+
+  const deferred = await strategy.selectSpeaker({
+    dialogueState: createMockState([
+      { participantId: "bob", content: "Next speaker: Carol" },
+    ]),
+    bids,
+  });
+  assertEquals(deferred.participantId, "bob");
+  assertEquals(deferred.metadata?.overridden, false);
+});
+
+Deno.test("DialogueWorkflow - records bid table and selection for each turn", async () => {
+  const workflow = createDialogueWorkflow(
+    "Testing",
+    [
+      createMockParticipant("alice", 0.2),
+      createMockParticipant("bob", 0.9),
+      createMockParticipant("carol"),
+    ],
+    {
+      maxTurns: 1,
+      selectionStrategy: SelectionStrategyFactory.createHighestBidStrategy(),
+    }
+  );
+
+  const result = await workflow.run();
+
+  assertEquals(result.messages.length, 2);
+  assertEquals(result.messages[0].participantId, "bob");
+
+  const bids = result.messages[0].metadata?.bids as Bid[];
+  assertEquals(bids.length, 3);
+  assertEquals(bids.find(b => b.participantId === "alice")?.strength, 0.2);
+  assertExists(bids.find(b => b.participantId === "carol"));
+  assertEquals(
+    (result.messages[0].metadata?.selection as { policy: string }).policy,
+    "highest_bid"
+  );
+});
+
+Deno.test("DialogueWorkflow - defaults to round-robin selection", async () => {
+  const workflow = createDialogueWorkflow(
+    "Testing",
+    [createMockParticipant("alice", 0.1), createMockParticipant("bob", 0.9)],
+    { maxTurns: 2 }
+  );
+
+  const result = await workflow.run();
+
+  assertEquals(
+    result.messages.map(m => m.participantId),
+    ["alice", "bob", "alice"]
+  );
+});
@@ -4,14 +4,18 @@
  */
 
 import { IAgent, IAgentConfig } from "../../utils/interfaces.ts";
+import { executeAgent, TokenListener } from "../../utils/agent_utils.ts";
 import { DialogueParticipant, DialogueParticipantConfig } from "./dialogue_participant.ts";
 import { MotivatedDialogueParticipant, MotivatedDialogueParticipantConfig } from "./motivated_dialogue_participant.ts";
 import { DialogueState, DialogueMessage } from "../workflows/dialogue_workflow.ts";
+import { IResource } from "../interfaces.ts";
+import { DialogueTurn, MotivationState } from "./motivations/interfaces.ts";
+import { PersuasionMotivation, PersuasionTarget } from "./motivations/persuasion_motivation.ts";
 
 /**
  * Debate role types
  */
-export type DebateRole = "moderator" | "position_advocate" | "fact_checker";
+export type DebateRole = "moderator" | "position_advocate" | "fact_checker" | "judge" | "audience";
 
 /**
  * Debate format types
@@ -36,6 +40,13 @@ export interface DebateParticipantConfig extends MotivatedDialogueParticipantCon
    * Preferred debate format
    */
   preferredFormat?: DebateFormat;
+  
+  /**
+   * Motivation to win the other participants over to the advocate's position
+   * When set, prompts point the advocate at attacks on the position and at the
+   * participant most open to persuasion
+   */
+  persuasion?: PersuasionMotivation;
 }
 
 /**
@@ -71,6 +82,151 @@ export interface ParticipantScore {
    * Scores for individual criteria
    */
   breakdown: Record<string, CriterionScore>;
+  
+  /**
+   * Whether the score fell back to a default because the scorer's response could not be parsed
+   */
+  defaulted?: boolean;
+}
+
+/**
+ * Verdict on a factual claim
+ */
+export type FactCheckVerdict = "supported" | "disputed" | "unverifiable";
+
+/**
+ * Document in an evidence corpus used for fact-checking
+ */
+export interface EvidenceDocument {
+  /**
+   * Unique identifier for the document, used in citations
+   */
+  id: string;
+  
+  /**
+   * Title of the document
+   */
+  title?: string;
+  
+  /**
+   * Text of the document
+   */
+  content: string;
+  
+  /**
+   * Where the document comes from, such as a URL or publication
+   */
+  source?: string;
+}
+
+/**
+ * Evidence cited for a verdict
+ */
+export interface EvidenceCitation {
+  /**
+   * ID of the evidence document or resource
+   */
+  sourceId: string;
+  
+  /**
+   * Display name of the source, if known
+   */
+  source?: string;
+  
+  /**
+   * Relevant excerpt from the evidence
+   */
+  excerpt: string;
+}
+
+/**
+ * Verdict on a single claim
+ */
+export interface ClaimCheck {
+  /**
+   * Claim that was checked
+   */
+  claim: string;
+  
+  /**
+   * Verdict on the claim
+   */
+  verdict: FactCheckVerdict;
+  
+  /**
+   * Explanation of the verdict
+   */
+  explanation: string;
+  
+  /**
+   * Evidence the verdict relies on
+   */
+  citations: EvidenceCitation[];
+}
+
+/**
+ * Fact-checker's report on an argument
+ */
+export interface FactCheckReport {
+  /**
+   * ID of the fact-checker
+   */
+  checkerId: string;
+  
+  /**
+   * ID of the participant whose argument was checked
+   */
+  speakerId: string;
+  
+  /**
+   * Turn number of the fact-check
+   */
+  turnNumber?: number;
+  
+  /**
+   * Verdicts on the argument's claims
+   */
+  claims: ClaimCheck[];
+}
+
+/**
+ * Moderator's assessment of whether an answer addresses its question
+ */
+export interface AnswerRelevance {
+  /**
+   * Whether the answer addresses the question
+   */
+  relevant: boolean;
+  
+  /**
+   * Explanation of the assessment
+   */
+  reason: string;
+}
+
+/**
+ * Audience member's stance on a motion
+ */
+export type AudienceVote = "for" | "against" | "undecided";
+
+/**
+ * Audience member's vote in a poll on the motion
+ */
+export interface AudienceBallot {
+  /**
+   * ID of the audience member
+   */
+  memberId: string;
+  
+  /**
+   * Stance on the motion
+   */
+  vote: AudienceVote;
+  
+  /**
+   * Reason given for the stance
+   */
+  reason: string;
 }
 
 /**
@@ -92,6 +248,26 @@ export class DebateParticipant extends MotivatedDialogueParticipant {
    */
   readonly preferredFormat: DebateFormat;
   
+  /**
+   * Motivation to win the other participants over to the advocate's position
+   */
+  readonly persuasion?: PersuasionMotivation;
+  
+  /**
+   * State of the persuasion motivation
+   */
+  private persuasionState?: MotivationState;
+  
+  /**
+   * Number of debate messages already applied to the persuasion state
+   */
+  private persuasionMessageCount = 0;
+  
+  /**
+   * Names of the other debate participants, keyed by participant ID
+   */
+  private debaterNames: Record<string, string> = {};
+  
   /**
    * Create a new debate participant
    * 
@@ -110,6 +286,18 @@ export class DebateParticipant extends MotivatedDialogueParticipant {
     this.debateRole = config.debateRole || "position_advocate";
     this.position = config.position;
     this.preferredFormat = config.preferredFormat || "formal";
+    this.persuasion = config.persuasion;
+    
+    if (this.persuasion) {
+      this.persuasionState = {
+        satisfaction: 0.5,
+        urgency: 0.5,
+        agreement: new Map<string, number>(),
+        topicsAddressed: new Set<string>(),
+        emotionalState: { valence: 0, arousal: 0.5 },
+        metadata: {},
+      };
+    }
     
     // Validate configuration
     if (this.debateRole === "position_advocate" && !this.position) {
@@ -121,22 +309,24 @@ export class DebateParticipant extends MotivatedDialogueParticipant {
    * Generate an opening statement
    * 
    * @param prompt - Base prompt
+   * @param onToken - Optional listener for streamed response chunks
    * @returns Opening statement
    */
-  async generateOpeningStatement(prompt: string): Promise<string> {
+  async generateOpeningStatement(prompt: string, onToken?: TokenListener): Promise<string> {
     const enhancedPrompt = this.enhancePromptForDebate(prompt, "opening_statement");
-    return this.agent.execute(enhancedPrompt);
+    return executeAgent(this.agent, enhancedPrompt, onToken);
   }
   
   /**
    * Generate an argument
    * 
    * @param prompt - Base prompt
+   * @param onToken - Optional listener for streamed response chunks
    * @returns Argument
    */
-  async generateArgument(prompt: string): Promise<string> {
+  async generateArgument(prompt: string, onToken?: TokenListener): Promise<string> {
     const enhancedPrompt = this.enhancePromptForDebate(prompt, "argument");
-    return this.agent.execute(enhancedPrompt);
+    return executeAgent(this.agent, enhancedPrompt, onToken);
   }
   
   /**
@@ -144,25 +334,125 @@ export class DebateParticipant extends MotivatedDialogueParticipant {
    * 
    * @param prompt - Base prompt
    * @param targetArgument - Argument to rebut
+   * @param onToken - Optional listener for streamed response chunks
    * @returns Rebuttal
    */
-  async generateRebuttal(prompt: string, targetArgument: string): Promise<string> {
+  async generateRebuttal(
+    prompt: string,
+    targetArgument: string,
+    onToken?: TokenListener
+  ): Promise<string> {
     const enhancedPrompt = this.enhancePromptForDebate(
       `${prompt}\n\nOpponent's argument: ${targetArgument}`, 
       "rebuttal"
     );
-    return this.agent.execute(enhancedPrompt);
+    return executeAgent(this.agent, enhancedPrompt, onToken);
   }
   
   /**
    * Generate a closing statement
    * 
    * @param prompt - Base prompt
+   * @param onToken - Optional listener for streamed response chunks
    * @returns Closing statement
    */
-  async generateClosingStatement(prompt: string): Promise<string> {
+  async generateClosingStatement(prompt: string, onToken?: TokenListener): Promise<string> {
     const enhancedPrompt = this.enhancePromptForDebate(prompt, "closing_statement");
-    return this.agent.execute(enhancedPrompt);
+    return executeAgent(this.agent, enhancedPrompt, onToken);
+  }
+  
+  /**
+   * Ask a question during cross-examination
+   * 
+   * @param prompt - Base prompt
+   * @param onToken - Optional listener for streamed response chunks
+   * @returns Cross-examination question
+   */
+  generateCrossExaminationQuestion(prompt: string, onToken?: TokenListener): Promise<string> {
+    const enhancedPrompt = this.enhancePromptForDebate(prompt, "cross_examination_question");
+    return executeAgent(this.agent, enhancedPrompt, onToken);
+  }
+  
+  /**
+   * Answer a question during cross-examination
+   * 
+   * @param prompt - Base prompt
+   * @param question - Question to answer
+   * @param onToken - Optional listener for streamed response chunks
+   * @returns Answer to the question
+   */
+  generateCrossExaminationAnswer(
+    prompt: string,
+    question: string,
+    onToken?: TokenListener
+  ): Promise<string> {
+    const enhancedPrompt = this.enhancePromptForDebate(
+      `${prompt}\n\nQuestion from your opponent: ${question}`,
+      "cross_examination_answer"
+    );
+    return executeAgent(this.agent, enhancedPrompt, onToken);
+  }
+  
+  /**
+   * Update the persuasion state with the debate messages not seen yet
+   * Other advocates start close to the position if they share it and far from it otherwise;
+   * messages from moderators, judges and fact-checkers are not taken as stances
+   * 
+   * @param messages - Debate transcript
+   * @param debaters - Participants in the debate
+   */
+  observeDebate(messages: DialogueMessage[], debaters: DebateParticipant[]): void {
+    if (!this.persuasion || !this.persuasionState) {
+      return;
+    }
+    
+    for (const debater of debaters) {
+      if (debater.id === this.id) continue;
+      
+      this.debaterNames[debater.id] = debater.name;
+      
+      if (debater.debateRole === "position_advocate" && !this.persuasionState.agreement.has(debater.id)) {
+        this.persuasionState.agreement.set(debater.id, debater.position === this.position ? 1 : 0.2);
+      }
+    }
+    
+    const neutral = new Set(
+      debaters
+        .filter(d => d.debateRole === "moderator" || d.debateRole === "judge" || d.debateRole === "fact_checker")
+        .map(d => d.id)
+    );
+    const history: DialogueTurn[] = messages.map(m => ({
+      participantId: m.participantId,
+      message: m.content,
+      timestamp: m.timestamp,
+      metadata: m.metadata,
+    }));
+    const participants = debaters.map(d => ({ id: d.id, execute: (input: string) => d.agent.execute(input) }));
+    
+    for (let i = this.persuasionMessageCount; i < history.length; i++) {
+      const turn = history[i];
+      if (turn.participantId === this.id || neutral.has(turn.participantId)) continue;
+      
+      this.persuasionState = this.persuasion.updateState(this.persuasionState, turn, {
+        history: history.slice(0, i + 1),
+        topics: [this.persuasion.targetPosition],
+        participants,
+        metadata: {},
+      });
+    }
+    
+    this.persuasionMessageCount = history.length;
+  }
+  
+  /**
+   * Get the participant most open to being won over to this advocate's position
+   * 
+   * @returns The most persuadable participant, or undefined without a persuasion motivation
+   */
+  getPersuasionTarget(): PersuasionTarget | undefined {
+    return this.persuasion && this.persuasionState
+      ? this.persuasion.getMostPersuadable(this.persuasionState, [this.id])
+      : undefined;
   }
   
   /**
@@ -187,6 +477,9 @@ export class DebateParticipant extends MotivatedDialogueParticipant {
     // Statement-specific guidance
     const statementGuidance = this.getStatementGuidance(statementType);
     
+    // Persuasion guidance (for advocates with a persuasion motivation)
+    const persuasionGuidance = this.getPersuasionGuidance();
+    
     // Combine all guidance
     const guidance = [
       "You are participating in a structured debate.",
@@ -194,6 +487,7 @@ export class DebateParticipant extends MotivatedDialogueParticipant {
       roleGuidance,
       positionGuidance,
       statementGuidance,
+      persuasionGuidance,
     ].filter(Boolean).join("\n");
     
     // Return enhanced prompt
@@ -204,6 +498,36 @@ export class DebateParticipant extends MotivatedDialogueParticipant {
     ].join("\n");
   }
   
+  /**
+   * Get guidance from the persuasion motivation
+   * 
+   * @returns Persuasion guidance
+   */
+  private getPersuasionGuidance(): string {
+    if (!this.persuasionState) {
+      return "";
+    }
+    
+    const guidance: string[] = [];
+    
+    if (this.persuasionState.metadata.positionAttacked) {
+      guidance.push("Your position has just been attacked. Defend it directly before moving on.");
+    }
+    
+    const target = this.getPersuasionTarget();
+    
+    if (target) {
+      const name = this.debaterNames[target.participantId] ?? target.participantId;
+      guidance.push(
+        `${name} is the participant most open to your position` +
+        (target.wavering ? " and has started to waver" : "") +
+        ". Address their concerns directly and give them reasons to move toward your side."
+      );
+    }
+    
+    return guidance.join(" ");
+  }
+  
   /**
    * Get guidance for the debate format
    * 
@@ -245,6 +569,12 @@ export class DebateParticipant extends MotivatedDialogueParticipant {
       case "fact_checker":
         return "Your role is to verify factual claims, provide corrections when necessary, and ensure the debate is grounded in accurate information.";
       
+      case "judge":
+        return "Your role is to evaluate each argument independently and impartially against the scoring criteria.";
+      
+      case "audience":
+        return "Your role is to listen to the debate as a member of the audience and decide where you stand on the motion.";
+      
       default:
         return "";
     }
@@ -270,6 +600,12 @@ export class DebateParticipant extends MotivatedDialogueParticipant {
       case "closing_statement":
         return "This is a closing statement. Summarize your strongest arguments, address key counterarguments, and leave a compelling final impression.";
       
+      case "cross_examination_question":
+        return "This is cross-examination. Ask your opponent one direct, pointed question that tests a weakness in their case. Ask only the question, without making a speech.";
+      
+      case "cross_examination_answer":
+        return "You are being cross-examined. Answer the question directly and concisely before adding any brief clarification. Do not evade or change the subject.";
+      
       default:
         return "";
     }
@@ -303,7 +639,8 @@ export class DebateModeratorParticipant extends DebateParticipant {
   ) {
     super({
       ...config,
-      debateRole: "moderator",
+      // Judges share the moderator's scoring but take no part in running the debate
+      debateRole: config.debateRole === "judge" ? "judge" : "moderator",
       primaryMotivation: config.primaryMotivation || "facilitation",
       dialogueStyle: config.dialogueStyle || "analytical",
     }, agent);
@@ -322,9 +659,14 @@ export class DebateModeratorParticipant extends DebateParticipant {
    * 
    * @param phase - Debate phase
    * @param context - Additional context
+   * @param onToken - Optional listener for streamed response chunks
    * @returns Phase introduction
    */
-  async generatePhaseIntroduction(phase: string, context?: string): Promise<string> {
+  async generatePhaseIntroduction(
+    phase: string,
+    context?: string,
+    onToken?: TokenListener
+  ): Promise<string> {
     const prompt = `
 You are moderating a debate. It's time to introduce the ${phase} phase.
 
@@ -333,7 +675,7 @@ ${context ? `Context: ${context}` : ""}
 Please provide a clear and concise introduction to this phase, explaining what will happen and what is expected of the participants.
     `;
     
-    return this.agent.execute(prompt);
+    return executeAgent(this.agent, prompt, onToken);
   }
   
   /**
@@ -342,12 +684,14 @@ Please provide a clear and concise introduction to this phase, explaining what w
    * @param fromParticipant - Previous speaker
    * @param toParticipant - Next speaker
    * @param context - Additional context
+   * @param onToken - Optional listener for streamed response chunks
    * @returns Speaker transition
    */
   async generateSpeakerTransition(
     fromParticipant: DialogueParticipant,
     toParticipant: DialogueParticipant,
-    context?: string
+    context?: string,
+    onToken?: TokenListener
   ): Promise<string> {
     const prompt = `
 You are moderating a debate. It's time to transition from ${fromParticipant.name} to ${toParticipant.name}.
@@ -357,7 +701,7 @@ ${context ? `Context: ${context}` : ""}
 Please provide a brief transition that acknowledges the previous speaker and introduces the next speaker.
     `;
     
-    return this.agent.execute(prompt);
+    return executeAgent(this.agent, prompt, onToken);
   }
   
   /**
@@ -365,9 +709,14 @@ Please provide a brief transition that acknowledges the previous speaker and int
    * 
    * @param roundNumber - Round number
    * @param messages - Messages in the round
+   * @param onToken - Optional listener for streamed response chunks
    * @returns Round summary
    */
-  async generateRoundSummary(roundNumber: number, messages: DialogueMessage[]): Promise<string> {
+  async generateRoundSummary(
+    roundNumber: number,
+    messages: DialogueMessage[],
+    onToken?: TokenListener
+  ): Promise<string> {
     // Extract messages as a formatted string
     const messagesText = messages.map(msg => 
       `${msg.participantId}: ${msg.content}`
@@ -383,16 +732,20 @@ ${messagesText}
 Please provide a brief, neutral summary of the key points made in this round, highlighting areas of agreement and disagreement.
     `;
     
-    return this.agent.execute(prompt);
+    return executeAgent(this.agent, prompt, onToken);
   }
   
   /**
    * Generate a debate conclusion
    * 
    * @param dialogueState - Final state of the dialogue
+   * @param onToken - Optional listener for streamed response chunks
    * @returns Debate conclusion
    */
-  async generateDebateConclusion(dialogueState: DialogueState): Promise<string> {
+  async generateDebateConclusion(
+    dialogueState: DialogueState,
+    onToken?: TokenListener
+  ): Promise<string> {
     // Get participant names
     const participantNames = dialogueState.participants
       .map(p => p.name)
@@ -422,7 +775,75 @@ Please provide a conclusion for the debate that:
 4. Concludes the event without declaring a winner
     `;
     
-    return this.agent.execute(prompt);
+    return executeAgent(this.agent, prompt, onToken);
+  }
+  
+  /**
+   * Assess whether a cross-examination answer addresses its question
+   * 
+   * @param question - Question that was asked
+   * @param answer - Answer that was given
+   * @returns Relevance assessment
+   */
+  async assessAnswerRelevance(question: string, answer: string): Promise<AnswerRelevance> {
+    const prompt = `
+You are moderating the cross-examination phase of a debate.
+
+Question: ${question}
+
+Answer: ${answer}
+
+Decide whether the answer directly addresses the question. Evasive answers, answers
+to a different question, and speeches that ignore the question are not relevant.
+
+Important: Your response must be formatted EXACTLY as follows (JSON object only, no other text):
+{"relevant": true, "reason": "..."}
+    `;
+    
+    const response = await this.agent.execute(prompt);
+    
+    try {
+      // Extract JSON from response (in case model adds surrounding text)
+      const jsonMatch = response.match(/\{[\s\S]*\}/);
+      const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : response);
+      
+      return {
+        relevant: parsed.relevant !== false,
+        reason: String(parsed.reason ?? ""),
+      };
+    } catch (error) {
+      console.error("Error parsing relevance response:", error);
+      
+      // Give the witness the benefit of the doubt on error
+      return { relevant: true, reason: "Relevance could not be assessed" };
+    }
+  }
+  
+  /**
+   * Generate a ruling directing a witness to answer the question
+   * 
+   * @param witness - Participant who gave an irrelevant answer
+   * @param question - Question that must be answered
+   * @param reason - Why the answer was not relevant
+   * @param onToken - Optional listener for streamed response chunks
+   * @returns Moderator's ruling
+   */
+  generateRelevanceRuling(
+    witness: DialogueParticipant,
+    question: string,
+    reason: string,
+    onToken?: TokenListener
+  ): Promise<string> {
+    const prompt = `
+You are moderating the cross-examination phase of a debate.
+${witness.name} did not directly answer the question: "${question}"
+
+Reason: ${reason}
+
+Briefly and neutrally rule that the answer was not responsive and direct ${witness.name} to answer the question.
+    `;
+    
+    return executeAgent(this.agent, prompt, onToken);
   }
   
   /**
@@ -431,20 +852,30 @@ Please provide a conclusion for the debate that:
    * @param participantId - ID of the participant
    * @param argument - Argument to score
    * @param context - Dialogue context
+   * @param criteria - Criteria weights for this argument, overriding the moderator's weights
+   * @param factChecks - Fact-check verdicts on the argument's claims, blended into evidence quality
    * @returns Argument score
    */
   async scoreArgument(
     participantId: string,
     argument: string,
-    context: string
+    context: string,
+    criteria?: Record<string, number>,
+    factChecks: ClaimCheck[] = []
   ): Promise<ParticipantScore> {
+    const scoringCriteria = criteria ? { ...this.scoringCriteria, ...criteria } : this.scoringCriteria;
+    const factCheckScore = scoreFactChecks(factChecks);
+    const verdicts = factChecks
+      .map(check => `- "${check.claim}": ${check.verdict} (${check.explanation})`)
+      .join("\n");
+    
     const prompt = `
 You are evaluating an argument in a debate.
 
 Context: ${context}
 
 Argument to evaluate: ${argument}
-
+${verdicts ? `\nFact-check verdicts on this argument's claims:\n${verdicts}\nTake these verdicts into account when scoring evidence quality.\n` : ""}
 Please score this argument on the following criteria (scale of 0-10):
 
 1. Logical Coherence: Clarity and soundness of reasoning
@@ -480,14 +911,22 @@ Important: Your response must be formatted EXACTLY as follows (JSON object only,
       // Calculate weighted scores
       const breakdown: Record<string, CriterionScore> = {};
       let totalWeightedScore = 0;
+      let totalWeight = 0;
       
       for (const [criterion, details] of Object.entries(rawScores)) {
-        const weight = this.scoringCriteria[criterion] || 0.1;
-        const rawScore = (details as {score: number}).score;
-        const justification = (details as {justification: string}).justification;
+        const weight = scoringCriteria[criterion] || 0.1;
+        let rawScore = (details as {score: number}).score;
+        let justification = (details as {justification: string}).justification;
+        
+        // Blend fact-check verdicts into the evidence quality score
+        if (criterion === "evidence_quality" && factCheckScore !== undefined) {
+          rawScore = (rawScore + factCheckScore) / 2;
+          justification = `${justification} (fact-check score: ${factCheckScore.toFixed(1)})`;
+        }
         
         const weightedScore = rawScore * weight;
         totalWeightedScore += weightedScore;
+        totalWeight += weight;
         
         breakdown[criterion] = {
           raw: rawScore,
@@ -496,9 +935,10 @@ Important: Your response must be formatted EXACTLY as follows (JSON object only,
         };
       }
       
-      // Normalize to 0-10 scale
-      const normalizedTotal = Math.min(10, Math.max(0, totalWeightedScore / 
-        Object.values(this.scoringCriteria).reduce((sum, w) => sum + w, 0) * 10));
+      // Normalize to 0-10 scale by the weights of the criteria that were scored
+      const normalizedTotal = totalWeight > 0
+        ? Math.min(10, Math.max(0, totalWeightedScore / totalWeight))
+        : 0;
       
       return {
         total: normalizedTotal,
@@ -510,8 +950,9 @@ Important: Your response must be formatted EXACTLY as follows (JSON object only,
       // Return a default score on error
       return {
         total: 5,
+        defaulted: true,
         breakdown: Object.fromEntries(
-          Object.entries(this.scoringCriteria).map(([key, weight]) => [
+          Object.entries(scoringCriteria).map(([key, weight]) => [
             key,
             { raw: 5, weighted: 5 * weight, justification: "Score defaulted due to parsing error" },
           ])
@@ -521,6 +962,429 @@ Important: Your response must be formatted EXACTLY as follows (JSON object only,
   }
 }
 
+/**
+ * Specialized participant that scores arguments as a member of a judging panel
+ */
+export class DebateJudgeParticipant extends DebateModeratorParticipant {
+  /**
+   * Create a new debate judge participant
+   * 
+   * @param config - Configuration for the judge
+   * @param agent - Agent implementation
+   */
+  constructor(
+    config: Omit<DebateParticipantConfig, "debateRole">,
+    agent?: IAgent
+  ) {
+    super({
+      ...config,
+      debateRole: "judge",
+      primaryMotivation: config.primaryMotivation || "fairness",
+    }, agent);
+  }
+}
+
+/**
+ * Configuration for an audience member
+ */
+export interface AudienceMemberParticipantConfig extends Omit<DebateParticipantConfig, "debateRole"> {
+  /**
+   * Description of who the audience member is
+   */
+  persona: string;
+  
+  /**
+   * Stance on the motion before hearing the debate
+   */
+  prior: AudienceVote;
+  
+  /**
+   * Why the audience member holds their prior stance
+   */
+  priorReason?: string;
+}
+
+/**
+ * Specialized participant that listens to a debate and votes on the motion
+ */
+export class AudienceMemberParticipant extends DebateParticipant {
+  /**
+   * Description of who the audience member is
+   */
+  readonly persona: string;
+  
+  /**
+   * Stance on the motion before hearing the debate
+   */
+  readonly prior: AudienceVote;
+  
+  /**
+   * Why the audience member holds their prior stance
+   */
+  readonly priorReason?: string;
+  
+  /**
+   * Create a new audience member participant
+   * 
+   * @param config - Configuration for the audience member
+   * @param agent - Agent implementation
+   */
+  constructor(
+    config: AudienceMemberParticipantConfig,
+    agent?: IAgent
+  ) {
+    super({
+      ...config,
+      debateRole: "audience",
+    }, agent);
+    
+    this.persona = config.persona;
+    this.prior = config.prior;
+    this.priorReason = config.priorReason;
+  }
+  
+  /**
+   * Vote on a motion
+   * 
+   * @param motion - Motion being debated
+   * @param transcript - Transcript of the debate heard so far, if any
+   * @param currentVote - Stance kept if the vote cannot be parsed (defaults to the prior)
+   * @returns Ballot with the vote and its reason
+   */
+  async poll(motion: string, transcript?: string, currentVote?: AudienceVote): Promise<AudienceBallot> {
+    const prior = this.priorReason ? `${this.prior} (${this.priorReason})` : this.prior;
+    const situation = transcript
+      ? `You have just heard the following debate on the motion.\n\nDebate transcript:\n${transcript}\n\n` +
+        "Taking into account what you heard, how do you now vote on the motion? " +
+        "Your reason should cite the arguments that changed or confirmed your mind."
+      : "The debate has not started yet. How do you vote on the motion before hearing any arguments?";
+    
+    const prompt = `
+You are a member of the audience at an Oxford-style debate.
+Who you are: ${this.persona}
+Your stance on the motion before the debate: ${prior}
+
+Motion: ${motion}
+
+${situation}
+
+Important: Your response must be formatted EXACTLY as follows (JSON object only, no other text):
+{"vote": "for" | "against" | "undecided", "reason": "..."}
+    `;
+    
+    const response = await this.agent.execute(prompt);
+    
+    try {
+      // Extract JSON from response (in case model adds surrounding text)
+      const jsonMatch = response.match(/\{[\s\S]*\}/);
+      const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : response);
+      
+      if (!["for", "against", "undecided"].includes(parsed.vote)) {
+        throw new Error(`Unknown vote: ${parsed.vote}`);
+      }
+      
+      return {
+        memberId: this.id,
+        vote: parsed.vote,
+        reason: String(parsed.reason ?? ""),
+      };
+    } catch (error) {
+      console.error("Error parsing audience vote response:", error);
+      
+      return {
+        memberId: this.id,
+        vote: currentVote ?? this.prior,
+        reason: "Vote could not be determined, so the stance is unchanged",
+      };
+    }
+  }
+}
+
+/**
+ * Configuration for a fact-checker participant
+ */
+export interface FactCheckerParticipantConfig extends Omit<DebateParticipantConfig, "debateRole"> {
+  /**
+   * Tools queried for evidence about each claim
+   * Each resource is executed with a `query` parameter holding the claim
+   */
+  resources?: IResource[];
+  
+  /**
+   * Documents searched for evidence about each claim
+   */
+  evidence?: EvidenceDocument[];
+  
+  /**
+   * Maximum number of claims checked per argument
+   * Default: 3
+   */
+  maxClaims?: number;
+  
+  /**
+   * Maximum number of evidence items considered per claim
+   * Default: 3
+   */
+  maxEvidencePerClaim?: number;
+}
+
+/**
+ * Specialized participant that checks the factual claims in arguments
+ */
+export class FactCheckerParticipant extends DebateParticipant {
+  private resources: IResource[];
+  private evidence: EvidenceDocument[];
+  private maxClaims: number;
+  private maxEvidencePerClaim: number;
+  
+  /**
+   * Create a new fact-checker participant
+   * 
+   * @param config - Configuration for the fact-checker
+   * @param agent - Agent implementation
+   */
+  constructor(
+    config: FactCheckerParticipantConfig,
+    agent?: IAgent
+  ) {
+    super({
+      ...config,
+      debateRole: "fact_checker",
+      primaryMotivation: config.primaryMotivation || "truth-seeking",
+      dialogueStyle: config.dialogueStyle || "analytical",
+    }, agent);
+    
+    this.resources = config.resources ?? [];
+    this.evidence = config.evidence ?? [];
+    this.maxClaims = config.maxClaims ?? 3;
+    this.maxEvidencePerClaim = config.maxEvidencePerClaim ?? 3;
+  }
+  
+  /**
+   * Check the factual claims in an argument
+   * 
+   * @param speakerId - ID of the participant who made the argument
+   * @param argument - Argument to check
+   * @returns Fact-check report with a verdict for each claim
+   */
+  async factCheck(speakerId: string, argument: string): Promise<FactCheckReport> {
+    const claims = await this.extractClaims(argument);
+    const checks: ClaimCheck[] = [];
+    
+    for (const claim of claims) {
+      const evidence = await this.gatherEvidence(claim);
+      checks.push(await this.assessClaim(claim, evidence));
+    }
+    
+    return {
+      checkerId: this.id,
+      speakerId,
+      claims: checks,
+    };
+  }
+  
+  /**
+   * Extract checkable factual claims from an argument
+   * 
+   * @param argument - Argument to extract claims from
+   * @returns Claims, at most the configured maximum
+   */
+  async extractClaims(argument: string): Promise<string[]> {
+    const prompt = `
+You are fact-checking a debate. Extract up to ${this.maxClaims} checkable factual claims from the argument below.
+Only include statements of fact that evidence could support or contradict, not opinions, values or predictions.
+
+Argument: ${argument}
+
+Important: Your response must be formatted EXACTLY as follows (JSON object only, no other text):
+{"claims": ["...", "..."]}
+    `;
+    
+    const response = await this.agent.execute(prompt);
+    
+    try {
+      // Extract JSON from response (in case model adds surrounding text)
+      const jsonMatch = response.match(/\{[\s\S]*\}/);
+      const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : response);
+      
+      return (Array.isArray(parsed.claims) ? parsed.claims : [])
+        .map((claim: unknown) => String(claim).trim())
+        .filter(Boolean)
+        .slice(0, this.maxClaims);
+    } catch (error) {
+      console.error("Error parsing claims response:", error);
+      return [];
+    }
+  }
+  
+  /**
+   * Gather evidence about a claim from the evidence corpus and resources
+   * 
+   * @param claim - Claim to gather evidence for
+   * @returns Evidence citations, best matches from the corpus first
+   */
+  async gatherEvidence(claim: string): Promise<EvidenceCitation[]> {
+    const claimWords = new Set(getSignificantWords(claim));
+    
+    // Rank corpus documents by the best-matching sentence in each
+    const corpusEvidence = this.evidence
+      .map(document => {
+        const sentences = document.content.split(/(?<=[.!?])\s+/);
+        let best = { excerpt: "", overlap: 0 };
+        
+        for (const sentence of sentences) {
+          const overlap = getSignificantWords(sentence).filter(w => claimWords.has(w)).length;
+          if (overlap > best.overlap) {
+            best = { excerpt: sentence.trim(), overlap };
+          }
+        }
+        
+        return { document, ...best };
+      })
+      .filter(match => match.overlap > 0)
+      .sort((a, b) => b.overlap - a.overlap)
+      .slice(0, this.maxEvidencePerClaim)
+      .map(match => ({
+        sourceId: match.document.id,
+        source: match.document.source ?? match.document.title,
+        excerpt: match.excerpt,
+      }));
+    
+    const resourceEvidence: EvidenceCitation[] = [];
+    
+    for (const resource of this.resources) {
+      try {
+        const result = await resource.execute({ query: claim });
+        
+        if (result !== undefined && result !== null && result !== "") {
+          const text = typeof result === "string" ? result : JSON.stringify(result);
+          resourceEvidence.push({ sourceId: resource.id, excerpt: text.slice(0, 500) });
+        }
+      } catch (error) {
+        console.error(`Error querying resource ${resource.id}:`, error);
+      }
+    }
+    
+    return [...corpusEvidence, ...resourceEvidence];
+  }
+  
+  /**
+   * Assess a claim against the gathered evidence
+   * Claims without evidence are unverifiable
+   * 
+   * @param claim - Claim to assess
+   * @param evidence - Evidence gathered for the claim
+   * @returns Verdict for the claim
+   */
+  async assessClaim(claim: string, evidence: EvidenceCitation[]): Promise<ClaimCheck> {
+    if (evidence.length === 0) {
+      return {
+        claim,
+        verdict: "unverifiable",
+        explanation: "No evidence was found for this claim",
+        citations: [],
+      };
+    }
+    
+    const evidenceText = evidence
+      .map(item => `[${item.sourceId}] ${item.excerpt}`)
+      .join("\n");
+    
+    const prompt = `
+You are fact-checking a debate. Assess the claim using ONLY the evidence below.
+
+Claim: ${claim}
+
+Evidence:
+${evidenceText}
+
+Decide whether the evidence supports the claim ("supported"), contradicts it ("disputed"),
+or is insufficient to decide ("unverifiable"). Cite the ids of the evidence you relied on.
+
+Important: Your response must be formatted EXACTLY as follows (JSON object only, no other text):
+{"verdict": "supported", "explanation": "...", "citations": ["..."]}
+    `;
+    
+    const response = await this.agent.execute(prompt);
+    
+    try {
+      // Extract JSON from response (in case model adds surrounding text)
+      const jsonMatch = response.match(/\{[\s\S]*\}/);
+      const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : response);
+      
+      const verdict: FactCheckVerdict = ["supported", "disputed", "unverifiable"].includes(parsed.verdict)
+        ? parsed.verdict
+        : "unverifiable";
+      const cited = new Set((Array.isArray(parsed.citations) ? parsed.citations : []).map(String));
+      
+      return {
+        claim,
+        verdict,
+        explanation: String(parsed.explanation ?? ""),
+        citations: evidence.filter(item => cited.has(item.sourceId)),
+      };
+    } catch (error) {
+      console.error("Error parsing verdict response:", error);
+      
+      return {
+        claim,
+        verdict: "unverifiable",
+        explanation: "Verdict could not be determined",
+        citations: [],
+      };
+    }
+  }
+  
+  /**
+   * Format a fact-check report as a debate message
+   * 
+   * @param report - Report to format
+   * @param speaker - Participant whose argument was checked
+   * @returns Message presenting the verdicts
+   */
+  formatReport(report: FactCheckReport, speaker: DialogueParticipant): string {
+    if (report.claims.length === 0) {
+      return `I found no checkable factual claims in ${speaker.name}'s argument.`;
+    }
+    
+    const lines = report.claims.map((check, i) => {
+      const sources = check.citations.length > 0
+        ? ` [Sources: ${check.citations.map(c => c.source ?? c.sourceId).join("; ")}]`
+        : "";
+      
+      return `${i + 1}. "${check.claim}" - ${check.verdict.toUpperCase()}: ${check.explanation}${sources}`;
+    });
+    
+    return [`Fact-check of ${speaker.name}'s argument:`, ...lines].join("\n");
+  }
+}
+
+/**
+ * Get the significant words in a text for evidence matching
+ * 
+ * @param text - Text to split
+ * @returns Lowercase words longer than three characters
+ */
+function getSignificantWords(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 3);
+}
+
+/**
+ * Score a set of fact-check verdicts on the 0-10 scale used for criteria
+ * Supported claims score 10, unverifiable claims 5 and disputed claims 0
+ * 
+ * @param checks - Verdicts to score
+ * @returns Mean verdict score, or undefined if there are no verdicts
+ */
+export function scoreFactChecks(checks: ClaimCheck[]): number | undefined {
+  if (checks.length === 0) {
+    return undefined;
+  }
+  
+  const points: Record<FactCheckVerdict, number> = { supported: 10, unverifiable: 5, disputed: 0 };
+  return checks.reduce((sum, check) => sum + points[check.verdict], 0) / checks.length;
+}
+
 /**
  * Create a new debate participant
  * 
@@ -551,3 +1415,45 @@ export function createDebateModerator(
     debateRole: "moderator",
   }, agent);
 }
+
+/**
+ * Create a new debate judge
+ * 
+ * @param config - Configuration for the judge
+ * @param agent - Agent implementation (optional)
+ * @returns New debate judge participant
+ */
+export function createDebateJudge(
+  config: Omit<DebateParticipantConfig, "debateRole">,
+  agent?: IAgent
+): DebateJudgeParticipant {
+  return new DebateJudgeParticipant(config, agent);
+}
+
+/**
+ * Create a new audience member
+ * 
+ * @param config - Configuration for the audience member
+ * @param agent - Agent implementation (optional)
+ * @returns New audience member participant
+ */
+export function createAudienceMember(
+  config: AudienceMemberParticipantConfig,
+  agent?: IAgent
+): AudienceMemberParticipant {
+  return new AudienceMemberParticipant(config, agent);
+}
+
+/**
+ * Create a new fact-checker
+ * 
+ * @param config - Configuration for the fact-checker
+ * @param agent - Agent implementation (optional)
+ * @returns New fact-checker participant
+ */
+export function createFactChecker(
+  config: FactCheckerParticipantConfig,
+  agent?: IAgent
+): FactCheckerParticipant {
+  return new FactCheckerParticipant(config, agent);
+}
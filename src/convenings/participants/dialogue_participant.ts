@@ -4,6 +4,7 @@
  */
 
 import { IAgent, IAgentConfig } from "../../utils/interfaces.ts";
+import { executeAgent, TokenListener } from "../../utils/agent_utils.ts";
 import { 
   IBiddingStrategy,
   BiddingStrategyFactory,
@@ -11,6 +12,12 @@ import {
   BidContext
 } from "./bidding/mod.ts";
 import { DialogueState } from "../workflows/dialogue_workflow.ts";
+import {
+  ConveningRecord,
+  MemoryQuery,
+  ParticipantMemory,
+  ParticipantMemoryConfig
+} from "./memory.ts";
 
 /**
  * Configuration for a dialogue participant
@@ -53,6 +60,12 @@ export interface DialogueParticipantConfig {
    * Key-value pairs of motivation types and their strengths (0.0 to 1.0)
    */
   motivations?: Record<string, number>;
+  
+  /**
+   * Long-term memory for the participant
+   * Memories are keyed by participant ID, so the ID must stay the same across convenings
+   */
+  memory?: ParticipantMemoryConfig;
 }
 
 /**
@@ -94,6 +107,11 @@ export class DialogueParticipant {
    */
   protected motivations: Record<string, number>;
   
+  /**
+   * Long-term memory of the participant, if any
+   */
+  readonly memory?: ParticipantMemory;
+  
   /**
    * Create a new dialogue participant
    * 
@@ -109,6 +127,7 @@ export class DialogueParticipant {
     this.role = config.role;
     this.dialogueStyle = config.dialogueStyle;
     this.motivations = config.motivations ?? {};
+    this.memory = config.memory ? new ParticipantMemory(this.id, config.memory) : undefined;
     
     // Set up agent
     if (agent) {
@@ -153,10 +172,11 @@ export class DialogueParticipant {
    * Generate a response for the participant's turn
    * 
    * @param prompt - Prompt for the participant
+   * @param onToken - Optional listener for streamed response chunks
    * @returns The participant's response
    */
-  async generateResponse(prompt: string): Promise<string> {
-    return this.agent.execute(prompt);
+  async generateResponse(prompt: string, onToken?: TokenListener): Promise<string> {
+    return executeAgent(this.agent, prompt, onToken);
   }
   
   /**
@@ -179,6 +199,47 @@ export class DialogueParticipant {
     return { ...this.motivations };
   }
   
+  /**
+   * Recall memories relevant to the current convening for a turn prompt
+   * 
+   * @param query - Current topic, participants and recent messages
+   * @returns Prompt section with relevant memories, or an empty string if there are none
+   */
+  recallMemories(query: MemoryQuery): Promise<string> {
+    return this.memory ? this.memory.recallForPrompt(query) : Promise.resolve("");
+  }
+  
+  /**
+   * Form long-term memories of a finished convening
+   * 
+   * @param record - The convening's topic, participants and messages
+   */
+  async rememberConvening(record: ConveningRecord): Promise<void> {
+    await this.memory?.rememberConvening(record);
+  }
+  
+  /**
+   * Get the participant's internal state for a workflow checkpoint
+   * 
+   * @returns Serializable participant state
+   */
+  getCheckpointState(): Record<string, unknown> {
+    return {
+      motivations: { ...this.motivations },
+    };
+  }
+  
+  /**
+   * Restore the participant's internal state from a workflow checkpoint
+   * 
+   * @param state - Participant state from the checkpoint
+   */
+  restoreCheckpointState(state: Record<string, unknown>): void {
+    if (state.motivations) {
+      this.motivations = { ...state.motivations as Record<string, number> };
+    }
+  }
+  
   /**
    * Create a serializable representation of the participant
    * 
@@ -0,0 +1,496 @@
+/**
+ * Human Participant Implementation
+ * Lets a person take part in dialogues alongside agent participants
+ */
+
+import { IAgent } from "../../utils/interfaces.ts";
+import { DialogueParticipant, DialogueParticipantConfig } from "./dialogue_participant.ts";
+import { Bid } from "./bidding/mod.ts";
+import { DialogueState } from "../workflows/dialogue_workflow.ts";
+
+/**
+ * Request for input from a human
+ */
+export interface HumanInputRequest {
+  /**
+   * ID of the human's participant
+   */
+  participantId: string;
+
+  /**
+   * Display name of the human's participant
+   */
+  participantName: string;
+
+  /**
+   * Prompt describing the dialogue and the turn
+   */
+  prompt: string;
+
+  /**
+   * Time allowed for the input in milliseconds (0 for no limit)
+   */
+  timeout: number;
+
+  /**
+   * Signal that is aborted when the request times out
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * Source of input from a human
+ */
+export interface IHumanInputSource {
+  /**
+   * Wait for the human's input for a turn
+   *
+   * @param request - The input request
+   * @returns The human's input, or undefined if none was given
+   */
+  requestInput(request: HumanInputRequest): Promise<string | undefined>;
+
+  /**
+   * Optional check for input submitted before it was requested
+   * Pending input counts as a raised hand when bidding
+   *
+   * @returns Whether input is waiting
+   */
+  hasPendingInput?(): boolean;
+}
+
+/**
+ * Function that supplies human input
+ */
+export type HumanInputCallback = (
+  request: HumanInputRequest
+) => Promise<string | undefined> | string | undefined;
+
+/**
+ * Input source that calls a function for each request
+ */
+export class CallbackInputSource implements IHumanInputSource {
+  private callback: HumanInputCallback;
+
+  /**
+   * Create a new callback input source
+   *
+   * @param callback - Function that supplies the input
+   */
+  constructor(callback: HumanInputCallback) {
+    this.callback = callback;
+  }
+
+  /**
+   * Wait for the human's input for a turn
+   *
+   * @param request - The input request
+   * @returns The human's input, or undefined if none was given
+   */
+  async requestInput(request: HumanInputRequest): Promise<string | undefined> {
+    return await this.callback(request);
+  }
+}
+
+/**
+ * Input source fed from elsewhere, such as an HTTP handler
+ * Input submitted before it is requested is queued for the next turn
+ */
+export class QueueInputSource implements IHumanInputSource {
+  private queue: string[] = [];
+  private waiters: ((input: string | undefined) => void)[] = [];
+
+  /**
+   * Submit input from the human
+   *
+   * @param input - The human's input
+   */
+  submit(input: string): void {
+    const waiter = this.waiters.shift();
+
+    if (waiter) {
+      waiter(input);
+    } else {
+      this.queue.push(input);
+    }
+  }
+
+  /**
+   * Check for input submitted before it was requested
+   *
+   * @returns Whether input is waiting
+   */
+  hasPendingInput(): boolean {
+    return this.queue.length > 0;
+  }
+
+  /**
+   * Wait for the human's input for a turn
+   *
+   * @param request - The input request
+   * @returns The human's input, or undefined if the request was aborted
+   */
+  requestInput(request: HumanInputRequest): Promise<string | undefined> {
+    if (this.queue.length > 0) {
+      return Promise.resolve(this.queue.shift());
+    }
+
+    return new Promise(resolve => {
+      const waiter = (input: string | undefined) => {
+        request.signal.removeEventListener("abort", onAbort);
+        resolve(input);
+      };
+
+      const onAbort = () => {
+        this.waiters = this.waiters.filter(w => w !== waiter);
+        resolve(undefined);
+      };
+
+      this.waiters.push(waiter);
+      request.signal.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
+
+/**
+ * Input source that reads lines from standard input
+ */
+export class StdinInputSource implements IHumanInputSource {
+  private lines?: AsyncIterator<string>;
+  private pendingLine?: Promise<IteratorResult<string>>;
+  private encoder = new TextEncoder();
+
+  /**
+   * Prompt on standard output and wait for a line of input
+   *
+   * @param request - The input request
+   * @returns The line entered, or undefined on timeout or end of input
+   */
+  async requestInput(request: HumanInputRequest): Promise<string | undefined> {
+    await Deno.stdout.write(this.encoder.encode(
+      `\n${request.prompt}\n\n${request.participantName}> `
+    ));
+
+    // A line still being read from a timed out request is reused
+    this.lines ??= this.readLines();
+    this.pendingLine ??= this.lines.next();
+
+    let onAbort = () => {};
+    const aborted = new Promise<undefined>(resolve => {
+      onAbort = () => resolve(undefined);
+      request.signal.addEventListener("abort", onAbort, { once: true });
+    });
+
+    const result = await Promise.race([this.pendingLine, aborted]).finally(() => {
+      request.signal.removeEventListener("abort", onAbort);
+    });
+
+    if (!result) {
+      return undefined;
+    }
+
+    this.pendingLine = undefined;
+    return result.done ? undefined : result.value;
+  }
+
+  /**
+   * Read standard input line by line
+   *
+   * @returns Lines of input
+   */
+  private async *readLines(): AsyncGenerator<string> {
+    let buffer = "";
+
+    for await (const chunk of Deno.stdin.readable.pipeThrough(new TextDecoderStream())) {
+      buffer += chunk;
+
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) >= 0) {
+        yield buffer.slice(0, newline).replace(/\r$/, "");
+        buffer = buffer.slice(newline + 1);
+      }
+    }
+
+    if (buffer) {
+      yield buffer;
+    }
+  }
+}
+
+/**
+ * Configuration for a human agent
+ */
+export interface HumanAgentConfig {
+  /**
+   * Unique identifier for the agent
+   */
+  id: string;
+
+  /**
+   * Display name shown when requesting input
+   */
+  name: string;
+
+  /**
+   * Source of the human's input
+   */
+  inputSource: IHumanInputSource;
+
+  /**
+   * Time to wait for input in milliseconds (0 for no limit)
+   * Default: 2 minutes
+   */
+  inputTimeout?: number;
+
+  /**
+   * Response used when the human gives no input or the request times out
+   * Default: "I'll pass for now."
+   */
+  passResponse?: string;
+}
+
+/**
+ * Agent whose responses come from a human
+ * Can power any participant type, including debate participants
+ */
+export class HumanAgent implements IAgent {
+  readonly id: string;
+  readonly name: string;
+  private inputSource: IHumanInputSource;
+  private inputTimeout: number;
+  private passResponse: string;
+  private handRaised = false;
+
+  /**
+   * Create a new human agent
+   *
+   * @param config - Configuration for the agent
+   */
+  constructor(config: HumanAgentConfig) {
+    this.id = config.id;
+    this.name = config.name;
+    this.inputSource = config.inputSource;
+    this.inputTimeout = config.inputTimeout ?? 2 * 60 * 1000;
+    this.passResponse = config.passResponse ?? "I'll pass for now.";
+  }
+
+  /**
+   * Ask the human for a response
+   *
+   * @param input - Prompt to show the human
+   * @returns The human's response, or the pass response if none was given in time
+   */
+  async execute(input: string): Promise<string> {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    // Sources that ignore the signal cannot hold up the dialogue past the timeout
+    const timedOut = new Promise<undefined>(resolve => {
+      if (this.inputTimeout > 0) {
+        timer = setTimeout(() => {
+          controller.abort();
+          resolve(undefined);
+        }, this.inputTimeout);
+      }
+    });
+
+    try {
+      const response = await Promise.race([
+        this.inputSource.requestInput({
+          participantId: this.id,
+          participantName: this.name,
+          prompt: input,
+          timeout: this.inputTimeout,
+          signal: controller.signal,
+        }),
+        timedOut,
+      ]);
+
+      return response?.trim() || this.passResponse;
+    } finally {
+      clearTimeout(timer);
+
+      // Speaking uses up a raised hand
+      this.handRaised = false;
+    }
+  }
+
+  /**
+   * Signal that the human wants to speak next
+   */
+  raiseHand(): void {
+    this.handRaised = true;
+  }
+
+  /**
+   * Withdraw a raised hand
+   */
+  lowerHand(): void {
+    this.handRaised = false;
+  }
+
+  /**
+   * Check whether the human wants to speak
+   *
+   * @returns Whether the hand is raised or input is already waiting
+   */
+  wantsToSpeak(): boolean {
+    return this.handRaised || (this.inputSource.hasPendingInput?.() ?? false);
+  }
+}
+
+/**
+ * Configuration for a human participant
+ */
+export interface HumanParticipantConfig
+  extends Omit<DialogueParticipantConfig, "agentConfig" | "biddingStrategy"> {
+  /**
+   * Source of the human's input
+   */
+  inputSource: IHumanInputSource;
+
+  /**
+   * Time to wait for input in milliseconds (0 for no limit)
+   * Default: 2 minutes
+   */
+  inputTimeout?: number;
+
+  /**
+   * Response used when the human gives no input or the request times out
+   * Default: "I'll pass for now."
+   */
+  passResponse?: string;
+
+  /**
+   * Bid strength while the human's hand is raised
+   * Default: 1.0
+   */
+  raisedHandBid?: number;
+
+  /**
+   * Bid strength while the human's hand is down
+   * Default: 0.1
+   */
+  idleBid?: number;
+}
+
+/**
+ * Dialogue participant controlled by a human
+ * Bids strongly while the human's hand is raised, so bid-based selection
+ * strategies call on them ahead of the rotation
+ */
+export class HumanParticipant extends DialogueParticipant {
+  /**
+   * Agent that collects the human's input
+   */
+  declare readonly agent: HumanAgent;
+
+  private raisedHandBid: number;
+  private idleBid: number;
+
+  /**
+   * Create a new human participant
+   *
+   * @param config - Configuration for the participant
+   */
+  constructor(config: HumanParticipantConfig) {
+    const id = config.id ?? crypto.randomUUID();
+
+    super(
+      { ...config, id, agentConfig: { id, model: "human" } },
+      new HumanAgent({
+        id,
+        name: config.name,
+        inputSource: config.inputSource,
+        inputTimeout: config.inputTimeout,
+        passResponse: config.passResponse,
+      })
+    );
+
+    this.raisedHandBid = config.raisedHandBid ?? 1.0;
+    this.idleBid = config.idleBid ?? 0.1;
+  }
+
+  /**
+   * Signal that the human wants to speak next
+   */
+  raiseHand(): void {
+    this.agent.raiseHand();
+  }
+
+  /**
+   * Withdraw a raised hand
+   */
+  lowerHand(): void {
+    this.agent.lowerHand();
+  }
+
+  /**
+   * Calculate a bid from whether the human wants to speak
+   *
+   * @param _dialogueState - Current state of the dialogue
+   * @returns The calculated bid
+   */
+  override calculateBid(_dialogueState: DialogueState): Promise<Bid> {
+    const wantsToSpeak = this.agent.wantsToSpeak();
+
+    return Promise.resolve({
+      participantId: this.id,
+      strength: wantsToSpeak ? this.raisedHandBid : this.idleBid,
+      reason: wantsToSpeak ? "Raised hand to speak" : "Waiting to be called on",
+    });
+  }
+}
+
+/**
+ * Factory for creating human input sources
+ */
+export class HumanInputSourceFactory {
+  /**
+   * Create an input source that reads lines from standard input
+   *
+   * @returns New stdin input source
+   */
+  static createStdinSource(): StdinInputSource {
+    return new StdinInputSource();
+  }
+
+  /**
+   * Create an input source that calls a function for each request
+   *
+   * @param callback - Function that supplies the input
+   * @returns New callback input source
+   */
+  static createCallbackSource(callback: HumanInputCallback): CallbackInputSource {
+    return new CallbackInputSource(callback);
+  }
+
+  /**
+   * Create an input source fed by submitting input, such as from an HTTP handler
+   *
+   * @returns New queue input source
+   */
+  static createQueueSource(): QueueInputSource {
+    return new QueueInputSource();
+  }
+}
+
+/**
+ * Create a new human agent
+ *
+ * @param config - Configuration for the agent
+ * @returns New human agent
+ */
+export function createHumanAgent(config: HumanAgentConfig): HumanAgent {
+  return new HumanAgent(config);
+}
+
+/**
+ * Create a new human participant
+ *
+ * @param config - Configuration for the participant
+ * @returns New human participant
+ */
+export function createHumanParticipant(config: HumanParticipantConfig): HumanParticipant {
+  return new HumanParticipant(config);
+}
@@ -0,0 +1,603 @@
+/**
+ * Participant Memory Implementation
+ * Long-term memories that let participants carry episodes, commitments,
+ * positions and relationships from one convening to the next
+ */
+
+import { ensureDir } from "https://deno.land/std@0.171.0/fs/ensure_dir.ts";
+import { join } from "https://deno.land/std@0.171.0/path/mod.ts";
+
+import { IAgent } from "../../utils/interfaces.ts";
+import { AGREEMENT_MARKERS, countMarkers, DISAGREEMENT_MARKERS, extractKeyTerms } from "./text_heuristics.ts";
+
+/**
+ * Kind of long-term memory
+ * - episode: what happened in a past convening
+ * - commitment: something the participant undertook to do
+ * - position: a view the participant held
+ * - relationship: how the participant relates to another participant
+ */
+export type MemoryKind = "episode" | "commitment" | "position" | "relationship";
+
+/**
+ * Single long-term memory of a participant
+ */
+export interface MemoryEntry {
+  /**
+   * Unique identifier for the memory
+   */
+  id: string;
+
+  /**
+   * Kind of memory
+   */
+  kind: MemoryKind;
+
+  /**
+   * Content of the memory
+   */
+  content: string;
+
+  /**
+   * ID of the convening the memory comes from
+   */
+  conveningId: string;
+
+  /**
+   * Topic of the convening the memory comes from
+   */
+  topic: string;
+
+  /**
+   * IDs of the other participants the memory involves
+   */
+  participantIds: string[];
+
+  /**
+   * ID of the participant a relationship memory is about
+   */
+  relatedParticipantId?: string;
+
+  /**
+   * Sentiment toward the related participant, from -1 (opponent) to 1 (ally)
+   */
+  sentiment?: number;
+
+  /**
+   * How important the memory is (0-1)
+   */
+  importance: number;
+
+  /**
+   * Time the memory was formed
+   */
+  createdAt: number;
+}
+
+/**
+ * Persistent storage for participant memories
+ */
+export interface IMemoryStore {
+  /**
+   * Load all memories of a participant
+   *
+   * @param participantId - ID of the participant
+   * @returns Stored memories, oldest first
+   */
+  load(participantId: string): Promise<MemoryEntry[]>;
+
+  /**
+   * Replace the stored memories of a participant
+   *
+   * @param participantId - ID of the participant
+   * @param memories - Memories to store
+   */
+  save(participantId: string, memories: MemoryEntry[]): Promise<void>;
+}
+
+/**
+ * What a participant is about to discuss, used to find relevant memories
+ */
+export interface MemoryQuery {
+  /**
+   * Topic of the current convening
+   */
+  topic: string;
+
+  /**
+   * IDs of the other participants in the current convening
+   */
+  participantIds: string[];
+
+  /**
+   * Recent messages in the current convening
+   */
+  recentMessages?: string[];
+}
+
+/**
+ * Convening a participant took part in, used to form new memories
+ */
+export interface ConveningRecord {
+  /**
+   * ID of the convening
+   */
+  conveningId: string;
+
+  /**
+   * Topic of the convening
+   */
+  topic: string;
+
+  /**
+   * Participants of the convening
+   */
+  participants: Array<{ id: string; name: string }>;
+
+  /**
+   * Messages of the convening, in order
+   */
+  messages: Array<{ participantId: string; content: string }>;
+
+  /**
+   * Outcome of the convening, such as an agreement reached or a statement adopted
+   */
+  outcome?: string;
+}
+
+/**
+ * Configuration for a participant's memory
+ */
+export interface ParticipantMemoryConfig {
+  /**
+   * Store the memories are persisted in
+   */
+  store: IMemoryStore;
+
+  /**
+   * Maximum number of memories recalled into a prompt
+   * Default: 5
+   */
+  maxRecalled?: number;
+
+  /**
+   * Maximum number of memories kept; the least important old ones are forgotten first
+   * Default: 200
+   */
+  maxMemories?: number;
+
+  /**
+   * Optional agent that extracts memories from a convening transcript
+   * When not provided or when its response cannot be parsed, memories are
+   * extracted with phrase heuristics
+   */
+  extractor?: IAgent;
+}
+
+/**
+ * Memories extracted from a convening
+ */
+interface ExtractedMemories {
+  /**
+   * Summary of the convening and its decisions
+   */
+  summary: string;
+
+  /**
+   * Commitments the participant made
+   */
+  commitments: string[];
+
+  /**
+   * Positions the participant held
+   */
+  positions: string[];
+
+  /**
+   * The participant's relationships with the others
+   */
+  relationships: Array<{ participantId: string; sentiment: number; note: string }>;
+}
+
+/**
+ * Phrases that mark a commitment
+ */
+const COMMITMENT_PATTERN =
+  /\b(?:i will|i'll|i commit|i promise|i undertake|we will|we'll|we agreed? to|i agree to)\b/i;
+
+/**
+ * Phrases that mark a position
+ */
+const POSITION_PATTERN =
+  /\b(?:i believe|i think|in my view|my position|i support|i oppose|i recommend|i prefer|i'm convinced)\b/i;
+
+/**
+ * Memory store that keeps memories in process memory
+ * Useful for tests and for sharing memories between workflows in one run
+ */
+export class InMemoryMemoryStore implements IMemoryStore {
+  /**
+   * Memories by participant ID
+   */
+  private memories = new Map<string, MemoryEntry[]>();
+
+  /**
+   * Load all memories of a participant
+   *
+   * @param participantId - ID of the participant
+   * @returns Stored memories, oldest first
+   */
+  load(participantId: string): Promise<MemoryEntry[]> {
+    return Promise.resolve(structuredClone(this.memories.get(participantId) ?? []));
+  }
+
+  /**
+   * Replace the stored memories of a participant
+   *
+   * @param participantId - ID of the participant
+   * @param memories - Memories to store
+   */
+  save(participantId: string, memories: MemoryEntry[]): Promise<void> {
+    this.memories.set(participantId, structuredClone(memories));
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Memory store that keeps each participant's memories in a JSON file
+ */
+export class FileMemoryStore implements IMemoryStore {
+  /**
+   * Create a new file memory store
+   *
+   * @param directory - Directory holding one file per participant
+   */
+  constructor(private directory: string) {}
+
+  /**
+   * Load all memories of a participant
+   *
+   * @param participantId - ID of the participant
+   * @returns Stored memories, oldest first (empty if the participant has none)
+   */
+  async load(participantId: string): Promise<MemoryEntry[]> {
+    try {
+      return JSON.parse(await Deno.readTextFile(this.getFilePath(participantId))) as MemoryEntry[];
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the stored memories of a participant
+   *
+   * @param participantId - ID of the participant
+   * @param memories - Memories to store
+   */
+  async save(participantId: string, memories: MemoryEntry[]): Promise<void> {
+    await ensureDir(this.directory);
+    await Deno.writeTextFile(this.getFilePath(participantId), JSON.stringify(memories, null, 2));
+  }
+
+  /**
+   * Get the file holding a participant's memories
+   *
+   * @param participantId - ID of the participant
+   * @returns Path of the file
+   */
+  private getFilePath(participantId: string): string {
+    return join(this.directory, `${encodeURIComponent(participantId)}.json`);
+  }
+}
+
+/**
+ * Long-term memory of a single participant
+ */
+export class ParticipantMemory {
+  /**
+   * Maximum number of memories recalled into a prompt
+   */
+  private maxRecalled: number;
+
+  /**
+   * Maximum number of memories kept
+   */
+  private maxMemories: number;
+
+  /**
+   * Create a new participant memory
+   *
+   * @param participantId - ID of the participant the memories belong to
+   * @param config - Memory configuration
+   */
+  constructor(
+    readonly participantId: string,
+    private config: ParticipantMemoryConfig
+  ) {
+    this.maxRecalled = config.maxRecalled ?? 5;
+    this.maxMemories = config.maxMemories ?? 200;
+  }
+
+  /**
+   * Get all memories of the participant
+   *
+   * @returns Stored memories, oldest first
+   */
+  getMemories(): Promise<MemoryEntry[]> {
+    return this.config.store.load(this.participantId);
+  }
+
+  /**
+   * Store new memories
+   * A relationship memory replaces the earlier one about the same participant
+   *
+   * @param entries - Memories to store
+   */
+  async remember(entries: MemoryEntry[]): Promise<void> {
+    const related = new Set(
+      entries.filter(entry => entry.kind === "relationship").map(entry => entry.relatedParticipantId)
+    );
+    let memories = (await this.getMemories())
+      .filter(memory => memory.kind !== "relationship" || !related.has(memory.relatedParticipantId))
+      .concat(entries);
+
+    if (memories.length > this.maxMemories) {
+      const kept = new Set(
+        [...memories]
+          .sort((a, b) => (b.importance - a.importance) || (b.createdAt - a.createdAt))
+          .slice(0, this.maxMemories)
+      );
+      memories = memories.filter(memory => kept.has(memory));
+    }
+
+    await this.config.store.save(this.participantId, memories);
+  }
+
+  /**
+   * Find the memories most relevant to what the participant is about to discuss
+   * Memories score by shared key terms, shared participants, importance and recency;
+   * memories that share neither terms nor participants are not recalled
+   *
+   * @param query - Current topic, participants and recent messages
+   * @returns Relevant memories, most relevant first
+   */
+  async recall(query: MemoryQuery): Promise<MemoryEntry[]> {
+    const memories = await this.getMemories();
+    const queryTerms = new Set(
+      extractKeyTerms([query.topic, ...(query.recentMessages ?? [])].join(" "))
+    );
+    const newest = Math.max(...memories.map(memory => memory.createdAt), 0);
+    const oldest = Math.min(...memories.map(memory => memory.createdAt), newest);
+
+    return memories
+      .map(memory => {
+        const terms = extractKeyTerms(`${memory.topic} ${memory.content}`);
+        const termOverlap = terms.length === 0
+          ? 0
+          : terms.filter(term => queryTerms.has(term)).length / terms.length;
+        const participantOverlap = memory.participantIds.some(id => query.participantIds.includes(id)) ? 1 : 0;
+        const recency = newest === oldest ? 1 : (memory.createdAt - oldest) / (newest - oldest);
+        const relevant = termOverlap > 0 || participantOverlap > 0;
+
+        return {
+          memory,
+          score: relevant
+            ? 0.5 * termOverlap + 0.2 * participantOverlap + 0.2 * memory.importance + 0.1 * recency
+            : 0,
+        };
+      })
+      .filter(scored => scored.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.maxRecalled)
+      .map(scored => scored.memory);
+  }
+
+  /**
+   * Recall relevant memories and format them for a prompt
+   *
+   * @param query - Current topic, participants and recent messages
+   * @returns Prompt section with the memories, or an empty string if none are relevant
+   */
+  async recallForPrompt(query: MemoryQuery): Promise<string> {
+    const memories = await this.recall(query);
+
+    if (memories.length === 0) {
+      return "";
+    }
+
+    return [
+      "From your previous convenings, you remember:",
+      ...memories.map(memory => `- [${memory.kind}] ${memory.content} (from "${memory.topic}")`),
+      "Stay consistent with your earlier commitments and positions, or explain why you have changed your mind.",
+    ].join("\n");
+  }
+
+  /**
+   * Form memories of a convening the participant took part in
+   *
+   * @param record - The convening's topic, participants, messages and outcome
+   * @returns The memories formed
+   */
+  async rememberConvening(record: ConveningRecord): Promise<MemoryEntry[]> {
+    const extracted = (this.config.extractor && await this.extractWithAgent(record, this.config.extractor)) ||
+      this.extractWithHeuristics(record);
+    const others = record.participants.filter(p => p.id !== this.participantId);
+    const otherIds = others.map(p => p.id);
+    const createdAt = Date.now();
+
+    const entry = (
+      kind: MemoryKind,
+      content: string,
+      importance: number,
+      extra: Partial<MemoryEntry> = {}
+    ): MemoryEntry => ({
+      id: crypto.randomUUID(),
+      kind,
+      content,
+      conveningId: record.conveningId,
+      topic: record.topic,
+      participantIds: otherIds,
+      importance,
+      createdAt,
+      ...extra,
+    });
+
+    const entries = [
+      entry("episode", extracted.summary, 0.6),
+      ...extracted.commitments.map(commitment => entry("commitment", commitment, 0.9)),
+      ...extracted.positions.map(position => entry("position", position, 0.7)),
+      ...extracted.relationships
+        .filter(relationship => otherIds.includes(relationship.participantId))
+        .map(relationship => entry("relationship", relationship.note, 0.5, {
+          participantIds: [relationship.participantId],
+          relatedParticipantId: relationship.participantId,
+          sentiment: Math.max(-1, Math.min(1, relationship.sentiment)),
+        })),
+    ];
+
+    await this.remember(entries);
+
+    return entries;
+  }
+
+  /**
+   * Extract memories from a convening with the extractor agent
+   *
+   * @param record - The convening to extract memories from
+   * @param extractor - Agent that extracts the memories
+   * @returns Extracted memories, or undefined if the response cannot be parsed
+   */
+  private async extractWithAgent(
+    record: ConveningRecord,
+    extractor: IAgent
+  ): Promise<ExtractedMemories | undefined> {
+    const names = new Map(record.participants.map(p => [p.id, p.name]));
+    const self = names.get(this.participantId) ?? this.participantId;
+    const transcript = record.messages
+      .map(message => `${names.get(message.participantId) ?? message.participantId}: ${message.content}`)
+      .join("\n\n");
+
+    const prompt = [
+      `You are recording what ${self} should remember from a discussion on "${record.topic}".`,
+      "",
+      "Transcript:",
+      transcript,
+      "",
+      ...(record.outcome ? ["Outcome:", record.outcome, ""] : []),
+      `Respond with JSON only, written from ${self}'s point of view:`,
+      "{",
+      '  "summary": "what happened and what was decided, in one or two sentences",',
+      `  "commitments": ["things ${self} undertook to do"],`,
+      `  "positions": ["views ${self} held"],`,
+      `  "relationships": [{ "participantId": "<id>", "sentiment": <-1 to 1>, "note": "how ${self} relates to them" }]`,
+      "}",
+      `Participant IDs: ${record.participants.map(p => `${p.id} (${p.name})`).join(", ")}`,
+    ].join("\n");
+
+    try {
+      const response = await extractor.execute(prompt);
+      const jsonMatch = response.match(/\{[\s\S]*\}/);
+
+      if (!jsonMatch) {
+        return undefined;
+      }
+
+      const parsed = JSON.parse(jsonMatch[0]) as Partial<ExtractedMemories>;
+
+      if (typeof parsed.summary !== "string") {
+        return undefined;
+      }
+
+      return {
+        summary: parsed.summary,
+        commitments: (parsed.commitments ?? []).filter(c => typeof c === "string"),
+        positions: (parsed.positions ?? []).filter(p => typeof p === "string"),
+        relationships: (parsed.relationships ?? []).filter(r =>
+          typeof r?.participantId === "string" && typeof r.sentiment === "number" && typeof r.note === "string"
+        ),
+      };
+    } catch (error) {
+      console.error("Error parsing memory extraction response:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Extract memories from a convening with phrase heuristics
+   * Commitments and positions come from the participant's own sentences;
+   * relationships from how often the participant agreed or disagreed after
+   * each other participant spoke
+   *
+   * @param record - The convening to extract memories from
+   * @returns Extracted memories
+   */
+  private extractWithHeuristics(record: ConveningRecord): ExtractedMemories {
+    const own = record.messages.filter(message => message.participantId === this.participantId);
+    const sentences = own.flatMap(message =>
+      (message.content.match(/[^.!?]+[.!?]*/g) ?? []).map(sentence => sentence.trim()).filter(Boolean)
+    );
+    const others = record.participants.filter(p => p.id !== this.participantId);
+
+    const relationships = others.flatMap(other => {
+      let agreements = 0;
+      let disagreements = 0;
+
+      record.messages.forEach((message, index) => {
+        const previous = record.messages[index - 1];
+        const mentions = message.content.toLowerCase().includes(other.name.toLowerCase());
+
+        if (message.participantId !== this.participantId || !(previous?.participantId === other.id || mentions)) {
+          return;
+        }
+
+        agreements += countMarkers(message.content, AGREEMENT_MARKERS);
+        disagreements += countMarkers(message.content, DISAGREEMENT_MARKERS);
+      });
+
+      if (agreements + disagreements === 0) {
+        return [];
+      }
+
+      const sentiment = (agreements - disagreements) / (agreements + disagreements);
+      const stance = sentiment > 0.2 ? "mostly agreed with" : sentiment < -0.2 ? "mostly disagreed with" : "had mixed views of";
+
+      return [{
+        participantId: other.id,
+        sentiment,
+        note: `I ${stance} ${other.name} in the discussion on "${record.topic}"`,
+      }];
+    });
+
+    const lastContribution = own[own.length - 1]?.content;
+    const summary = [
+      `Discussed "${record.topic}" with ${others.map(p => p.name).join(", ") || "no one else"}.`,
+      ...(record.outcome ? [`Outcome: ${record.outcome}`] : []),
+      lastContribution ? `My final contribution: "${lastContribution.slice(0, 200)}"` : "I did not speak.",
+    ].join(" ");
+
+    return {
+      summary,
+      commitments: sentences.filter(sentence => COMMITMENT_PATTERN.test(sentence)),
+      // Only the latest views are kept, since positions may shift during a convening
+      positions: sentences.filter(sentence => POSITION_PATTERN.test(sentence)).slice(-3),
+      relationships,
+    };
+  }
+}
+
+/**
+ * Create a participant memory
+ *
+ * @param participantId - ID of the participant the memories belong to
+ * @param config - Memory configuration
+ * @returns New participant memory
+ */
+export function createParticipantMemory(
+  participantId: string,
+  config: ParticipantMemoryConfig
+): ParticipantMemory {
+  return new ParticipantMemory(participantId, config);
+}
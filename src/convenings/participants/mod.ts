@@ -23,14 +23,76 @@ export {
 export {
   DebateParticipant,
   DebateModeratorParticipant,
+  DebateJudgeParticipant,
+  FactCheckerParticipant,
+  AudienceMemberParticipant,
   createDebateParticipant,
   createDebateModerator,
+  createDebateJudge,
+  createFactChecker,
+  createAudienceMember,
+  scoreFactChecks,
   type DebateRole,
   type DebateFormat,
   type DebateParticipantConfig,
+  type FactCheckerParticipantConfig,
+  type AudienceMemberParticipantConfig,
   type CriterionScore,
-  type ParticipantScore
+  type ParticipantScore,
+  type AnswerRelevance,
+  type FactCheckVerdict,
+  type EvidenceDocument,
+  type EvidenceCitation,
+  type ClaimCheck,
+  type FactCheckReport,
+  type AudienceVote,
+  type AudienceBallot
 } from "./debate_participant.ts";
 
+// Export human participant
+export {
+  HumanAgent,
+  HumanParticipant,
+  HumanInputSourceFactory,
+  CallbackInputSource,
+  QueueInputSource,
+  StdinInputSource,
+  createHumanAgent,
+  createHumanParticipant,
+  type IHumanInputSource,
+  type HumanInputRequest,
+  type HumanInputCallback,
+  type HumanAgentConfig,
+  type HumanParticipantConfig
+} from "./human_participant.ts";
+
+// Export participant memory
+export {
+  ParticipantMemory,
+  InMemoryMemoryStore,
+  FileMemoryStore,
+  createParticipantMemory,
+  type MemoryKind,
+  type MemoryEntry,
+  type IMemoryStore,
+  type MemoryQuery,
+  type ConveningRecord,
+  type ParticipantMemoryConfig
+} from "./memory.ts";
+
+// Export relationship graph
+export {
+  RelationshipGraph,
+  createRelationshipGraph,
+  type RelationshipDimensions,
+  type RelationshipEventType,
+  type RelationshipEvent,
+  type RelationshipChange,
+  type Relationship,
+  type RelationshipGraphState,
+  type EmergentCoalition,
+  type RelationshipGraphConfig
+} from "./relationship_graph.ts";
+
 // Export bidding strategies
 export * from "./bidding/mod.ts";
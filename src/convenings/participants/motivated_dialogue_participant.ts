@@ -4,6 +4,7 @@
  */
 
 import { IAgent } from "../../utils/interfaces.ts";
+import { executeAgent, TokenListener } from "../../utils/agent_utils.ts";
 import { DialogueParticipant, DialogueParticipantConfig } from "./dialogue_participant.ts";
 import { DialogueState } from "../workflows/dialogue_workflow.ts";
 import { 
@@ -12,6 +13,12 @@ import {
   MotivationBiddingStrategy,
   Bid
 } from "./bidding/mod.ts";
+import {
+  derivePersonality,
+  getBidMultiplier,
+  PersonalityProfile,
+  PersonalitySettings
+} from "./motivations/personality.ts";
 
 /**
  * Configuration for a motivated dialogue participant
@@ -39,6 +46,13 @@ export interface MotivatedDialogueParticipantConfig extends DialogueParticipantC
    * Default: 0.6
    */
   motivationBiddingWeight?: number;
+  
+  /**
+   * Personality that sets the participant's baseline motivations, dialogue style,
+   * emotional state, bidding eagerness and prompt style
+   * Explicit motivations, secondary motivations and dialogue style take precedence over derived ones
+   */
+  personality?: PersonalityProfile;
 }
 
 /**
@@ -55,6 +69,21 @@ export class MotivatedDialogueParticipant extends DialogueParticipant {
    */
   readonly adaptiveMotivations: boolean;
   
+  /**
+   * Personality of the participant, if any
+   */
+  readonly personality?: PersonalityProfile;
+  
+  /**
+   * Style instructions derived from the personality
+   */
+  private styleDirectives: string[] = [];
+  
+  /**
+   * Factor the personality's bidding aggressiveness scales bids by
+   */
+  private bidMultiplier: number;
+  
   /**
    * Initial motivations to restore when resetting
    */
@@ -70,6 +99,11 @@ export class MotivatedDialogueParticipant extends DialogueParticipant {
     frustration: 0.0,
   };
   
+  /**
+   * Emotional state to restore when resetting
+   */
+  private initialEmotionalState: Record<string, number>;
+  
   /**
    * Create a new motivated dialogue participant
    * 
@@ -80,13 +114,19 @@ export class MotivatedDialogueParticipant extends DialogueParticipant {
     config: MotivatedDialogueParticipantConfig,
     agent?: IAgent
   ) {
+    const settings: PersonalitySettings | undefined = config.personality
+      ? derivePersonality(config.personality)
+      : undefined;
+    
     // Convert configuration
     const baseConfig: DialogueParticipantConfig = {
       ...config,
+      dialogueStyle: config.dialogueStyle ?? settings?.dialogueStyle,
     };
     
-    // Set up motivations
+    // Set up motivations, starting from the personality's baseline
     const motivations: Record<string, number> = {
+      ...(settings?.motivationWeights || {}),
       ...(config.secondaryMotivations || {}),
     };
     
@@ -109,6 +149,19 @@ export class MotivatedDialogueParticipant extends DialogueParticipant {
     this.primaryMotivation = config.primaryMotivation;
     this.adaptiveMotivations = config.adaptiveMotivations ?? true;
     this.initialMotivations = { ...motivations };
+    this.personality = config.personality;
+    this.bidMultiplier = getBidMultiplier(settings);
+    
+    if (settings) {
+      this.styleDirectives = settings.styleDirectives;
+      this.emotionalState = {
+        ...this.emotionalState,
+        agreement: 0.5 + settings.emotionalBaseline.valence * 0.25,
+        engagement: settings.emotionalBaseline.arousal,
+        frustration: Math.max(0, -settings.emotionalBaseline.valence) * 0.5,
+      };
+    }
+    this.initialEmotionalState = { ...this.emotionalState };
     
     // Override bidding strategy with a motivation-focused one if not explicitly provided
     if (!config.biddingStrategy) {
@@ -153,21 +206,28 @@ export class MotivatedDialogueParticipant extends DialogueParticipant {
       },
     };
     
-    return this.biddingStrategy.calculateBid(context);
+    const bid = await this.biddingStrategy.calculateBid(context);
+    
+    // Aggressive personalities bid higher
+    return {
+      ...bid,
+      strength: Math.min(1, Math.max(0, bid.strength * this.bidMultiplier)),
+    };
   }
   
   /**
    * Generate a response for the participant's turn with motivation influence
    * 
    * @param prompt - Prompt for the participant
+   * @param onToken - Optional listener for streamed response chunks
    * @returns The participant's response
    */
-  async generateResponse(prompt: string): Promise<string> {
+  async generateResponse(prompt: string, onToken?: TokenListener): Promise<string> {
     // Enhance prompt with motivation information
     const enhancedPrompt = this.enhancePromptWithMotivations(prompt);
     
     // Generate response using the agent
-    return this.agent.execute(enhancedPrompt);
+    return executeAgent(this.agent, enhancedPrompt, onToken);
   }
   
   /**
@@ -175,14 +235,34 @@ export class MotivatedDialogueParticipant extends DialogueParticipant {
    */
   resetMotivations(): void {
     this.motivations = { ...this.initialMotivations };
-    this.emotionalState = {
-      interest: 0.5,
-      agreement: 0.5,
-      engagement: 0.5,
-      frustration: 0.0,
+    this.emotionalState = { ...this.initialEmotionalState };
+  }
+  
+  /**
+   * Get the participant's motivations and emotional state for a checkpoint
+   * 
+   * @returns Serializable participant state
+   */
+  override getCheckpointState(): Record<string, unknown> {
+    return {
+      ...super.getCheckpointState(),
+      emotionalState: { ...this.emotionalState },
     };
   }
   
+  /**
+   * Restore the participant's motivations and emotional state from a checkpoint
+   * 
+   * @param state - Participant state from the checkpoint
+   */
+  override restoreCheckpointState(state: Record<string, unknown>): void {
+    super.restoreCheckpointState(state);
+    
+    if (state.emotionalState) {
+      this.emotionalState = { ...state.emotionalState as Record<string, number> };
+    }
+  }
+  
   /**
    * Update motivations based on dialogue context
    * 
@@ -305,7 +385,8 @@ export class MotivatedDialogueParticipant extends DialogueParticipant {
     // Combine guidance
     const guidance = [
       motivationGuidance,
-      ...emotionalGuidance
+      ...emotionalGuidance,
+      ...this.styleDirectives
     ].filter(Boolean).join(" ");
     
     // Combine with prompt
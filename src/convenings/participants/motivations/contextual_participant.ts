@@ -43,6 +43,11 @@ export interface ContextualParticipantConfig extends MotivatedDialogueParticipan
      */
     truthSeeking?: string;
     
+    /**
+     * Template for high curiosity motivation
+     */
+    curiosity?: string;
+    
     /**
      * Template for balanced motivation state
      */
@@ -61,6 +66,7 @@ export interface ContextualParticipantConfig extends MotivatedDialogueParticipan
 const DEFAULT_RESPONSE_TEMPLATES = {
   consensusSeeking: "I see some different viewpoints here. Perhaps we can find common ground on {topic}?",
   truthSeeking: "That's an interesting claim about {topic}. Could you share more evidence to support that?",
+  curiosity: "We haven't really explored {topic} yet. What do we actually know about it, and what are we missing?",
   balanced: "I understand what you're saying about {topic}. Let me offer a perspective that considers both accuracy and agreement.",
   neutral: "I've been following the discussion on {topic} and have some thoughts to share."
 };
@@ -86,6 +92,7 @@ export class ContextualParticipant extends MotivatedDialogueParticipant {
   private responseTemplates: {
     consensusSeeking: string;
     truthSeeking: string;
+    curiosity: string;
     balanced: string;
     neutral: string;
   };
@@ -102,13 +109,14 @@ export class ContextualParticipant extends MotivatedDialogueParticipant {
   ) {
     super(config, stringUtils);
     
-    this.adaptability = config.adaptability ?? 0.7;
-    this.verbosity = config.verbosity ?? 0.5;
+    this.adaptability = config.adaptability ?? this.personality?.adaptability ?? 0.7;
+    this.verbosity = config.verbosity ?? this.personality?.verbosity ?? 0.5;
     
     // Use provided templates or defaults
     this.responseTemplates = {
       consensusSeeking: config.responseTemplates?.consensusSeeking ?? DEFAULT_RESPONSE_TEMPLATES.consensusSeeking,
       truthSeeking: config.responseTemplates?.truthSeeking ?? DEFAULT_RESPONSE_TEMPLATES.truthSeeking,
+      curiosity: config.responseTemplates?.curiosity ?? DEFAULT_RESPONSE_TEMPLATES.curiosity,
       balanced: config.responseTemplates?.balanced ?? DEFAULT_RESPONSE_TEMPLATES.balanced,
       neutral: config.responseTemplates?.neutral ?? DEFAULT_RESPONSE_TEMPLATES.neutral
     };
@@ -196,6 +204,10 @@ export class ContextualParticipant extends MotivatedDialogueParticipant {
         template = this.responseTemplates.truthSeeking;
         break;
         
+      case "curiosity":
+        template = this.responseTemplates.curiosity;
+        break;
+        
       case "balanced":
         template = this.responseTemplates.balanced;
         break;
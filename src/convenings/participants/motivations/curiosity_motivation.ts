@@ -0,0 +1,325 @@
+/**
+ * Curiosity Motivation Implementation
+ * 
+ * Implements a motivation that drives participants to close information gaps
+ * by steering discussions into open questions and unexplored subtopics.
+ */
+
+import { IParticipant } from "../../interfaces.ts";
+import {
+  DialogueContext,
+  DialogueTurn,
+  IMotivation,
+  MotivationState
+} from "./interfaces.ts";
+import { extractKeyTerms } from "../text_heuristics.ts";
+
+/**
+ * Configuration options for the curiosity motivation
+ */
+export interface CuriosityConfig {
+  /**
+   * How strongly information gaps drive the desire to speak (0-1)
+   */
+  explorationDrive: number;
+
+  /**
+   * Number of turns that must address a topic before it counts as explored
+   */
+  minTopicMentions: number;
+
+  /**
+   * Number of open information gaps at which curiosity peaks
+   */
+  gapSaturation: number;
+}
+
+/**
+ * Information gaps found in a dialogue
+ */
+export interface InformationGaps {
+  /**
+   * Questions no other participant has answered yet
+   */
+  openQuestions: string[];
+
+  /**
+   * Requests for information no other participant has responded to yet
+   */
+  unansweredAsks: string[];
+
+  /**
+   * Active topics that have not been discussed enough
+   */
+  underExploredTopics: string[];
+
+  /**
+   * Active topics that have been discussed enough
+   */
+  exploredTopics: string[];
+
+  /**
+   * Questions and requests that have been answered
+   */
+  answered: string[];
+}
+
+/**
+ * Phrases that mark a request for information
+ */
+const ASK_PATTERNS = [
+  /\bcan you\b/, /\bcould you\b/, /\bwould you\b/, /\bplease\b/,
+  /\btell (?:me|us)\b/, /\bexplain\b/, /\belaborate\b/, /\bwalk (?:me|us) through\b/,
+  /\bi(?:'d| would) like to (?:know|hear|understand)\b/, /\bi wonder\b/,
+];
+
+/**
+ * A motivation that drives participants to explore what the dialogue has not yet covered
+ */
+export class CuriosityMotivation implements IMotivation {
+  /**
+   * Unique identifier for this motivation
+   */
+  id = "curiosity";
+
+  /**
+   * Human-readable name for this motivation
+   */
+  name = "Curiosity";
+
+  /**
+   * Create a new curiosity motivation
+   * 
+   * @param config - Configuration options
+   */
+  constructor(
+    private config: CuriosityConfig = {
+      explorationDrive: 0.8,
+      minTopicMentions: 2,
+      gapSaturation: 5
+    }
+  ) {}
+
+  /**
+   * Calculate the desire to speak based on the curiosity motivation
+   * Desire rises with the number of open information gaps, and more so
+   * when gaps have grown since the last turn
+   * 
+   * @param participant - The participant with this motivation
+   * @param state - Current state of the motivation
+   * @param context - Current dialogue context
+   * @returns Desire to speak (0-1)
+   */
+  calculateDesire(
+    participant: IParticipant,
+    state: MotivationState,
+    context: DialogueContext
+  ): Promise<number> {
+    const gaps = this.findInformationGaps(context);
+    const gapCount = this.countGaps(gaps);
+    
+    if (gapCount === 0) {
+      return Promise.resolve(0.1);
+    }
+    
+    const gapLevel = Math.min(1, gapCount / this.config.gapSaturation);
+    const previousGapCount = (state.metadata.gapCount as number | undefined) ?? 0;
+    const growthBonus = gapCount > previousGapCount ? 0.15 : 0;
+    
+    // Questions left open by others are more pressing than quiet subtopics
+    const othersAsking = context.history
+      .slice(-3)
+      .filter(turn => turn.participantId !== participant.id)
+      .flatMap(turn => this.splitSentences(turn.message))
+      .some(sentence => gaps.openQuestions.includes(sentence) || gaps.unansweredAsks.includes(sentence));
+    
+    return Promise.resolve(Math.min(
+      1,
+      gapLevel * this.config.explorationDrive + growthBonus + (othersAsking ? 0.1 : 0) + state.urgency * 0.1
+    ));
+  }
+
+  /**
+   * Update the motivation state after a dialogue turn
+   * Closed gaps are added to topicsAddressed and the open ones are kept in metadata
+   * 
+   * @param state - Current state of the motivation
+   * @param turn - The dialogue turn that just occurred
+   * @param context - Current dialogue context
+   * @returns Updated motivation state
+   */
+  updateState(
+    state: MotivationState,
+    turn: DialogueTurn,
+    context: DialogueContext
+  ): MotivationState {
+    // Create a copy of the state to modify
+    const newState = this.cloneMotivationState(state);
+    
+    // Make sure the turn is part of the history being analyzed
+    const history = context.history.includes(turn) ? context.history : [...context.history, turn];
+    const gaps = this.findInformationGaps({ ...context, history });
+    const gapCount = this.countGaps(gaps);
+    const previousGapCount = (state.metadata.gapCount as number | undefined) ?? 0;
+    
+    // Record the gaps that have closed
+    gaps.exploredTopics.forEach(topic => newState.topicsAddressed.add(topic));
+    gaps.answered.forEach(question => newState.topicsAddressed.add(question));
+    
+    // Urgency and arousal rise as gaps open and fall as they close
+    if (gapCount > previousGapCount) {
+      newState.urgency = Math.min(1, newState.urgency + 0.15);
+      newState.emotionalState.arousal = Math.min(1, newState.emotionalState.arousal + 0.1);
+    } else if (gapCount < previousGapCount) {
+      newState.urgency = Math.max(0, newState.urgency - 0.15);
+      newState.emotionalState.valence = Math.min(1, newState.emotionalState.valence + 0.1);
+    }
+    
+    newState.satisfaction = 1 - Math.min(1, gapCount / this.config.gapSaturation);
+    newState.metadata = {
+      ...newState.metadata,
+      gapCount,
+      openQuestions: gaps.openQuestions,
+      unansweredAsks: gaps.unansweredAsks,
+      underExploredTopics: gaps.underExploredTopics,
+    };
+    
+    return newState;
+  }
+
+  /**
+   * Check if the motivation's goals are satisfied
+   * 
+   * @param state - Current state of the motivation
+   * @returns Whether the dialogue has no significant information gaps
+   */
+  isSatisfied(state: MotivationState): boolean {
+    return state.satisfaction >= 1 - 1 / this.config.gapSaturation;
+  }
+
+  /**
+   * Find the information gaps in the dialogue
+   * A question or request is answered once a later turn from another participant
+   * shares its key terms; a topic is explored once enough turns mention it
+   * 
+   * @param context - Current dialogue context
+   * @returns Open and closed information gaps
+   */
+  findInformationGaps(context: DialogueContext): InformationGaps {
+    const gaps: InformationGaps = {
+      openQuestions: [],
+      unansweredAsks: [],
+      underExploredTopics: [],
+      exploredTopics: [],
+      answered: [],
+    };
+    
+    context.history.forEach((turn, index) => {
+      for (const sentence of this.splitSentences(turn.message)) {
+        const isQuestion = sentence.endsWith("?");
+        const isAsk = !isQuestion && ASK_PATTERNS.some(pattern => pattern.test(sentence.toLowerCase()));
+        
+        if (!isQuestion && !isAsk) {
+          continue;
+        }
+        
+        const answered = context.history
+          .slice(index + 1)
+          .some(later => later.participantId !== turn.participantId && this.answers(sentence, later.message));
+        
+        if (answered) {
+          gaps.answered.push(sentence);
+        } else if (isQuestion) {
+          gaps.openQuestions.push(sentence);
+        } else {
+          gaps.unansweredAsks.push(sentence);
+        }
+      }
+    });
+    
+    for (const topic of context.topics) {
+      const mentions = context.history
+        .filter(turn => turn.message.toLowerCase().includes(topic.toLowerCase()))
+        .length;
+      
+      if (mentions >= this.config.minTopicMentions) {
+        gaps.exploredTopics.push(topic);
+      } else {
+        gaps.underExploredTopics.push(topic);
+      }
+    }
+    
+    return gaps;
+  }
+
+  /**
+   * Count the open information gaps
+   * 
+   * @param gaps - Information gaps in the dialogue
+   * @returns Number of open questions, unanswered requests and under-explored topics
+   */
+  private countGaps(gaps: InformationGaps): number {
+    return gaps.openQuestions.length + gaps.unansweredAsks.length + gaps.underExploredTopics.length;
+  }
+
+  /**
+   * Check whether a message answers a question or request
+   * 
+   * @param question - Question or request
+   * @param message - Later message
+   * @returns Whether the message shares enough of the question's key terms
+   */
+  private answers(question: string, message: string): boolean {
+    const terms = extractKeyTerms(question);
+    
+    if (terms.length === 0) {
+      return true;
+    }
+    
+    const messageTerms = new Set(extractKeyTerms(message));
+    const shared = terms.filter(term => messageTerms.has(term)).length;
+    
+    return shared >= Math.min(2, terms.length);
+  }
+
+  /**
+   * Split a message into sentences
+   * 
+   * @param message - Message to split
+   * @returns Trimmed sentences, keeping their final punctuation
+   */
+  private splitSentences(message: string): string[] {
+    return (message.match(/[^.!?]+[.!?]*/g) ?? [])
+      .map(sentence => sentence.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Create a deep copy of a motivation state
+   * 
+   * @param state - State to clone
+   * @returns Cloned state
+   */
+  private cloneMotivationState(state: MotivationState): MotivationState {
+    return {
+      satisfaction: state.satisfaction,
+      urgency: state.urgency,
+      agreement: new Map(state.agreement),
+      topicsAddressed: new Set(state.topicsAddressed),
+      emotionalState: { ...state.emotionalState },
+      metadata: { ...state.metadata }
+    };
+  }
+}
+
+/**
+ * Create a curiosity motivation with the specified configuration
+ * 
+ * @param config - Configuration options
+ * @returns A new CuriosityMotivation instance
+ */
+export function createCuriosityMotivation(
+  config?: CuriosityConfig
+): CuriosityMotivation {
+  return new CuriosityMotivation(config);
+}
@@ -209,10 +209,11 @@ export interface IMotivation {
 export interface MotivatedParticipantConfig {
   /**
    * Motivations and their relative weights
+   * A motivation without a weight takes its personality-derived weight, or 1
    */
   motivations: Array<{
     motivation: IMotivation;
-    weight: number;
+    weight?: number;
   }>;
   
   /**
@@ -13,6 +13,11 @@ export * from "./motivated_participant.ts";
 // Export motivation implementations
 export * from "./consensus_seeking_motivation.ts";
 export * from "./truth_seeking_motivation.ts";
+export * from "./curiosity_motivation.ts";
+export * from "./persuasion_motivation.ts";
+
+// Export personality profiles
+export * from "./personality.ts";
 
 // Export concrete participant implementations
 export * from "./contextual_participant.ts";
@@ -21,6 +21,7 @@ import {
   MotivatedParticipantConfig,
   MotivationState
 } from "./interfaces.ts";
+import { derivePersonality, getBidMultiplier, PersonalityProfile, PersonalitySettings } from "./personality.ts";
 
 /**
  * Extended configuration for motivated participants
@@ -30,6 +31,13 @@ export interface MotivatedDialogueParticipantConfig extends DialogueParticipantC
    * Motivations configuration
    */
   motivatedConfig: MotivatedParticipantConfig;
+
+  /**
+   * Personality that sets motivation weights, aggregation strategy, emotional
+   * baseline and bidding aggressiveness
+   * Explicit motivation weights and aggregation strategy take precedence over derived ones
+   */
+  personality?: PersonalityProfile;
 }
 
 /**
@@ -55,6 +63,11 @@ export abstract class MotivatedDialogueParticipant extends DialogueParticipant {
    */
   protected aggregationStrategy: "weighted" | "max" | "probabilistic" = "weighted";
 
+  /**
+   * Settings derived from the participant's personality, if any
+   */
+  protected personality?: PersonalitySettings;
+
   /**
    * Initialize a motivated dialogue participant
    * 
@@ -67,8 +80,14 @@ export abstract class MotivatedDialogueParticipant extends DialogueParticipant {
   ) {
     super(config, stringUtils);
     
-    this.motivations = [...config.motivatedConfig.motivations];
-    this.aggregationStrategy = config.motivatedConfig.aggregationStrategy || "weighted";
+    this.personality = config.personality ? derivePersonality(config.personality) : undefined;
+    this.motivations = config.motivatedConfig.motivations.map(({ motivation, weight }) => ({
+      motivation,
+      weight: weight ?? this.personality?.motivationWeights[motivation.id] ?? 1
+    }));
+    this.aggregationStrategy = config.motivatedConfig.aggregationStrategy ||
+      this.personality?.aggregationStrategy ||
+      "weighted";
     
     // Initialize motivation states
     this.initializeMotivationStates();
@@ -84,7 +103,7 @@ export abstract class MotivatedDialogueParticipant extends DialogueParticipant {
         urgency: 0.5,      // Start with moderate urgency
         agreement: new Map<string, number>(),
         topicsAddressed: new Set<string>(),
-        emotionalState: { valence: 0, arousal: 0.5 },
+        emotionalState: { ...(this.personality?.emotionalBaseline ?? { valence: 0, arousal: 0.5 }) },
         metadata: {}
       });
     }
@@ -113,8 +132,8 @@ export abstract class MotivatedDialogueParticipant extends DialogueParticipant {
       })
     );
     
-    // Combine desires based on aggregation strategy
-    const aggregatedDesire = this.aggregateDesires(desires) * contextModifier;
+    // Combine desires based on aggregation strategy; aggressive personalities bid higher
+    const aggregatedDesire = this.aggregateDesires(desires) * contextModifier * getBidMultiplier(this.personality);
     
     // Create breakdown of motivation contributions
     const motivationBreakdown: Record<string, number> = {};
@@ -144,6 +163,69 @@ export abstract class MotivatedDialogueParticipant extends DialogueParticipant {
     }
   }
 
+  /**
+   * Get the state of each motivation for a workflow checkpoint
+   * Maps and sets are converted to arrays so the state can be serialized, and
+   * the base state's motivations hold the weight of each motivation
+   * 
+   * @returns Serializable participant state
+   */
+  override getCheckpointState(): Record<string, unknown> {
+    const motivationStates: Record<string, unknown> = {};
+    
+    for (const [motivationId, state] of this.motivationStates) {
+      motivationStates[motivationId] = {
+        ...state,
+        agreement: Array.from(state.agreement.entries()),
+        topicsAddressed: Array.from(state.topicsAddressed),
+      };
+    }
+    
+    return {
+      ...super.getCheckpointState(),
+      motivations: Object.fromEntries(this.motivations.map(({ motivation, weight }) => [motivation.id, weight])),
+      motivationStates,
+    };
+  }
+  
+  /**
+   * Restore the state of each motivation from a workflow checkpoint
+   * 
+   * @param state - Participant state from the checkpoint
+   */
+  override restoreCheckpointState(state: Record<string, unknown>): void {
+    const { motivations: weights, ...baseState } = state as { motivations?: Record<string, number> };
+    super.restoreCheckpointState(baseState);
+    
+    if (weights) {
+      this.motivations = this.motivations.map(({ motivation, weight }) => ({
+        motivation,
+        weight: weights[motivation.id] ?? weight,
+      }));
+    }
+    
+    const motivationStates = state.motivationStates as Record<string, {
+      satisfaction: number;
+      urgency: number;
+      agreement: Array<[string, number]>;
+      topicsAddressed: string[];
+      emotionalState: MotivationState["emotionalState"];
+      metadata: Record<string, unknown>;
+    }> | undefined;
+    
+    if (!motivationStates) {
+      return;
+    }
+    
+    for (const [motivationId, saved] of Object.entries(motivationStates)) {
+      this.motivationStates.set(motivationId, {
+        ...saved,
+        agreement: new Map(saved.agreement),
+        topicsAddressed: new Set(saved.topicsAddressed),
+      });
+    }
+  }
+  
   /**
    * Check if any motivation has high enough urgency to speak
    * 
@@ -0,0 +1,430 @@
+/**
+ * Personality Profiles
+ * 
+ * Derives motivation weights, emotional baselines, bidding behavior and
+ * prompt style from Big Five personality traits and a communication style.
+ */
+
+import { EmotionalState } from "./interfaces.ts";
+
+/**
+ * Big Five personality traits, each from 0 (low) to 1 (high)
+ */
+export interface BigFiveTraits {
+  /**
+   * Openness to experience: curiosity and appetite for new ideas
+   */
+  openness: number;
+
+  /**
+   * Conscientiousness: care, rigor and orderliness
+   */
+  conscientiousness: number;
+
+  /**
+   * Extraversion: sociability and assertiveness
+   */
+  extraversion: number;
+
+  /**
+   * Agreeableness: cooperativeness and warmth toward others
+   */
+  agreeableness: number;
+
+  /**
+   * Neuroticism: sensitivity to stress and negative emotion
+   */
+  neuroticism: number;
+}
+
+/**
+ * How a participant expresses themselves, each aspect from 0 (low) to 1 (high)
+ */
+export interface CommunicationStyle {
+  /**
+   * How formal the participant's language is
+   */
+  formality: number;
+
+  /**
+   * How long and detailed the participant's contributions are
+   */
+  verbosity: number;
+
+  /**
+   * How plainly the participant states views and disagreement
+   */
+  directness: number;
+
+  /**
+   * How openly the participant shows emotion and enthusiasm
+   */
+  expressiveness: number;
+}
+
+/**
+ * Personality of a participant
+ */
+export interface PersonalityProfile {
+  /**
+   * Name of the profile
+   */
+  name: string;
+
+  /**
+   * Short description of the personality
+   */
+  description?: string;
+
+  /**
+   * Big Five trait levels
+   */
+  traits: BigFiveTraits;
+
+  /**
+   * Communication style
+   */
+  communication: CommunicationStyle;
+}
+
+/**
+ * Dialogue style a participant adopts
+ */
+export type PersonalityDialogueStyle = "cooperative" | "competitive" | "inquisitive" | "assertive" | "analytical";
+
+/**
+ * Participant settings derived from a personality profile
+ */
+export interface PersonalitySettings {
+  /**
+   * Weight of each motivation (0-1), keyed by motivation ID
+   */
+  motivationWeights: Record<string, number>;
+
+  /**
+   * How to aggregate motivation desires
+   */
+  aggregationStrategy: "weighted" | "max" | "probabilistic";
+
+  /**
+   * Emotional state the participant starts from
+   */
+  emotionalBaseline: EmotionalState;
+
+  /**
+   * How eagerly the participant bids to speak (0-1, 0.5 is neutral)
+   */
+  biddingAggressiveness: number;
+
+  /**
+   * Dialogue style that best fits the personality
+   */
+  dialogueStyle: PersonalityDialogueStyle;
+
+  /**
+   * How much the participant adapts to conversation context (0-1)
+   */
+  adaptability: number;
+
+  /**
+   * How verbose the participant's responses are (0-1)
+   */
+  verbosity: number;
+
+  /**
+   * Instructions on tone and behavior to include in prompts
+   */
+  styleDirectives: string[];
+}
+
+/**
+ * Options for perturbing a personality profile
+ */
+export interface PerturbationOptions {
+  /**
+   * Largest change applied to any trait or style aspect
+   * Default: 0.1
+   */
+  magnitude?: number;
+
+  /**
+   * Seed for the random changes; the same seed always gives the same profile
+   * Default: 1
+   */
+  seed?: number;
+}
+
+/**
+ * Library of named personas
+ */
+export const PERSONAS: Record<string, PersonalityProfile> = {
+  diplomat: {
+    name: "diplomat",
+    description: "Warm and even-tempered, looks for common ground",
+    traits: { openness: 0.6, conscientiousness: 0.6, extraversion: 0.6, agreeableness: 0.9, neuroticism: 0.2 },
+    communication: { formality: 0.6, verbosity: 0.5, directness: 0.3, expressiveness: 0.5 },
+  },
+  skeptic: {
+    name: "skeptic",
+    description: "Rigorous and hard to convince, presses for evidence",
+    traits: { openness: 0.5, conscientiousness: 0.8, extraversion: 0.4, agreeableness: 0.3, neuroticism: 0.4 },
+    communication: { formality: 0.7, verbosity: 0.5, directness: 0.8, expressiveness: 0.2 },
+  },
+  explorer: {
+    name: "explorer",
+    description: "Curious and imaginative, pulls the discussion into new territory",
+    traits: { openness: 0.9, conscientiousness: 0.3, extraversion: 0.7, agreeableness: 0.6, neuroticism: 0.3 },
+    communication: { formality: 0.3, verbosity: 0.6, directness: 0.5, expressiveness: 0.8 },
+  },
+  advocate: {
+    name: "advocate",
+    description: "Energetic and persuasive, champions a position",
+    traits: { openness: 0.5, conscientiousness: 0.6, extraversion: 0.9, agreeableness: 0.4, neuroticism: 0.3 },
+    communication: { formality: 0.5, verbosity: 0.7, directness: 0.9, expressiveness: 0.7 },
+  },
+  analyst: {
+    name: "analyst",
+    description: "Quiet and methodical, speaks when the details matter",
+    traits: { openness: 0.6, conscientiousness: 0.9, extraversion: 0.2, agreeableness: 0.5, neuroticism: 0.3 },
+    communication: { formality: 0.8, verbosity: 0.7, directness: 0.6, expressiveness: 0.2 },
+  },
+  contrarian: {
+    name: "contrarian",
+    description: "Provocative and combative, challenges whatever the group assumes",
+    traits: { openness: 0.7, conscientiousness: 0.4, extraversion: 0.7, agreeableness: 0.1, neuroticism: 0.5 },
+    communication: { formality: 0.3, verbosity: 0.5, directness: 0.9, expressiveness: 0.6 },
+  },
+  mentor: {
+    name: "mentor",
+    description: "Patient and encouraging, draws others out",
+    traits: { openness: 0.7, conscientiousness: 0.7, extraversion: 0.5, agreeableness: 0.8, neuroticism: 0.1 },
+    communication: { formality: 0.5, verbosity: 0.6, directness: 0.5, expressiveness: 0.5 },
+  },
+  worrier: {
+    name: "worrier",
+    description: "Anxious and risk-averse, quick to flag problems",
+    traits: { openness: 0.4, conscientiousness: 0.7, extraversion: 0.3, agreeableness: 0.6, neuroticism: 0.9 },
+    communication: { formality: 0.5, verbosity: 0.6, directness: 0.4, expressiveness: 0.6 },
+  },
+};
+
+/**
+ * Clamp a value to a range
+ * 
+ * @param value - Value to clamp
+ * @param min - Lower bound
+ * @param max - Upper bound
+ * @returns Clamped value
+ */
+function clamp(value: number, min = 0, max = 1): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Create a seeded pseudo-random number generator (mulberry32)
+ * 
+ * @param seed - Seed for the sequence
+ * @returns Function returning numbers in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Apply a function to every trait and style aspect of a profile
+ * 
+ * @param profile - Profile to transform
+ * @param transform - Function applied to each value
+ * @returns Transformed traits and communication style
+ */
+function mapAspects(
+  profile: PersonalityProfile,
+  transform: (value: number, group: "traits" | "communication", key: string) => number
+): Pick<PersonalityProfile, "traits" | "communication"> {
+  const traits = Object.fromEntries(
+    Object.entries(profile.traits).map(([key, value]) => [key, transform(value, "traits", key)])
+  ) as unknown as BigFiveTraits;
+  const communication = Object.fromEntries(
+    Object.entries(profile.communication).map(([key, value]) => [key, transform(value, "communication", key)])
+  ) as unknown as CommunicationStyle;
+
+  return { traits, communication };
+}
+
+/**
+ * Derive participant settings from a personality profile
+ * The derivation is deterministic: the same profile always gives the same settings
+ * 
+ * @param profile - Personality profile
+ * @returns Derived settings
+ */
+export function derivePersonality(profile: PersonalityProfile): PersonalitySettings {
+  const { openness: o, conscientiousness: c, extraversion: e, agreeableness: a, neuroticism: n } = profile.traits;
+  const { formality, verbosity, directness, expressiveness } = profile.communication;
+
+  const motivationWeights = {
+    "truth-seeking": clamp(0.2 + 0.5 * c + 0.3 * (1 - a)),
+    "consensus-seeking": clamp(0.2 + 0.6 * a + 0.2 * (1 - n)),
+    "curiosity": clamp(0.2 + 0.6 * o + 0.2 * e),
+    "persuasion": clamp(0.1 + 0.4 * e + 0.3 * (1 - a) + 0.2 * directness),
+  };
+
+  // Anxious participants react to their strongest urge; open, loosely organized ones improvise
+  const aggregationStrategy = n > 0.65 ? "max" : o > 0.65 && c < 0.4 ? "probabilistic" : "weighted";
+
+  const styleScores: Array<[PersonalityDialogueStyle, number]> = [
+    ["cooperative", a],
+    ["competitive", (1 - a + e) / 2],
+    ["inquisitive", o],
+    ["assertive", (directness + e) / 2],
+    ["analytical", c],
+  ];
+  const dialogueStyle = styleScores.reduce((best, score) => score[1] > best[1] ? score : best)[0];
+
+  return {
+    motivationWeights,
+    aggregationStrategy,
+    emotionalBaseline: {
+      valence: clamp(0.5 * (e - 0.5) + 0.5 * (a - 0.5) - (n - 0.5), -1, 1),
+      arousal: clamp(0.5 + 0.3 * (e - 0.5) + 0.3 * (n - 0.5) + 0.2 * (expressiveness - 0.5)),
+    },
+    biddingAggressiveness: clamp(0.5 + 0.4 * (e - 0.5) + 0.3 * (directness - 0.5) - 0.3 * (a - 0.5)),
+    dialogueStyle,
+    adaptability: clamp(0.4 + 0.3 * o + 0.3 * a - 0.2 * (n - 0.5)),
+    verbosity,
+    styleDirectives: getStyleDirectives(profile.traits, { formality, verbosity, directness, expressiveness }),
+  };
+}
+
+/**
+ * Get the factor a personality's bidding aggressiveness scales bids by
+ * Neutral aggressiveness (0.5) leaves bids unchanged; the factor ranges from 0.5 to 1.5
+ * 
+ * @param settings - Settings derived from the personality, if any
+ * @returns Bid multiplier, 1 without a personality
+ */
+export function getBidMultiplier(settings?: PersonalitySettings): number {
+  return settings ? 0.5 + settings.biddingAggressiveness : 1;
+}
+
+/**
+ * Get the prompt directives for a personality's pronounced traits and style
+ * 
+ * @param traits - Big Five trait levels
+ * @param communication - Communication style
+ * @returns Style directives, empty for an entirely moderate personality
+ */
+function getStyleDirectives(traits: BigFiveTraits, communication: CommunicationStyle): string[] {
+  const directives: Array<[number, string, string]> = [
+    [communication.formality, "Use formal, precise language.", "Speak casually and conversationally."],
+    [communication.verbosity, "Develop your points fully with detail and examples.", "Keep your contributions brief and to the point."],
+    [communication.directness, "State your views directly and plainly.", "Make your points diplomatically and soften disagreement."],
+    [communication.expressiveness, "Let your enthusiasm and feelings show.", "Keep an even, reserved tone."],
+    [traits.openness, "Bring in unconventional ideas and unexpected connections.", "Stick to familiar, proven ideas."],
+    [traits.conscientiousness, "Be systematic and careful about accuracy.", "Think out loud rather than polishing every point."],
+    [traits.extraversion, "Engage others actively and take the initiative.", "Speak up mainly when you have something substantive to add."],
+    [traits.agreeableness, "Acknowledge others' points and look for common ground.", "Challenge weak arguments without hesitation."],
+    [traits.neuroticism, "You are sensitive to criticism and to tension in the discussion.", "Stay calm and composed under pressure."],
+  ];
+
+  return directives.flatMap(([level, high, low]) => level >= 0.7 ? [high] : level <= 0.3 ? [low] : []);
+}
+
+/**
+ * Get a persona from the library
+ * 
+ * @param name - Name of the persona
+ * @returns Copy of the persona's profile
+ */
+export function getPersona(name: string): PersonalityProfile {
+  const persona = PERSONAS[name];
+
+  if (!persona) {
+    throw new Error(`Unknown persona: ${name}`);
+  }
+
+  return structuredClone(persona);
+}
+
+/**
+ * Blend several personality profiles into one
+ * Each trait and style aspect is the weighted average of the profiles' values
+ * 
+ * @param parts - Profiles to blend with their relative weights
+ * @param name - Name of the blended profile (default: the profiles' names joined with "+")
+ * @returns Blended profile
+ */
+export function composePersonalities(
+  parts: Array<{ profile: PersonalityProfile; weight: number }>,
+  name?: string
+): PersonalityProfile {
+  const totalWeight = parts.reduce((sum, part) => sum + part.weight, 0);
+
+  if (parts.length === 0 || totalWeight <= 0) {
+    throw new Error("Composing personalities requires at least one profile with a positive weight");
+  }
+
+  const blended = mapAspects(parts[0].profile, (_value, group, key) =>
+    parts.reduce((sum, part) => {
+      const values = part.profile[group] as unknown as Record<string, number>;
+      return sum + values[key] * part.weight;
+    }, 0) / totalWeight
+  );
+
+  return {
+    name: name ?? parts.map(part => part.profile.name).join("+"),
+    description: `Blend of ${parts.map(part => part.profile.name).join(", ")}`,
+    ...blended,
+  };
+}
+
+/**
+ * Randomly vary a personality profile, e.g. to build a population for experiments
+ * The variation is reproducible: the same seed always gives the same profile
+ * 
+ * @param profile - Profile to vary
+ * @param options - Size of the variation and random seed
+ * @returns Varied profile
+ */
+export function perturbPersonality(
+  profile: PersonalityProfile,
+  options: PerturbationOptions = {}
+): PersonalityProfile {
+  const magnitude = options.magnitude ?? 0.1;
+  const seed = options.seed ?? 1;
+  const random = createRandom(seed);
+
+  return {
+    ...profile,
+    name: `${profile.name}~${seed}`,
+    ...mapAspects(profile, value => clamp(value + (random() * 2 - 1) * magnitude)),
+  };
+}
+
+/**
+ * Create a population of varied copies of a personality profile
+ * 
+ * @param profile - Profile to vary
+ * @param size - Number of members in the population
+ * @param options - Size of the variation and the seed of the first member
+ * @returns Varied profiles, each with its own seed
+ */
+export function createPersonalityPopulation(
+  profile: PersonalityProfile,
+  size: number,
+  options: PerturbationOptions = {}
+): PersonalityProfile[] {
+  const seed = options.seed ?? 1;
+
+  return Array.from({ length: size }, (_, i) =>
+    perturbPersonality(profile, { ...options, seed: seed + i })
+  );
+}
@@ -0,0 +1,342 @@
+/**
+ * Persuasion Motivation Implementation
+ * 
+ * Implements a motivation that drives participants to defend a position
+ * and win other participants over to it.
+ */
+
+import { IParticipant } from "../../interfaces.ts";
+import {
+  DialogueContext,
+  DialogueTurn,
+  IMotivation,
+  MotivationState
+} from "./interfaces.ts";
+import {
+  AGREEMENT_MARKERS,
+  countMarkers,
+  DISAGREEMENT_MARKERS,
+  extractKeyTerms
+} from "../text_heuristics.ts";
+
+/**
+ * Configuration options for the persuasion motivation
+ */
+export interface PersuasionConfig {
+  /**
+   * Position the participant wants others to accept
+   */
+  targetPosition: string;
+
+  /**
+   * Agreement at which a participant counts as won over (0-1)
+   */
+  convincedThreshold?: number;
+
+  /**
+   * How far each new turn moves the estimate of its speaker's agreement (0-1)
+   */
+  updateRate?: number;
+
+  /**
+   * Urgency added when the position is attacked (0-1)
+   */
+  attackUrgency?: number;
+
+  /**
+   * Urgency added when an opponent wavers (0-1)
+   */
+  waverUrgency?: number;
+}
+
+/**
+ * Participant who could be won over to the target position
+ */
+export interface PersuasionTarget {
+  /**
+   * ID of the participant
+   */
+  participantId: string;
+
+  /**
+   * Estimated agreement with the target position (0-1)
+   */
+  agreement: number;
+
+  /**
+   * Estimated distance from the target position (0-1)
+   */
+  distance: number;
+
+  /**
+   * Whether the participant has recently shown signs of wavering
+   */
+  wavering: boolean;
+}
+
+/**
+ * Phrases that signal hesitation
+ */
+const HEDGING_MARKERS = [
+  "perhaps", "maybe", "not sure", "i wonder", "to be fair", "i admit", "granted",
+  "some merit", "i concede", "might be", "could be right",
+];
+
+/**
+ * A motivation that drives participants to defend a position and persuade others of it
+ */
+export class PersuasionMotivation implements IMotivation {
+  /**
+   * Unique identifier for this motivation
+   */
+  id = "persuasion";
+
+  /**
+   * Human-readable name for this motivation
+   */
+  name = "Persuasion";
+
+  /**
+   * Configuration with defaults applied
+   */
+  private config: Required<PersuasionConfig>;
+
+  /**
+   * Create a new persuasion motivation
+   * 
+   * @param config - Configuration options
+   */
+  constructor(config: PersuasionConfig) {
+    this.config = {
+      convincedThreshold: 0.8,
+      updateRate: 0.4,
+      attackUrgency: 0.3,
+      waverUrgency: 0.2,
+      ...config
+    };
+  }
+
+  /**
+   * Get the position this motivation argues for
+   * 
+   * @returns Target position
+   */
+  get targetPosition(): string {
+    return this.config.targetPosition;
+  }
+
+  /**
+   * Calculate the desire to speak based on the persuasion motivation
+   * Desire is highest right after the position is attacked, and otherwise grows
+   * with urgency and with how far the others are from the position
+   * 
+   * @param participant - The participant with this motivation
+   * @param state - Current state of the motivation
+   * @param context - Current dialogue context
+   * @returns Desire to speak (0-1)
+   */
+  calculateDesire(
+    participant: IParticipant,
+    state: MotivationState,
+    context: DialogueContext
+  ): Promise<number> {
+    const lastTurn = context.history[context.history.length - 1];
+    
+    // Defend the position as soon as someone else attacks it
+    if (lastTurn && lastTurn.participantId !== participant.id && this.isAttack(lastTurn.message)) {
+      return Promise.resolve(Math.min(1, 0.8 + state.urgency * 0.2));
+    }
+    
+    const others = Array.from(state.agreement.entries())
+      .filter(([participantId]) => participantId !== participant.id);
+    const averageDistance = others.length === 0
+      ? 0.5
+      : others.reduce((sum, [, agreement]) => sum + (1 - agreement), 0) / others.length;
+    
+    return Promise.resolve(Math.min(1, 0.2 + averageDistance * 0.3 + state.urgency * 0.5));
+  }
+
+  /**
+   * Update the motivation state after a dialogue turn
+   * Moves the estimate of the speaker's agreement toward what the turn shows and
+   * records attacks on the position and wavering opponents in metadata
+   * 
+   * @param state - Current state of the motivation
+   * @param turn - The dialogue turn that just occurred
+   * @param context - Current dialogue context
+   * @returns Updated motivation state
+   */
+  updateState(
+    state: MotivationState,
+    turn: DialogueTurn,
+    _context: DialogueContext
+  ): MotivationState {
+    // Create a copy of the state to modify
+    const newState = this.cloneMotivationState(state);
+    const wavering = new Set((state.metadata.wavering as string[] | undefined) ?? []);
+    
+    const signal = this.estimateAgreement(turn.message);
+    const previous = newState.agreement.get(turn.participantId) ?? 0.5;
+    const attacked = this.isAttack(turn.message) && previous < this.config.convincedThreshold;
+    
+    if (signal !== undefined) {
+      const updated = previous * (1 - this.config.updateRate) + signal * this.config.updateRate;
+      newState.agreement.set(turn.participantId, updated);
+      
+      // An opponent wavers when they hedge or drift toward the position
+      const hedging = countMarkers(turn.message, HEDGING_MARKERS) > 0;
+      if (previous < 0.5 && (hedging || updated > previous + 0.05)) {
+        wavering.add(turn.participantId);
+      } else if (updated < previous || updated >= this.config.convincedThreshold) {
+        wavering.delete(turn.participantId);
+      }
+    }
+    
+    // Urgency rises under attack or when an opponent wavers, and eases otherwise
+    if (attacked) {
+      newState.urgency = Math.min(1, newState.urgency + this.config.attackUrgency);
+      newState.emotionalState.arousal = Math.min(1, newState.emotionalState.arousal + 0.15);
+    } else if (wavering.has(turn.participantId)) {
+      newState.urgency = Math.min(1, newState.urgency + this.config.waverUrgency);
+      newState.emotionalState.valence = Math.min(1, newState.emotionalState.valence + 0.1);
+    } else {
+      newState.urgency = Math.max(0, newState.urgency - 0.1);
+    }
+    
+    if (this.isAbout(turn.message)) {
+      newState.topicsAddressed.add(this.config.targetPosition);
+    }
+    
+    const agreements = Array.from(newState.agreement.values());
+    newState.satisfaction = agreements.length === 0
+      ? 0
+      : agreements.reduce((sum, agreement) => sum + agreement, 0) / agreements.length;
+    
+    newState.metadata = {
+      ...newState.metadata,
+      wavering: Array.from(wavering),
+      positionAttacked: attacked,
+      attackCount: ((state.metadata.attackCount as number | undefined) ?? 0) + (attacked ? 1 : 0),
+    };
+    
+    return newState;
+  }
+
+  /**
+   * Check if the motivation's goals are satisfied
+   * 
+   * @param state - Current state of the motivation
+   * @returns Whether every tracked participant has been won over
+   */
+  isSatisfied(state: MotivationState): boolean {
+    const agreements = Array.from(state.agreement.values());
+    return agreements.length > 0 &&
+      agreements.every(agreement => agreement >= this.config.convincedThreshold);
+  }
+
+  /**
+   * Find the participant who is most open to the target position
+   * Only participants who have not been won over are considered; wavering
+   * participants are preferred over equally distant ones
+   * 
+   * @param state - Current state of the motivation
+   * @param exclude - IDs of participants not to target, such as the participant itself
+   * @returns The most persuadable participant, or undefined if everyone is convinced
+   */
+  getMostPersuadable(state: MotivationState, exclude: string[] = []): PersuasionTarget | undefined {
+    const wavering = (state.metadata.wavering as string[] | undefined) ?? [];
+    
+    const candidates = Array.from(state.agreement.entries())
+      .filter(([participantId, agreement]) =>
+        !exclude.includes(participantId) && agreement < this.config.convincedThreshold
+      )
+      .map(([participantId, agreement]) => ({
+        participantId,
+        agreement,
+        distance: 1 - agreement,
+        wavering: wavering.includes(participantId),
+      }));
+    
+    if (candidates.length === 0) {
+      return undefined;
+    }
+    
+    const openness = (target: PersuasionTarget) => target.agreement + (target.wavering ? 0.2 : 0);
+    return candidates.reduce((best, target) => openness(target) > openness(best) ? target : best);
+  }
+
+  /**
+   * Estimate how far a message agrees with the target position
+   * 
+   * @param message - Message to analyze
+   * @returns Agreement (0-1), or undefined if the message gives no signal
+   */
+  private estimateAgreement(message: string): number | undefined {
+    const agreement = countMarkers(message, AGREEMENT_MARKERS);
+    const opposition = countMarkers(message, DISAGREEMENT_MARKERS);
+    const hedging = countMarkers(message, HEDGING_MARKERS);
+    const markers = agreement + opposition + hedging;
+    
+    if (markers === 0) {
+      // A message that restates the position without qualification supports it
+      return this.isAbout(message) ? 0.7 : undefined;
+    }
+    
+    // Hedges pull the estimate toward the middle
+    return 0.5 + 0.5 * (agreement - opposition) / markers;
+  }
+
+  /**
+   * Check whether a message attacks the target position
+   * 
+   * @param message - Message to analyze
+   * @returns Whether the message opposes the position
+   */
+  private isAttack(message: string): boolean {
+    return this.isAbout(message) &&
+      countMarkers(message, DISAGREEMENT_MARKERS) > countMarkers(message, AGREEMENT_MARKERS);
+  }
+
+  /**
+   * Check whether a message discusses the target position
+   * 
+   * @param message - Message to analyze
+   * @returns Whether the message shares enough of the position's key terms
+   */
+  private isAbout(message: string): boolean {
+    const terms = extractKeyTerms(this.config.targetPosition);
+    const messageTerms = new Set(extractKeyTerms(message));
+    const shared = terms.filter(term => messageTerms.has(term)).length;
+    
+    return terms.length > 0 && shared >= Math.min(2, terms.length);
+  }
+
+  /**
+   * Create a deep copy of a motivation state
+   * 
+   * @param state - State to clone
+   * @returns Cloned state
+   */
+  private cloneMotivationState(state: MotivationState): MotivationState {
+    return {
+      satisfaction: state.satisfaction,
+      urgency: state.urgency,
+      agreement: new Map(state.agreement),
+      topicsAddressed: new Set(state.topicsAddressed),
+      emotionalState: { ...state.emotionalState },
+      metadata: { ...state.metadata }
+    };
+  }
+}
+
+/**
+ * Create a persuasion motivation with the specified configuration
+ * 
+ * @param config - Configuration options
+ * @returns A new PersuasionMotivation instance
+ */
+export function createPersuasionMotivation(
+  config: PersuasionConfig
+): PersuasionMotivation {
+  return new PersuasionMotivation(config);
+}
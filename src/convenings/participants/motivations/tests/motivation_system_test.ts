@@ -9,9 +9,15 @@ import { createStringUtils } from "../../../../utils/mod.ts";
 import { 
   createContextualParticipant,
   createConsensusSeekingMotivation,
+  createCuriosityMotivation,
+  createPersuasionMotivation,
   createTruthSeekingMotivation,
+  composePersonalities,
+  derivePersonality,
   DialogueContext,
-  MotivationState
+  getPersona,
+  MotivationState,
+  perturbPersonality
 } from "../mod.ts";
 
 // Mock values for testing
@@ -131,6 +137,112 @@ Deno.test("TruthSeekingMotivation - Responds to unsubstantiated claims", async (
   assertNotEquals(updatedState.urgency, mockMotivationState.urgency);
 });
 
+Deno.test("CuriosityMotivation - Tracks information gaps", async () => {
+  const motivation = createCuriosityMotivation();
+  
+  const answered = {
+    ...createMockContext([
+      "What is the budget for testing?",
+      "The testing budget is fixed for the motivation system."
+    ]),
+    topics: ["testing"]
+  };
+  const gaps = motivation.findInformationGaps(answered);
+  assertEquals(gaps.answered, ["What is the budget for testing?"]);
+  assertEquals(gaps.underExploredTopics, []);
+  
+  // Desire rises as an unanswered ask and unexplored topics open up
+  const widened = {
+    ...createMockContext([
+      ...answered.history.map(turn => turn.message),
+      "Could you explain the rollout schedule."
+    ]),
+    topics: ["testing", "rollout", "staffing"]
+  };
+  const lowDesire = await motivation.calculateDesire(mockParticipant, mockMotivationState, answered);
+  const highDesire = await motivation.calculateDesire(mockParticipant, mockMotivationState, widened);
+  assert(highDesire > lowDesire, "Desire should rise as information gaps grow");
+  
+  // Closed gaps are recorded as addressed
+  const updatedState = motivation.updateState(mockMotivationState, widened.history[2], widened);
+  assert(updatedState.topicsAddressed.has("testing"), "Explored topic should be addressed");
+  assert(updatedState.topicsAddressed.has("What is the budget for testing?"), "Answered question should be addressed");
+  assertEquals(updatedState.metadata.unansweredAsks, ["Could you explain the rollout schedule."]);
+  assertEquals(updatedState.metadata.underExploredTopics, ["rollout", "staffing"]);
+});
+
+Deno.test("PersuasionMotivation - Tracks attacks and wavering opponents", () => {
+  const motivation = createPersuasionMotivation({ targetPosition: "Remote work improves productivity" });
+  const context = createMockContext([]);
+  const state: MotivationState = {
+    ...mockMotivationState,
+    agreement: new Map([["skeptic", 0.2], ["hardliner", 0.1]]),
+    metadata: {}
+  };
+  
+  // An attack on the position raises urgency
+  const attacked = motivation.updateState(state, {
+    participantId: "hardliner",
+    message: "Remote work is wrong about productivity; the data is flawed.",
+    timestamp: Date.now()
+  }, context);
+  assertEquals(attacked.metadata.positionAttacked, true);
+  assert(attacked.urgency > state.urgency, "Urgency should rise when the position is attacked");
+  
+  // A hedging opponent moves toward the position and becomes the target
+  const wavered = motivation.updateState(attacked, {
+    participantId: "skeptic",
+    message: "I admit remote work might be good for productivity in some teams.",
+    timestamp: Date.now()
+  }, context);
+  assertEquals(wavered.metadata.wavering, ["skeptic"]);
+  assert(wavered.agreement.get("skeptic")! > 0.2, "Agreement should rise for a wavering opponent");
+  
+  const target = motivation.getMostPersuadable(wavered, ["self"])!;
+  assertEquals(target.participantId, "skeptic");
+  assertEquals(target.wavering, true);
+  assertEquals(target.distance, 1 - target.agreement);
+});
+
+Deno.test("Personality - Derives settings and varies profiles reproducibly", () => {
+  const diplomat = derivePersonality(getPersona("diplomat"));
+  const contrarian = derivePersonality(getPersona("contrarian"));
+  
+  assertEquals(diplomat, derivePersonality(getPersona("diplomat")));
+  assertEquals(diplomat.dialogueStyle, "cooperative");
+  assert(
+    diplomat.motivationWeights["consensus-seeking"] > contrarian.motivationWeights["consensus-seeking"],
+    "Agreeable personalities should value consensus more"
+  );
+  assert(
+    contrarian.biddingAggressiveness > diplomat.biddingAggressiveness,
+    "Disagreeable, direct personalities should bid more aggressively"
+  );
+  assert(diplomat.emotionalBaseline.valence > 0, "Agreeable, calm personalities should start positive");
+  assert(
+    contrarian.styleDirectives.includes("Challenge weak arguments without hesitation."),
+    "Pronounced traits should produce style directives"
+  );
+  
+  // Perturbation is reproducible for a seed and stays within range
+  const skeptic = getPersona("skeptic");
+  const variant = perturbPersonality(skeptic, { magnitude: 0.2, seed: 7 });
+  assertEquals(variant, perturbPersonality(skeptic, { magnitude: 0.2, seed: 7 }));
+  assertNotEquals(variant.traits, perturbPersonality(skeptic, { magnitude: 0.2, seed: 8 }).traits);
+  assert(
+    Object.values(variant.traits).every(value => value >= 0 && value <= 1),
+    "Perturbed traits should stay in range"
+  );
+  
+  // Composition averages traits by weight
+  const blend = composePersonalities([
+    { profile: getPersona("diplomat"), weight: 1 },
+    { profile: getPersona("contrarian"), weight: 1 },
+  ]);
+  assertEquals(blend.name, "diplomat+contrarian");
+  assertEquals(blend.traits.agreeableness, 0.5);
+});
+
 Deno.test("ContextualParticipant - Creates with motivations", () => {
   const consensusMotivation = createConsensusSeekingMotivation();
   const truthMotivation = createTruthSeekingMotivation();
@@ -182,6 +294,58 @@ Deno.test("ContextualParticipant - Generates responses", async () => {
     "Response should acknowledge the topic or disagreement");
 });
 
+Deno.test("ContextualParticipant - Explicit weights take precedence over the personality", () => {
+  const participant = createContextualParticipant({
+    id: "test-motivated-participant",
+    name: "Tester",
+    agentConfig: { id: "test-agent", model: "test-model" },
+    personality: getPersona("diplomat"),
+    motivatedConfig: {
+      motivations: [
+        { motivation: createConsensusSeekingMotivation(), weight: 0.2 },
+        { motivation: createTruthSeekingMotivation() }
+      ]
+    }
+  }, createStringUtils());
+  
+  const derived = derivePersonality(getPersona("diplomat")).motivationWeights;
+  assertEquals(participant.getCheckpointState().motivations, {
+    "consensus-seeking": 0.2,
+    "truth-seeking": derived["truth-seeking"]
+  });
+});
+
+Deno.test("ContextualParticipant - Round-trips checkpoint state", async () => {
+  const createParticipant = () => createContextualParticipant({
+    id: "test-motivated-participant",
+    name: "Tester",
+    agentConfig: { id: "test-agent", model: "test-model" },
+    motivatedConfig: {
+      motivations: [
+        { motivation: createConsensusSeekingMotivation(), weight: 0.7 },
+        { motivation: createTruthSeekingMotivation(), weight: 0.3 }
+      ]
+    }
+  }, createStringUtils());
+
+  const state = JSON.parse(JSON.stringify(createParticipant().getCheckpointState()));
+  assertEquals(state.motivations, { "consensus-seeking": 0.7, "truth-seeking": 0.3 });
+  assertExists(state.motivationStates["consensus-seeking"]);
+
+  // The restored participant keeps its motivations and can still bid
+  const restored = createParticipant();
+  restored.restoreCheckpointState({ ...state, motivations: { "consensus-seeking": 0.4 } });
+
+  assertEquals(restored.getCheckpointState().motivations, { "consensus-seeking": 0.4, "truth-seeking": 0.3 });
+  const bid = await restored.calculateBid({
+    ...createMockContext(["Hello"]),
+    timeSinceLastTurn: 1000,
+    turnsSinceLastSpoke: 1,
+    isNewTopic: false
+  });
+  assert(bid.value >= 0 && bid.value <= 1, "Should produce a bid after restoring");
+});
+
 // Helper function for assertions
 function assert(condition: boolean, message: string): void {
   if (!condition) {
@@ -0,0 +1,549 @@
+/**
+ * Relationship Graph Implementation
+ * Tracks how each participant regards every other participant, so that
+ * alliances and rivalries emerge from what happens in the dialogue
+ */
+
+import { DialogueMessage } from "../workflows/dialogue_workflow.ts";
+import { AGREEMENT_MARKERS, countMarkers, DISAGREEMENT_MARKERS } from "./text_heuristics.ts";
+
+/**
+ * How one participant regards another, each dimension from 0 to 1
+ */
+export interface RelationshipDimensions {
+  /**
+   * Confidence that the other participant acts in good faith
+   */
+  trust: number;
+
+  /**
+   * Warmth and sense of common cause with the other participant
+   */
+  rapport: number;
+
+  /**
+   * Regard for the other participant's knowledge and reasoning
+   */
+  competence: number;
+
+  /**
+   * Resentment built up against the other participant
+   */
+  grievance: number;
+}
+
+/**
+ * Type of turn event that changes relationships
+ * - agreed: the actor agreed with the subject
+ * - contradicted: the actor contradicted the subject
+ * - debunked: the actor's fact check disputed a claim of the subject
+ * - verified: the actor's fact check supported a claim of the subject
+ */
+export type RelationshipEventType = "agreed" | "contradicted" | "debunked" | "verified";
+
+/**
+ * Turn event between two participants
+ */
+export interface RelationshipEvent {
+  /**
+   * Type of event
+   */
+  type: RelationshipEventType;
+
+  /**
+   * ID of the participant who acted
+   */
+  actorId: string;
+
+  /**
+   * ID of the participant the action was directed at
+   */
+  subjectId: string;
+
+  /**
+   * Turn in which the event occurred
+   */
+  turn: number;
+}
+
+/**
+ * Change to a relationship and the event that caused it
+ */
+export interface RelationshipChange {
+  /**
+   * Event that caused the change
+   */
+  event: RelationshipEvent;
+
+  /**
+   * Amount each dimension changed by
+   */
+  change: Partial<RelationshipDimensions>;
+}
+
+/**
+ * How one participant regards another, with the history behind it
+ */
+export interface Relationship extends RelationshipDimensions {
+  /**
+   * ID of the participant who holds the view
+   */
+  ownerId: string;
+
+  /**
+   * ID of the participant the view is about
+   */
+  targetId: string;
+
+  /**
+   * Most recent changes, oldest first
+   */
+  history: RelationshipChange[];
+}
+
+/**
+ * Serializable state of a relationship graph
+ * Relationships are keyed by the owner's ID, then by the target's ID
+ */
+export type RelationshipGraphState = Record<string, Record<string, Relationship>>;
+
+/**
+ * Coalition of participants who regard each other as allies
+ * Compatible with the coalitions in CoalitionBidContext
+ */
+export interface EmergentCoalition {
+  /**
+   * IDs of participants in the coalition
+   */
+  members: string[];
+
+  /**
+   * Description of the coalition
+   */
+  topic: string;
+
+  /**
+   * Strength of the coalition (0-1): the mean mutual affinity of its allied pairs
+   */
+  strength: number;
+
+  /**
+   * Turn of the latest event that shaped the alliances in the coalition
+   */
+  formed: number;
+}
+
+/**
+ * Configuration for a relationship graph
+ */
+export interface RelationshipGraphConfig {
+  /**
+   * Dimensions of a relationship before anything has happened
+   * Default: trust, rapport and competence 0.5, grievance 0
+   */
+  initial?: RelationshipDimensions;
+
+  /**
+   * Affinity at or above which a participant counts as an ally
+   * Default: 0.65
+   */
+  allyThreshold?: number;
+
+  /**
+   * Affinity at or below which a participant counts as a rival
+   * Default: 0.25
+   */
+  rivalThreshold?: number;
+
+  /**
+   * Number of changes kept in each relationship's history
+   * Default: 20
+   */
+  historyLimit?: number;
+}
+
+/**
+ * Effects of each event type on the relationships it touches
+ */
+const EVENT_EFFECTS: Record<RelationshipEventType, {
+  /**
+   * Change to how the subject regards the actor
+   */
+  subjectTowardActor?: Partial<RelationshipDimensions>;
+
+  /**
+   * Change to how the actor regards the subject
+   */
+  actorTowardSubject?: Partial<RelationshipDimensions>;
+
+  /**
+   * Change to how everyone but the subject regards the subject
+   */
+  othersTowardSubject?: Partial<RelationshipDimensions>;
+}> = {
+  agreed: {
+    subjectTowardActor: { trust: 0.1, rapport: 0.15, grievance: -0.05 },
+    actorTowardSubject: { rapport: 0.05, competence: 0.05 },
+  },
+  contradicted: {
+    subjectTowardActor: { trust: -0.05, rapport: -0.1, grievance: 0.15 },
+    actorTowardSubject: { competence: -0.05 },
+  },
+  debunked: {
+    subjectTowardActor: { grievance: 0.1 },
+    othersTowardSubject: { trust: -0.1, competence: -0.2 },
+  },
+  verified: {
+    othersTowardSubject: { trust: 0.05, competence: 0.1 },
+  },
+};
+
+/**
+ * Graph of how each participant regards every other participant
+ */
+export class RelationshipGraph {
+  /**
+   * Relationships by owner ID, then by target ID
+   */
+  private relationships: RelationshipGraphState = {};
+
+  /**
+   * Configuration with defaults applied
+   */
+  private config: Required<RelationshipGraphConfig>;
+
+  /**
+   * Create a new relationship graph
+   *
+   * @param config - Configuration options
+   */
+  constructor(config: RelationshipGraphConfig = {}) {
+    this.config = {
+      initial: config.initial ?? { trust: 0.5, rapport: 0.5, competence: 0.5, grievance: 0 },
+      allyThreshold: config.allyThreshold ?? 0.65,
+      rivalThreshold: config.rivalThreshold ?? 0.25,
+      historyLimit: config.historyLimit ?? 20,
+    };
+  }
+
+  /**
+   * Get how one participant regards another
+   *
+   * @param ownerId - ID of the participant who holds the view
+   * @param targetId - ID of the participant the view is about
+   * @returns Copy of the relationship (the initial one if nothing has happened yet)
+   */
+  getRelationship(ownerId: string, targetId: string): Relationship {
+    return structuredClone(
+      this.relationships[ownerId]?.[targetId] ?? this.createRelationship(ownerId, targetId)
+    );
+  }
+
+  /**
+   * Get how one participant regards another as a single number
+   * Trust, rapport and competence raise affinity; grievance lowers it
+   *
+   * @param ownerId - ID of the participant who holds the view
+   * @param targetId - ID of the participant the view is about
+   * @returns Affinity (-1 to 1; 0.5 for an initial relationship)
+   */
+  getAffinity(ownerId: string, targetId: string): number {
+    const relationship = this.relationships[ownerId]?.[targetId] ?? this.config.initial;
+    return 0.4 * relationship.trust + 0.4 * relationship.rapport + 0.2 * relationship.competence -
+      relationship.grievance;
+  }
+
+  /**
+   * Get the participants one participant regards as allies
+   *
+   * @param ownerId - ID of the participant who holds the views
+   * @returns IDs of allies
+   */
+  getAllies(ownerId: string): string[] {
+    return Object.keys(this.relationships[ownerId] ?? {})
+      .filter(targetId => this.getAffinity(ownerId, targetId) >= this.config.allyThreshold);
+  }
+
+  /**
+   * Get the participants one participant regards as rivals
+   *
+   * @param ownerId - ID of the participant who holds the views
+   * @returns IDs of rivals
+   */
+  getRivals(ownerId: string): string[] {
+    return Object.keys(this.relationships[ownerId] ?? {})
+      .filter(targetId => this.getAffinity(ownerId, targetId) <= this.config.rivalThreshold);
+  }
+
+  /**
+   * Apply a turn event to the relationships it touches
+   *
+   * @param event - The event
+   * @param participantIds - IDs of everyone present, who observe fact checks
+   */
+  recordEvent(event: RelationshipEvent, participantIds: string[] = []): void {
+    const effects = EVENT_EFFECTS[event.type];
+
+    if (effects.subjectTowardActor) {
+      this.applyChange(event.subjectId, event.actorId, event, effects.subjectTowardActor);
+    }
+
+    if (effects.actorTowardSubject) {
+      this.applyChange(event.actorId, event.subjectId, event, effects.actorTowardSubject);
+    }
+
+    if (effects.othersTowardSubject) {
+      for (const observerId of participantIds.filter(id => id !== event.subjectId)) {
+        this.applyChange(observerId, event.subjectId, event, effects.othersTowardSubject);
+      }
+    }
+  }
+
+  /**
+   * Detect the relationship events in a committed message and apply them
+   * Fact-check verdicts in the message metadata debunk or verify the checked
+   * speaker's claims; otherwise agreement or contradiction is attributed to the
+   * participants the message names, or to the previous speaker if it names none
+   *
+   * @param message - The committed message
+   * @param history - Messages before it
+   * @param participants - Everyone present
+   * @returns The events detected
+   */
+  observeMessage(
+    message: DialogueMessage,
+    history: DialogueMessage[],
+    participants: Array<{ id: string; name: string }>
+  ): RelationshipEvent[] {
+    const turn = (message.metadata?.turnNumber as number | undefined) ?? history.length;
+    const participantIds = participants.map(p => p.id);
+    const factCheck = message.metadata?.factCheck as { speakerId: string; verdicts: string[] } | undefined;
+    const events: RelationshipEvent[] = [];
+
+    if (factCheck) {
+      for (const verdict of factCheck.verdicts) {
+        if (verdict === "disputed" || verdict === "supported") {
+          events.push({
+            type: verdict === "disputed" ? "debunked" : "verified",
+            actorId: message.participantId,
+            subjectId: factCheck.speakerId,
+            turn,
+          });
+        }
+      }
+    } else {
+      const content = message.content.toLowerCase();
+      const agreement = countMarkers(content, AGREEMENT_MARKERS);
+      const contradiction = countMarkers(content, DISAGREEMENT_MARKERS);
+      const named = participants
+        .filter(p => p.id !== message.participantId && content.includes(p.name.toLowerCase()))
+        .map(p => p.id);
+      const previousSpeaker = history[history.length - 1]?.participantId;
+      const subjects = named.length > 0
+        ? named
+        : previousSpeaker && previousSpeaker !== message.participantId ? [previousSpeaker] : [];
+
+      if (agreement !== contradiction) {
+        for (const subjectId of subjects) {
+          events.push({
+            type: agreement > contradiction ? "agreed" : "contradicted",
+            actorId: message.participantId,
+            subjectId,
+            turn,
+          });
+        }
+      }
+    }
+
+    events.forEach(event => this.recordEvent(event, participantIds));
+
+    return events;
+  }
+
+  /**
+   * Find coalitions of participants who regard each other as allies
+   * Participants are linked when each counts the other as an ally, and every
+   * connected group of two or more forms a coalition
+   *
+   * @param participantIds - IDs of the participants to consider
+   * @returns Emergent coalitions, strongest first
+   */
+  deriveCoalitions(participantIds: string[]): EmergentCoalition[] {
+    const groups = new Map(participantIds.map(id => [id, id]));
+    const find = (id: string): string => groups.get(id) === id ? id : find(groups.get(id)!);
+    const links: Array<[string, string]> = [];
+
+    for (const [i, a] of participantIds.entries()) {
+      for (const b of participantIds.slice(i + 1)) {
+        if (
+          this.getAffinity(a, b) >= this.config.allyThreshold &&
+          this.getAffinity(b, a) >= this.config.allyThreshold
+        ) {
+          links.push([a, b]);
+          groups.set(find(a), find(b));
+        }
+      }
+    }
+
+    const coalitions = new Map<string, { members: string[]; links: Array<[string, string]> }>();
+
+    for (const link of links) {
+      const root = find(link[0]);
+      const coalition = coalitions.get(root) ?? { members: [], links: [] };
+      coalition.links.push(link);
+      coalitions.set(root, coalition);
+    }
+
+    return Array.from(coalitions.values())
+      .map(({ links }) => {
+        const members = participantIds.filter(id => links.some(link => link.includes(id)));
+        const affinities = links.map(([a, b]) => (this.getAffinity(a, b) + this.getAffinity(b, a)) / 2);
+        const turns = links.flatMap(([a, b]) => [
+          ...(this.relationships[a]?.[b]?.history ?? []),
+          ...(this.relationships[b]?.[a]?.history ?? []),
+        ].map(change => change.event.turn));
+
+        return {
+          members,
+          topic: `Alliance of ${members.join(", ")}`,
+          strength: Math.min(1, affinities.reduce((sum, affinity) => sum + affinity, 0) / affinities.length),
+          formed: Math.max(0, ...turns),
+        };
+      })
+      .sort((a, b) => b.strength - a.strength);
+  }
+
+  /**
+   * Describe a participant's notable relationships for a turn prompt
+   *
+   * @param ownerId - ID of the participant who holds the views
+   * @param participants - Everyone present, for their names
+   * @returns Prompt section, or an empty string if no relationship stands out
+   */
+  describeForPrompt(ownerId: string, participants: Array<{ id: string; name: string }>): string {
+    const lines = participants
+      .filter(p => p.id !== ownerId && this.relationships[ownerId]?.[p.id])
+      .flatMap(p => {
+        const relationship = this.relationships[ownerId][p.id];
+        const affinity = this.getAffinity(ownerId, p.id);
+        const views: string[] = [];
+
+        if (affinity >= this.config.allyThreshold) {
+          views.push("you regard them as an ally");
+        } else if (affinity <= this.config.rivalThreshold) {
+          views.push("you regard them as a rival");
+        }
+
+        if (relationship.competence >= 0.7) {
+          views.push("you respect their expertise");
+        } else if (relationship.competence <= 0.35) {
+          views.push("you doubt their competence");
+        }
+
+        if (views.length === 0) {
+          return [];
+        }
+
+        const lastChange = relationship.history[relationship.history.length - 1];
+        const cause = lastChange ? ` (most recently, ${this.describeEvent(lastChange.event, ownerId)})` : "";
+
+        return [`- ${p.name}: ${views.join("; ")}${cause}`];
+      });
+
+    if (lines.length === 0) {
+      return "";
+    }
+
+    return ["Your relationships with the other participants:", ...lines].join("\n");
+  }
+
+  /**
+   * Get the state of the graph for a checkpoint
+   *
+   * @returns Serializable graph state
+   */
+  getState(): RelationshipGraphState {
+    return structuredClone(this.relationships);
+  }
+
+  /**
+   * Restore the state of the graph from a checkpoint
+   *
+   * @param state - Graph state from the checkpoint
+   */
+  restoreState(state: RelationshipGraphState): void {
+    this.relationships = structuredClone(state);
+  }
+
+  /**
+   * Change how one participant regards another
+   *
+   * @param ownerId - ID of the participant who holds the view
+   * @param targetId - ID of the participant the view is about
+   * @param event - Event causing the change
+   * @param change - Amount to change each dimension by
+   */
+  private applyChange(
+    ownerId: string,
+    targetId: string,
+    event: RelationshipEvent,
+    change: Partial<RelationshipDimensions>
+  ): void {
+    if (ownerId === targetId) {
+      return;
+    }
+
+    const owned = this.relationships[ownerId] ??= {};
+    const relationship = owned[targetId] ??= this.createRelationship(ownerId, targetId);
+
+    for (const [dimension, amount] of Object.entries(change) as Array<[keyof RelationshipDimensions, number]>) {
+      relationship[dimension] = Math.max(0, Math.min(1, relationship[dimension] + amount));
+    }
+
+    relationship.history.push({ event, change });
+    relationship.history = relationship.history.slice(-this.config.historyLimit);
+  }
+
+  /**
+   * Create a relationship in its initial state
+   *
+   * @param ownerId - ID of the participant who holds the view
+   * @param targetId - ID of the participant the view is about
+   * @returns New relationship
+   */
+  private createRelationship(ownerId: string, targetId: string): Relationship {
+    return { ownerId, targetId, ...this.config.initial, history: [] };
+  }
+
+  /**
+   * Describe an event from a participant's point of view
+   *
+   * @param event - The event
+   * @param ownerId - ID of the participant whose point of view to take
+   * @returns Description of the event
+   */
+  private describeEvent(event: RelationshipEvent, ownerId: string): string {
+    switch (event.type) {
+      case "agreed":
+        return event.actorId === ownerId ? "you agreed with them" : "they agreed with you";
+      case "contradicted":
+        return event.actorId === ownerId ? "you contradicted them" : "they contradicted you";
+      case "debunked":
+        return event.subjectId === ownerId
+          ? "their fact check disputed your claims"
+          : "a fact check disputed their claims";
+      case "verified":
+        return "a fact check supported their claims";
+    }
+  }
+}
+
+/**
+ * Create a relationship graph
+ *
+ * @param config - Configuration options
+ * @returns New relationship graph
+ */
+export function createRelationshipGraph(config: RelationshipGraphConfig = {}): RelationshipGraph {
+  return new RelationshipGraph(config);
+}
@@ -0,0 +1,80 @@
+/**
+ * Tests for human participants
+ *
+ * Verifies human input sources, timeouts and hand raising.
+ */
+
+import { assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import {
+  createHumanAgent,
+  createHumanParticipant,
+  HumanInputSourceFactory
+} from "../human_participant.ts";
+import { SelectionStrategyFactory } from "../bidding/mod.ts";
+import { createDialogueWorkflow, DialogueParticipant } from "../../workflows/dialogue_workflow.ts";
+
+// Mock agent participants for testing
+const createAgentParticipants = (): DialogueParticipant[] =>
+  ["alice", "bob"].map(id => ({
+    id,
+    name: id,
+    agent: {
+      id: `${id}-agent`,
+      execute: (_input: string) => Promise.resolve(`Hello from ${id}`),
+    },
+  }));
+
+Deno.test("HumanAgent - passes when input times out", async () => {
+  const agent = createHumanAgent({
+    id: "human",
+    name: "Human",
+    inputSource: HumanInputSourceFactory.createQueueSource(),
+    inputTimeout: 10,
+    passResponse: "Pass",
+  });
+
+  assertEquals(await agent.execute("Your turn"), "Pass");
+});
+
+Deno.test("HumanAgent - passes when a callback ignores the timeout", async () => {
+  const agent = createHumanAgent({
+    id: "human",
+    name: "Human",
+    inputSource: HumanInputSourceFactory.createCallbackSource(() => new Promise(() => {})),
+    inputTimeout: 10,
+    passResponse: "Pass",
+  });
+
+  assertEquals(await agent.execute("Your turn"), "Pass");
+});
+
+Deno.test("HumanAgent - uses callback input", async () => {
+  const agent = createHumanAgent({
+    id: "human",
+    name: "Human",
+    inputSource: HumanInputSourceFactory.createCallbackSource(
+      request => `${request.participantName} says hi `
+    ),
+  });
+
+  assertEquals(await agent.execute("Your turn"), "Human says hi");
+});
+
+Deno.test("HumanParticipant - is selected ahead of rotation after submitting input", async () => {
+  const source = HumanInputSourceFactory.createQueueSource();
+  const human = createHumanParticipant({ id: "human", name: "Human", inputSource: source });
+
+  const workflow = createDialogueWorkflow("Testing", [...createAgentParticipants(), human], {
+    maxTurns: 1,
+    selectionStrategy: SelectionStrategyFactory.createHighestBidStrategy(),
+  });
+
+  // Input submitted before the turn counts as a raised hand
+  source.submit("I have a point to make");
+
+  const result = await workflow.run();
+
+  assertEquals(result.messages[0].participantId, "human");
+  assertEquals(result.messages[0].content, "I have a point to make");
+  assertEquals(result.messages[1].participantId === "human", false);
+});
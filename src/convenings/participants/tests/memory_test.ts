@@ -0,0 +1,132 @@
+/**
+ * Tests for participant memory
+ *
+ * Verifies that memories formed in one convening are stored and recalled
+ * into prompts in the next.
+ */
+
+import { assert, assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { createDialogueParticipant } from "../dialogue_participant.ts";
+import { createDebateModerator, createDebateParticipant } from "../debate_participant.ts";
+import { FileMemoryStore, InMemoryMemoryStore, MemoryEntry } from "../memory.ts";
+import { createDialogueWorkflow } from "../../workflows/dialogue_workflow.ts";
+import { createDebateWorkflow } from "../../workflows/debate_workflow.ts";
+
+Deno.test("ParticipantMemory - remembers commitments and relationships across convenings", async () => {
+  const store = new InMemoryMemoryStore();
+  const prompts: string[] = [];
+
+  const createPanel = (aliceScript: string[], bobScript: string[]) => [
+    createDialogueParticipant({
+      id: "alice",
+      name: "Alice",
+      agentConfig: { id: "alice-agent", model: "test-model" },
+      memory: { store },
+    }, {
+      id: "alice-agent",
+      execute: (input: string) => {
+        prompts.push(input);
+        return Promise.resolve(aliceScript.shift() ?? "Nothing to add.");
+      },
+    }),
+    createDialogueParticipant({ id: "bob", name: "Bob", agentConfig: { id: "bob-agent", model: "test-model" } }, {
+      id: "bob-agent",
+      execute: () => Promise.resolve(bobScript.shift() ?? "Nothing to add."),
+    }),
+  ];
+
+  await createDialogueWorkflow("Budget review", createPanel(
+    ["I think the travel budget is too high.", "I disagree, Bob. I will draft a leaner travel budget by Friday."],
+    ["Travel keeps the team connected."]
+  ), { maxTurns: 3 }).run();
+
+  const stored = await store.load("alice");
+  assertEquals(stored.map(m => m.kind), ["episode", "commitment", "position", "relationship"]);
+  assertEquals(stored[1].content, "I will draft a leaner travel budget by Friday.");
+  assertEquals(stored[3].sentiment, -1);
+
+  // A new panel with fresh participant objects recalls the stored memories
+  prompts.length = 0;
+  await createDialogueWorkflow("Travel budget follow-up", createPanel([], []), { maxTurns: 1 }).run();
+
+  assert(prompts[0].startsWith("From your previous convenings, you remember:"));
+  assert(prompts[0].includes('- [commitment] I will draft a leaner travel budget by Friday. (from "Budget review")'));
+  assert(prompts[0].includes('- [relationship] I mostly disagreed with Bob in the discussion on "Budget review"'));
+});
+
+Deno.test("FileMemoryStore - saves and loads memories in a new directory", async () => {
+  const root = await Deno.makeTempDir();
+
+  try {
+    const store = new FileMemoryStore(`${root}/memories`);
+    const memories: MemoryEntry[] = [{
+      id: "m1",
+      kind: "position",
+      content: "I think the pilot should run for a quarter.",
+      conveningId: "c1",
+      topic: "Pilot length",
+      participantIds: ["bob"],
+      importance: 0.7,
+      createdAt: 1,
+    }];
+
+    assertEquals(await store.load("team/alice"), []);
+
+    await store.save("team/alice", memories);
+
+    assertEquals(await store.load("team/alice"), memories);
+    assertEquals(await new FileMemoryStore(`${root}/memories`).load("team/alice"), memories);
+    assertEquals(await store.load("bob"), []);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test("ParticipantMemory - recalls memories into debate turns", async () => {
+  const store = new InMemoryMemoryStore();
+  const prompts: string[] = [];
+
+  await store.save("aff", [{
+    id: "m1",
+    kind: "commitment",
+    content: "I will argue that remote work needs core hours.",
+    conveningId: "earlier",
+    topic: "Remote work",
+    participantIds: ["neg"],
+    importance: 0.9,
+    createdAt: 1,
+  }]);
+
+  const participants = [
+    createDebateModerator(
+      { id: "mod", name: "Moderator", agentConfig: { id: "mod", model: "test" } },
+      { id: "mod-agent", execute: () => Promise.resolve("Moderator speaks.") }
+    ),
+    ...["aff", "neg"].map(id =>
+      createDebateParticipant({
+        id,
+        name: id,
+        agentConfig: { id, model: "test" },
+        debateRole: "position_advocate",
+        position: `${id}'s position`,
+        memory: { store },
+      }, {
+        id: `${id}-agent`,
+        execute: (input: string) => {
+          prompts.push(`${id}> ${input}`);
+          return Promise.resolve(`${id} speaks.`);
+        },
+      })
+    ),
+  ];
+
+  await createDebateWorkflow("Remote work", participants, {
+    maxTurns: 3,
+    scoringEnabled: false,
+    showProgress: false,
+  }).run();
+
+  const affPrompt = prompts.find(prompt => prompt.startsWith("aff> "));
+  assert(affPrompt?.includes('- [commitment] I will argue that remote work needs core hours. (from "Remote work")'));
+  assert(!prompts.find(prompt => prompt.startsWith("neg> "))?.includes("From your previous convenings"));
+});
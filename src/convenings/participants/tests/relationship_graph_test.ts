@@ -0,0 +1,87 @@
+/**
+ * Tests for the relationship graph
+ *
+ * Verifies that turn events update relationships, and that alliances that
+ * emerge from them feed coalition bidding and turn prompts.
+ */
+
+import { assert, assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { createRelationshipGraph } from "../relationship_graph.ts";
+import { CoalitionBiddingStrategy, SelectionStrategyFactory } from "../bidding/mod.ts";
+import { createDialogueWorkflow, DialogueParticipant } from "../../workflows/dialogue_workflow.ts";
+
+const participants = [
+  { id: "alice", name: "Alice" },
+  { id: "bob", name: "Bob" },
+  { id: "carol", name: "Carol" },
+];
+
+Deno.test("RelationshipGraph - alliances emerge from agreement and feed coalition bids", async () => {
+  const graph = createRelationshipGraph();
+  const strategy = new CoalitionBiddingStrategy(0.5, 0.3, graph);
+  const prompts: string[] = [];
+  const scripts: Record<string, string[]> = {
+    alice: ["Remote work boosts focus.", "I agree with Bob, good point."],
+    bob: ["I agree, Alice, well said.", "Exactly, Alice."],
+    carol: ["I disagree with Bob, that is wrong.", "You are both mistaken."],
+  };
+
+  const dialogueParticipants: DialogueParticipant[] = participants.map(({ id, name }) => ({
+    id,
+    name,
+    agent: {
+      id: `${id}-agent`,
+      execute: (input: string) => {
+        if (id === "alice") {
+          prompts.push(input);
+        }
+        return Promise.resolve(scripts[id].shift() ?? "Nothing to add.");
+      },
+    },
+    calculateBid: dialogueState => strategy.calculateBid({ dialogueState, participantId: id }),
+  }));
+
+  const result = await createDialogueWorkflow("Remote work", dialogueParticipants, {
+    maxTurns: 7,
+    selectionStrategy: SelectionStrategyFactory.createRoundRobinStrategy(),
+    relationshipGraph: graph,
+  }).run();
+
+  const coalitions = graph.deriveCoalitions(["alice", "bob", "carol"]);
+  assertEquals(coalitions.map(c => [c.members, c.topic, c.formed]), [
+    [["alice", "bob"], "Alliance of alice, bob", 4],
+  ]);
+  assertEquals(graph.getRivals("bob"), ["carol"]);
+  assertEquals(graph.getRelationship("bob", "carol").history.map(h => h.event.type), ["contradicted", "contradicted"]);
+
+  // Bids after the alliance formed reflect the emergent coalition
+  const bids = result.messages[5].metadata?.bids as Array<{ participantId: string; reason: string }>;
+  assertEquals(bids.map(b => b.reason), [
+    'Coalition bidding (member of "Alliance of alice, bob" coalition)',
+    'Coalition bidding (member of "Alliance of alice, bob" coalition)',
+    'Coalition bidding (opposing "Alliance of alice, bob" coalition)',
+  ]);
+
+  assert(!prompts[1].includes("Your relationships"));
+  assert(prompts[2].startsWith(
+    "Your relationships with the other participants:\n- Bob: you regard them as an ally (most recently, they agreed with you)"
+  ));
+});
+
+Deno.test("RelationshipGraph - disputed fact checks lower perceived competence", () => {
+  const graph = createRelationshipGraph();
+
+  const events = graph.observeMessage({
+    participantId: "carol",
+    content: "Verdicts on Alice's claims.",
+    timestamp: 0,
+    metadata: { turnNumber: 2, factCheck: { speakerId: "alice", verdicts: ["disputed", "unverifiable"] } },
+  }, [], participants);
+
+  assertEquals(events, [{ type: "debunked", actorId: "carol", subjectId: "alice", turn: 2 }]);
+  assertEquals(graph.getRelationship("alice", "carol").grievance, 0.1);
+  assertEquals(
+    graph.describeForPrompt("bob", participants),
+    "Your relationships with the other participants:\n- Alice: you doubt their competence (most recently, a fact check disputed their claims)"
+  );
+});
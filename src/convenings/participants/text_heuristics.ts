@@ -0,0 +1,58 @@
+/**
+ * Text Heuristics
+ *
+ * Phrase lists and helpers shared by the components that read stance and
+ * topic from message text without calling a model: motivations, memory
+ * extraction and the relationship graph.
+ */
+
+/**
+ * Phrases that signal agreement with what has been said
+ */
+export const AGREEMENT_MARKERS = [
+  "i agree", "you're right", "you are right", "good point", "fair point", "well said",
+  "exactly", "makes sense", "builds on", "i support", "i'm convinced",
+];
+
+/**
+ * Phrases that signal disagreement with what has been said
+ */
+export const DISAGREEMENT_MARKERS = [
+  "disagree", "wrong", "flawed", "not convinced", "oppose", "reject", "fails", "misguided",
+  "incorrect", "mistaken", "however", "on the contrary", "i doubt",
+];
+
+/**
+ * Words ignored when extracting key terms
+ */
+const STOP_WORDS = new Set([
+  "about", "after", "also", "been", "before", "being", "could", "does", "explain", "from",
+  "have", "into", "just", "more", "please", "should", "tell", "than", "that", "their",
+  "them", "then", "there", "these", "they", "this", "those", "what", "when", "where",
+  "which", "while", "will", "with", "would", "your",
+]);
+
+/**
+ * Count the marker phrases that occur in a piece of text
+ *
+ * @param text - Text to analyze
+ * @param markers - Phrases to look for
+ * @returns Number of distinct phrases found
+ */
+export function countMarkers(text: string, markers: string[]): number {
+  const lowerText = text.toLowerCase();
+  return markers.filter(marker => lowerText.includes(marker)).length;
+}
+
+/**
+ * Extract the key terms of a piece of text
+ *
+ * @param text - Text to analyze
+ * @returns Lowercase content words
+ */
+export function extractKeyTerms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9']+/)
+    .filter(word => word.length > 3 && !STOP_WORDS.has(word));
+}
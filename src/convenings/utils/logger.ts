@@ -193,6 +193,22 @@ export interface ApiCost {
   outputCostPer1K: number;
 }
 
+/**
+ * Options for saving data to a file
+ */
+export interface SaveToFileOptions {
+  /**
+   * Extra fields added to JSON output, such as a debate's `argumentMap`
+   */
+  extraFields?: Record<string, unknown>;
+
+  /**
+   * Prerendered sections included before a debate transcript in Markdown output,
+   * such as one from `renderArgumentMapMarkdown`
+   */
+  markdownSections?: string[];
+}
+
 /**
  * Logger interface
  */
@@ -260,6 +276,14 @@ export interface ILogger {
    */
   getApiUsageMetrics(): ApiUsageMetrics;
   
+  /**
+   * Restore previously recorded API usage metrics
+   * Used when resuming a workflow from a checkpoint so budgets carry over
+   * 
+   * @param metrics - API usage metrics to restore
+   */
+  restoreApiUsageMetrics(metrics: ApiUsageMetrics): void;
+  
   /**
    * Get budget status
    * 
@@ -283,8 +307,14 @@ export interface ILogger {
    * @param data - Data to save
    * @param filePath - File path
    * @param format - File format
+   * @param options - What to include alongside the data
    */
-  saveToFile(data: unknown, filePath: string, format?: "json" | "md" | "txt"): Promise<void>;
+  saveToFile(
+    data: unknown,
+    filePath: string,
+    format?: "json" | "md" | "txt",
+    options?: SaveToFileOptions
+  ): Promise<void>;
 }
 
 // Import updated model pricing
@@ -649,6 +679,39 @@ export class Logger implements ILogger {
     };
   }
   
+  /**
+   * Restore previously recorded API usage metrics
+   * 
+   * @param metrics - API usage metrics to restore
+   */
+  restoreApiUsageMetrics(metrics: ApiUsageMetrics): void {
+    this.apiUsage = {
+      calls: metrics.totalCalls,
+      inputTokens: metrics.inputTokens,
+      outputTokens: metrics.outputTokens,
+      totalTokens: metrics.totalTokens,
+      cost: metrics.estimatedCost,
+      byModel: Object.fromEntries(
+        Object.entries(metrics.byModel).map(([model, usage]) => [
+          model,
+          {
+            calls: usage.calls,
+            inputTokens: usage.inputTokens,
+            outputTokens: usage.outputTokens,
+            totalTokens: usage.totalTokens,
+            cost: usage.estimatedCost,
+          }
+        ])
+      ),
+    };
+    
+    this.debug("API usage restored", {
+      totalCalls: this.apiUsage.calls,
+      totalTokens: this.apiUsage.totalTokens,
+      totalCost: `$${this.apiUsage.cost.toFixed(6)}`,
+    });
+  }
+  
   /**
    * Get budget status
    * 
@@ -783,11 +846,13 @@ export class Logger implements ILogger {
    * @param data - Data to save
    * @param filePath - File path
    * @param format - File format
+   * @param options - What to include alongside the data
    */
   async saveToFile(
     data: unknown, 
     filePath: string, 
-    format: "json" | "md" | "txt" = "json"
+    format: "json" | "md" | "txt" = "json",
+    options: SaveToFileOptions = {}
   ): Promise<void> {
     try {
       // Create directory if it doesn't exist
@@ -797,11 +862,17 @@ export class Logger implements ILogger {
       
       switch (format) {
         case "json":
-          content = JSON.stringify(data, null, 2);
+          content = JSON.stringify(
+            options.extraFields && typeof data === "object" && data !== null
+              ? { ...data, ...options.extraFields }
+              : data,
+            null,
+            2
+          );
           break;
           
         case "md":
-          content = this.convertToMarkdown(data);
+          content = this.convertToMarkdown(data, options.markdownSections);
           break;
           
         case "txt":
@@ -824,16 +895,17 @@ export class Logger implements ILogger {
    * Convert data to Markdown
    * 
    * @param data - Data to convert
+   * @param sections - Sections to include with a debate transcript
    * @returns Markdown string
    */
-  private convertToMarkdown(data: unknown): string {
+  private convertToMarkdown(data: unknown, sections: string[] = []): string {
     if (typeof data !== "object" || data === null) {
       return String(data);
     }
     
     // Check if it's a debate result
     if ("topic" in data && "messages" in data && Array.isArray((data as any).messages)) {
-      return this.formatDebateMarkdown(data as any);
+      return this.formatDebateMarkdown(data as any, sections);
     }
     
     // Generic object to markdown
@@ -855,9 +927,10 @@ export class Logger implements ILogger {
    * Format debate result as Markdown
    * 
    * @param debate - Debate result
+   * @param sections - Sections to include before the transcript
    * @returns Markdown string
    */
-  private formatDebateMarkdown(debate: any): string {
+  private formatDebateMarkdown(debate: any, sections: string[] = []): string {
     let md = `# Debate: ${debate.topic}\n\n`;
     
     // Add metadata
@@ -901,6 +974,11 @@ export class Logger implements ILogger {
       md += `${debate.summary}\n\n`;
     }
     
+    // Add extra sections, such as an argument map
+    for (const section of sections) {
+      md += `${section}\n\n`;
+    }
+    
     // Add transcript
     md += "## Transcript\n\n";
     
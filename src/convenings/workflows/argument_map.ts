@@ -0,0 +1,395 @@
+/**
+ * Argument Map Implementation
+ * Extracts a graph of claims, premises and evidence from debate transcripts
+ */
+
+import type { IAgent } from "../../utils/interfaces.ts";
+import type { DebateRole } from "../participants/debate_participant.ts";
+import type { DialogueMessage } from "./dialogue_workflow.ts";
+import type { DebateWorkflowResult } from "./debate_workflow.ts";
+
+/**
+ * Kind of element in an argument map
+ */
+export type ArgumentNodeType = "claim" | "premise" | "evidence";
+
+/**
+ * How one element of an argument bears on another
+ */
+export type ArgumentRelationType = "supports" | "rebuts";
+
+/**
+ * A claim, premise or piece of evidence in an argument map
+ */
+export interface ArgumentNode {
+  /**
+   * Unique identifier for the node
+   */
+  id: string;
+
+  /**
+   * Kind of element
+   */
+  type: ArgumentNodeType;
+
+  /**
+   * Statement of the element
+   */
+  text: string;
+
+  /**
+   * ID of the participant who introduced the element
+   */
+  participantId: string;
+
+  /**
+   * Index in the transcript of the message that introduced the element
+   */
+  messageIndex: number;
+
+  /**
+   * Turn number of the message that introduced the element
+   */
+  turnNumber?: number;
+}
+
+/**
+ * Support or rebuttal relation between two elements
+ */
+export interface ArgumentEdge {
+  /**
+   * ID of the node that supports or rebuts
+   */
+  from: string;
+
+  /**
+   * ID of the node that is supported or rebutted
+   */
+  to: string;
+
+  /**
+   * Kind of relation
+   */
+  type: ArgumentRelationType;
+
+  /**
+   * Index in the transcript of the message that made the relation
+   */
+  messageIndex: number;
+}
+
+/**
+ * Structured argument graph of a debate
+ */
+export interface ArgumentMap {
+  /**
+   * Topic of the debate
+   */
+  topic: string;
+
+  /**
+   * Claims, premises and evidence in the order they were introduced
+   */
+  nodes: ArgumentNode[];
+
+  /**
+   * Support and rebuttal relations between nodes
+   */
+  edges: ArgumentEdge[];
+}
+
+/**
+ * Configuration for an argument map analyzer
+ */
+export interface ArgumentMapAnalyzerConfig {
+  /**
+   * Agent used to extract argument elements from messages
+   */
+  analyzer: IAgent;
+
+  /**
+   * Roles whose messages are analyzed
+   * Every message is analyzed if the result does not record participant roles
+   * Default: ["position_advocate"]
+   */
+  roles?: DebateRole[];
+
+  /**
+   * Maximum number of new elements extracted from one message
+   * Default: 5
+   */
+  maxNodesPerMessage?: number;
+}
+
+/**
+ * Elements and relations extracted from one message
+ */
+interface MessageExtraction {
+  nodes: { key: string; type: ArgumentNodeType; text: string }[];
+  relations: { from: string; to: string; type: ArgumentRelationType }[];
+}
+
+/**
+ * Extracts argument maps from debate results
+ */
+export class ArgumentMapAnalyzer {
+  private analyzer: IAgent;
+  private roles: DebateRole[];
+  private maxNodesPerMessage: number;
+
+  /**
+   * Create a new argument map analyzer
+   *
+   * @param config - Configuration for the analyzer
+   */
+  constructor(config: ArgumentMapAnalyzerConfig) {
+    this.analyzer = config.analyzer;
+    this.roles = config.roles ?? ["position_advocate"];
+    this.maxNodesPerMessage = config.maxNodesPerMessage ?? 5;
+  }
+
+  /**
+   * Extract the argument map of a debate
+   * Messages are analyzed in order so each can support or rebut earlier elements
+   *
+   * @param result - Result of the debate
+   * @returns Argument map
+   */
+  async analyze(result: DebateWorkflowResult): Promise<ArgumentMap> {
+    const map: ArgumentMap = { topic: result.topic, nodes: [], edges: [] };
+
+    for (const [messageIndex, message] of result.messages.entries()) {
+      const role = result.participantRoles?.[message.participantId];
+      if (role && !this.roles.includes(role)) {
+        continue;
+      }
+
+      const extraction = await this.extract(result.topic, message, map.nodes);
+      this.addExtraction(map, extraction, message, messageIndex);
+    }
+
+    return map;
+  }
+
+  /**
+   * Extract the argument elements introduced by a message
+   *
+   * @param topic - Topic of the debate
+   * @param message - Message to analyze
+   * @param nodes - Elements introduced by earlier messages
+   * @returns Extracted elements and relations
+   */
+  private async extract(
+    topic: string,
+    message: DialogueMessage,
+    nodes: ArgumentNode[]
+  ): Promise<MessageExtraction> {
+    const earlier = nodes.length > 0
+      ? nodes.map(n => `${n.id} [${n.type}, ${n.participantId}]: ${collapseWhitespace(n.text)}`).join("\n")
+      : "(none)";
+
+    const prompt = `
+You are mapping the arguments in a debate on: ${topic}
+
+Elements already in the map:
+${earlier}
+
+New message from ${message.participantId}:
+${message.content}
+
+Extract up to ${this.maxNodesPerMessage} new elements that this message introduces:
+- "claim": a conclusion the speaker argues for
+- "premise": a reason given for a claim
+- "evidence": a fact, statistic, example or source offered in support
+
+Then list the relations the message makes, using your keys for new elements and ids for existing ones:
+- "supports": the first element gives a reason to accept the second
+- "rebuts": the first element argues against the second
+
+Important: Your response must be formatted EXACTLY as follows (JSON object only, no other text):
+{"nodes": [{"key": "a", "type": "claim", "text": "..."}], "relations": [{"from": "a", "to": "n1", "type": "rebuts"}]}
+    `;
+
+    const response = await this.analyzer.execute(prompt);
+
+    try {
+      // Extract JSON from response (in case model adds surrounding text)
+      const jsonMatch = response.match(/\{[\s\S]*\}/);
+      const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : response);
+
+      return {
+        nodes: Array.isArray(parsed.nodes) ? parsed.nodes : [],
+        relations: Array.isArray(parsed.relations) ? parsed.relations : [],
+      };
+    } catch (error) {
+      console.error("Error parsing argument map response:", error);
+      return { nodes: [], relations: [] };
+    }
+  }
+
+  /**
+   * Add a message's elements and relations to the map, dropping malformed ones
+   *
+   * @param map - Map to add to
+   * @param extraction - Elements and relations extracted from the message
+   * @param message - Message they were extracted from
+   * @param messageIndex - Index of the message in the transcript
+   */
+  private addExtraction(
+    map: ArgumentMap,
+    extraction: MessageExtraction,
+    message: DialogueMessage,
+    messageIndex: number
+  ): void {
+    const ids = new Map<string, string>();
+
+    for (const node of extraction.nodes.slice(0, this.maxNodesPerMessage)) {
+      if (!["claim", "premise", "evidence"].includes(node.type) || !node.text) {
+        continue;
+      }
+
+      const id = `n${map.nodes.length + 1}`;
+      ids.set(String(node.key), id);
+      map.nodes.push({
+        id,
+        type: node.type,
+        text: String(node.text).trim(),
+        participantId: message.participantId,
+        messageIndex,
+        turnNumber: message.metadata?.turnNumber as number | undefined,
+      });
+    }
+
+    const known = new Set(map.nodes.map(n => n.id));
+    const resolve = (ref: string) => ids.get(String(ref)) ?? (known.has(ref) ? ref : undefined);
+
+    for (const relation of extraction.relations) {
+      const from = resolve(relation.from);
+      const to = resolve(relation.to);
+
+      if (from && to && from !== to && ["supports", "rebuts"].includes(relation.type)) {
+        map.edges.push({ from, to, type: relation.type, messageIndex });
+      }
+    }
+  }
+}
+
+/**
+ * Shorten a node's text for a diagram label
+ *
+ * @param node - Node to label
+ * @param maxLength - Maximum label length
+ * @returns Label text
+ */
+function getLabel(node: ArgumentNode, maxLength: number): string {
+  const collapsed = collapseWhitespace(node.text);
+  const text = collapsed.length > maxLength ? `${collapsed.slice(0, maxLength - 3)}...` : collapsed;
+  return `${node.type.toUpperCase()} (${node.participantId}): ${text}`;
+}
+
+/**
+ * Collapse runs of whitespace, including newlines, into single spaces
+ * Line breaks would otherwise end a Mermaid node or a Markdown list item
+ *
+ * @param text - Text to collapse
+ * @returns Text on a single line
+ */
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Render an argument map as a Mermaid flowchart
+ * Claims are rectangles, premises are rounded and evidence is drawn as subroutines
+ *
+ * @param map - Map to render
+ * @param maxLabelLength - Maximum length of node text in labels
+ * @returns Mermaid source
+ */
+export function renderArgumentMapMermaid(map: ArgumentMap, maxLabelLength: number = 80): string {
+  const shapes: Record<ArgumentNodeType, [string, string]> = {
+    claim: ["[", "]"],
+    premise: ["(", ")"],
+    evidence: ["[[", "]]"],
+  };
+
+  const lines = ["flowchart BT"];
+
+  for (const node of map.nodes) {
+    const [open, close] = shapes[node.type];
+    const label = getLabel(node, maxLabelLength).replace(/"/g, "#quot;");
+    lines.push(`  ${node.id}${open}"${label}"${close}`);
+  }
+
+  for (const edge of map.edges) {
+    const arrow = edge.type === "supports" ? "-->" : "-.->";
+    lines.push(`  ${edge.from} ${arrow}|${edge.type}| ${edge.to}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Render an argument map as a Markdown section for a transcript
+ * The section holds a Mermaid diagram followed by the full text of each node
+ *
+ * @param map - Map to render
+ * @param maxLabelLength - Maximum length of node text in diagram labels
+ * @returns Markdown section
+ */
+export function renderArgumentMapMarkdown(map: ArgumentMap, maxLabelLength: number = 80): string {
+  const nodeLines = map.nodes.map(node =>
+    `- **${node.id}** (${node.type}, ${node.participantId}, message ${node.messageIndex + 1}): ${collapseWhitespace(node.text)}`
+  );
+
+  return [
+    "## Argument Map",
+    "",
+    "```mermaid",
+    renderArgumentMapMermaid(map, maxLabelLength),
+    "```",
+    "",
+    ...nodeLines,
+  ].join("\n");
+}
+
+/**
+ * Render an argument map as a Graphviz DOT digraph
+ * Rebuttals are drawn as dashed red edges
+ *
+ * @param map - Map to render
+ * @param maxLabelLength - Maximum length of node text in labels
+ * @returns DOT source
+ */
+export function renderArgumentMapDot(map: ArgumentMap, maxLabelLength: number = 80): string {
+  const shapes: Record<ArgumentNodeType, string> = {
+    claim: "box",
+    premise: "ellipse",
+    evidence: "note",
+  };
+  const escape = (text: string) => text.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n");
+
+  const lines = ["digraph ArgumentMap {", "  rankdir=BT;", `  label="${escape(map.topic)}";`];
+
+  for (const node of map.nodes) {
+    lines.push(`  ${node.id} [label="${escape(getLabel(node, maxLabelLength))}", shape=${shapes[node.type]}];`);
+  }
+
+  for (const edge of map.edges) {
+    const style = edge.type === "supports" ? "color=darkgreen" : "color=red, style=dashed";
+    lines.push(`  ${edge.from} -> ${edge.to} [label="${edge.type}", ${style}];`);
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Create a new argument map analyzer
+ *
+ * @param config - Configuration for the analyzer
+ * @returns New argument map analyzer
+ */
+export function createArgumentMapAnalyzer(config: ArgumentMapAnalyzerConfig): ArgumentMapAnalyzer {
+  return new ArgumentMapAnalyzer(config);
+}
@@ -0,0 +1,163 @@
+/**
+ * Workflow Checkpoint Implementation
+ * Serializable snapshots for pausing and resuming long-running workflows
+ */
+
+import { ensureDirSync } from "https://deno.land/std@0.171.0/fs/ensure_dir.ts";
+import { dirname } from "https://deno.land/std@0.171.0/path/mod.ts";
+
+import { DialogueMessage } from "./dialogue_workflow.ts";
+import { HistoryCompactorState } from "./history_compactor.ts";
+import { RelationshipGraphState } from "../participants/relationship_graph.ts";
+
+/**
+ * Current checkpoint format version
+ */
+export const CHECKPOINT_VERSION = 1;
+
+/**
+ * Serializable snapshot of the core dialogue state
+ */
+export interface DialogueCheckpointState {
+  /**
+   * Unique identifier for the dialogue
+   */
+  id: string;
+
+  /**
+   * Topic of the dialogue
+   */
+  topic: string;
+
+  /**
+   * IDs of the participants, in dialogue order
+   * Participants themselves are not serialized and must be supplied on restore
+   */
+  participantIds: string[];
+
+  /**
+   * History of messages in the dialogue, including bid metadata
+   */
+  messages: DialogueMessage[];
+
+  /**
+   * Current turn number
+   */
+  currentTurn: number;
+
+  /**
+   * Whether the dialogue is complete
+   */
+  isComplete: boolean;
+
+  /**
+   * Time elapsed in the dialogue when the checkpoint was taken (ms)
+   */
+  elapsed: number;
+
+  /**
+   * Additional context for the dialogue
+   */
+  context: Record<string, unknown>;
+}
+
+/**
+ * Serializable snapshot of a workflow
+ */
+export interface WorkflowCheckpoint {
+  /**
+   * Checkpoint format version
+   */
+  version: number;
+
+  /**
+   * Type of workflow that created the checkpoint (e.g. "dialogue", "debate")
+   */
+  workflowType: string;
+
+  /**
+   * Time the checkpoint was created
+   */
+  createdAt: number;
+
+  /**
+   * Core dialogue state
+   */
+  dialogue: DialogueCheckpointState;
+
+  /**
+   * Internal state of each participant that supports checkpointing, keyed by ID
+   */
+  participants: Record<string, Record<string, unknown>>;
+
+  /**
+   * Workflow-specific state (phase, round, scores, usage metrics, etc.)
+   */
+  workflow: Record<string, unknown>;
+
+  /**
+   * Summaries of the history compactor, if the workflow uses one
+   */
+  history?: HistoryCompactorState;
+
+  /**
+   * Relationships between participants, if the workflow uses a relationship graph
+   */
+  relationships?: RelationshipGraphState;
+}
+
+/**
+ * Serialize a checkpoint to a JSON string
+ *
+ * @param checkpoint - Checkpoint to serialize
+ * @returns JSON representation of the checkpoint
+ */
+export function serializeCheckpoint(checkpoint: WorkflowCheckpoint): string {
+  return JSON.stringify(checkpoint, null, 2);
+}
+
+/**
+ * Parse a checkpoint from a JSON string
+ *
+ * @param json - JSON representation of a checkpoint
+ * @returns The parsed checkpoint
+ */
+export function parseCheckpoint(json: string): WorkflowCheckpoint {
+  const checkpoint = JSON.parse(json) as WorkflowCheckpoint;
+
+  if (!checkpoint || typeof checkpoint !== "object" || !checkpoint.dialogue) {
+    throw new Error("Invalid workflow checkpoint");
+  }
+
+  if (checkpoint.version !== CHECKPOINT_VERSION) {
+    throw new Error(
+      `Unsupported checkpoint version ${checkpoint.version} (expected ${CHECKPOINT_VERSION})`
+    );
+  }
+
+  return checkpoint;
+}
+
+/**
+ * Save a checkpoint to a file
+ *
+ * @param checkpoint - Checkpoint to save
+ * @param filePath - Path of the checkpoint file
+ */
+export async function saveCheckpoint(
+  checkpoint: WorkflowCheckpoint,
+  filePath: string
+): Promise<void> {
+  ensureDirSync(dirname(filePath));
+  await Deno.writeTextFile(filePath, serializeCheckpoint(checkpoint));
+}
+
+/**
+ * Load a checkpoint from a file
+ *
+ * @param filePath - Path of the checkpoint file
+ * @returns The loaded checkpoint
+ */
+export async function loadCheckpoint(filePath: string): Promise<WorkflowCheckpoint> {
+  return parseCheckpoint(await Deno.readTextFile(filePath));
+}
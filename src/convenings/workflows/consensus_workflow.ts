@@ -8,8 +8,15 @@ import {
   DialogueParticipant, 
   DialogueWorkflowConfig,
   DialogueWorkflowResult,
-  DialogueState
+  DialogueState,
+  DialogueMessage
 } from "./dialogue_workflow.ts";
+import { IAgent } from "../../utils/interfaces.ts";
+import {
+  StanceIssue,
+  StanceSnapshot,
+  StanceTracker
+} from "./stance_tracker.ts";
 
 /**
  * Point of consensus in a dialogue
@@ -36,12 +43,293 @@ export interface ConsensusPoint {
   identifiedAtTurn: number;
 }
 
+/**
+ * Position a participant takes on a proposal
+ */
+export type ConsensusVoteType = "support" | "object" | "abstain";
+
+/**
+ * Status of a proposal in the consensus ledger
+ */
+export type ConsensusProposalStatus = "open" | "ratified" | "superseded";
+
+/**
+ * A participant's vote on a proposal
+ */
+export interface ConsensusVote {
+  /**
+   * ID of the participant who voted
+   */
+  participantId: string;
+  
+  /**
+   * Position taken
+   */
+  vote: ConsensusVoteType;
+  
+  /**
+   * Reason given for the vote
+   */
+  reason: string;
+  
+  /**
+   * Turn at which the vote was cast
+   */
+  turn: number;
+}
+
+/**
+ * Proposal recorded in the consensus ledger
+ */
+export interface ConsensusProposal {
+  /**
+   * Unique identifier for the proposal (P1, P2, ...)
+   */
+  id: string;
+  
+  /**
+   * ID of the participant who made the proposal
+   */
+  proposerId: string;
+  
+  /**
+   * Text put to the group
+   */
+  text: string;
+  
+  /**
+   * ID of the proposal this one amends, if it is an amendment
+   */
+  amends?: string;
+  
+  /**
+   * Current status of the proposal
+   */
+  status: ConsensusProposalStatus;
+  
+  /**
+   * Latest vote of each participant who has voted, in voting order
+   * The proposer is recorded as supporting
+   */
+  votes: ConsensusVote[];
+  
+  /**
+   * Turn at which the proposal was made
+   */
+  proposedAtTurn: number;
+  
+  /**
+   * Turn at which the proposal was ratified, if it is ratified
+   */
+  ratifiedAtTurn?: number;
+}
+
+/**
+ * Move extracted from a consensus message
+ */
+export interface ConsensusMove {
+  /**
+   * Action taken
+   */
+  action: "propose" | "amend" | "vote";
+  
+  /**
+   * ID of the proposal amended or voted on
+   */
+  proposalId?: string;
+  
+  /**
+   * Text of the proposal or amendment
+   */
+  text?: string;
+  
+  /**
+   * Position taken (for votes)
+   */
+  vote?: ConsensusVoteType;
+  
+  /**
+   * Reason given for the vote
+   */
+  reason?: string;
+}
+
+/**
+ * Count of votes on a proposal
+ */
+export interface ConsensusVoteTally {
+  /**
+   * Number of participants supporting
+   */
+  support: number;
+  
+  /**
+   * Number of participants objecting
+   */
+  object: number;
+  
+  /**
+   * Number of participants abstaining
+   */
+  abstain: number;
+  
+  /**
+   * Number of participants who have not voted
+   */
+  notVoted: number;
+}
+
+/**
+ * Objection that remains on a live proposal
+ */
+export interface StandingObjection {
+  /**
+   * ID of the proposal objected to
+   */
+  proposalId: string;
+  
+  /**
+   * ID of the objecting participant
+   */
+  participantId: string;
+  
+  /**
+   * Reason given for the objection
+   */
+  reason: string;
+}
+
+/**
+ * Proposal adopted by the group
+ */
+export interface AdoptedProposal {
+  /**
+   * ID of the ratified proposal
+   */
+  proposalId: string;
+  
+  /**
+   * Adopted text
+   */
+  text: string;
+  
+  /**
+   * Votes on the adopted text
+   */
+  tally: ConsensusVoteTally;
+  
+  /**
+   * Objections that stand against the adopted text
+   */
+  objections: StandingObjection[];
+}
+
+/**
+ * Decision a participant makes when reviewing a consensus statement
+ */
+export type ConsensusReviewDecision = "sign" | "dissent";
+
+/**
+ * A participant's review of one version of the consensus statement
+ */
+export interface ConsensusDocumentReview {
+  /**
+   * ID of the reviewing participant
+   */
+  participantId: string;
+  
+  /**
+   * Whether the participant signed off or dissented
+   */
+  decision: ConsensusReviewDecision;
+  
+  /**
+   * Comment on a sign-off, or the minority report for a dissent
+   */
+  comment: string;
+}
+
+/**
+ * One version of the consensus statement with its reviews
+ */
+export interface ConsensusDocumentVersion {
+  /**
+   * Version number, starting at 1
+   */
+  version: number;
+  
+  /**
+   * Text of the statement
+   */
+  text: string;
+  
+  /**
+   * Reviews of this version, in participant order
+   */
+  reviews: ConsensusDocumentReview[];
+}
+
+/**
+ * Minority report attached to the consensus statement
+ */
+export interface MinorityReport {
+  /**
+   * ID of the dissenting participant
+   */
+  participantId: string;
+  
+  /**
+   * Version of the statement the dissent was filed against
+   */
+  version: number;
+  
+  /**
+   * Text of the minority report
+   */
+  report: string;
+}
+
+/**
+ * Consensus statement drafted from the adopted points, with signatories and dissents
+ */
+export interface ConsensusDocument {
+  /**
+   * ID of the participant who drafted the statement
+   */
+  drafterId: string;
+  
+  /**
+   * Final version number
+   */
+  version: number;
+  
+  /**
+   * Text of the final version
+   */
+  text: string;
+  
+  /**
+   * IDs of participants who signed the final version
+   */
+  signatories: string[];
+  
+  /**
+   * Minority reports filed against the final version
+   */
+  dissents: MinorityReport[];
+  
+  /**
+   * Every version of the statement with its reviews, in order
+   */
+  versions: ConsensusDocumentVersion[];
+}
+
 /**
  * Configuration for a consensus workflow
  */
 export interface ConsensusWorkflowConfig extends DialogueWorkflowConfig {
   /**
-   * Threshold for considering a point as consensus (0.0 to 1.0)
+   * Share of participants who must support a proposal to ratify it (0.0 to 1.0)
    * Default: 0.8 (80% agreement)
    */
   consensusThreshold?: number;
@@ -59,9 +347,36 @@ export interface ConsensusWorkflowConfig extends DialogueWorkflowConfig {
   
   /**
    * Whether to explicitly prompt participants to work toward consensus
+   * When enabled, each prompt lists the live proposals and the move format
    * Default: true
    */
   explicitConsensusGuide?: boolean;
+  
+  /**
+   * Function that extracts proposals, amendments and votes from a message
+   * Default: parses the PROPOSE, AMEND and VOTE lines participants are asked to use
+   */
+  moveParser?: (content: string) => ConsensusMove[];
+  
+  /**
+   * Judge model that assesses every participant's stance on every open issue after each turn
+   * When set, the consensus level and stable turns are computed from the stance matrix
+   * instead of from support for proposals
+   */
+  stanceJudge?: IAgent;
+  
+  /**
+   * Issues whose stances are tracked alongside the open proposals
+   * Default: the topic itself
+   */
+  stanceIssues?: string[];
+  
+  /**
+   * ID of the participant who drafts the consensus statement once the dialogue ends
+   * When set, the statement is reviewed by every participant and revised once if
+   * anyone dissents; no statement is drafted if no points were adopted
+   */
+  drafterId?: string;
 }
 
 /**
@@ -69,7 +384,7 @@ export interface ConsensusWorkflowConfig extends DialogueWorkflowConfig {
  */
 export interface ConsensusWorkflowResult extends DialogueWorkflowResult {
   /**
-   * Points of consensus reached during the dialogue
+   * Points of consensus reached during the dialogue, one per ratified proposal
    */
   consensusPoints: ConsensusPoint[];
   
@@ -87,14 +402,45 @@ export interface ConsensusWorkflowResult extends DialogueWorkflowResult {
    * Whether consensus was successfully reached
    */
   consensusReached: boolean;
+  
+  /**
+   * Every proposal and amendment made during the dialogue, in order
+   */
+  proposals: ConsensusProposal[];
+  
+  /**
+   * Proposals ratified by the group, with their vote tallies
+   */
+  adoptedProposals: AdoptedProposal[];
+  
+  /**
+   * Objections that stand against adopted or open proposals
+   */
+  standingObjections: StandingObjection[];
+  
+  /**
+   * Participant × issue stance matrix after each turn (empty without a stance judge)
+   */
+  stanceHistory: StanceSnapshot[];
+  
+  /**
+   * Consensus statement with signatories and dissents, if a drafter was designated
+   */
+  consensusDocument?: ConsensusDocument;
 }
 
 /**
  * Specialized workflow for consensus-seeking dialogues
+ * Participants make proposals, amend them and vote on them; proposals
+ * supported by enough of the group are ratified as points of consensus
  */
 export class ConsensusWorkflow extends DialogueWorkflow {
-  private consensusConfig: Required<ConsensusWorkflowConfig>;
+  private consensusConfig: Required<Omit<ConsensusWorkflowConfig, "stanceJudge" | "drafterId">> & {
+    drafterId?: string;
+  };
   private consensusPoints: ConsensusPoint[] = [];
+  private proposals: ConsensusProposal[] = [];
+  private stanceTracker?: StanceTracker;
   private stableConsensusCount = 0;
   
   /**
@@ -130,8 +476,18 @@ export class ConsensusWorkflow extends DialogueWorkflow {
       requiredStableTurns: config.requiredStableTurns ?? 3,
       consensusPromptTemplate: consensusPromptTemplate,
       explicitConsensusGuide: config.explicitConsensusGuide ?? true,
+      moveParser: config.moveParser ?? parseConsensusMoves,
+      stanceIssues: config.stanceIssues ?? [],
       ...config as Required<DialogueWorkflowConfig>,
     };
+    
+    if (config.drafterId && !participants.some(p => p.id === config.drafterId)) {
+      throw new Error(`Drafter ${config.drafterId} is not a participant`);
+    }
+    
+    if (config.stanceJudge) {
+      this.stanceTracker = new StanceTracker({ judge: config.stanceJudge });
+    }
   }
   
   /**
@@ -141,22 +497,472 @@ export class ConsensusWorkflow extends DialogueWorkflow {
    */
   async run(): Promise<ConsensusWorkflowResult> {
     // Run the dialogue using the base implementation
-    const baseResult = await super.run();
+    const baseResult = await this.runDialogue();
     
     // Calculate consensus metrics
     const consensusLevel = this.calculateOverallConsensus();
     const consensusReached = consensusLevel >= this.consensusConfig.consensusThreshold;
     
+    const adoptedProposals = this.proposals
+      .filter(proposal => proposal.status === "ratified")
+      .map(proposal => ({
+        proposalId: proposal.id,
+        text: proposal.text,
+        tally: this.tallyVotes(proposal),
+        objections: this.getObjections(proposal),
+      }));
+    
+    // Draft the consensus statement once the dialogue has finished
+    const consensusDocument = this.consensusConfig.drafterId &&
+        baseResult.success && baseResult.endReason !== "paused" && this.consensusPoints.length > 0
+      ? await this.draftConsensusDocument(this.consensusConfig.drafterId)
+      : undefined;
+    
     // Return consensus-specific result
-    return {
+    return this.finishRun({
       ...baseResult,
       consensusPoints: this.consensusPoints,
       consensusLevel,
       turnsToConsensus: consensusReached ? baseResult.messages.length : -1,
       consensusReached,
+      proposals: this.proposals,
+      adoptedProposals,
+      standingObjections: this.getLiveProposals().flatMap(proposal => this.getObjections(proposal)),
+      stanceHistory: this.stanceTracker?.getHistory() ?? [],
+      consensusDocument,
+    });
+  }
+  
+  /**
+   * Draft the consensus statement and collect sign-offs and minority reports
+   * If anyone dissents, the drafter revises the statement once and it is reviewed again
+   * 
+   * @param drafterId - ID of the drafting participant
+   * @returns The final consensus document
+   */
+  private async draftConsensusDocument(drafterId: string): Promise<ConsensusDocument> {
+    const drafter = this.state.participants.find(p => p.id === drafterId)!;
+    const points = this.consensusPoints
+      .map((point, i) => `${i + 1}. ${point.description} ` +
+        `(supported by ${point.supportingParticipants.join(", ")})`)
+      .join("\n");
+    
+    const draft = await drafter.agent.execute(`
+You are ${drafter.name}, drafting the consensus statement for a dialogue on: ${this.state.topic}
+
+Points the group adopted:
+${points}
+
+Write a concise consensus statement for stakeholders that presents these points faithfully.
+Do not add positions the group did not adopt. Respond with the statement only.
+    `);
+    
+    const versions: ConsensusDocumentVersion[] = [
+      { version: 1, text: draft.trim(), reviews: [] },
+    ];
+    versions[0].reviews = await this.reviewConsensusStatement(versions[0], drafterId);
+    
+    const dissents = versions[0].reviews.filter(r => r.decision === "dissent");
+    
+    if (dissents.length > 0) {
+      const objections = dissents
+        .map(review => `- ${review.participantId}: ${review.comment}`)
+        .join("\n");
+      
+      const revision = await drafter.agent.execute(`
+You are ${drafter.name}, revising the consensus statement for a dialogue on: ${this.state.topic}
+
+Points the group adopted:
+${points}
+
+Current statement:
+${versions[0].text}
+
+Minority reports filed against it:
+${objections}
+
+Revise the statement to address these objections where you can without misrepresenting the adopted points.
+Respond with the revised statement only.
+      `);
+      
+      const revised: ConsensusDocumentVersion = { version: 2, text: revision.trim(), reviews: [] };
+      revised.reviews = await this.reviewConsensusStatement(revised, drafterId);
+      versions.push(revised);
+    }
+    
+    const final = versions[versions.length - 1];
+    
+    return {
+      drafterId,
+      version: final.version,
+      text: final.text,
+      signatories: final.reviews.filter(r => r.decision === "sign").map(r => r.participantId),
+      dissents: final.reviews
+        .filter(r => r.decision === "dissent")
+        .map(r => ({ participantId: r.participantId, version: final.version, report: r.comment })),
+      versions,
+    };
+  }
+  
+  /**
+   * Ask every participant to sign off on a statement or file a minority report
+   * The drafter signs their own statement
+   * 
+   * @param version - Version of the statement under review
+   * @param drafterId - ID of the drafting participant
+   * @returns Reviews in participant order
+   */
+  private async reviewConsensusStatement(
+    version: ConsensusDocumentVersion,
+    drafterId: string
+  ): Promise<ConsensusDocumentReview[]> {
+    const reviews: ConsensusDocumentReview[] = [];
+    
+    for (const participant of this.state.participants) {
+      if (participant.id === drafterId) {
+        reviews.push({ participantId: participant.id, decision: "sign", comment: "Drafted this version" });
+        continue;
+      }
+      
+      const response = await participant.agent.execute(`
+You are ${participant.name}, reviewing version ${version.version} of the consensus statement for a dialogue on: ${this.state.topic}
+
+Statement:
+${version.text}
+
+Sign the statement if you can stand behind it as a fair record of what the group agreed.
+Otherwise file a minority report explaining what you dissent from and why.
+
+Important: Your response must be formatted EXACTLY as follows (JSON object only, no other text):
+{"decision": "sign" or "dissent", "comment": "comment on your sign-off, or your minority report"}
+      `);
+      
+      try {
+        // Extract JSON from response (in case model adds surrounding text)
+        const jsonMatch = response.match(/\{[\s\S]*\}/);
+        const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : response);
+        
+        reviews.push({
+          participantId: participant.id,
+          decision: parsed.decision === "sign" ? "sign" : "dissent",
+          comment: String(parsed.comment ?? ""),
+        });
+      } catch (error) {
+        // Without a clear sign-off, keep the participant's words as a dissent
+        console.error("Error parsing consensus review response:", error);
+        reviews.push({ participantId: participant.id, decision: "dissent", comment: response.trim() });
+      }
+    }
+    
+    return reviews;
+  }
+  
+  /**
+   * Get the type identifier recorded in checkpoints
+   * 
+   * @returns Workflow type identifier
+   */
+  protected override getWorkflowType(): string {
+    return "consensus";
+  }
+  
+  /**
+   * Describe the consensus statement for participants' memories
+   * 
+   * @param result - Final result of the consensus process
+   * @returns Final statement and its dissents, or undefined if none was drafted
+   */
+  protected override describeOutcome(result: ConsensusWorkflowResult): string | undefined {
+    const document = result.consensusDocument;
+    
+    if (!document) {
+      return undefined;
+    }
+    
+    const dissents = document.dissents.length > 0
+      ? ` Minority reports were filed by ${document.dissents.map(d => d.participantId).join(", ")}.`
+      : "";
+    
+    return `Consensus statement: ${document.text}${dissents}`;
+  }
+  
+  /**
+   * Get consensus state to include in checkpoints
+   * 
+   * @returns Serializable consensus state
+   */
+  protected override getCheckpointData(): Record<string, unknown> {
+    return {
+      proposals: this.proposals,
+      stableConsensusCount: this.stableConsensusCount,
+      stanceHistory: this.stanceTracker?.getHistory() ?? [],
     };
   }
   
+  /**
+   * Restore consensus state from a checkpoint
+   * 
+   * @param data - Consensus state from the checkpoint
+   */
+  protected override restoreCheckpointData(data: Record<string, unknown>): void {
+    this.proposals = structuredClone(
+      (data.proposals as ConsensusProposal[] | undefined) ?? []
+    );
+    this.consensusPoints = this.deriveConsensusPoints();
+    this.stableConsensusCount = (data.stableConsensusCount as number | undefined) ?? 0;
+    this.stanceTracker?.setHistory(structuredClone(
+      (data.stanceHistory as StanceSnapshot[] | undefined) ?? []
+    ));
+  }
+  
+  /**
+   * Execute a turn, then assess every participant's stance on the open issues
+   */
+  protected override async executeTurn(): Promise<void> {
+    await super.executeTurn();
+    
+    if (this.stanceTracker) {
+      await this.stanceTracker.track(
+        this.state.topic,
+        this.getOpenIssues(),
+        this.state.participants,
+        this.state.messages,
+        this.state.currentTurn
+      );
+    }
+  }
+  
+  /**
+   * Get the issues whose stances are tracked: the configured issues and the open proposals
+   * 
+   * @returns Open issues
+   */
+  private getOpenIssues(): StanceIssue[] {
+    const configured = this.consensusConfig.stanceIssues.length > 0
+      ? this.consensusConfig.stanceIssues.map((description, i) => ({ id: `I${i + 1}`, description }))
+      : [{ id: "topic", description: this.state.topic }];
+    
+    const proposals = this.proposals
+      .filter(proposal => proposal.status === "open")
+      .map(proposal => ({ id: proposal.id, description: proposal.text }));
+    
+    return [...configured, ...proposals];
+  }
+  
+  /**
+   * Record a message and apply its proposals, amendments and votes to the ledger
+   * 
+   * @param message - The message to commit
+   */
+  protected override commitMessage(message: DialogueMessage): void {
+    const turn = (message.metadata?.turnNumber as number | undefined) ?? this.state.currentTurn;
+    const moves = this.consensusConfig.moveParser(message.content)
+      .map(move => this.applyMove(message.participantId, move, turn))
+      .filter((move): move is ConsensusMove => move !== undefined);
+    
+    this.consensusPoints = this.deriveConsensusPoints();
+    
+    if (moves.length > 0) {
+      message.metadata = { ...message.metadata, consensusMoves: moves };
+    }
+    
+    super.commitMessage(message);
+  }
+  
+  /**
+   * Generate a prompt that adds the live proposals and the move format
+   * 
+   * @param participant - The participant whose turn it is
+   * @returns Prompt for the participant
+   */
+  protected override async generatePrompt(participant: DialogueParticipant): Promise<string> {
+    const basePrompt = await super.generatePrompt(participant);
+    
+    if (!this.consensusConfig.explicitConsensusGuide) {
+      return basePrompt;
+    }
+    
+    const live = this.getLiveProposals();
+    const proposalLines = live.length > 0
+      ? live.map(proposal => {
+        const tally = this.tallyVotes(proposal);
+        const ownVote = proposal.votes.find(v => v.participantId === participant.id);
+        return `- ${proposal.id} [${proposal.status}${proposal.amends ? `, amends ${proposal.amends}` : ""}]: ` +
+          `${proposal.text} (support ${tally.support}, object ${tally.object}, ` +
+          `abstain ${tally.abstain}, not voted ${tally.notVoted}; ` +
+          `your vote: ${ownVote ? ownVote.vote : "none"})`;
+      })
+      : ["There are no proposals yet."];
+    
+    return [
+      basePrompt,
+      "",
+      "Proposals before the group:",
+      ...proposalLines,
+      "",
+      "Work toward agreement using these lines, each on its own line at the end of your message:",
+      "PROPOSE: <text of a new proposal>",
+      "AMEND <proposal id>: <full revised text of the proposal>",
+      "VOTE <proposal id>: SUPPORT | OBJECT | ABSTAIN - <reason>",
+      "Your own proposals and amendments count as your support.",
+    ].join("\n");
+  }
+  
+  /**
+   * Apply a move to the proposal ledger
+   * 
+   * @param participantId - ID of the participant making the move
+   * @param move - The move to apply
+   * @param turn - Turn at which the move was made
+   * @returns The applied move with its proposal ID, or undefined if it was ignored
+   */
+  private applyMove(
+    participantId: string,
+    move: ConsensusMove,
+    turn: number
+  ): ConsensusMove | undefined {
+    if (move.action === "propose" || move.action === "amend") {
+      const amended = move.action === "amend" ? this.findLiveProposal(move.proposalId) : undefined;
+      
+      if (!move.text || (move.action === "amend" && !amended)) {
+        return undefined;
+      }
+      
+      const proposal: ConsensusProposal = {
+        id: `P${this.proposals.length + 1}`,
+        proposerId: participantId,
+        text: move.text,
+        amends: amended?.id,
+        status: "open",
+        votes: [],
+        proposedAtTurn: turn,
+      };
+      
+      this.proposals.push(proposal);
+      this.castVote(proposal, {
+        participantId,
+        vote: "support",
+        reason: amended ? "Proposed this amendment" : "Proposed this text",
+        turn,
+      });
+      
+      return { ...move, proposalId: proposal.id };
+    }
+    
+    const proposal = this.findLiveProposal(move.proposalId);
+    
+    if (!proposal || !move.vote) {
+      return undefined;
+    }
+    
+    this.castVote(proposal, { participantId, vote: move.vote, reason: move.reason ?? "", turn });
+    return { ...move, proposalId: proposal.id };
+  }
+  
+  /**
+   * Record a vote, replacing the participant's earlier vote, and update the proposal's status
+   * A ratified amendment supersedes the proposal it amends
+   * 
+   * @param proposal - Proposal voted on
+   * @param vote - The vote to record
+   */
+  private castVote(proposal: ConsensusProposal, vote: ConsensusVote): void {
+    proposal.votes = proposal.votes.filter(v => v.participantId !== vote.participantId);
+    proposal.votes.push(vote);
+    
+    const ratified = this.getSupportShare(proposal) >= this.consensusConfig.consensusThreshold;
+    
+    if (ratified && proposal.status === "open") {
+      proposal.status = "ratified";
+      proposal.ratifiedAtTurn = vote.turn;
+      
+      const amended = this.proposals.find(p => p.id === proposal.amends);
+      if (amended) {
+        amended.status = "superseded";
+      }
+    } else if (!ratified && proposal.status === "ratified") {
+      proposal.status = "open";
+      delete proposal.ratifiedAtTurn;
+    }
+  }
+  
+  /**
+   * Find a proposal that can still be amended or voted on
+   * 
+   * @param proposalId - ID of the proposal
+   * @returns The proposal, or undefined if it is unknown or superseded
+   */
+  private findLiveProposal(proposalId?: string): ConsensusProposal | undefined {
+    return this.getLiveProposals().find(p => p.id === proposalId);
+  }
+  
+  /**
+   * Get the proposals that have not been superseded
+   * 
+   * @returns Open and ratified proposals
+   */
+  private getLiveProposals(): ConsensusProposal[] {
+    return this.proposals.filter(p => p.status !== "superseded");
+  }
+  
+  /**
+   * Calculate the share of participants supporting a proposal
+   * 
+   * @param proposal - Proposal to evaluate
+   * @returns Share of participants supporting (0.0 to 1.0)
+   */
+  private getSupportShare(proposal: ConsensusProposal): number {
+    const supporters = proposal.votes.filter(v => v.vote === "support").length;
+    return supporters / this.state.participants.length;
+  }
+  
+  /**
+   * Count the votes on a proposal
+   * 
+   * @param proposal - Proposal to tally
+   * @returns Vote tally
+   */
+  private tallyVotes(proposal: ConsensusProposal): ConsensusVoteTally {
+    const count = (vote: ConsensusVoteType) => proposal.votes.filter(v => v.vote === vote).length;
+    
+    return {
+      support: count("support"),
+      object: count("object"),
+      abstain: count("abstain"),
+      notVoted: this.state.participants.length - proposal.votes.length,
+    };
+  }
+  
+  /**
+   * Get the objections standing against a proposal
+   * 
+   * @param proposal - Proposal to inspect
+   * @returns Standing objections
+   */
+  private getObjections(proposal: ConsensusProposal): StandingObjection[] {
+    return proposal.votes
+      .filter(v => v.vote === "object")
+      .map(v => ({ proposalId: proposal.id, participantId: v.participantId, reason: v.reason }));
+  }
+  
+  /**
+   * Derive consensus points from the ratified proposals
+   * 
+   * @returns One consensus point per ratified proposal
+   */
+  private deriveConsensusPoints(): ConsensusPoint[] {
+    return this.proposals
+      .filter(proposal => proposal.status === "ratified")
+      .map(proposal => ({
+        description: proposal.text,
+        confidence: this.getSupportShare(proposal),
+        supportingParticipants: proposal.votes
+          .filter(v => v.vote === "support")
+          .map(v => v.participantId),
+        identifiedAtTurn: proposal.ratifiedAtTurn ?? proposal.proposedAtTurn,
+      }));
+  }
+  
   /**
    * Check if consensus has been reached based on the dialogue state
    * 
@@ -169,9 +975,6 @@ export class ConsensusWorkflow extends DialogueWorkflow {
       return false;
     }
     
-    // Analyze recent messages for consensus
-    this.updateConsensusPoints(state);
-    
     // Calculate current consensus level
     const currentConsensus = this.calculateOverallConsensus();
     
@@ -190,95 +993,68 @@ export class ConsensusWorkflow extends DialogueWorkflow {
   }
   
   /**
-   * Update consensus points based on dialogue state
-   * 
-   * @param state - Current state of the dialogue
-   */
-  private updateConsensusPoints(state: DialogueState): void {
-    // In a real implementation, this would use advanced NLP to identify points of consensus
-    // For this implementation, we'll use a simplified approach
-    
-    // For demonstration purposes, we'll consider consensus if the same keyword appears
-    // in messages from different participants
-    
-    // Get recent messages (last complete round of discussion)
-    const recentMessages = state.messages.slice(-state.participants.length);
-    
-    // Extract keywords from recent messages
-    // This is a simplified approach - in a real implementation, use NLP
-    const keywords = new Map<string, Set<string>>();
-    
-    for (const message of recentMessages) {
-      // Simple keyword extraction (words with 5+ characters)
-      // In a real implementation, use proper keyword extraction
-      const extractedKeywords = message.content
-        .toLowerCase()
-        .split(/\W+/)
-        .filter(word => word.length >= 5);
-      
-      // Record which participant mentioned each keyword
-      for (const keyword of extractedKeywords) {
-        if (!keywords.has(keyword)) {
-          keywords.set(keyword, new Set<string>());
-        }
-        keywords.get(keyword)!.add(message.participantId);
-      }
-    }
-    
-    // Check for keywords mentioned by most or all participants
-    for (const [keyword, participants] of keywords.entries()) {
-      // Calculate agreement level for this keyword
-      const agreementLevel = participants.size / state.participants.length;
-      
-      // Check if this meets our threshold
-      if (agreementLevel >= this.consensusConfig.consensusThreshold) {
-        // Check if we already have this consensus point
-        const existingPoint = this.consensusPoints.find(point => 
-          point.description.toLowerCase().includes(keyword)
-        );
-        
-        if (existingPoint) {
-          // Update existing consensus point
-          existingPoint.confidence = Math.max(existingPoint.confidence, agreementLevel);
-          // Add any new supporting participants
-          for (const participant of participants) {
-            if (!existingPoint.supportingParticipants.includes(participant)) {
-              existingPoint.supportingParticipants.push(participant);
-            }
-          }
-        } else {
-          // Create new consensus point
-          this.consensusPoints.push({
-            description: `Agreement on ${keyword}`,
-            confidence: agreementLevel,
-            supportingParticipants: Array.from(participants),
-            identifiedAtTurn: state.currentTurn,
-          });
-        }
-      }
-    }
-  }
-  
-  /**
-   * Calculate the overall consensus level based on consensus points
+   * Calculate the overall consensus level
+   * With a stance judge this is the consensus level of the latest stance matrix;
+   * otherwise it is the average support for live proposals, so open proposals
+   * that lack support pull the level down
    * 
    * @returns Overall consensus level (0.0 to 1.0)
    */
   private calculateOverallConsensus(): number {
-    if (this.consensusPoints.length === 0) {
+    if (this.stanceTracker) {
+      const history = this.stanceTracker.getHistory();
+      return history[history.length - 1]?.consensusLevel ?? 0;
+    }
+    
+    const live = this.getLiveProposals();
+    
+    if (live.length === 0) {
       return 0;
     }
     
-    // Calculate weighted average of consensus point confidences
-    const totalConfidence = this.consensusPoints.reduce(
-      (sum, point) => sum + point.confidence, 
+    const totalSupport = live.reduce(
+      (sum, proposal) => sum + this.getSupportShare(proposal), 
       0
     );
     
-    return totalConfidence / this.consensusPoints.length;
+    return totalSupport / live.length;
   }
 }
 
+/**
+ * Parse the PROPOSE, AMEND and VOTE lines of a consensus message
+ * Lines may be prefixed with list markers; keywords are case-insensitive
+ * 
+ * @param content - Message content
+ * @returns The extracted moves in the order they appear
+ */
+export function parseConsensusMoves(content: string): ConsensusMove[] {
+  const moves: ConsensusMove[] = [];
+  
+  for (const line of content.split("\n")) {
+    const cleaned = line.replace(/^\s*(?:[-*]\s+)?/, "").replace(/\*\*/g, "").trim();
+    
+    const propose = cleaned.match(/^PROPOSE:\s*(.+)$/i);
+    const amend = cleaned.match(/^AMEND\s+(P\d+):\s*(.+)$/i);
+    const vote = cleaned.match(/^VOTE\s+(P\d+):\s*(SUPPORT|OBJECT|ABSTAIN)\b\s*(?:[-:]\s*)?(.*)$/i);
+    
+    if (propose) {
+      moves.push({ action: "propose", text: propose[1].trim() });
+    } else if (amend) {
+      moves.push({ action: "amend", proposalId: amend[1].toUpperCase(), text: amend[2].trim() });
+    } else if (vote) {
+      moves.push({
+        action: "vote",
+        proposalId: vote[1].toUpperCase(),
+        vote: vote[2].toLowerCase() as ConsensusVoteType,
+        reason: vote[3].trim(),
+      });
+    }
+  }
+  
+  return moves;
+}
+
 /**
  * Create a new consensus workflow
  * 
@@ -293,4 +1069,4 @@ export function createConsensusWorkflow(
   config?: ConsensusWorkflowConfig
 ): ConsensusWorkflow {
   return new ConsensusWorkflow(topic, participants, config);
-}
+}
\ No newline at end of file
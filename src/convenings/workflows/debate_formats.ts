@@ -0,0 +1,863 @@
+/**
+ * Debate Format Definitions
+ * Describes debate structures as data so formats can be shared and registered
+ */
+
+/**
+ * Debate phase
+ */
+export enum DebatePhase {
+  OPENING_STATEMENTS = "opening_statements",
+  CROSS_EXAMINATION = "cross_examination",
+  ARGUMENT_ROUNDS = "argument_rounds",
+  CLOSING_STATEMENTS = "closing_statements",
+  SUMMARY = "summary",
+  COMPLETE = "complete",
+}
+
+/**
+ * Speaker for a turn: the moderator, the next fact-checker, or an advocate slot
+ * Advocate slots index the debate's position advocates in the order they were given
+ */
+export type DebateSpeaker = "moderator" | "fact_checker" | number;
+
+/**
+ * What a speaker does on a turn
+ */
+export type DebateTurnAction =
+  | "introduction"
+  | "transition"
+  | "round_summary"
+  | "conclusion"
+  | "ruling"
+  | "opening_statement"
+  | "argument"
+  | "rebuttal"
+  | "closing_statement"
+  | "question"
+  | "answer"
+  | "fact_check";
+
+/**
+ * Actions that only the moderator can take
+ */
+const MODERATOR_ACTIONS: DebateTurnAction[] = [
+  "introduction",
+  "transition",
+  "round_summary",
+  "conclusion",
+  "ruling",
+];
+
+/**
+ * A single turn in a debate phase
+ */
+export interface DebateTurnDefinition {
+  /**
+   * Who speaks on the turn
+   */
+  speaker: DebateSpeaker;
+
+  /**
+   * What the speaker does
+   */
+  action: DebateTurnAction;
+
+  /**
+   * Advocate slot addressed by a rebuttal, cross-examination question or fact-check
+   */
+  target?: number;
+
+  /**
+   * Name of the speech, such as "First Affirmative Constructive"
+   */
+  label?: string;
+
+  /**
+   * Maximum tokens for the turn, overriding the phase limit
+   */
+  maxTokens?: number;
+
+  /**
+   * Instruction template for the turn, overriding the phase template
+   * Supports {topic}, {speaker}, {role}, {target}, {label}, {round} and {rounds}
+   */
+  promptTemplate?: string;
+}
+
+/**
+ * A phase of a debate format
+ */
+export interface DebatePhaseDefinition {
+  /**
+   * Identifier for the phase, unique within the format
+   */
+  id: string;
+
+  /**
+   * Display name of the phase
+   */
+  name: string;
+
+  /**
+   * Kind of phase, recorded in message metadata and events
+   */
+  kind: DebatePhase;
+
+  /**
+   * Turns in the phase, in speaking order
+   */
+  turns: DebateTurnDefinition[];
+
+  /**
+   * Number of times the turns are repeated
+   * Default: 1
+   */
+  rounds?: number;
+
+  /**
+   * Context for the moderator's introduction of the phase
+   * Supports {topic}, {round} and {rounds}
+   */
+  introduction?: string;
+
+  /**
+   * Maximum tokens for turns in the phase
+   */
+  maxTokens?: number;
+
+  /**
+   * Instruction template for advocate turns in the phase
+   * Supports {topic}, {speaker}, {role}, {target}, {label}, {round} and {rounds}
+   */
+  promptTemplate?: string;
+
+  /**
+   * Whether advocate turns in the phase are scored
+   * Default: true for argument rounds, false otherwise
+   */
+  scored?: boolean;
+
+  /**
+   * Scoring criteria weights for the phase, overriding the format weights
+   */
+  scoringCriteria?: Record<string, number>;
+}
+
+/**
+ * A debate format described as data
+ */
+export interface DebateFormatDefinition {
+  /**
+   * Identifier used to look the format up in a registry
+   */
+  id: string;
+
+  /**
+   * Display name of the format
+   */
+  name: string;
+
+  /**
+   * Description of the format
+   */
+  description: string;
+
+  /**
+   * Number of position advocates the format needs
+   */
+  advocateCount: number;
+
+  /**
+   * Role of each advocate slot, such as "Prime Minister (Opening Government)"
+   */
+  speakerRoles?: string[];
+
+  /**
+   * Phases of the format, in order
+   */
+  phases: DebatePhaseDefinition[];
+
+  /**
+   * Scoring criteria weights for the format
+   * If not provided, the moderator's own weights are used
+   */
+  scoringCriteria?: Record<string, number>;
+}
+
+/**
+ * Options for the standard debate format
+ */
+export interface StandardDebateFormatOptions {
+  /**
+   * Number of position advocates
+   * Default: 2
+   */
+  advocateCount?: number;
+
+  /**
+   * Number of argument rounds
+   * Default: 2
+   */
+  roundCount?: number;
+
+  /**
+   * Whether the moderator summarizes each argument round
+   * Default: true
+   */
+  roundSummariesEnabled?: boolean;
+
+  /**
+   * Whether to hold a cross-examination phase after opening statements
+   * Default: false
+   */
+  crossExaminationEnabled?: boolean;
+
+  /**
+   * Number of questions each advocate asks during cross-examination
+   * Default: 3
+   */
+  crossExaminationQuestions?: number;
+
+  /**
+   * Maximum tokens for opening statements
+   */
+  openingStatementMaxTokens?: number;
+
+  /**
+   * Maximum tokens for arguments and rebuttals
+   */
+  argumentMaxTokens?: number;
+
+  /**
+   * Maximum tokens for closing statements
+   */
+  closingStatementMaxTokens?: number;
+}
+
+/**
+ * Create turns where the moderator hands over to an advocate
+ *
+ * @param speaker - Advocate slot
+ * @param action - What the advocate does
+ * @param label - Name of the speech
+ * @param extra - Additional turn settings
+ * @returns Transition and advocate turns
+ */
+function speech(
+  speaker: number,
+  action: DebateTurnAction,
+  label?: string,
+  extra: Partial<DebateTurnDefinition> = {}
+): DebateTurnDefinition[] {
+  return [
+    { speaker: "moderator", action: "transition" },
+    { speaker, action, label, ...extra },
+  ];
+}
+
+/**
+ * Create cross-examination question and answer turns
+ *
+ * @param examiner - Advocate slot asking the questions
+ * @param witness - Advocate slot answering the questions
+ * @param questions - Number of questions
+ * @returns Question and answer turns
+ */
+function crossExamination(
+  examiner: number,
+  witness: number,
+  questions: number
+): DebateTurnDefinition[] {
+  const turns: DebateTurnDefinition[] = [];
+
+  for (let i = 0; i < questions; i++) {
+    turns.push({ speaker: examiner, action: "question", target: witness });
+    turns.push({ speaker: witness, action: "answer" });
+  }
+
+  return turns;
+}
+
+/**
+ * Create the standard format: opening statements, optional cross-examination,
+ * argument rounds, closing statements and a moderator summary
+ *
+ * @param options - Options for the format
+ * @returns Standard debate format
+ */
+export function createStandardDebateFormat(
+  options: StandardDebateFormatOptions = {}
+): DebateFormatDefinition {
+  const advocateCount = options.advocateCount ?? 2;
+  const roundCount = options.roundCount ?? 2;
+  const questions = options.crossExaminationQuestions ?? 3;
+  const slots = Array.from({ length: advocateCount }, (_, i) => i);
+
+  const phases: DebatePhaseDefinition[] = [
+    {
+      id: "opening_statements",
+      name: "Opening Statements",
+      kind: DebatePhase.OPENING_STATEMENTS,
+      introduction: "This debate on \"{topic}\" will begin with opening statements from each participant, " +
+        (options.crossExaminationEnabled ? "followed by cross-examination, " : "") +
+        `followed by ${roundCount} rounds of arguments and rebuttals, ` +
+        "and conclude with closing statements.",
+      maxTokens: options.openingStatementMaxTokens,
+      turns: [
+        { speaker: "moderator", action: "introduction" },
+        ...slots.flatMap(slot => speech(slot, "opening_statement")),
+      ],
+    },
+  ];
+
+  if (options.crossExaminationEnabled) {
+    phases.push({
+      id: "cross_examination",
+      name: "Cross-Examination",
+      kind: DebatePhase.CROSS_EXAMINATION,
+      introduction: `Each advocate will ask ${questions} questions of their opponent. ` +
+        "Witnesses must answer each question directly.",
+      turns: [
+        { speaker: "moderator", action: "introduction" },
+        ...crossExamination(0, 1, questions),
+        { speaker: "moderator", action: "transition" },
+        ...crossExamination(1, 0, questions),
+      ],
+    });
+  }
+
+  phases.push(
+    {
+      id: "argument_rounds",
+      name: "Argument Round",
+      kind: DebatePhase.ARGUMENT_ROUNDS,
+      rounds: roundCount,
+      introduction: "We are now beginning round {round} of arguments. " +
+        "Each advocate will present their arguments and respond to the other's points.",
+      maxTokens: options.argumentMaxTokens,
+      turns: [
+        { speaker: "moderator", action: "introduction" },
+        ...speech(0, "argument"),
+        ...speech(1, "rebuttal", undefined, { target: 0 }),
+        ...speech(1, "argument"),
+        ...speech(0, "rebuttal", undefined, { target: 1 }),
+        ...(options.roundSummariesEnabled ?? true
+          ? [{ speaker: "moderator", action: "round_summary" } as DebateTurnDefinition]
+          : []),
+      ],
+    },
+    {
+      id: "closing_statements",
+      name: "Closing Statements",
+      kind: DebatePhase.CLOSING_STATEMENTS,
+      introduction: "We will now hear closing statements from each participant, " +
+        "summarizing their position and key arguments.",
+      maxTokens: options.closingStatementMaxTokens,
+      turns: [
+        { speaker: "moderator", action: "introduction" },
+        ...slots.flatMap(slot => speech(slot, "closing_statement")),
+      ],
+    },
+    {
+      id: "summary",
+      name: "Debate Summary",
+      kind: DebatePhase.SUMMARY,
+      turns: [{ speaker: "moderator", action: "conclusion" }],
+    },
+  );
+
+  return {
+    id: "standard",
+    name: "Standard",
+    description: "Opening statements, argument rounds with rebuttals, and closing statements",
+    advocateCount,
+    phases,
+  };
+}
+
+/**
+ * Oxford-style debate: two teams of two alternate main speeches,
+ * then one speaker from each side sums up, with the proposition speaking last
+ */
+export const OXFORD_DEBATE_FORMAT: DebateFormatDefinition = {
+  id: "oxford",
+  name: "Oxford",
+  description: "Two teams of two alternate main speeches on a motion, then each side sums up",
+  advocateCount: 4,
+  speakerRoles: [
+    "First Proposition",
+    "First Opposition",
+    "Second Proposition",
+    "Second Opposition",
+  ],
+  scoringCriteria: {
+    "logical_coherence": 0.2,
+    "evidence_quality": 0.2,
+    "responsiveness": 0.15,
+    "persuasiveness": 0.35,
+    "rule_adherence": 0.1,
+  },
+  phases: [
+    {
+      id: "main_speeches",
+      name: "Main Speeches",
+      kind: DebatePhase.ARGUMENT_ROUNDS,
+      introduction: "The motion is \"{topic}\". Speakers for the proposition and the opposition " +
+        "will alternate, each making the case for their side.",
+      maxTokens: 700,
+      turns: [
+        { speaker: "moderator", action: "introduction" },
+        ...speech(0, "opening_statement", "First Proposition Speech"),
+        ...speech(1, "opening_statement", "First Opposition Speech"),
+        ...speech(2, "rebuttal", "Second Proposition Speech", { target: 1 }),
+        ...speech(3, "rebuttal", "Second Opposition Speech", { target: 2 }),
+      ],
+    },
+    {
+      id: "summations",
+      name: "Summations",
+      kind: DebatePhase.CLOSING_STATEMENTS,
+      introduction: "Each side will now sum up its case, with the proposition speaking last.",
+      maxTokens: 400,
+      turns: [
+        { speaker: "moderator", action: "introduction" },
+        ...speech(1, "closing_statement", "Opposition Summation"),
+        ...speech(0, "closing_statement", "Proposition Summation"),
+      ],
+    },
+    {
+      id: "summary",
+      name: "Debate Summary",
+      kind: DebatePhase.SUMMARY,
+      turns: [{ speaker: "moderator", action: "conclusion" }],
+    },
+  ],
+};
+
+/**
+ * Lincoln-Douglas debate: a one-on-one value debate with constructives,
+ * cross-examinations and asymmetric rebuttals
+ */
+export const LINCOLN_DOUGLAS_DEBATE_FORMAT: DebateFormatDefinition = {
+  id: "lincoln_douglas",
+  name: "Lincoln-Douglas",
+  description: "One-on-one value debate with constructives, cross-examinations and rebuttals",
+  advocateCount: 2,
+  speakerRoles: ["Affirmative", "Negative"],
+  scoringCriteria: {
+    "logical_coherence": 0.3,
+    "evidence_quality": 0.15,
+    "responsiveness": 0.25,
+    "persuasiveness": 0.15,
+    "rule_adherence": 0.15,
+  },
+  phases: [
+    {
+      id: "affirmative_constructive",
+      name: "Affirmative Constructive",
+      kind: DebatePhase.OPENING_STATEMENTS,
+      introduction: "The resolution is \"{topic}\". The affirmative will present a value, " +
+        "a criterion and contentions supporting the resolution.",
+      promptTemplate: "Present the {label}. State your value and value criterion, " +
+        "then develop contentions that uphold the resolution \"{topic}\".",
+      turns: [
+        { speaker: "moderator", action: "introduction" },
+        { speaker: 0, action: "opening_statement", label: "Affirmative Constructive", maxTokens: 600 },
+      ],
+    },
+    {
+      id: "negative_cross_examination",
+      name: "Cross-Examination of the Affirmative",
+      kind: DebatePhase.CROSS_EXAMINATION,
+      turns: crossExamination(1, 0, 3),
+    },
+    {
+      id: "negative_constructive",
+      name: "Negative Constructive",
+      kind: DebatePhase.OPENING_STATEMENTS,
+      promptTemplate: "Present the {label}. State your value and value criterion, " +
+        "develop contentions against the resolution and refute the affirmative case.",
+      turns: speech(1, "opening_statement", "Negative Constructive", { maxTokens: 700 }),
+    },
+    {
+      id: "affirmative_cross_examination",
+      name: "Cross-Examination of the Negative",
+      kind: DebatePhase.CROSS_EXAMINATION,
+      turns: crossExamination(0, 1, 3),
+    },
+    {
+      id: "rebuttals",
+      name: "Rebuttals",
+      kind: DebatePhase.ARGUMENT_ROUNDS,
+      turns: [
+        ...speech(0, "rebuttal", "First Affirmative Rebuttal", { target: 1, maxTokens: 400 }),
+        ...speech(1, "rebuttal", "Negative Rebuttal", { target: 0, maxTokens: 600 }),
+      ],
+    },
+    {
+      id: "final_rebuttal",
+      name: "Second Affirmative Rebuttal",
+      kind: DebatePhase.CLOSING_STATEMENTS,
+      promptTemplate: "Present the {label}. Crystallize the key voting issues and explain " +
+        "why the affirmative wins under the value framework.",
+      turns: speech(0, "closing_statement", "Second Affirmative Rebuttal", { maxTokens: 300 }),
+    },
+    {
+      id: "summary",
+      name: "Debate Summary",
+      kind: DebatePhase.SUMMARY,
+      turns: [{ speaker: "moderator", action: "conclusion" }],
+    },
+  ],
+};
+
+/**
+ * British Parliamentary debate: four teams of two, with opening and closing
+ * government and opposition benches
+ */
+export const BRITISH_PARLIAMENTARY_DEBATE_FORMAT: DebateFormatDefinition = {
+  id: "british_parliamentary",
+  name: "British Parliamentary",
+  description: "Four teams of two, split into opening and closing government and opposition benches",
+  advocateCount: 8,
+  speakerRoles: [
+    "Prime Minister (Opening Government)",
+    "Leader of the Opposition (Opening Opposition)",
+    "Deputy Prime Minister (Opening Government)",
+    "Deputy Leader of the Opposition (Opening Opposition)",
+    "Member of Government (Closing Government)",
+    "Member of Opposition (Closing Opposition)",
+    "Government Whip (Closing Government)",
+    "Opposition Whip (Closing Opposition)",
+  ],
+  phases: [
+    {
+      id: "opening_half",
+      name: "Opening Half",
+      kind: DebatePhase.OPENING_STATEMENTS,
+      introduction: "The motion is \"{topic}\". The opening government and opposition benches " +
+        "will define the debate and set out their cases.",
+      maxTokens: 700,
+      turns: [
+        { speaker: "moderator", action: "introduction" },
+        ...speech(0, "opening_statement", "Prime Minister's Speech"),
+        ...speech(1, "opening_statement", "Leader of the Opposition's Speech"),
+        ...speech(2, "rebuttal", "Deputy Prime Minister's Speech", { target: 1 }),
+        ...speech(3, "rebuttal", "Deputy Leader of the Opposition's Speech", { target: 2 }),
+      ],
+    },
+    {
+      id: "closing_half",
+      name: "Closing Half",
+      kind: DebatePhase.ARGUMENT_ROUNDS,
+      introduction: "The closing benches will now extend the debate with new material.",
+      promptTemplate: "Present the {label} as the {role}. Bring an extension: new arguments " +
+        "for your side that the opening bench did not make.",
+      maxTokens: 700,
+      turns: [
+        { speaker: "moderator", action: "introduction" },
+        ...speech(4, "argument", "Member of Government's Speech"),
+        ...speech(5, "argument", "Member of Opposition's Speech"),
+      ],
+    },
+    {
+      id: "whip_speeches",
+      name: "Whip Speeches",
+      kind: DebatePhase.CLOSING_STATEMENTS,
+      promptTemplate: "Present the {label} as the {role}. Summarize the debate, identify the key clashes " +
+        "and explain why your side, and especially your bench, won them. Do not introduce new arguments.",
+      maxTokens: 700,
+      turns: [
+        ...speech(6, "closing_statement", "Government Whip's Speech"),
+        ...speech(7, "closing_statement", "Opposition Whip's Speech"),
+      ],
+    },
+    {
+      id: "summary",
+      name: "Debate Summary",
+      kind: DebatePhase.SUMMARY,
+      turns: [{ speaker: "moderator", action: "conclusion" }],
+    },
+  ],
+};
+
+/**
+ * Karl Popper debate: two teams of three, with constructives, questioning
+ * periods and rebuttals
+ */
+export const KARL_POPPER_DEBATE_FORMAT: DebateFormatDefinition = {
+  id: "karl_popper",
+  name: "Karl Popper",
+  description: "Two teams of three with constructives, questioning periods and rebuttals",
+  advocateCount: 6,
+  speakerRoles: [
+    "First Affirmative",
+    "First Negative",
+    "Second Affirmative",
+    "Second Negative",
+    "Third Affirmative",
+    "Third Negative",
+  ],
+  phases: [
+    {
+      id: "affirmative_constructive",
+      name: "Affirmative Constructive",
+      kind: DebatePhase.OPENING_STATEMENTS,
+      introduction: "The resolution is \"{topic}\". Two teams of three will debate, " +
+        "with questioning periods after the constructive and first rebuttal speeches.",
+      turns: [
+        { speaker: "moderator", action: "introduction" },
+        ...speech(0, "opening_statement", "First Affirmative Constructive", { maxTokens: 600 }),
+      ],
+    },
+    {
+      id: "negative_questions_1",
+      name: "Negative Questions",
+      kind: DebatePhase.CROSS_EXAMINATION,
+      turns: crossExamination(5, 0, 2),
+    },
+    {
+      id: "negative_constructive",
+      name: "Negative Constructive",
+      kind: DebatePhase.OPENING_STATEMENTS,
+      turns: speech(1, "opening_statement", "First Negative Constructive", { maxTokens: 600 }),
+    },
+    {
+      id: "affirmative_questions_1",
+      name: "Affirmative Questions",
+      kind: DebatePhase.CROSS_EXAMINATION,
+      turns: crossExamination(4, 1, 2),
+    },
+    {
+      id: "affirmative_rebuttal",
+      name: "First Affirmative Rebuttal",
+      kind: DebatePhase.ARGUMENT_ROUNDS,
+      turns: speech(2, "rebuttal", "First Affirmative Rebuttal", { target: 1, maxTokens: 500 }),
+    },
+    {
+      id: "negative_questions_2",
+      name: "Negative Questions",
+      kind: DebatePhase.CROSS_EXAMINATION,
+      turns: crossExamination(1, 2, 2),
+    },
+    {
+      id: "negative_rebuttal",
+      name: "First Negative Rebuttal",
+      kind: DebatePhase.ARGUMENT_ROUNDS,
+      turns: speech(3, "rebuttal", "First Negative Rebuttal", { target: 2, maxTokens: 500 }),
+    },
+    {
+      id: "affirmative_questions_2",
+      name: "Affirmative Questions",
+      kind: DebatePhase.CROSS_EXAMINATION,
+      turns: crossExamination(0, 3, 2),
+    },
+    {
+      id: "final_rebuttals",
+      name: "Final Rebuttals",
+      kind: DebatePhase.CLOSING_STATEMENTS,
+      maxTokens: 500,
+      turns: [
+        ...speech(4, "closing_statement", "Second Affirmative Rebuttal"),
+        ...speech(5, "closing_statement", "Second Negative Rebuttal"),
+      ],
+    },
+    {
+      id: "summary",
+      name: "Debate Summary",
+      kind: DebatePhase.SUMMARY,
+      turns: [{ speaker: "moderator", action: "conclusion" }],
+    },
+  ],
+};
+
+/**
+ * Formats registered by default
+ */
+export const BUILT_IN_DEBATE_FORMATS: DebateFormatDefinition[] = [
+  OXFORD_DEBATE_FORMAT,
+  LINCOLN_DOUGLAS_DEBATE_FORMAT,
+  BRITISH_PARLIAMENTARY_DEBATE_FORMAT,
+  KARL_POPPER_DEBATE_FORMAT,
+];
+
+/**
+ * Check that a debate format is well formed
+ *
+ * @param format - Format to check
+ * @throws Error describing the first problem found
+ */
+export function validateDebateFormat(format: DebateFormatDefinition): void {
+  const fail = (problem: string): never => {
+    throw new Error(`Invalid debate format "${format.id}": ${problem}`);
+  };
+
+  if (!format.id) {
+    fail("format must have an id");
+  }
+
+  if (!Number.isInteger(format.advocateCount) || format.advocateCount < 2) {
+    fail("advocateCount must be an integer of at least 2");
+  }
+
+  if (format.speakerRoles && format.speakerRoles.length !== format.advocateCount) {
+    fail("speakerRoles must name every advocate slot");
+  }
+
+  if (format.phases.length === 0) {
+    fail("format must have at least one phase");
+  }
+
+  const isSlot = (slot: unknown) =>
+    Number.isInteger(slot) && (slot as number) >= 0 && (slot as number) < format.advocateCount;
+  const phaseIds = new Set<string>();
+
+  for (const phase of format.phases) {
+    if (phaseIds.has(phase.id)) {
+      fail(`duplicate phase id "${phase.id}"`);
+    }
+    phaseIds.add(phase.id);
+
+    if (phase.turns.length === 0) {
+      fail(`phase "${phase.id}" has no turns`);
+    }
+
+    phase.turns.forEach((turn, index) => {
+      const where = `turn ${index + 1} of phase "${phase.id}"`;
+
+      if (turn.action === "ruling") {
+        fail(`${where} is a ruling, which the workflow schedules itself`);
+      }
+
+      if (MODERATOR_ACTIONS.includes(turn.action) !== (turn.speaker === "moderator")) {
+        fail(`${where} has action "${turn.action}" for the wrong speaker`);
+      }
+
+      if ((turn.action === "fact_check") !== (turn.speaker === "fact_checker")) {
+        fail(`${where} must pair the fact_checker speaker with the fact_check action`);
+      }
+
+      if (typeof turn.speaker === "number" && !isSlot(turn.speaker)) {
+        fail(`${where} has an unknown advocate slot ${turn.speaker}`);
+      }
+
+      if (turn.target !== undefined && (!isSlot(turn.target) || turn.target === turn.speaker)) {
+        fail(`${where} has an invalid target ${turn.target}`);
+      }
+
+      if ((turn.action === "question" || turn.action === "fact_check") && turn.target === undefined) {
+        fail(`${where} is a ${turn.action} without a target`);
+      }
+
+      if (turn.action === "answer") {
+        const previous = phase.turns[index - 1];
+
+        if (previous?.action !== "question" || previous.target !== turn.speaker) {
+          fail(`${where} is an answer that does not follow a question to its speaker`);
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Registry of debate formats available by id
+ */
+export class DebateFormatRegistry {
+  private formats: Map<string, DebateFormatDefinition> = new Map();
+
+  /**
+   * Create a new debate format registry
+   *
+   * @param formats - Formats to register
+   */
+  constructor(formats: DebateFormatDefinition[] = []) {
+    for (const format of formats) {
+      this.register(format);
+    }
+  }
+
+  /**
+   * Register a debate format
+   *
+   * @param format - Format to register
+   * @param replace - Whether to replace a format with the same id
+   * @throws Error if the format is invalid or its id is taken
+   */
+  register(format: DebateFormatDefinition, replace = false): void {
+    validateDebateFormat(format);
+
+    if (this.formats.has(format.id) && !replace) {
+      throw new Error(`Debate format "${format.id}" is already registered`);
+    }
+
+    this.formats.set(format.id, format);
+  }
+
+  /**
+   * Remove a debate format
+   *
+   * @param id - ID of the format
+   * @returns Whether the format was registered
+   */
+  unregister(id: string): boolean {
+    return this.formats.delete(id);
+  }
+
+  /**
+   * Get a debate format
+   *
+   * @param id - ID of the format
+   * @returns The format, or undefined if none is registered with the id
+   */
+  get(id: string): DebateFormatDefinition | undefined {
+    return this.formats.get(id);
+  }
+
+  /**
+   * Check whether a debate format is registered
+   *
+   * @param id - ID of the format
+   * @returns Whether the format is registered
+   */
+  has(id: string): boolean {
+    return this.formats.has(id);
+  }
+
+  /**
+   * List the registered debate formats
+   *
+   * @returns Registered formats
+   */
+  list(): DebateFormatDefinition[] {
+    return [...this.formats.values()];
+  }
+}
+
+/**
+ * Default registry, holding the built-in formats and any registered by applications
+ */
+export const debateFormatRegistry = new DebateFormatRegistry(BUILT_IN_DEBATE_FORMATS);
+
+/**
+ * Register a debate format in the default registry
+ *
+ * @param format - Format to register
+ * @param replace - Whether to replace a format with the same id
+ */
+export function registerDebateFormat(format: DebateFormatDefinition, replace = false): void {
+  debateFormatRegistry.register(format, replace);
+}
+
+/**
+ * Create a new debate format registry
+ *
+ * @param formats - Formats to register (default: the built-in formats)
+ * @returns New debate format registry
+ */
+export function createDebateFormatRegistry(
+  formats: DebateFormatDefinition[] = BUILT_IN_DEBATE_FORMATS
+): DebateFormatRegistry {
+  return new DebateFormatRegistry(formats);
+}
@@ -0,0 +1,832 @@
+/**
+ * Debate Tournament Implementation
+ * Schedules debates between debater configurations and rates them across matches
+ */
+
+import {
+  DebateParticipant,
+  DebateModeratorParticipant
+} from "../participants/debate_participant.ts";
+import {
+  DebateWorkflow,
+  DebateWorkflowConfig,
+  DebateWorkflowResult
+} from "./debate_workflow.ts";
+import { ILogger, createLogger, LogLevel } from "../utils/logger.ts";
+
+/**
+ * How debaters are paired each round
+ */
+export type TournamentPairing = "round_robin" | "swiss";
+
+/**
+ * Rating system used to rank debaters
+ */
+export type RatingSystem = "elo" | "glicko";
+
+/**
+ * A debater configuration competing in a tournament, such as a model and persona
+ */
+export interface TournamentDebater {
+  /**
+   * Unique identifier for the debater
+   */
+  id: string;
+
+  /**
+   * Display name for the debater
+   */
+  name: string;
+
+  /**
+   * Model the debater runs on
+   */
+  model?: string;
+
+  /**
+   * Persona or prompting style for the debater
+   */
+  persona?: string;
+}
+
+/**
+ * A motion debated in a tournament
+ */
+export interface TournamentMotion {
+  /**
+   * Topic of the motion
+   */
+  topic: string;
+
+  /**
+   * Position argued by the affirmative side
+   */
+  affirmative: string;
+
+  /**
+   * Position argued by the negative side
+   */
+  negative: string;
+}
+
+/**
+ * Glicko rating with its uncertainty
+ */
+export interface GlickoRating {
+  /**
+   * Rating value
+   */
+  rating: number;
+
+  /**
+   * Rating deviation, the uncertainty in the rating
+   */
+  deviation: number;
+}
+
+/**
+ * Outcome of a single debate between two debaters
+ */
+export interface TournamentMatch {
+  /**
+   * Unique identifier for the match
+   */
+  id: string;
+
+  /**
+   * Round the match was played in (1-based)
+   */
+  round: number;
+
+  /**
+   * Motion that was debated
+   */
+  motion: TournamentMotion;
+
+  /**
+   * ID of the debater arguing the affirmative
+   */
+  affirmativeId: string;
+
+  /**
+   * ID of the debater arguing the negative
+   */
+  negativeId: string;
+
+  /**
+   * ID of the winning debater, or undefined for a draw or an unrated match
+   */
+  winnerId?: string;
+
+  /**
+   * Whether the match counted toward the standings and ratings
+   * Debates that fail are reported but not rated
+   */
+  rated: boolean;
+
+  /**
+   * Average score of each debater's judged arguments, keyed by debater ID
+   */
+  scores: Record<string, number | undefined>;
+
+  /**
+   * Full result of the debate
+   */
+  result: DebateWorkflowResult;
+}
+
+/**
+ * A debater's record and ratings in the standings
+ */
+export interface TournamentStanding {
+  /**
+   * Position in the standings (1-based)
+   */
+  rank: number;
+
+  /**
+   * ID of the debater
+   */
+  debaterId: string;
+
+  /**
+   * Name of the debater
+   */
+  name: string;
+
+  /**
+   * Matches played, not counting byes
+   */
+  played: number;
+
+  /**
+   * Matches won
+   */
+  wins: number;
+
+  /**
+   * Matches lost
+   */
+  losses: number;
+
+  /**
+   * Matches drawn
+   */
+  draws: number;
+
+  /**
+   * Number of byes received
+   */
+  byes: number;
+
+  /**
+   * Tournament points (1 per win or bye, 0.5 per draw)
+   */
+  points: number;
+
+  /**
+   * Elo rating
+   */
+  elo: number;
+
+  /**
+   * Glicko rating
+   */
+  glicko: GlickoRating;
+}
+
+/**
+ * Record of one debater's results against another
+ */
+export interface HeadToHeadRecord {
+  /**
+   * Matches won against the opponent
+   */
+  wins: number;
+
+  /**
+   * Matches lost against the opponent
+   */
+  losses: number;
+
+  /**
+   * Matches drawn against the opponent
+   */
+  draws: number;
+}
+
+/**
+ * Configuration for a debate tournament
+ */
+export interface DebateTournamentConfig {
+  /**
+   * Debaters competing in the tournament
+   */
+  debaters: TournamentDebater[];
+
+  /**
+   * Motions to debate, used in turn from round to round
+   */
+  motions: TournamentMotion[];
+
+  /**
+   * Create an advocate for a debater arguing a position on a motion
+   * The advocate's ID is used to read the debater's score from the debate result
+   */
+  createAdvocate: (
+    debater: TournamentDebater,
+    position: string,
+    motion: TournamentMotion
+  ) => DebateParticipant;
+
+  /**
+   * Create the moderator for a debate on a motion
+   */
+  createModerator: (motion: TournamentMotion) => DebateModeratorParticipant;
+
+  /**
+   * Create any other participants for a debate on a motion, such as judges or fact-checkers
+   */
+  createAdditionalParticipants?: (motion: TournamentMotion) => DebateParticipant[];
+
+  /**
+   * Configuration for each debate
+   */
+  debateConfig?: DebateWorkflowConfig;
+
+  /**
+   * How debaters are paired each round
+   * Default: "round_robin"
+   */
+  pairing?: TournamentPairing;
+
+  /**
+   * Number of rounds to play
+   * Default: every pairing once for round robin, ceil(log2(debaters)) for Swiss
+   */
+  rounds?: number;
+
+  /**
+   * Whether each pairing debates twice with sides swapped to cancel position bias
+   * Default: true
+   */
+  swapSides?: boolean;
+
+  /**
+   * Largest difference in total scores that counts as a draw
+   * Default: 0
+   */
+  drawMargin?: number;
+
+  /**
+   * Rating system used to rank debaters
+   * Default: "elo"
+   */
+  ratingSystem?: RatingSystem;
+
+  /**
+   * Rating every debater starts with
+   * Default: 1500
+   */
+  initialRating?: number;
+
+  /**
+   * Elo K-factor, the largest rating change from one match
+   * Default: 32
+   */
+  eloK?: number;
+
+  /**
+   * Glicko rating deviation every debater starts with
+   * Default: 350
+   */
+  initialDeviation?: number;
+
+  /**
+   * Growth in Glicko rating deviation at the start of each round, for ratings that drift over time
+   * Default: 0
+   */
+  deviationGrowth?: number;
+
+  /**
+   * Directory to save standings, head-to-head tables and match results in
+   */
+  outputDir?: string;
+
+  /**
+   * Logger to use
+   */
+  logger?: ILogger;
+
+  /**
+   * Whether to show progress in the console
+   * Default: true
+   */
+  showProgress?: boolean;
+}
+
+/**
+ * Result of a debate tournament
+ */
+export interface DebateTournamentResult {
+  /**
+   * Final standings, best first
+   */
+  standings: TournamentStanding[];
+
+  /**
+   * Results of each debater against each opponent, keyed by debater then opponent ID
+   */
+  headToHead: Record<string, Record<string, HeadToHeadRecord>>;
+
+  /**
+   * Every match played, in order
+   */
+  matches: TournamentMatch[];
+
+  /**
+   * Number of rounds played
+   */
+  rounds: number;
+}
+
+/**
+ * Pairing of two debaters for a round; a missing opponent is a bye
+ */
+export type RoundPairing = [string, string | undefined];
+
+/**
+ * Tournament of debates between debater configurations
+ */
+export class DebateTournament {
+  private config: DebateTournamentConfig;
+  private logger: ILogger;
+  private standings: Map<string, TournamentStanding> = new Map();
+  private headToHead: Record<string, Record<string, HeadToHeadRecord>> = {};
+  private matches: TournamentMatch[] = [];
+
+  /**
+   * Create a new debate tournament
+   *
+   * @param config - Configuration for the tournament
+   */
+  constructor(config: DebateTournamentConfig) {
+    if (config.debaters.length < 2) {
+      throw new Error("Tournament requires at least 2 debaters");
+    }
+
+    if (config.motions.length === 0) {
+      throw new Error("Tournament requires at least one motion");
+    }
+
+    const ids = new Set(config.debaters.map(d => d.id));
+    if (ids.size !== config.debaters.length) {
+      throw new Error("Tournament debater IDs must be unique");
+    }
+
+    this.config = config;
+    this.logger = config.logger ?? createLogger({
+      logLevel: LogLevel.INFO,
+      consoleOutput: config.showProgress ?? true,
+    });
+
+    for (const debater of config.debaters) {
+      this.standings.set(debater.id, {
+        rank: 0,
+        debaterId: debater.id,
+        name: debater.name,
+        played: 0,
+        wins: 0,
+        losses: 0,
+        draws: 0,
+        byes: 0,
+        points: 0,
+        elo: config.initialRating ?? 1500,
+        glicko: {
+          rating: config.initialRating ?? 1500,
+          deviation: config.initialDeviation ?? 350,
+        },
+      });
+      this.headToHead[debater.id] = {};
+    }
+  }
+
+  /**
+   * Run the tournament
+   *
+   * @returns Standings, head-to-head records and every match
+   */
+  async run(): Promise<DebateTournamentResult> {
+    const pairing = this.config.pairing ?? "round_robin";
+    const schedule = pairing === "round_robin" ? createRoundRobinSchedule(this.getDebaterIds()) : [];
+    const rounds = this.config.rounds ??
+      (pairing === "round_robin" ? schedule.length : Math.ceil(Math.log2(this.config.debaters.length)));
+
+    this.logger.info(`Starting ${pairing} tournament`, {
+      debaters: this.config.debaters.length,
+      motions: this.config.motions.length,
+      rounds,
+    });
+
+    for (let round = 0; round < rounds; round++) {
+      const motion = this.config.motions[round % this.config.motions.length];
+      const pairings = pairing === "round_robin"
+        ? schedule[round % schedule.length]
+        : this.createSwissPairings();
+
+      this.growDeviations();
+
+      for (const [firstId, secondId] of pairings) {
+        if (!secondId) {
+          this.recordBye(firstId);
+          continue;
+        }
+
+        await this.playMatch(round + 1, motion, firstId, secondId);
+
+        if (this.config.swapSides ?? true) {
+          await this.playMatch(round + 1, motion, secondId, firstId);
+        }
+      }
+
+      this.logger.info(`Completed round ${round + 1} of ${rounds}`);
+      await this.saveStandings();
+    }
+
+    return this.getResult(rounds);
+  }
+
+  /**
+   * Get the current standings, best first
+   *
+   * @returns Ranked standings
+   */
+  getStandings(): TournamentStanding[] {
+    const useGlicko = this.config.ratingSystem === "glicko";
+    const rating = (s: TournamentStanding) => useGlicko ? s.glicko.rating : s.elo;
+
+    return [...this.standings.values()]
+      .sort((a, b) => b.points - a.points || rating(b) - rating(a))
+      .map((standing, i) => ({ ...standing, glicko: { ...standing.glicko }, rank: i + 1 }));
+  }
+
+  /**
+   * Play a debate between two debaters and record the outcome
+   *
+   * @param round - Round number (1-based)
+   * @param motion - Motion to debate
+   * @param affirmativeId - ID of the debater arguing the affirmative
+   * @param negativeId - ID of the debater arguing the negative
+   */
+  private async playMatch(
+    round: number,
+    motion: TournamentMotion,
+    affirmativeId: string,
+    negativeId: string
+  ): Promise<void> {
+    const affirmative = this.createAdvocate(affirmativeId, motion.affirmative, motion);
+    const negative = this.createAdvocate(negativeId, motion.negative, motion);
+
+    const workflow = new DebateWorkflow(
+      motion.topic,
+      [
+        this.config.createModerator(motion),
+        affirmative,
+        negative,
+        ...(this.config.createAdditionalParticipants?.(motion) ?? []),
+      ],
+      { showProgress: false, ...this.config.debateConfig }
+    );
+
+    const result = await workflow.run();
+
+    const scores = {
+      [affirmativeId]: this.getMatchScore(result, affirmative.id),
+      [negativeId]: this.getMatchScore(result, negative.id),
+    };
+    
+    // A failed debate says nothing about the debaters, so it must not move their ratings
+    const rated = result.success;
+    const winnerId = rated ? this.getWinner(affirmativeId, negativeId, scores) : undefined;
+
+    const match: TournamentMatch = {
+      id: `r${round}-m${this.matches.length + 1}`,
+      round,
+      motion,
+      affirmativeId,
+      negativeId,
+      winnerId,
+      rated,
+      scores,
+      result,
+    };
+
+    this.matches.push(match);
+
+    if (rated) {
+      this.recordMatch(match);
+    }
+
+    if (this.config.outputDir) {
+      await this.logger.saveToFile(match, `${this.config.outputDir}/matches/${match.id}.json`);
+    }
+
+    const outcome = !rated
+      ? `not rated (${result.endReason})`
+      : winnerId ? `${winnerId} wins` : "draw";
+
+    this.logger.info(`Match ${match.id}: ${affirmativeId} vs ${negativeId} - ${outcome}`, { scores });
+  }
+
+  /**
+   * Create an advocate for a debater
+   *
+   * @param debaterId - ID of the debater
+   * @param position - Position the debater argues
+   * @param motion - Motion being debated
+   * @returns Advocate participant
+   */
+  private createAdvocate(
+    debaterId: string,
+    position: string,
+    motion: TournamentMotion
+  ): DebateParticipant {
+    const debater = this.config.debaters.find(d => d.id === debaterId)!;
+    return this.config.createAdvocate(debater, position, motion);
+  }
+
+  /**
+   * Average the scores of an advocate's judged arguments over the whole debate
+   * The workflow's per-participant scores only hold each advocate's last argument
+   *
+   * @param result - Result of the debate
+   * @param participantId - ID of the advocate
+   * @returns Average total score, or undefined if no argument was judged
+   */
+  private getMatchScore(result: DebateWorkflowResult, participantId: string): number | undefined {
+    const totals = result.judgedArguments
+      .filter(judged => judged.participantId === participantId && !judged.score.defaulted)
+      .map(judged => judged.score.total);
+
+    if (totals.length === 0) {
+      return undefined;
+    }
+
+    return totals.reduce((sum, total) => sum + total, 0) / totals.length;
+  }
+
+  /**
+   * Determine the winner of a match from the debaters' scores
+   * Missing scores and differences within the draw margin are draws
+   *
+   * @param firstId - ID of the first debater
+   * @param secondId - ID of the second debater
+   * @param scores - Match scores keyed by debater ID
+   * @returns ID of the winner, or undefined for a draw
+   */
+  private getWinner(
+    firstId: string,
+    secondId: string,
+    scores: Record<string, number | undefined>
+  ): string | undefined {
+    const first = scores[firstId];
+    const second = scores[secondId];
+
+    if (first === undefined || second === undefined ||
+        Math.abs(first - second) <= (this.config.drawMargin ?? 0)) {
+      return undefined;
+    }
+
+    return first > second ? firstId : secondId;
+  }
+
+  /**
+   * Update records, head-to-head tables and ratings with a match outcome
+   *
+   * @param match - Match to record
+   */
+  private recordMatch(match: TournamentMatch): void {
+    const first = this.standings.get(match.affirmativeId)!;
+    const second = this.standings.get(match.negativeId)!;
+    const firstScore = match.winnerId === undefined ? 0.5 : match.winnerId === first.debaterId ? 1 : 0;
+
+    for (const [standing, opponent, score] of [
+      [first, second, firstScore],
+      [second, first, 1 - firstScore],
+    ] as const) {
+      const record = this.headToHead[standing.debaterId][opponent.debaterId] ??= {
+        wins: 0,
+        losses: 0,
+        draws: 0,
+      };
+
+      standing.played++;
+      standing.points += score;
+
+      if (score === 1) {
+        standing.wins++;
+        record.wins++;
+      } else if (score === 0) {
+        standing.losses++;
+        record.losses++;
+      } else {
+        standing.draws++;
+        record.draws++;
+      }
+    }
+
+    // Both ratings update from their values before the match
+    const [firstElo, secondElo] = updateElo(first.elo, second.elo, firstScore, this.config.eloK ?? 32);
+    const firstGlicko = updateGlicko(first.glicko, second.glicko, firstScore);
+    const secondGlicko = updateGlicko(second.glicko, first.glicko, 1 - firstScore);
+
+    first.elo = firstElo;
+    second.elo = secondElo;
+    first.glicko = firstGlicko;
+    second.glicko = secondGlicko;
+  }
+
+  /**
+   * Record a bye, which scores as a win without affecting ratings
+   *
+   * @param debaterId - ID of the debater with the bye
+   */
+  private recordBye(debaterId: string): void {
+    const standing = this.standings.get(debaterId)!;
+    standing.byes++;
+    standing.points += 1;
+
+    this.logger.info(`${debaterId} has a bye`);
+  }
+
+  /**
+   * Increase every rating deviation at the start of a round
+   */
+  private growDeviations(): void {
+    const growth = this.config.deviationGrowth ?? 0;
+    const maxDeviation = this.config.initialDeviation ?? 350;
+
+    for (const standing of this.standings.values()) {
+      standing.glicko.deviation = Math.min(
+        maxDeviation,
+        Math.sqrt(standing.glicko.deviation ** 2 + growth ** 2)
+      );
+    }
+  }
+
+  /**
+   * Pair debaters with similar standings, avoiding rematches where possible
+   * With an odd number of debaters, the lowest-ranked debater without a bye sits out
+   *
+   * @returns Pairings for the round
+   */
+  private createSwissPairings(): RoundPairing[] {
+    const ranked = this.getStandings().map(s => s.debaterId);
+    const pairings: RoundPairing[] = [];
+
+    if (ranked.length % 2 === 1) {
+      const byeIndex = ranked.map(id => this.standings.get(id)!.byes).lastIndexOf(
+        Math.min(...ranked.map(id => this.standings.get(id)!.byes))
+      );
+      pairings.push([ranked.splice(byeIndex, 1)[0], undefined]);
+    }
+
+    while (ranked.length > 0) {
+      const first = ranked.shift()!;
+      const opponentIndex = ranked.findIndex(id => !this.headToHead[first][id]);
+      const [second] = ranked.splice(opponentIndex === -1 ? 0 : opponentIndex, 1);
+      pairings.push([first, second]);
+    }
+
+    return pairings;
+  }
+
+  /**
+   * Get the IDs of the debaters
+   *
+   * @returns Debater IDs in the order given
+   */
+  private getDebaterIds(): string[] {
+    return this.config.debaters.map(d => d.id);
+  }
+
+  /**
+   * Get the tournament result
+   *
+   * @param rounds - Number of rounds played
+   * @returns Tournament result
+   */
+  private getResult(rounds: number): DebateTournamentResult {
+    return {
+      standings: this.getStandings(),
+      headToHead: structuredClone(this.headToHead),
+      matches: this.matches,
+      rounds,
+    };
+  }
+
+  /**
+   * Save the standings and head-to-head table to the output directory
+   * Match results are saved as each match finishes
+   */
+  private async saveStandings(): Promise<void> {
+    if (!this.config.outputDir) {
+      return;
+    }
+
+    const dir = this.config.outputDir;
+
+    await this.logger.saveToFile(this.getStandings(), `${dir}/standings.json`);
+    await this.logger.saveToFile(this.headToHead, `${dir}/head_to_head.json`);
+  }
+}
+
+/**
+ * Create a round-robin schedule with the circle method
+ * With an odd number of debaters, one debater has a bye each round
+ *
+ * @param ids - Debater IDs
+ * @returns Pairings for each round, in which every debater meets every other once
+ */
+export function createRoundRobinSchedule(ids: string[]): RoundPairing[][] {
+  const slots: (string | undefined)[] = ids.length % 2 === 0 ? [...ids] : [...ids, undefined];
+  const rounds: RoundPairing[][] = [];
+
+  for (let round = 0; round < slots.length - 1; round++) {
+    const pairings: RoundPairing[] = [];
+
+    for (let i = 0; i < slots.length / 2; i++) {
+      const first = slots[i];
+      const second = slots[slots.length - 1 - i];
+
+      if (first && second) {
+        pairings.push([first, second]);
+      } else if (first || second) {
+        pairings.push([(first ?? second)!, undefined]);
+      }
+    }
+
+    rounds.push(pairings);
+
+    // Keep the first slot fixed and rotate the rest
+    slots.splice(1, 0, slots.pop());
+  }
+
+  return rounds;
+}
+
+/**
+ * Update two Elo ratings with a match outcome
+ *
+ * @param first - First player's rating
+ * @param second - Second player's rating
+ * @param firstScore - First player's result (1 win, 0.5 draw, 0 loss)
+ * @param k - K-factor
+ * @returns Updated ratings for the first and second players
+ */
+export function updateElo(
+  first: number,
+  second: number,
+  firstScore: number,
+  k: number = 32
+): [number, number] {
+  const expected = 1 / (1 + 10 ** ((second - first) / 400));
+  const change = k * (firstScore - expected);
+
+  return [first + change, second - change];
+}
+
+/**
+ * Update a Glicko rating with the outcome of one match
+ *
+ * @param player - Player's rating before the match
+ * @param opponent - Opponent's rating before the match
+ * @param score - Player's result (1 win, 0.5 draw, 0 loss)
+ * @returns Player's updated rating
+ */
+export function updateGlicko(
+  player: GlickoRating,
+  opponent: GlickoRating,
+  score: number
+): GlickoRating {
+  const q = Math.log(10) / 400;
+  const g = 1 / Math.sqrt(1 + 3 * q ** 2 * opponent.deviation ** 2 / Math.PI ** 2);
+  const expected = 1 / (1 + 10 ** (-g * (player.rating - opponent.rating) / 400));
+  const dSquared = 1 / (q ** 2 * g ** 2 * expected * (1 - expected));
+  const precision = 1 / player.deviation ** 2 + 1 / dSquared;
+
+  return {
+    rating: player.rating + (q / precision) * g * (score - expected),
+    deviation: Math.sqrt(1 / precision),
+  };
+}
+
+/**
+ * Create a new debate tournament
+ *
+ * @param config - Configuration for the tournament
+ * @returns New debate tournament
+ */
+export function createDebateTournament(config: DebateTournamentConfig): DebateTournament {
+  return new DebateTournament(config);
+}
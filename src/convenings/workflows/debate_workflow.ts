@@ -17,9 +17,16 @@ import {
 import {
   DebateParticipant,
   DebateModeratorParticipant,
+  DebateJudgeParticipant,
+  FactCheckerParticipant,
+  AudienceMemberParticipant,
   DebateRole,
   DebateFormat,
-  ParticipantScore
+  ParticipantScore,
+  ClaimCheck,
+  FactCheckReport,
+  AudienceBallot,
+  AudienceVote
 } from "../participants/debate_participant.ts";
 
 import {
@@ -27,18 +34,172 @@ import {
   createLogger,
   LogLevel,
   BudgetConfig,
-  Logger
+  Logger,
+  ApiUsageMetrics
 } from "../utils/logger.ts";
+import { isConversationalAgent, TokenListener } from "../../utils/agent_utils.ts";
+import { formatString } from "../../utils/string_utils.ts";
+import {
+  DebatePhase,
+  DebateFormatDefinition,
+  DebateFormatRegistry,
+  DebatePhaseDefinition,
+  DebateTurnAction,
+  DebateTurnDefinition,
+  createStandardDebateFormat,
+  debateFormatRegistry,
+  validateDebateFormat
+} from "./debate_formats.ts";
+
+import {
+  JudgingPanel,
+  PanelAgreement,
+  PanelScore,
+  ScoreAggregationMethod
+} from "./judging_panel.ts";
+
+// Phases are defined alongside the formats that use them
+export { DebatePhase } from "./debate_formats.ts";
 
 /**
- * Debate phase
+ * An argument scored by the judging panel
  */
-export enum DebatePhase {
-  OPENING_STATEMENTS = "opening_statements",
-  ARGUMENT_ROUNDS = "argument_rounds",
-  CLOSING_STATEMENTS = "closing_statements",
-  SUMMARY = "summary",
-  COMPLETE = "complete",
+export interface JudgedArgument {
+  /**
+   * ID of the participant who made the argument
+   */
+  participantId: string;
+  
+  /**
+   * Turn number of the argument
+   */
+  turnNumber: number;
+  
+  /**
+   * The panel's score for the argument
+   */
+  score: PanelScore;
+}
+
+/**
+ * How an audience member's stance moved over the debate
+ */
+export interface AudienceStanceChange {
+  /**
+   * ID of the audience member
+   */
+  memberId: string;
+  
+  /**
+   * Description of who the audience member is
+   */
+  persona: string;
+  
+  /**
+   * Stance before the opening statements
+   */
+  before: AudienceVote;
+  
+  /**
+   * Reason given for the stance before the debate
+   */
+  reasonBefore: string;
+  
+  /**
+   * Stance after the closing statements, if the audience was polled again
+   */
+  after?: AudienceVote;
+  
+  /**
+   * Reason given for the stance after the debate
+   */
+  reasonAfter?: string;
+  
+  /**
+   * Whether the stance changed
+   */
+  changed: boolean;
+}
+
+/**
+ * Result of polling the audience before and after an Oxford-style debate
+ */
+export interface AudiencePollResult {
+  /**
+   * Number of votes for each stance before the opening statements
+   */
+  before: Record<AudienceVote, number>;
+  
+  /**
+   * Number of votes for each stance after the closing statements
+   */
+  after?: Record<AudienceVote, number>;
+  
+  /**
+   * Change in each side's share of the audience, in percentage points
+   */
+  swing?: { for: number; against: number };
+  
+  /**
+   * Side with the larger swing, or undefined for a tie or an unfinished poll
+   */
+  winner?: "for" | "against";
+  
+  /**
+   * IDs of the advocates on the winning side
+   * Even advocate slots argue for the motion and odd slots against it
+   */
+  winnerIds: string[];
+  
+  /**
+   * Each audience member's change in stance, with their reasons
+   */
+  changes: AudienceStanceChange[];
+}
+
+/**
+ * A question and answer pair from the cross-examination phase
+ */
+export interface CrossExaminationExchange {
+  /**
+   * ID of the advocate asking the question
+   */
+  examinerId: string;
+  
+  /**
+   * ID of the advocate answering the question
+   */
+  witnessId: string;
+  
+  /**
+   * Question asked by the examiner
+   */
+  question: string;
+  
+  /**
+   * Accepted answer, or undefined while an answer is awaited
+   */
+  answer?: string;
+  
+  /**
+   * Whether the moderator judged the final answer relevant
+   */
+  answerRelevant?: boolean;
+  
+  /**
+   * Answers the moderator ruled not relevant to the question
+   */
+  irrelevantAnswers: string[];
+  
+  /**
+   * Moderator rulings directing the witness to answer
+   */
+  rulings: string[];
+  
+  /**
+   * Turn number when the question was asked
+   */
+  turnNumber: number;
 }
 
 /**
@@ -52,7 +213,19 @@ export interface DebateWorkflowConfig extends DialogueWorkflowConfig {
   debateFormat?: DebateFormat;
   
   /**
-   * Number of argument rounds
+   * Structure of the debate: the id of a registered format or a custom definition
+   * If not provided, the standard format is built from the options below
+   */
+  formatDefinition?: string | DebateFormatDefinition;
+  
+  /**
+   * Registry used to look up a format by id
+   * Default: the default debate format registry
+   */
+  formatRegistry?: DebateFormatRegistry;
+  
+  /**
+   * Number of argument rounds in the standard format
    * Default: 2
    */
   roundCount?: number;
@@ -87,11 +260,51 @@ export interface DebateWorkflowConfig extends DialogueWorkflowConfig {
   scoringCriteria?: Record<string, number>;
   
   /**
-   * Whether to include moderator summaries after each round
+   * How the judging panel combines its judges' scores
+   * Judges are the debate's judge participants, or the moderator alone if there are none
+   * Default: "mean"
+   */
+  scoreAggregation?: ScoreAggregationMethod;
+  
+  /**
+   * Fraction of judges' scores dropped from each end when aggregating with a trimmed mean
+   * Default: 0.2
+   */
+  scoreTrimFraction?: number;
+  
+  /**
+   * Whether to include moderator summaries after each round in the standard format
    * Default: true
    */
   roundSummariesEnabled?: boolean;
   
+  /**
+   * Whether to hold a cross-examination phase after opening statements
+   * in the standard format
+   * Default: false
+   */
+  crossExaminationEnabled?: boolean;
+  
+  /**
+   * Number of questions each advocate asks during cross-examination
+   * in the standard format
+   * Default: 3
+   */
+  crossExaminationQuestions?: number;
+  
+  /**
+   * Number of times the moderator will direct a witness to answer
+   * a question after an irrelevant answer
+   * Default: 1
+   */
+  crossExaminationMaxRedirects?: number;
+  
+  /**
+   * Advocate actions that trigger a fact-check turn when the debate has fact-checkers
+   * Default: ["argument", "rebuttal"]
+   */
+  factCheckedActions?: DebateTurnAction[];
+  
   /**
    * System prompt template for debates
    */
@@ -185,26 +398,75 @@ export interface DebateWorkflowResult extends DialogueWorkflowResult {
    * Number of completed argument rounds
    */
   completedRounds: number;
+  
+  /**
+   * ID of the debate format that was followed
+   */
+  formatId: string;
+  
+  /**
+   * Question and answer exchanges from the cross-examination phase
+   */
+  crossExaminations: CrossExaminationExchange[];
+  
+  /**
+   * Fact-checker reports on advocates' arguments
+   */
+  factChecks: FactCheckReport[];
+  
+  /**
+   * Every argument scored by the judging panel, with each judge's score
+   */
+  judgedArguments: JudgedArgument[];
+  
+  /**
+   * Agreement between the judges over all scored arguments
+   */
+  scoringAgreement: PanelAgreement;
+  
+  /**
+   * Audience votes before and after the debate, if the debate had an audience
+   */
+  audiencePoll?: AudiencePollResult;
+  
+  /**
+   * Debate role of each participant, keyed by participant ID
+   */
+  participantRoles: Record<string, DebateRole>;
 }
 
 /**
  * Specialized workflow for structured debates
  */
 export class DebateWorkflow extends DialogueWorkflow {
-  private debateConfig: Required<DebateWorkflowConfig>;
+  private debateConfig: Required<Omit<DebateWorkflowConfig, "formatDefinition" | "formatRegistry">>;
+  private format!: DebateFormatDefinition;
   private currentPhase: DebatePhase = DebatePhase.OPENING_STATEMENTS;
   private moderator?: DebateModeratorParticipant;
   private advocates: DebateParticipant[] = [];
-  private factCheckers: DebateParticipant[] = [];
+  private factCheckers: FactCheckerParticipant[] = [];
+  private judges: DebateJudgeParticipant[] = [];
+  private judgingPanel!: JudgingPanel;
+  private judgedArguments: JudgedArgument[] = [];
+  private audience: AudienceMemberParticipant[] = [];
+  private audienceBefore?: AudienceBallot[];
+  private audienceAfter?: AudienceBallot[];
   private currentRound: number = 0;
+  private phaseIndex: number = 0;
+  private phaseRound: number = 0;
   private phaseProgress: number = 0;
   private scores: Map<string, ParticipantScore> = new Map();
-  private phaseTurnOrder: string[] = [];
+  private phaseTurns: DebateTurnDefinition[] = [];
   private debateSummary: string = "";
+  private crossExaminations: CrossExaminationExchange[] = [];
+  private pendingRulingReason?: string;
+  private factChecks: FactCheckReport[] = [];
+  private factCheckCount: number = 0;
+  private pendingScore?: { participantId: string; argument: string };
   private logger: ILogger;
-  private startTime: number = 0;
   private phaseStartTime: number = 0;
   private earlyExitReason?: string;
+  private budgetWarningLevel: "none" | "warning" | "exceeded" = "none";
   
   /**
    * Create a new debate workflow
@@ -261,6 +523,12 @@ export class DebateWorkflow extends DialogueWorkflow {
         "rule_adherence": 0.15,
       },
       roundSummariesEnabled: config.roundSummariesEnabled ?? true,
+      crossExaminationEnabled: config.crossExaminationEnabled ?? false,
+      crossExaminationQuestions: config.crossExaminationQuestions ?? 3,
+      crossExaminationMaxRedirects: config.crossExaminationMaxRedirects ?? 1,
+      factCheckedActions: config.factCheckedActions ?? ["argument", "rebuttal"],
+      scoreAggregation: config.scoreAggregation ?? "mean",
+      scoreTrimFraction: config.scoreTrimFraction ?? 0.2,
       debatePromptTemplate,
       logger: this.logger,
       logLevel,
@@ -274,16 +542,20 @@ export class DebateWorkflow extends DialogueWorkflow {
       ...config as Required<DialogueWorkflowConfig>,
     };
     
+    // Look up a named format or check a custom one
+    const format = this.resolveFormat(config);
+    
     // Log initialization
     this.logger.info(`Initialized debate workflow on topic: "${topic}"`, {
       debateFormat: this.debateConfig.debateFormat,
+      formatId: format?.id ?? "standard",
       roundCount: this.debateConfig.roundCount,
       participantCount: participants.length,
       advocateCount: participants.filter(p => p instanceof DebateParticipant && p.debateRole === "position_advocate").length,
     });
     
     // Initialize debate-specific state
-    this.initializeDebateState();
+    this.initializeDebateState(format);
   }
   
   /**
@@ -293,18 +565,17 @@ export class DebateWorkflow extends DialogueWorkflow {
    */
   async run(): Promise<DebateWorkflowResult> {
     // Start timing
-    this.startTime = Date.now();
     this.phaseStartTime = Date.now();
     
     this.logger.info(`Starting debate on topic: "${this.state.topic}"`);
-    this.logger.info(`Format: ${this.debateConfig.debateFormat}, Rounds: ${this.debateConfig.roundCount}`);
+    this.logger.info(`Format: ${this.format.name} (${this.debateConfig.debateFormat}), Rounds: ${this.getTotalRounds()}`);
     
     try {
       // Run the dialogue using the base implementation
-      const baseResult = await super.run();
+      const baseResult = await this.runDialogue();
       
-      // Calculate duration
-      const duration = Date.now() - this.startTime;
+      // Active time across all runs, excluding pauses
+      const duration = baseResult.duration;
       
       // Prepare the debate result
       const result: DebateWorkflowResult = {
@@ -314,8 +585,25 @@ export class DebateWorkflow extends DialogueWorkflow {
         debateCompleted: this.currentPhase === DebatePhase.COMPLETE,
         totalTurns: this.state.currentTurn,
         completedRounds: this.currentRound,
+        formatId: this.format.id,
+        crossExaminations: this.crossExaminations,
+        factChecks: this.factChecks,
+        judgedArguments: this.judgedArguments,
+        scoringAgreement: this.getScoringAgreement(),
+        audiencePoll: this.getAudiencePollResult(),
+        participantRoles: this.getParticipantRoles(),
       };
       
+      // Leave output files until the debate is resumed and finished
+      if (baseResult.endReason === "paused") {
+        this.logger.info(`Debate paused at turn ${this.state.currentTurn}`, {
+          phase: this.currentPhase,
+          round: this.currentRound,
+        });
+        
+        return result;
+      }
+      
       // Log completion
       this.logger.info(`Debate completed in ${(duration / 1000).toFixed(2)} seconds`, {
         totalTurns: this.state.currentTurn,
@@ -419,10 +707,16 @@ export class DebateWorkflow extends DialogueWorkflow {
           {
             topic: this.state.topic,
             format: this.debateConfig.debateFormat,
-            roundCount: this.debateConfig.roundCount,
+            formatId: this.format.id,
+            roundCount: this.getTotalRounds(),
             completedRounds: this.currentRound,
             totalTurns: this.state.currentTurn,
             scores: Object.fromEntries(this.scores),
+            crossExaminations: this.crossExaminations,
+            factChecks: this.factChecks,
+            judgedArguments: this.judgedArguments,
+            scoringAgreement: this.getScoringAgreement(),
+            audiencePoll: this.getAudiencePollResult(),
             apiUsage,
             duration,
             timestamp: new Date().toISOString(),
@@ -464,7 +758,11 @@ export class DebateWorkflow extends DialogueWorkflow {
               role,
               turnNumber: message.metadata?.turnNumber,
               debatePhase: message.metadata?.debatePhase,
+              formatPhase: message.metadata?.formatPhase,
+              speech: message.metadata?.speech,
               roundNumber: message.metadata?.roundNumber,
+              crossExamination: message.metadata?.crossExamination,
+              factCheck: message.metadata?.factCheck,
               content: message.content,
               timestamp: new Date(message.timestamp).toISOString(),
             },
@@ -479,7 +777,11 @@ export class DebateWorkflow extends DialogueWorkflow {
             role,
             turnNumber: message.metadata?.turnNumber,
             debatePhase: message.metadata?.debatePhase,
+            formatPhase: message.metadata?.formatPhase,
+            speech: message.metadata?.speech,
             roundNumber: message.metadata?.roundNumber,
+            crossExamination: message.metadata?.crossExamination,
+            factCheck: message.metadata?.factCheck,
             timestamp: new Date(message.timestamp).toISOString(),
           });
           
@@ -496,12 +798,18 @@ export class DebateWorkflow extends DialogueWorkflow {
           indexContent = {
             topic: this.state.topic,
             format: this.debateConfig.debateFormat,
-            roundCount: this.debateConfig.roundCount,
+            formatId: this.format.id,
+            roundCount: this.getTotalRounds(),
             completedRounds: this.currentRound,
             totalTurns: this.state.currentTurn,
             timestamp: new Date().toISOString(),
             scores: Object.fromEntries(this.scores),
             summary: this.debateSummary,
+            crossExaminations: this.crossExaminations,
+            factChecks: this.factChecks,
+            judgedArguments: this.judgedArguments,
+            scoringAgreement: this.getScoringAgreement(),
+            audiencePoll: this.getAudiencePollResult(),
             apiUsage,
             duration,
             messages: messageFiles,
@@ -521,7 +829,8 @@ export class DebateWorkflow extends DialogueWorkflow {
               topic: this.state.topic,
               format: this.debateConfig.debateFormat,
               participants: participantNames,
-              completedRounds: `${this.currentRound}/${this.debateConfig.roundCount}`,
+              formatId: this.format.id,
+              completedRounds: `${this.currentRound}/${this.getTotalRounds()}`,
               totalTurns: this.state.currentTurn,
               timestamp: new Date().toISOString(),
               apiUsage: {
@@ -558,7 +867,7 @@ export class DebateWorkflow extends DialogueWorkflow {
         }
       }
       
-      return result;
+      return this.finishRun(result);
     } catch (error) {
       this.logger.error(`Error running debate: ${error.message}`, {
         error: error.stack,
@@ -570,14 +879,106 @@ export class DebateWorkflow extends DialogueWorkflow {
     }
   }
   
+  /**
+   * Get the type identifier recorded in checkpoints
+   * 
+   * @returns Workflow type identifier
+   */
+  protected override getWorkflowType(): string {
+    return "debate";
+  }
+  
+  /**
+   * Get debate state to include in checkpoints
+   * 
+   * @returns Serializable debate state
+   */
+  protected override getCheckpointData(): Record<string, unknown> {
+    return {
+      formatId: this.format.id,
+      currentPhase: this.currentPhase,
+      currentRound: this.currentRound,
+      phaseIndex: this.phaseIndex,
+      phaseRound: this.phaseRound,
+      phaseProgress: this.phaseProgress,
+      phaseTurns: this.phaseTurns,
+      scores: Object.fromEntries(this.scores),
+      debateSummary: this.debateSummary,
+      crossExaminations: this.crossExaminations,
+      pendingRulingReason: this.pendingRulingReason,
+      factChecks: this.factChecks,
+      factCheckCount: this.factCheckCount,
+      pendingScore: this.pendingScore,
+      judgedArguments: this.judgedArguments,
+      audienceBefore: this.audienceBefore,
+      audienceAfter: this.audienceAfter,
+      earlyExitReason: this.earlyExitReason,
+      budgetWarningLevel: this.budgetWarningLevel,
+      apiUsage: this.logger.getApiUsageMetrics(),
+    };
+  }
+  
+  /**
+   * Restore debate state from a checkpoint
+   * 
+   * @param data - Debate state from the checkpoint
+   */
+  protected override restoreCheckpointData(data: Record<string, unknown>): void {
+    if (data.formatId !== this.format.id) {
+      throw new Error(
+        `Cannot restore a "${data.formatId}" debate checkpoint into a "${this.format.id}" debate`
+      );
+    }
+    
+    this.currentPhase = data.currentPhase as DebatePhase;
+    this.currentRound = data.currentRound as number;
+    this.phaseIndex = data.phaseIndex as number;
+    this.phaseRound = data.phaseRound as number;
+    this.phaseProgress = data.phaseProgress as number;
+    this.phaseTurns = structuredClone(data.phaseTurns as DebateTurnDefinition[]);
+    this.scores = new Map(
+      Object.entries(structuredClone(data.scores as Record<string, ParticipantScore>))
+    );
+    this.debateSummary = data.debateSummary as string;
+    this.crossExaminations = structuredClone(
+      (data.crossExaminations as CrossExaminationExchange[] | undefined) ?? []
+    );
+    this.pendingRulingReason = data.pendingRulingReason as string | undefined;
+    this.factChecks = structuredClone((data.factChecks as FactCheckReport[] | undefined) ?? []);
+    this.factCheckCount = (data.factCheckCount as number | undefined) ?? 0;
+    this.pendingScore = data.pendingScore as { participantId: string; argument: string } | undefined;
+    this.judgedArguments = structuredClone((data.judgedArguments as JudgedArgument[] | undefined) ?? []);
+    this.audienceBefore = structuredClone(data.audienceBefore as AudienceBallot[] | undefined);
+    this.audienceAfter = structuredClone(data.audienceAfter as AudienceBallot[] | undefined);
+    this.earlyExitReason = data.earlyExitReason as string | undefined;
+    this.budgetWarningLevel = (data.budgetWarningLevel as "none" | "warning" | "exceeded") ?? "none";
+    
+    if (data.apiUsage) {
+      this.logger.restoreApiUsageMetrics(data.apiUsage as ApiUsageMetrics);
+    }
+    
+    this.logger.info(`Restored debate from checkpoint at turn ${this.state.currentTurn}`, {
+      phase: this.currentPhase,
+      round: this.currentRound,
+    });
+  }
+  
   /**
    * Initialize debate-specific state
+   * 
+   * @param format - Named or custom format, or undefined for the standard format
    */
-  private initializeDebateState(): void {
+  private initializeDebateState(format?: DebateFormatDefinition): void {
     // Categorize participants by role
     for (const participant of this.state.participants) {
-      if (participant instanceof DebateModeratorParticipant) {
+      if (participant instanceof DebateJudgeParticipant) {
+        this.judges.push(participant);
+      } else if (participant instanceof DebateModeratorParticipant) {
         this.moderator = participant;
+      } else if (participant instanceof FactCheckerParticipant) {
+        this.factCheckers.push(participant);
+      } else if (participant instanceof AudienceMemberParticipant) {
+        this.audience.push(participant);
       } else if (participant instanceof DebateParticipant) {
         switch (participant.debateRole) {
           case "moderator":
@@ -589,7 +990,10 @@ export class DebateWorkflow extends DialogueWorkflow {
             this.advocates.push(participant);
             break;
           case "fact_checker":
-            this.factCheckers.push(participant);
+            this.logger.warn(
+              `Participant ${participant.name} has the fact_checker role but is not a ` +
+              "FactCheckerParticipant, so it will not be given fact-check turns"
+            );
             break;
         }
       }
@@ -604,34 +1008,95 @@ export class DebateWorkflow extends DialogueWorkflow {
       throw new Error("Debate requires at least 2 position advocates");
     }
     
-    // Set up turn order for opening statements
-    this.setupTurnOrderForPhase(DebatePhase.OPENING_STATEMENTS);
+    // Without dedicated judges the moderator scores alone
+    this.judgingPanel = new JudgingPanel({
+      judges: this.judges.length > 0 ? this.judges : [this.moderator],
+      aggregation: this.debateConfig.scoreAggregation,
+      trimFraction: this.debateConfig.scoreTrimFraction,
+    });
+    
+    this.format = format ?? createStandardDebateFormat({
+      advocateCount: this.advocates.length,
+      roundCount: this.debateConfig.roundCount,
+      roundSummariesEnabled: this.debateConfig.roundSummariesEnabled,
+      crossExaminationEnabled: this.debateConfig.crossExaminationEnabled,
+      crossExaminationQuestions: this.debateConfig.crossExaminationQuestions,
+      openingStatementMaxTokens: this.debateConfig.openingStatementMaxTokens,
+      argumentMaxTokens: this.debateConfig.argumentMaxTokens,
+      closingStatementMaxTokens: this.debateConfig.closingStatementMaxTokens,
+    });
+    
+    if (this.advocates.length < this.format.advocateCount) {
+      throw new Error(
+        `Debate format "${this.format.id}" requires ${this.format.advocateCount} position advocates`
+      );
+    }
+    
+    // Set up turn order for the first phase
+    this.setupPhaseTurns();
+  }
+  
+  /**
+   * Resolve the configured debate format
+   * 
+   * @param config - Configuration for the debate
+   * @returns Named or custom format, or undefined to use the standard format
+   */
+  private resolveFormat(config: DebateWorkflowConfig): DebateFormatDefinition | undefined {
+    const definition = config.formatDefinition;
+    
+    if (typeof definition === "string") {
+      const format = (config.formatRegistry ?? debateFormatRegistry).get(definition);
+      
+      if (!format) {
+        throw new Error(`Unknown debate format: ${definition}`);
+      }
+      
+      return format;
+    }
+    
+    if (definition) {
+      validateDebateFormat(definition);
+    }
+    
+    return definition;
   }
   
   /**
    * Execute a single turn of the debate
    */
   protected async executeTurn(): Promise<void> {
+    // Poll the audience on the motion before the debate begins
+    if (this.audience.length > 0 && !this.audienceBefore) {
+      this.audienceBefore = await this.pollAudience();
+    }
+    
     // Determine which participant's turn it is
-    const participantId = this.phaseTurnOrder[this.phaseProgress];
-    const participant = this.state.participants.find(p => p.id === participantId);
+    const turn = this.phaseTurns[this.phaseProgress];
+    const phase = this.getCurrentPhaseDefinition();
+    const participant = this.getTurnParticipant(turn);
     
-    if (!participant) {
-      throw new Error(`Participant with ID ${participantId} not found`);
-    }
+    this.emit({ type: "turn-started", turnNumber: this.state.currentTurn });
     
-    // Generate the prompt for this turn
-    const prompt = await this.generateDebatePrompt(participant);
+    // Generate the prompt for this turn, including what the speaker remembers
+    // and how they regard the others
+    const prompt = this.addRelationshipContext(
+      participant,
+      await this.addRecalledMemories(participant, await this.generateDebatePrompt(participant, turn))
+    );
     
-    // Get response based on debate phase and participant role
+    // Get response based on the turn's action
     let response: string;
     
-    if (participant.id === this.moderator?.id) {
-      // Moderator turn - generate appropriate response for current phase
-      response = await this.handleModeratorTurn();
+    // Forward streamed tokens to event stream observers
+    const onToken = this.createTokenForwarder(participant.id);
+    
+    if (turn.speaker === "moderator") {
+      response = await this.handleModeratorTurn(turn, onToken);
+    } else if (turn.speaker === "fact_checker") {
+      response = await this.handleFactCheckTurn(participant as FactCheckerParticipant, turn, onToken);
     } else {
-      // Advocate turn - generate response based on debate phase
-      response = await this.handleAdvocateTurn(participant as DebateParticipant, prompt);
+      response = await this.handleAdvocateTurn(participant, turn, prompt, onToken);
     }
     
     // Record the message
@@ -642,147 +1107,129 @@ export class DebateWorkflow extends DialogueWorkflow {
       metadata: {
         turnNumber: this.state.currentTurn,
         debatePhase: this.currentPhase,
+        formatPhase: phase.id,
         roundNumber: this.currentRound,
+        ...(turn.label ? { speech: turn.label } : {}),
+        ...this.getHistoryMetadata(),
       },
     };
     
-    this.state.messages.push(message);
+    if (turn.action === "question" || turn.action === "answer" || turn.action === "ruling") {
+      message.metadata!.crossExamination = {
+        exchangeIndex: this.crossExaminations.length - 1,
+        kind: turn.action,
+      };
+    }
+    
+    if (turn.action === "fact_check") {
+      const report = this.factChecks[this.factChecks.length - 1];
+      message.metadata!.factCheck = {
+        reportIndex: this.factChecks.length - 1,
+        speakerId: report.speakerId,
+        verdicts: report.claims.map(c => c.verdict),
+      };
+    }
+    
+    this.commitMessage(message);
+    
+    // Check the answer before advancing, so a redirect joins the turn order
+    if (turn.action === "answer") {
+      await this.recordCrossExaminationAnswer(turn, response);
+    }
+    
+    const factCheckFollows = this.scheduleFactCheck(turn);
+    
+    // Score if enabled and the phase's scoring rules call for it
+    const scored = phase.scored ?? phase.kind === DebatePhase.ARGUMENT_ROUNDS;
+    if (this.debateConfig.scoringEnabled && scored && typeof turn.speaker === "number") {
+      if (factCheckFollows) {
+        // Wait for the verdicts so they can inform the score
+        this.pendingScore = { participantId: participant.id, argument: response };
+      } else {
+        await this.scoreArgument(participant.id, response);
+      }
+    }
     
     // Advance the debate state
     this.advanceDebateState();
     
-    // Score if enabled and appropriate
-    if (this.debateConfig.scoringEnabled && 
-        this.currentPhase === DebatePhase.ARGUMENT_ROUNDS &&
-        participant.id !== this.moderator?.id) {
-      await this.scoreArgument(participant.id, response);
+    // Poll the audience again once the closing statements are over
+    if (this.audience.length > 0 && !this.audienceAfter && this.closingStatementsHeard()) {
+      this.audienceAfter = await this.pollAudience(this.audienceBefore);
     }
+    
+    this.checkBudgetStatus();
+  }
+  
+  /**
+   * Emit a budget warning when usage first approaches or exceeds the budget
+   */
+  private checkBudgetStatus(): void {
+    const status = this.logger.getBudgetStatus();
+    const approaching = (status.maxTokens !== undefined &&
+                         status.percentUsed.tokens >= status.warningThreshold) ||
+                        (status.maxCost !== undefined &&
+                         status.percentUsed.cost >= status.warningThreshold);
+    const level = status.exceeded ? "exceeded" : (approaching ? "warning" : "none");
+    
+    // Only emit when the budget moves to a more severe level
+    if (level === this.budgetWarningLevel || level === "none" ||
+        (level === "warning" && this.budgetWarningLevel === "exceeded")) {
+      return;
+    }
+    
+    this.budgetWarningLevel = level;
+    this.emit({ type: "budget-warning", status });
   }
   
   /**
    * Handle a moderator's turn
    * 
+   * @param turn - The turn being taken
+   * @param onToken - Listener for streamed response chunks
    * @returns Moderator's response
    */
-  private async handleModeratorTurn(): Promise<string> {
+  private async handleModeratorTurn(
+    turn: DebateTurnDefinition,
+    onToken: TokenListener
+  ): Promise<string> {
     if (!this.moderator) {
       throw new Error("No moderator found for debate");
     }
     
-    switch (this.currentPhase) {
-      case DebatePhase.OPENING_STATEMENTS:
-        if (this.phaseProgress === 0) {
-          // Introduction to debate
-          return this.moderator.generatePhaseIntroduction(
-            "opening statements",
-            `This debate on "${this.state.topic}" will begin with opening statements from each participant, ` +
-            `followed by ${this.debateConfig.roundCount} rounds of arguments and rebuttals, ` +
-            "and conclude with closing statements."
-          );
-        } else {
-          // Transition to next speaker
-          const prevIndex = this.phaseTurnOrder.indexOf(this.moderator.id) - 1;
-          const nextIndex = this.phaseTurnOrder.indexOf(this.moderator.id) + 1;
-          
-          if (nextIndex < this.phaseTurnOrder.length) {
-            const prevParticipant = this.getParticipantById(this.phaseTurnOrder[prevIndex]);
-            const nextParticipant = this.getParticipantById(this.phaseTurnOrder[nextIndex]);
-            
-            if (prevParticipant && nextParticipant) {
-              return this.moderator.generateSpeakerTransition(
-                prevParticipant,
-                nextParticipant,
-                "We will now hear the opening statement from the next participant."
-              );
-            }
-          }
-          
-          // Transition to argument rounds
-          return this.moderator.generatePhaseIntroduction(
-            "argument rounds",
-            `We have heard opening statements from all participants. We will now proceed to the argument rounds, ` +
-            `where each advocate will present arguments and respond to the other's points.`
-          );
-        }
-      
-      case DebatePhase.ARGUMENT_ROUNDS:
-        if (this.phaseProgress === 0) {
-          // Start of a new round
-          return this.moderator.generatePhaseIntroduction(
-            `argument round ${this.currentRound + 1}`,
-            `We are now beginning round ${this.currentRound + 1} of arguments. ` +
-            `Each advocate will present their arguments and respond to the other's points.`
-          );
-        } else if (this.debateConfig.roundSummariesEnabled && 
-                  this.phaseProgress === this.phaseTurnOrder.length - 1) {
-          // End of round summary
-          const roundMessages = this.state.messages.slice(
-            -(this.phaseTurnOrder.length - 1)
-          );
-          
-          return this.moderator.generateRoundSummary(
-            this.currentRound + 1, 
-            roundMessages
-          );
-        } else {
-          // Transition between speakers
-          const prevIndex = this.phaseTurnOrder.indexOf(this.moderator.id) - 1;
-          const nextIndex = this.phaseTurnOrder.indexOf(this.moderator.id) + 1;
-          
-          if (nextIndex < this.phaseTurnOrder.length) {
-            const prevParticipant = this.getParticipantById(this.phaseTurnOrder[prevIndex]);
-            const nextParticipant = this.getParticipantById(this.phaseTurnOrder[nextIndex]);
-            
-            if (prevParticipant && nextParticipant) {
-              return this.moderator.generateSpeakerTransition(
-                prevParticipant,
-                nextParticipant
-              );
-            }
-          }
-        }
+    switch (turn.action) {
+      case "introduction": {
+        const introduction = this.getCurrentPhaseDefinition().introduction;
         
-        // Default transition to next phase
         return this.moderator.generatePhaseIntroduction(
-          "closing statements",
-          "We have completed the argument rounds. We will now hear closing statements from each participant."
+          this.getPhaseDescription().toLowerCase(),
+          introduction ? this.fillTemplate(introduction) : undefined,
+          onToken
         );
+      }
       
-      case DebatePhase.CLOSING_STATEMENTS:
-        if (this.phaseProgress === 0) {
-          // Introduction to closing statements
-          return this.moderator.generatePhaseIntroduction(
-            "closing statements",
-            "We will now hear closing statements from each participant, summarizing their position and key arguments."
-          );
-        } else {
-          // Transition between speakers
-          const prevIndex = this.phaseTurnOrder.indexOf(this.moderator.id) - 1;
-          const nextIndex = this.phaseTurnOrder.indexOf(this.moderator.id) + 1;
-          
-          if (nextIndex < this.phaseTurnOrder.length) {
-            const prevParticipant = this.getParticipantById(this.phaseTurnOrder[prevIndex]);
-            const nextParticipant = this.getParticipantById(this.phaseTurnOrder[nextIndex]);
-            
-            if (prevParticipant && nextParticipant) {
-              return this.moderator.generateSpeakerTransition(
-                prevParticipant,
-                nextParticipant,
-                "We will now hear the closing statement from the next participant."
-              );
-            }
-          }
-        }
+      case "transition":
+        return this.handleTransitionTurn(this.moderator, onToken);
+      
+      case "round_summary": {
+        // Summarize the messages since the round began
+        const roundMessages = this.state.messages.slice(
+          this.state.messages.length - this.phaseProgress
+        );
         
-        // Default transition to summary phase
-        return this.moderator.generatePhaseIntroduction(
-          "summary",
-          "All participants have presented their closing statements. I will now provide a summary of the debate."
+        return this.moderator.generateRoundSummary(
+          this.getRoundNumber(),
+          roundMessages,
+          onToken
         );
+      }
+      
+      case "ruling":
+        return this.handleRulingTurn(this.moderator, onToken);
       
-      case DebatePhase.SUMMARY:
+      case "conclusion":
         // Generate debate conclusion
-        this.debateSummary = await this.moderator.generateDebateConclusion(this.state);
+        this.debateSummary = await this.moderator.generateDebateConclusion(this.state, onToken);
         return this.debateSummary;
       
       default:
@@ -790,45 +1237,108 @@ export class DebateWorkflow extends DialogueWorkflow {
     }
   }
   
+  /**
+   * Handle a moderator's transition to the next advocate
+   * 
+   * @param moderator - The debate moderator
+   * @param onToken - Listener for streamed response chunks
+   * @returns Moderator's transition
+   */
+  private handleTransitionTurn(
+    moderator: DebateModeratorParticipant,
+    onToken: TokenListener
+  ): Promise<string> {
+    const next = this.phaseTurns
+      .slice(this.phaseProgress + 1)
+      .find(t => typeof t.speaker === "number");
+    
+    // A transition that closes a phase introduces the next one
+    if (!next) {
+      const nextPhase = this.format.phases[this.phaseIndex + 1];
+      
+      return moderator.generatePhaseIntroduction(
+        (nextPhase?.name ?? "Debate Summary").toLowerCase(),
+        nextPhase?.introduction ? this.fillTemplate(nextPhase.introduction) : undefined,
+        onToken
+      );
+    }
+    
+    const nextSpeaker = this.getTurnParticipant(next);
+    const previousMessage = [...this.state.messages]
+      .reverse()
+      .find(m => m.participantId !== moderator.id);
+    const previousSpeaker = this.advocates.find(a => a.id === previousMessage?.participantId) ??
+      moderator;
+    
+    const context = next.action === "question"
+      ? `${nextSpeaker.name} will now cross-examine ${this.advocates[next.target!].name}.`
+      : `We will now hear the ${next.label ?? next.action.replace("_", " ")} from ${nextSpeaker.name}.`;
+    
+    return moderator.generateSpeakerTransition(previousSpeaker, nextSpeaker, context, onToken);
+  }
+  
   /**
    * Handle an advocate's turn
    * 
    * @param participant - The advocate participant
+   * @param turn - The turn being taken
    * @param prompt - Base prompt for the turn
+   * @param onToken - Listener for streamed response chunks
    * @returns Advocate's response
    */
-  private async handleAdvocateTurn(
-    participant: DebateParticipant, 
-    prompt: string
+  private handleAdvocateTurn(
+    participant: DebateParticipant,
+    turn: DebateTurnDefinition,
+    prompt: string,
+    onToken: TokenListener
   ): Promise<string> {
-    switch (this.currentPhase) {
-      case DebatePhase.OPENING_STATEMENTS:
-        return participant.generateOpeningStatement(prompt);
+    // Let advocates with a persuasion motivation take stock of the debate so far
+    participant.observeDebate(
+      this.state.messages,
+      this.state.participants.filter((p): p is DebateParticipant => p instanceof DebateParticipant)
+    );
+    
+    switch (turn.action) {
+      case "opening_statement":
+        return participant.generateOpeningStatement(prompt, onToken);
+      
+      case "argument":
+        return participant.generateArgument(prompt, onToken);
       
-      case DebatePhase.ARGUMENT_ROUNDS:
-        // Determine if this is an argument or rebuttal
-        const isFirstSpeaker = this.advocates.indexOf(participant) === 0;
-        const isEvenTurn = this.phaseProgress % 4 < 2;
+      case "rebuttal": {
+        // Rebut the target's latest message, or the latest opposing message
+        const targetId = turn.target !== undefined ? this.advocates[turn.target].id : undefined;
+        const previousArgument = [...this.state.messages].reverse().find(m =>
+          targetId !== undefined
+            ? m.participantId === targetId
+            : m.participantId !== participant.id && m.participantId !== this.moderator?.id
+        );
         
-        if ((isFirstSpeaker && isEvenTurn) || (!isFirstSpeaker && !isEvenTurn)) {
-          // This is an argument turn
-          return participant.generateArgument(prompt);
-        } else {
-          // This is a rebuttal turn - get the previous argument
-          const previousMessageIndex = this.state.messages.length - 2; // Skip moderator transition
-          if (previousMessageIndex >= 0) {
-            const previousArgument = this.state.messages[previousMessageIndex].content;
-            return participant.generateRebuttal(prompt, previousArgument);
-          } else {
-            return participant.generateArgument(prompt);
-          }
+        if (previousArgument) {
+          return participant.generateRebuttal(prompt, previousArgument.content, onToken);
         }
+        
+        return participant.generateArgument(prompt, onToken);
+      }
+      
+      case "closing_statement":
+        return participant.generateClosingStatement(prompt, onToken);
+      
+      case "question":
+        return this.handleQuestionTurn(participant, turn, prompt, onToken);
       
-      case DebatePhase.CLOSING_STATEMENTS:
-        return participant.generateClosingStatement(prompt);
+      case "answer": {
+        const exchange = this.getAwaitedExchange(participant.id);
+        
+        if (exchange) {
+          return participant.generateCrossExaminationAnswer(prompt, exchange.question, onToken);
+        }
+        
+        return participant.generateArgument(prompt, onToken);
+      }
       
       default:
-        return "I have nothing more to add to the debate.";
+        return Promise.resolve("I have nothing more to add to the debate.");
     }
   }
   
@@ -837,29 +1347,74 @@ export class DebateWorkflow extends DialogueWorkflow {
    * 
    * @param participantId - ID of the participant to score
    * @param argument - Argument content to score
+   * @param factChecks - Fact-check verdicts on the argument's claims
    */
-  private async scoreArgument(participantId: string, argument: string): Promise<void> {
+  private async scoreArgument(
+    participantId: string,
+    argument: string,
+    factChecks?: ClaimCheck[]
+  ): Promise<void> {
     if (!this.moderator || !this.debateConfig.scoringEnabled) {
       return;
     }
     
     // Get debate context for scoring
-    const context = `
+    let context = `
 Topic: ${this.state.topic}
-Current Phase: ${this.currentPhase}
-Round: ${this.currentRound + 1} of ${this.debateConfig.roundCount}
+Current Phase: ${this.getPhaseDescription()}
+Round: ${this.currentRound + 1} of ${this.getTotalRounds()}
 Participant Position: ${this.getParticipantPosition(participantId)}
     `;
     
-    // Score the argument
-    const score = await this.moderator.scoreArgument(
+    // Include the participant's cross-examination so answers count toward the score
+    const crossExamination = this.formatCrossExaminations(participantId);
+    if (crossExamination) {
+      context += `\nCross-examination exchanges involving this participant:\n${crossExamination}\n`;
+    }
+    
+    // Score the argument with every judge on the panel
+    const score = await this.judgingPanel.scoreArgument(
       participantId,
       argument,
-      context
+      context,
+      this.getCurrentPhaseDefinition().scoringCriteria ?? this.format.scoringCriteria,
+      factChecks
     );
     
+    if (score.defaultedJudgeIds.length > 0) {
+      this.logger.warn(
+        `Scores from ${score.defaultedJudgeIds.join(", ")} were defaulted and left out of the panel score`,
+        { participantId, turnNumber: this.state.currentTurn }
+      );
+    }
+    
+    this.judgedArguments.push({ participantId, turnNumber: this.state.currentTurn, score });
+    
     // Update scores
     this.scores.set(participantId, score);
+    this.emit({ type: "score-recorded", participantId, score });
+  }
+  
+  /**
+   * Get the debate role of each participant
+   * 
+   * @returns Roles keyed by participant ID
+   */
+  private getParticipantRoles(): Record<string, DebateRole> {
+    return Object.fromEntries(
+      this.state.participants
+        .filter((p): p is DebateParticipant => p instanceof DebateParticipant)
+        .map(p => [p.id, p.debateRole])
+    );
+  }
+  
+  /**
+   * Get the judges' agreement over all scored arguments
+   * 
+   * @returns Agreement statistics
+   */
+  private getScoringAgreement(): PanelAgreement {
+    return this.judgingPanel.getAgreement(this.judgedArguments.map(a => a.score));
   }
   
   /**
@@ -882,17 +1437,33 @@ Participant Position: ${this.getParticipantPosition(participantId)}
    * Generate a debate-specific prompt for a participant's turn
    * 
    * @param participant - The participant whose turn it is
+   * @param turn - The turn being taken
    * @returns Prompt for the participant
    */
-  private async generateDebatePrompt(participant: DialogueParticipant): Promise<string> {
+  private async generateDebatePrompt(
+    participant: DebateParticipant,
+    turn: DebateTurnDefinition
+  ): Promise<string> {
+    // Get turn-specific instruction
+    const phaseInstruction = this.getTurnInstruction(participant, turn);
+    
+    // Conversational agents already hold the system prompt and history
+    if (isConversationalAgent(participant.agent)) {
+      await this.compactConversation(participant);
+      
+      return [
+        `The current topic is: ${this.state.topic}`,
+        `Current debate phase: ${this.getPhaseDescription()}`,
+        "",
+        phaseInstruction,
+      ].join("\n");
+    }
+    
     // Get system prompt
     const systemPrompt = this.getSystemPrompt();
     
     // Build dialogue history
-    const dialogueHistory = this.formatDialogueHistory();
-    
-    // Get phase-specific instruction
-    const phaseInstruction = this.getPhaseInstruction(participant);
+    const dialogueHistory = await this.buildDialogueHistory();
     
     // Construct the full prompt
     const prompt = [
@@ -915,80 +1486,178 @@ Participant Position: ${this.getParticipantPosition(participantId)}
    * @returns Phase description
    */
   private getPhaseDescription(): string {
-    switch (this.currentPhase) {
-      case DebatePhase.OPENING_STATEMENTS:
-        return "Opening Statements";
+    if (this.currentPhase === DebatePhase.COMPLETE) {
+      return "Debate Complete";
+    }
+    
+    const phase = this.getCurrentPhaseDefinition();
+    const rounds = phase.rounds ?? 1;
+    
+    return rounds > 1 ? `${phase.name} ${this.phaseRound + 1} of ${rounds}` : phase.name;
+  }
+  
+  /**
+   * Get the instruction for a participant's turn
+   * 
+   * @param participant - The participant whose turn it is
+   * @param turn - The turn being taken
+   * @returns Turn instruction
+   */
+  private getTurnInstruction(participant: DebateParticipant, turn: DebateTurnDefinition): string {
+    if (turn.speaker === "fact_checker") {
+      return `It is now your turn to fact-check ${this.advocates[turn.target!].name}'s argument.`;
+    }
+    
+    if (turn.speaker === "moderator") {
+      return turn.action === "conclusion"
+        ? "Please provide a summary of the debate, highlighting key points and areas of agreement/disagreement."
+        : `It is now your turn to moderate the ${this.getPhaseDescription().toLowerCase()} phase.`;
+    }
+    
+    const phase = this.getCurrentPhaseDefinition();
+    const template = turn.promptTemplate ?? phase.promptTemplate;
+    const maxTokens = turn.maxTokens ?? phase.maxTokens;
+    const role = this.format.speakerRoles?.[turn.speaker];
+    
+    return [
+      role ? `You are speaking as the ${role}.` : "",
+      template
+        ? this.fillTemplate(template, participant, turn)
+        : this.getDefaultInstruction(participant, turn),
+      maxTokens ? `Keep your response under ${maxTokens} tokens.` : "",
+    ].filter(Boolean).join(" ");
+  }
+  
+  /**
+   * Get the default instruction for an advocate's turn
+   * 
+   * @param participant - The advocate participant
+   * @param turn - The turn being taken
+   * @returns Turn instruction
+   */
+  private getDefaultInstruction(participant: DebateParticipant, turn: DebateTurnDefinition): string {
+    const phase = this.getCurrentPhaseDefinition();
+    const inRound = (phase.rounds ?? 1) > 1 ? ` in round ${this.getRoundNumber()}` : "";
+    const target = turn.target !== undefined ? this.advocates[turn.target] : undefined;
+    
+    switch (turn.action) {
+      case "opening_statement":
+        return `It is now your turn to present ${turn.label ? `the ${turn.label}` : "your opening statement"}. ` +
+          `Introduce your position on the topic "${this.state.topic}".`;
       
-      case DebatePhase.ARGUMENT_ROUNDS:
-        return `Argument Round ${this.currentRound + 1} of ${this.debateConfig.roundCount}`;
+      case "argument":
+        return `It is now your turn to present ${turn.label ? `the ${turn.label}, with ` : ""}` +
+          `an argument supporting your position${inRound}.`;
       
-      case DebatePhase.CLOSING_STATEMENTS:
-        return "Closing Statements";
+      case "rebuttal":
+        return `It is now your turn to ${turn.label ? `present the ${turn.label} and ` : ""}` +
+          `rebut ${target ? `${target.name}'s` : "the previous"} argument${inRound}.`;
+      
+      case "closing_statement":
+        return `It is now your turn to present ${turn.label ? `the ${turn.label}` : "your closing statement"}. ` +
+          "Summarize your position and key arguments.";
+      
+      case "question": {
+        // Number the question among the speaker's questions in this phase
+        const questions = this.phaseTurns.filter(t =>
+          t.action === "question" && t.speaker === turn.speaker
+        );
+        const asked = this.phaseTurns.slice(0, this.phaseProgress).filter(t =>
+          t.action === "question" && t.speaker === turn.speaker
+        ).length;
+        
+        return `It is now your turn to cross-examine ${target?.name ?? "your opponent"}. ` +
+          `Ask question ${asked + 1} of ${questions.length}.`;
+      }
       
-      case DebatePhase.SUMMARY:
-        return "Debate Summary";
+      case "answer": {
+        const exchange = this.getAwaitedExchange(participant.id);
+        const examiner = exchange ? this.getParticipantById(exchange.examinerId) : undefined;
+        
+        return `It is now your turn to answer the question from ${examiner?.name ?? "your opponent"} during cross-examination.`;
+      }
       
       default:
-        return "Debate Complete";
+        return `It is now your turn to contribute to the ${this.getPhaseDescription().toLowerCase()} phase.`;
     }
   }
   
   /**
-   * Get phase-specific instruction for a participant
+   * Fill a format template with values for the current turn
    * 
-   * @param participant - The participant to get instruction for
-   * @returns Phase-specific instruction
-   */
-  private getPhaseInstruction(participant: DialogueParticipant): string {
-    if (participant.id === this.moderator?.id) {
-      // Moderator instructions
-      switch (this.currentPhase) {
-        case DebatePhase.OPENING_STATEMENTS:
-          return "It is now your turn to moderate the opening statements phase.";
-        
-        case DebatePhase.ARGUMENT_ROUNDS:
-          return `It is now your turn to moderate round ${this.currentRound + 1} of the argument phase.`;
-        
-        case DebatePhase.CLOSING_STATEMENTS:
-          return "It is now your turn to moderate the closing statements phase.";
-        
-        case DebatePhase.SUMMARY:
-          return "Please provide a summary of the debate, highlighting key points and areas of agreement/disagreement.";
-        
-        default:
-          return "The debate has concluded.";
-      }
-    } else {
-      // Participant instructions
-      switch (this.currentPhase) {
-        case DebatePhase.OPENING_STATEMENTS:
-          return `It is now your turn to present your opening statement. Introduce your position on the topic "${this.state.topic}".`;
-        
-        case DebatePhase.ARGUMENT_ROUNDS:
-          // Check if this is an argument or rebuttal turn
-          const isAdvocate = participant instanceof DebateParticipant && 
-                            participant.debateRole === "position_advocate";
-          const advocateIndex = this.advocates.findIndex(a => a.id === participant.id);
-          const isFirstSpeaker = advocateIndex === 0;
-          const isEvenTurn = this.phaseProgress % 4 < 2;
-          
-          if (isAdvocate) {
-            if ((isFirstSpeaker && isEvenTurn) || (!isFirstSpeaker && !isEvenTurn)) {
-              return `It is now your turn to present an argument supporting your position in round ${this.currentRound + 1}.`;
-            } else {
-              return `It is now your turn to rebut the previous argument in round ${this.currentRound + 1}.`;
-            }
-          }
-          
-          return `It is now your turn to contribute to round ${this.currentRound + 1} of the debate.`;
-        
-        case DebatePhase.CLOSING_STATEMENTS:
-          return "It is now your turn to present your closing statement. Summarize your position and key arguments.";
-        
-        default:
-          return "The debate has concluded.";
-      }
+   * @param template - Template to fill
+   * @param participant - The participant whose turn it is
+   * @param turn - The turn being taken
+   * @returns Filled template
+   */
+  private fillTemplate(
+    template: string,
+    participant?: DebateParticipant,
+    turn?: DebateTurnDefinition
+  ): string {
+    const slot = typeof turn?.speaker === "number" ? turn.speaker : undefined;
+    const target = turn?.target !== undefined ? this.advocates[turn.target] : undefined;
+    
+    return formatString(template, {
+      topic: this.state.topic,
+      speaker: participant?.name,
+      role: slot !== undefined ? this.format.speakerRoles?.[slot] : undefined,
+      target: target?.name,
+      label: turn?.label,
+      round: this.getRoundNumber(),
+      rounds: this.getCurrentPhaseDefinition().rounds ?? 1,
+    });
+  }
+  
+  /**
+   * Get the current phase of the format
+   * 
+   * @returns Current phase definition (the last phase once the debate is complete)
+   */
+  private getCurrentPhaseDefinition(): DebatePhaseDefinition {
+    return this.format.phases[Math.min(this.phaseIndex, this.format.phases.length - 1)];
+  }
+  
+  /**
+   * Get the participant who speaks on a turn
+   * 
+   * @param turn - The turn being taken
+   * @returns The moderator or the advocate in the turn's slot
+   */
+  private getTurnParticipant(turn: DebateTurnDefinition): DebateParticipant {
+    if (turn.speaker === "moderator") {
+      return this.moderator!;
+    }
+    
+    // Fact-checkers take turns in rotation
+    if (turn.speaker === "fact_checker") {
+      return this.factCheckers[this.factCheckCount % this.factCheckers.length];
     }
+    
+    return this.advocates[turn.speaker];
+  }
+  
+  /**
+   * Get the number of the current round
+   * Argument rounds are numbered across the debate, other rounds within their phase
+   * 
+   * @returns Current round number, starting from 1
+   */
+  private getRoundNumber(): number {
+    return this.currentPhase === DebatePhase.ARGUMENT_ROUNDS
+      ? this.currentRound + 1
+      : this.phaseRound + 1;
+  }
+  
+  /**
+   * Get the total number of argument rounds in the format
+   * 
+   * @returns Number of argument rounds
+   */
+  private getTotalRounds(): number {
+    return this.format.phases
+      .filter(p => p.kind === DebatePhase.ARGUMENT_ROUNDS)
+      .reduce((total, p) => total + (p.rounds ?? 1), 0);
   }
   
   /**
@@ -999,129 +1668,350 @@ Participant Position: ${this.getParticipantPosition(participantId)}
     this.phaseProgress++;
     
     // Check if we've completed the current phase
-    if (this.phaseProgress >= this.phaseTurnOrder.length) {
-      // Move to the next phase
+    if (this.phaseProgress >= this.phaseTurns.length) {
+      // Move to the next round or phase
       this.advanceToNextPhase();
     }
   }
   
   /**
-   * Advance to the next debate phase
+   * Advance to the next round of the current phase, or to the next phase
    */
   private advanceToNextPhase(): void {
-    switch (this.currentPhase) {
-      case DebatePhase.OPENING_STATEMENTS:
-        // Move to argument rounds
-        this.currentPhase = DebatePhase.ARGUMENT_ROUNDS;
-        this.setupTurnOrderForPhase(DebatePhase.ARGUMENT_ROUNDS);
-        break;
-      
-      case DebatePhase.ARGUMENT_ROUNDS:
-        // Increment round or move to closing statements
-        this.currentRound++;
-        
-        if (this.currentRound >= this.debateConfig.roundCount) {
-          this.currentPhase = DebatePhase.CLOSING_STATEMENTS;
-          this.setupTurnOrderForPhase(DebatePhase.CLOSING_STATEMENTS);
-        } else {
-          // Reset phase progress for next round
-          this.setupTurnOrderForPhase(DebatePhase.ARGUMENT_ROUNDS);
-        }
-        break;
-      
-      case DebatePhase.CLOSING_STATEMENTS:
-        // Move to summary
-        this.currentPhase = DebatePhase.SUMMARY;
-        this.setupTurnOrderForPhase(DebatePhase.SUMMARY);
-        break;
-      
-      case DebatePhase.SUMMARY:
-        // Complete the debate
-        this.currentPhase = DebatePhase.COMPLETE;
-        this.phaseProgress = 0;
-        break;
-      
-      default:
-        // Debate is already complete
-        break;
+    const previousPhase = this.currentPhase;
+    const phase = this.getCurrentPhaseDefinition();
+    
+    if (phase.kind === DebatePhase.ARGUMENT_ROUNDS) {
+      this.currentRound++;
+    }
+    
+    this.phaseRound++;
+    
+    if (this.phaseRound < (phase.rounds ?? 1)) {
+      // Reset phase progress for the next round
+      this.setupPhaseTurns();
+      return;
+    }
+    
+    this.phaseIndex++;
+    this.phaseRound = 0;
+    
+    if (this.phaseIndex < this.format.phases.length) {
+      this.setupPhaseTurns();
+    } else {
+      // Complete the debate
+      this.currentPhase = DebatePhase.COMPLETE;
+      this.phaseProgress = 0;
+      this.phaseTurns = [];
     }
+    
+    // Announce every new phase, even when consecutive phases share a kind
+    const enteredPhase = this.format.phases[this.phaseIndex];
+    
+    this.emit({
+      type: "phase-changed",
+      previousPhase,
+      phase: this.currentPhase,
+      phaseId: enteredPhase?.id,
+      phaseName: enteredPhase?.name,
+      round: this.currentRound,
+    });
   }
   
   /**
-   * Set up turn order for a debate phase
-   * 
-   * @param phase - Debate phase to set up
+   * Set up the turns for the current round of the current phase
    */
-  private setupTurnOrderForPhase(phase: DebatePhase): void {
+  private setupPhaseTurns(): void {
+    const phase = this.format.phases[this.phaseIndex];
+    
+    this.currentPhase = phase.kind;
     this.phaseProgress = 0;
-    this.phaseTurnOrder = [];
+    this.phaseTurns = phase.turns
+      // Fact-check turns are skipped when the debate has no fact-checkers
+      .filter(turn => turn.speaker !== "fact_checker" || this.factCheckers.length > 0)
+      .map(turn => ({ ...turn }));
+  }
+  
+  /**
+   * Schedule a fact-check of an advocate's turn when its action calls for one
+   * 
+   * @param turn - The advocate's turn
+   * @returns Whether a fact-check of the turn comes next
+   */
+  private scheduleFactCheck(turn: DebateTurnDefinition): boolean {
+    if (typeof turn.speaker !== "number" || this.factCheckers.length === 0) {
+      return false;
+    }
     
-    switch (phase) {
-      case DebatePhase.OPENING_STATEMENTS:
-        // Moderator introduces, then each advocate gives opening statement
-        if (this.moderator) {
-          this.phaseTurnOrder.push(this.moderator.id);
-        }
-        
-        for (const advocate of this.advocates) {
-          this.phaseTurnOrder.push(this.moderator?.id || "");
-          this.phaseTurnOrder.push(advocate.id);
-        }
-        break;
-      
-      case DebatePhase.ARGUMENT_ROUNDS:
-        // Each advocate gets an argument and rebuttal, with moderator transitions
-        if (this.moderator) {
-          this.phaseTurnOrder.push(this.moderator.id); // Round introduction
-        }
-        
-        // First advocate presents argument
-        this.phaseTurnOrder.push(this.moderator?.id || "");
-        this.phaseTurnOrder.push(this.advocates[0].id);
-        
-        // Second advocate rebuts
-        this.phaseTurnOrder.push(this.moderator?.id || "");
-        this.phaseTurnOrder.push(this.advocates[1].id);
-        
-        // Second advocate presents argument
-        this.phaseTurnOrder.push(this.moderator?.id || "");
-        this.phaseTurnOrder.push(this.advocates[1].id);
-        
-        // First advocate rebuts
-        this.phaseTurnOrder.push(this.moderator?.id || "");
-        this.phaseTurnOrder.push(this.advocates[0].id);
-        
-        // Round summary by moderator
-        if (this.moderator && this.debateConfig.roundSummariesEnabled) {
-          this.phaseTurnOrder.push(this.moderator.id);
-        }
-        break;
+    // The format may already schedule the fact-check
+    const next = this.phaseTurns[this.phaseProgress + 1];
+    if (next?.action === "fact_check" && next.target === turn.speaker) {
+      return true;
+    }
+    
+    if (!this.debateConfig.factCheckedActions.includes(turn.action)) {
+      return false;
+    }
+    
+    this.phaseTurns.splice(this.phaseProgress + 1, 0, {
+      speaker: "fact_checker",
+      action: "fact_check",
+      target: turn.speaker,
+    });
+    return true;
+  }
+  
+  /**
+   * Handle a fact-checker's turn, checking the target advocate's latest argument
+   * 
+   * @param checker - The fact-checker taking the turn
+   * @param turn - The fact-check turn
+   * @param onToken - Listener for streamed response chunks
+   * @returns Fact-checker's verdicts
+   */
+  private async handleFactCheckTurn(
+    checker: FactCheckerParticipant,
+    turn: DebateTurnDefinition,
+    onToken: TokenListener
+  ): Promise<string> {
+    const speaker = this.advocates[turn.target!];
+    const argument = [...this.state.messages].reverse().find(m => m.participantId === speaker.id);
+    
+    const report = await checker.factCheck(speaker.id, argument?.content ?? "");
+    report.turnNumber = this.state.currentTurn;
+    
+    this.factChecks.push(report);
+    this.factCheckCount++;
+    
+    // Score the checked argument now that its verdicts are known
+    if (this.pendingScore?.participantId === speaker.id) {
+      const { participantId, argument: pendingArgument } = this.pendingScore;
+      this.pendingScore = undefined;
+      await this.scoreArgument(participantId, pendingArgument, report.claims);
+    }
+    
+    // The report is composed rather than generated, so it arrives as one chunk
+    const content = checker.formatReport(report, speaker);
+    onToken(content);
+    return content;
+  }
+  
+  /**
+   * Get the exchange awaiting an answer from a witness
+   * 
+   * @param witnessId - ID of the witness
+   * @returns The open exchange, or undefined if none is awaiting an answer
+   */
+  private getAwaitedExchange(witnessId: string): CrossExaminationExchange | undefined {
+    const exchange = this.crossExaminations[this.crossExaminations.length - 1];
+    
+    return exchange && exchange.answer === undefined && exchange.witnessId === witnessId
+      ? exchange
+      : undefined;
+  }
+  
+  /**
+   * Handle an advocate's cross-examination question
+   * 
+   * @param participant - The advocate asking the question
+   * @param turn - The question turn
+   * @param prompt - Base prompt for the turn
+   * @param onToken - Listener for streamed response chunks
+   * @returns Question from the advocate
+   */
+  private async handleQuestionTurn(
+    participant: DebateParticipant,
+    turn: DebateTurnDefinition,
+    prompt: string,
+    onToken: TokenListener
+  ): Promise<string> {
+    const question = await participant.generateCrossExaminationQuestion(prompt, onToken);
+    
+    this.crossExaminations.push({
+      examinerId: participant.id,
+      witnessId: this.advocates[turn.target!].id,
+      question,
+      irrelevantAnswers: [],
+      rulings: [],
+      turnNumber: this.state.currentTurn,
+    });
+    
+    return question;
+  }
+  
+  /**
+   * Handle a moderator's ruling directing a witness back to an unanswered question
+   * 
+   * @param moderator - The debate moderator
+   * @param onToken - Listener for streamed response chunks
+   * @returns Moderator's ruling
+   */
+  private async handleRulingTurn(
+    moderator: DebateModeratorParticipant,
+    onToken: TokenListener
+  ): Promise<string> {
+    const exchange = this.crossExaminations[this.crossExaminations.length - 1];
+    const witness = this.advocates.find(a => a.id === exchange.witnessId)!;
+    
+    const ruling = await moderator.generateRelevanceRuling(
+      witness,
+      exchange.question,
+      this.pendingRulingReason ?? "",
+      onToken
+    );
+    
+    exchange.rulings.push(ruling);
+    this.pendingRulingReason = undefined;
+    return ruling;
+  }
+  
+  /**
+   * Record a witness's answer and have the moderator check its relevance
+   * An irrelevant answer earns a ruling and another attempt, up to the redirect limit
+   * 
+   * @param turn - The answer turn
+   * @param answer - Answer given by the witness
+   */
+  private async recordCrossExaminationAnswer(
+    turn: DebateTurnDefinition,
+    answer: string
+  ): Promise<void> {
+    const exchange = this.crossExaminations[this.crossExaminations.length - 1];
+    const assessment = await this.moderator!.assessAnswerRelevance(exchange.question, answer);
+    
+    exchange.answerRelevant = assessment.relevant;
+    
+    if (!assessment.relevant &&
+        exchange.irrelevantAnswers.length < this.debateConfig.crossExaminationMaxRedirects) {
+      exchange.irrelevantAnswers.push(answer);
+      this.pendingRulingReason = assessment.reason;
       
-      case DebatePhase.CLOSING_STATEMENTS:
-        // Moderator introduces, then each advocate gives closing statement
-        if (this.moderator) {
-          this.phaseTurnOrder.push(this.moderator.id);
-        }
+      // The moderator rules, then the witness answers again
+      this.phaseTurns.splice(
+        this.phaseProgress + 1,
+        0,
+        { speaker: "moderator", action: "ruling" },
+        { ...turn }
+      );
+      return;
+    }
+    
+    exchange.answer = answer;
+  }
+  
+  /**
+   * Format the cross-examination exchanges involving a participant
+   * 
+   * @param participantId - ID of the participant
+   * @returns Formatted exchanges, or an empty string if there are none
+   */
+  private formatCrossExaminations(participantId: string): string {
+    return this.crossExaminations
+      .filter(e => e.examinerId === participantId || e.witnessId === participantId)
+      .map(e => {
+        const examiner = this.getParticipantById(e.examinerId)?.name ?? e.examinerId;
+        const witness = this.getParticipantById(e.witnessId)?.name ?? e.witnessId;
+        const answer = e.answer ?? "(no answer)";
+        const relevance = e.answerRelevant === false ? " [ruled not responsive]" : "";
         
-        for (const advocate of this.advocates) {
-          this.phaseTurnOrder.push(this.moderator?.id || "");
-          this.phaseTurnOrder.push(advocate.id);
-        }
-        break;
-      
-      case DebatePhase.SUMMARY:
-        // Only moderator speaks in summary phase
-        if (this.moderator) {
-          this.phaseTurnOrder.push(this.moderator.id);
-        }
-        break;
+        return `Q (${examiner}): ${e.question}\nA (${witness}): ${answer}${relevance}`;
+      })
+      .join("\n\n");
+  }
+  
+  /**
+   * Check whether the last closing statements phase is over
+   * Formats without closing statements finish with the debate
+   * 
+   * @returns Whether the closing statements have been heard
+   */
+  private closingStatementsHeard(): boolean {
+    const closingIndex = this.format.phases
+      .map(phase => phase.kind)
+      .lastIndexOf(DebatePhase.CLOSING_STATEMENTS);
+    
+    return this.currentPhase === DebatePhase.COMPLETE ||
+      (closingIndex !== -1 && this.phaseIndex > closingIndex);
+  }
+  
+  /**
+   * Poll every audience member on the motion
+   * 
+   * @param previous - Ballots from the earlier poll, if the debate has been heard
+   * @returns Ballots in audience order
+   */
+  private async pollAudience(previous?: AudienceBallot[]): Promise<AudienceBallot[]> {
+    const transcript = previous
+      ? this.state.messages
+        .map(m => `${this.getParticipantById(m.participantId)?.name ?? m.participantId}: ${m.content}`)
+        .join("\n\n")
+      : undefined;
+    
+    const ballots: AudienceBallot[] = [];
+    
+    for (const member of this.audience) {
+      const currentVote = previous?.find(b => b.memberId === member.id)?.vote;
+      ballots.push(await member.poll(this.state.topic, transcript, currentVote));
+    }
+    
+    this.logger.info(`Audience poll ${previous ? "after" : "before"} the debate`, {
+      votes: countVotes(ballots),
+    });
+    
+    return ballots;
+  }
+  
+  /**
+   * Compare the audience polls to find each side's swing and the winner
+   * 
+   * @returns Poll result, or undefined if the debate has no audience or has not been polled
+   */
+  private getAudiencePollResult(): AudiencePollResult | undefined {
+    if (!this.audienceBefore) {
+      return undefined;
+    }
+    
+    const before = countVotes(this.audienceBefore);
+    const after = this.audienceAfter ? countVotes(this.audienceAfter) : undefined;
+    
+    const changes = this.audienceBefore.map(ballot => {
+      const member = this.audience.find(m => m.id === ballot.memberId);
+      const later = this.audienceAfter?.find(b => b.memberId === ballot.memberId);
       
-      default:
-        break;
+      return {
+        memberId: ballot.memberId,
+        persona: member?.persona ?? "",
+        before: ballot.vote,
+        reasonBefore: ballot.reason,
+        after: later?.vote,
+        reasonAfter: later?.reason,
+        changed: later !== undefined && later.vote !== ballot.vote,
+      };
+    });
+    
+    if (!after) {
+      return { before, changes, winnerIds: [] };
     }
     
-    // Remove empty entries
-    this.phaseTurnOrder = this.phaseTurnOrder.filter(Boolean);
+    const size = this.audienceBefore.length;
+    const swing = {
+      for: (after.for - before.for) / size * 100,
+      against: (after.against - before.against) / size * 100,
+    };
+    const winner = swing.for === swing.against
+      ? undefined
+      : swing.for > swing.against ? "for" : "against";
+    
+    return {
+      before,
+      after,
+      swing,
+      winner,
+      winnerIds: winner
+        ? this.advocates.filter((_, slot) => (slot % 2 === 0) === (winner === "for")).map(a => a.id)
+        : [],
+      changes,
+    };
   }
   
   /**
@@ -1145,6 +2035,22 @@ Participant Position: ${this.getParticipantPosition(participantId)}
   }
 }
 
+/**
+ * Count the votes for each stance
+ * 
+ * @param ballots - Ballots to count
+ * @returns Number of votes for each stance
+ */
+function countVotes(ballots: AudienceBallot[]): Record<AudienceVote, number> {
+  const counts: Record<AudienceVote, number> = { for: 0, against: 0, undecided: 0 };
+  
+  for (const ballot of ballots) {
+    counts[ballot.vote]++;
+  }
+  
+  return counts;
+}
+
 /**
  * Create a new debate workflow
  * 
@@ -1160,3 +2066,4 @@ export function createDebateWorkflow(
 ): DebateWorkflow {
   return new DebateWorkflow(topic, participants, config);
 }
+
@@ -0,0 +1,600 @@
+/**
+ * Delphi Workflow Implementation
+ * Anonymous, iterated forecasting with aggregate feedback between rounds
+ */
+
+import {
+  DialogueWorkflow,
+  DialogueParticipant,
+  DialogueWorkflowConfig,
+  DialogueWorkflowResult,
+  DialogueMessage
+} from "./dialogue_workflow.ts";
+import { IAgent } from "../../utils/interfaces.ts";
+import { executeAgent } from "../../utils/agent_utils.ts";
+
+/**
+ * Estimate given by a panelist in one round
+ */
+export interface DelphiEstimate {
+  /**
+   * ID of the panelist
+   */
+  participantId: string;
+
+  /**
+   * Estimated value
+   */
+  value: number;
+
+  /**
+   * Reasoning behind the estimate
+   */
+  rationale: string;
+
+  /**
+   * Whether the value was carried over from the previous round
+   * because no estimate could be read from the response
+   */
+  carriedForward: boolean;
+}
+
+/**
+ * Distribution of estimates in a round
+ */
+export interface DelphiAggregate {
+  /**
+   * Median estimate
+   */
+  median: number;
+
+  /**
+   * First quartile (25th percentile)
+   */
+  q1: number;
+
+  /**
+   * Third quartile (75th percentile)
+   */
+  q3: number;
+
+  /**
+   * Interquartile range (q3 - q1)
+   */
+  iqr: number;
+
+  /**
+   * Mean estimate
+   */
+  mean: number;
+
+  /**
+   * Lowest estimate
+   */
+  min: number;
+
+  /**
+   * Highest estimate
+   */
+  max: number;
+
+  /**
+   * Number of estimates aggregated
+   */
+  count: number;
+}
+
+/**
+ * Completed round of a Delphi study
+ */
+export interface DelphiRound {
+  /**
+   * Round number, starting at 1
+   */
+  round: number;
+
+  /**
+   * Estimates given in the round
+   */
+  estimates: DelphiEstimate[];
+
+  /**
+   * Distribution of the estimates
+   */
+  aggregate: DelphiAggregate;
+
+  /**
+   * Anonymized feedback given to panelists before the next round
+   */
+  feedback: string;
+}
+
+/**
+ * Configuration for a Delphi workflow
+ */
+export interface DelphiWorkflowConfig extends DialogueWorkflowConfig {
+  /**
+   * Kind of forecast requested
+   * Probabilities are read as 0-1 values and accept percentages
+   * Default: "probability"
+   */
+  forecastType?: "probability" | "estimate";
+
+  /**
+   * Unit of the estimate, shown to panelists (e.g. "USD", "days")
+   */
+  unit?: string;
+
+  /**
+   * Maximum number of rounds
+   * Default: 4
+   */
+  maxRounds?: number;
+
+  /**
+   * Spread at or below which the panel is considered converged
+   * For probabilities this is the interquartile range; for estimates it is the
+   * interquartile range relative to the median, so it suits any unit
+   * Default: 0.1
+   */
+  convergenceThreshold?: number;
+
+  /**
+   * Agent that condenses anonymized rationales into feedback
+   * Default: rationales are listed verbatim, ordered by estimate
+   */
+  facilitator?: IAgent;
+
+  /**
+   * System prompt template for Delphi studies
+   */
+  delphiPromptTemplate?: string;
+}
+
+/**
+ * Result of a Delphi workflow with the forecast history
+ */
+export interface DelphiWorkflowResult extends DialogueWorkflowResult {
+  /**
+   * Every completed round, in order
+   */
+  rounds: DelphiRound[];
+
+  /**
+   * Aggregate of the last completed round
+   */
+  finalForecast?: DelphiAggregate;
+
+  /**
+   * Whether the spread of estimates converged before the round limit
+   */
+  converged: boolean;
+}
+
+/**
+ * Specialized workflow for Delphi-method forecasting
+ * Panelists answer independently each round and only see the facilitator's
+ * anonymized feedback from earlier rounds
+ */
+export class DelphiWorkflow extends DialogueWorkflow {
+  private delphiConfig: Required<Pick<
+    DelphiWorkflowConfig,
+    "forecastType" | "unit" | "maxRounds" | "convergenceThreshold"
+  >> & { facilitator?: IAgent };
+  private rounds: DelphiRound[] = [];
+  private currentEstimates: DelphiEstimate[] = [];
+  private answeredThisRound: string[] = [];
+  private converged = false;
+
+  /**
+   * Create a new Delphi workflow
+   *
+   * @param question - Question to forecast
+   * @param participants - Panelists
+   * @param config - Configuration for the study
+   */
+  constructor(
+    question: string,
+    participants: DialogueParticipant[],
+    config: DelphiWorkflowConfig = {}
+  ) {
+    const maxRounds = config.maxRounds ?? 4;
+
+    const delphiPromptTemplate = config.delphiPromptTemplate ??
+      "You are a panelist in a Delphi forecasting study on the question: {topic}. " +
+      "Panelists answer independently and anonymously. " +
+      "Give your honest best estimate and revise it only when the feedback gives you reason to.";
+
+    super(question, participants, {
+      ...config,
+      // One answer from every panelist per round
+      maxTurns: config.maxTurns ?? participants.length * maxRounds,
+      systemPromptTemplate: delphiPromptTemplate,
+      exitCondition: state =>
+        this.converged ||
+        this.rounds.length >= this.delphiConfig.maxRounds ||
+        (config.exitCondition?.(state) ?? false),
+    });
+
+    this.delphiConfig = {
+      forecastType: config.forecastType ?? "probability",
+      unit: config.unit ?? "",
+      maxRounds,
+      convergenceThreshold: config.convergenceThreshold ?? 0.1,
+      facilitator: config.facilitator,
+    };
+  }
+
+  /**
+   * Run the Delphi study to completion
+   *
+   * @returns Result of the study
+   */
+  override async run(): Promise<DelphiWorkflowResult> {
+    const baseResult = await this.runDialogue();
+    const lastRound = this.rounds[this.rounds.length - 1];
+
+    return this.finishRun({
+      ...baseResult,
+      endReason: this.converged ? "converged" : baseResult.endReason,
+      rounds: this.rounds,
+      finalForecast: lastRound?.aggregate,
+      converged: this.converged,
+    });
+  }
+
+  /**
+   * Get the type identifier recorded in checkpoints
+   *
+   * @returns Workflow type identifier
+   */
+  protected override getWorkflowType(): string {
+    return "delphi";
+  }
+
+  /**
+   * Describe the panel's final forecast for participants' memories
+   *
+   * @param result - Final result of the study
+   * @returns Final forecast, or undefined if no round was completed
+   */
+  protected override describeOutcome(result: DelphiWorkflowResult): string | undefined {
+    const forecast = result.finalForecast;
+
+    if (!forecast) {
+      return undefined;
+    }
+
+    return `Final forecast: median ${this.formatValue(forecast.median)}, ` +
+      `interquartile range ${this.formatValue(forecast.q1)} to ${this.formatValue(forecast.q3)}` +
+      `${result.converged ? " (converged)" : ""}.`;
+  }
+
+  /**
+   * Get Delphi state to include in checkpoints
+   *
+   * @returns Serializable Delphi state
+   */
+  protected override getCheckpointData(): Record<string, unknown> {
+    return {
+      rounds: this.rounds,
+      currentEstimates: this.currentEstimates,
+      answeredThisRound: this.answeredThisRound,
+      converged: this.converged,
+    };
+  }
+
+  /**
+   * Restore Delphi state from a checkpoint
+   *
+   * @param data - Delphi state from the checkpoint
+   */
+  protected override restoreCheckpointData(data: Record<string, unknown>): void {
+    this.rounds = structuredClone((data.rounds as DelphiRound[] | undefined) ?? []);
+    this.currentEstimates = structuredClone(
+      (data.currentEstimates as DelphiEstimate[] | undefined) ?? []
+    );
+    this.answeredThisRound = [...((data.answeredThisRound as string[] | undefined) ?? [])];
+    this.converged = (data.converged as boolean | undefined) ?? false;
+  }
+
+  /**
+   * Keep panelists' answers private; they only see the facilitator's feedback
+   *
+   * @param _message - The committed message
+   */
+  protected override shareMessage(_message: DialogueMessage): void {
+    // Answers are never shared directly
+  }
+
+  /**
+   * Execute a turn for the next panelist who has not answered this round
+   * The round is aggregated once every panelist has answered
+   */
+  protected override async executeTurn(): Promise<void> {
+    const participant = this.state.participants.find(
+      p => !this.answeredThisRound.includes(p.id)
+    );
+
+    if (!participant) {
+      return;
+    }
+
+    const round = this.rounds.length + 1;
+    this.emit({ type: "turn-started", turnNumber: this.state.currentTurn });
+
+    const prompt = await this.addRecalledMemories(participant, await this.generatePrompt(participant));
+    const response = await executeAgent(
+      participant.agent,
+      prompt,
+      this.createTokenForwarder(participant.id)
+    );
+
+    // Panelists without a readable estimate are left out of the round's aggregate
+    const estimate = this.readEstimate(participant.id, response);
+
+    if (estimate) {
+      this.currentEstimates.push(estimate);
+    }
+
+    this.answeredThisRound.push(participant.id);
+
+    this.commitMessage({
+      participantId: participant.id,
+      content: response,
+      timestamp: Date.now(),
+      metadata: {
+        turnNumber: this.state.currentTurn,
+        delphiRound: round,
+        estimate: estimate?.value,
+        carriedForward: estimate?.carriedForward,
+      },
+    });
+
+    if (this.answeredThisRound.length >= this.state.participants.length) {
+      await this.completeRound(round);
+    }
+  }
+
+  /**
+   * Generate a prompt with the question and the feedback from the last round
+   * Panelists never see each other's answers from the current round
+   *
+   * @param participant - The panelist whose turn it is
+   * @returns Prompt for the panelist
+   */
+  protected override generatePrompt(participant: DialogueParticipant): Promise<string> {
+    const round = this.rounds.length + 1;
+    const lastRound = this.rounds[this.rounds.length - 1];
+    const ownLast = lastRound?.estimates.find(e => e.participantId === participant.id);
+
+    const answerFormat = this.delphiConfig.forecastType === "probability"
+      ? "a probability between 0 and 1"
+      : `a number${this.delphiConfig.unit ? ` in ${this.delphiConfig.unit}` : ""}`;
+
+    const lines = [
+      this.getSystemPrompt(),
+      "",
+      `Question: ${this.state.topic}`,
+      `Round ${round} of at most ${this.delphiConfig.maxRounds}.`,
+    ];
+
+    if (lastRound) {
+      lines.push(
+        "",
+        `Feedback from round ${lastRound.round}:`,
+        lastRound.feedback,
+        "",
+        ownLast
+          ? `Your previous estimate was ${this.formatValue(ownLast.value)}.`
+          : "You did not give a usable estimate last round.",
+      );
+    }
+
+    lines.push(
+      "",
+      `Give ${answerFormat} in exactly this format:`,
+      "ESTIMATE: <value>",
+      "RATIONALE: <your reasoning>",
+    );
+
+    return Promise.resolve(lines.join("\n"));
+  }
+
+  /**
+   * Read a panelist's estimate from their response
+   *
+   * @param participantId - ID of the panelist
+   * @param response - The panelist's response
+   * @returns The estimate, or undefined if none could be read or carried forward
+   */
+  private readEstimate(participantId: string, response: string): DelphiEstimate | undefined {
+    const parsed = parseDelphiEstimate(response, this.delphiConfig.forecastType);
+
+    if (parsed.value !== undefined) {
+      return {
+        participantId,
+        value: parsed.value,
+        rationale: parsed.rationale,
+        carriedForward: false,
+      };
+    }
+
+    // Keep the panelist's previous position if the answer is unreadable
+    const previous = this.rounds[this.rounds.length - 1]?.estimates
+      .find(e => e.participantId === participantId);
+
+    return previous
+      ? { participantId, value: previous.value, rationale: parsed.rationale, carriedForward: true }
+      : undefined;
+  }
+
+  /**
+   * Aggregate the round's estimates and prepare feedback for the next round
+   *
+   * @param round - Number of the completed round
+   */
+  private async completeRound(round: number): Promise<void> {
+    const estimates = this.currentEstimates;
+    this.currentEstimates = [];
+    this.answeredThisRound = [];
+
+    if (estimates.length === 0) {
+      return;
+    }
+
+    const aggregate = aggregateEstimates(estimates.map(e => e.value));
+    const feedback = await this.createFeedback(estimates, aggregate);
+
+    this.rounds.push({ round, estimates, aggregate, feedback });
+    this.converged = this.getSpread(aggregate) <= this.delphiConfig.convergenceThreshold;
+  }
+
+  /**
+   * Get the spread of a round's estimates for the convergence check
+   *
+   * @param aggregate - Distribution of the estimates
+   * @returns Interquartile range, relative to the median for estimates
+   */
+  private getSpread(aggregate: DelphiAggregate): number {
+    if (this.delphiConfig.forecastType === "probability") {
+      return aggregate.iqr;
+    }
+
+    // Estimates are only converged around a median of zero if they all agree
+    const scale = Math.abs(aggregate.median);
+    return scale > 0 ? aggregate.iqr / scale : (aggregate.iqr > 0 ? Infinity : 0);
+  }
+
+  /**
+   * Create anonymized feedback for a round
+   *
+   * @param estimates - Estimates given in the round
+   * @param aggregate - Distribution of the estimates
+   * @returns Feedback text
+   */
+  private async createFeedback(
+    estimates: DelphiEstimate[],
+    aggregate: DelphiAggregate
+  ): Promise<string> {
+    const summary =
+      `Median ${this.formatValue(aggregate.median)}, ` +
+      `interquartile range ${this.formatValue(aggregate.q1)} to ${this.formatValue(aggregate.q3)} ` +
+      `(${aggregate.count} panelists).`;
+
+    // Order by estimate so the list does not reveal who answered when
+    const rationales = [...estimates]
+      .sort((a, b) => a.value - b.value)
+      .filter(e => e.rationale)
+      .map(e => `- (${this.formatValue(e.value)}) ${e.rationale}`);
+
+    if (this.delphiConfig.facilitator && rationales.length > 0) {
+      const synthesis = await this.delphiConfig.facilitator.execute(`
+You are the facilitator of a Delphi forecasting study on: ${this.state.topic}
+
+These are the panel's anonymized rationales from the last round, with their estimates:
+${rationales.join("\n")}
+
+Summarize the strongest arguments for higher and for lower estimates in a few sentences.
+Do not attribute arguments to individuals.
+      `);
+
+      return `${summary}\n${synthesis.trim()}`;
+    }
+
+    return rationales.length > 0
+      ? `${summary}\nAnonymized rationales:\n${rationales.join("\n")}`
+      : summary;
+  }
+
+  /**
+   * Format a value for prompts
+   *
+   * @param value - Value to format
+   * @returns Formatted value
+   */
+  private formatValue(value: number): string {
+    const formatted = Number(value.toFixed(3)).toString();
+    return this.delphiConfig.unit ? `${formatted} ${this.delphiConfig.unit}` : formatted;
+  }
+}
+
+/**
+ * Read the estimate and rationale from a Delphi response
+ * Probabilities given as percentages are converted to 0-1 values
+ *
+ * @param content - Response content
+ * @param forecastType - Kind of forecast requested
+ * @returns The estimate (if found) and rationale
+ */
+export function parseDelphiEstimate(
+  content: string,
+  forecastType: "probability" | "estimate" = "probability"
+): { value?: number; rationale: string } {
+  const estimateMatch = content.match(/ESTIMATE:\s*(-?[\d,]*\.?\d+)\s*(%)?/i);
+  const rationaleMatch = content.match(/RATIONALE:\s*([\s\S]+)/i);
+  const rationale = rationaleMatch ? rationaleMatch[1].trim() : "";
+
+  if (!estimateMatch) {
+    return { rationale };
+  }
+
+  let value = parseFloat(estimateMatch[1].replace(/,/g, ""));
+
+  if (forecastType === "probability") {
+    if (estimateMatch[2] || value > 1) {
+      value /= 100;
+    }
+    value = Math.max(0, Math.min(1, value));
+  }
+
+  return Number.isFinite(value) ? { value, rationale } : { rationale };
+}
+
+/**
+ * Calculate the distribution of a set of estimates
+ * Quartiles use linear interpolation between closest ranks
+ *
+ * @param values - Estimates to aggregate (at least one)
+ * @returns Distribution of the estimates
+ */
+export function aggregateEstimates(values: number[]): DelphiAggregate {
+  const sorted = [...values].sort((a, b) => a - b);
+
+  const quantile = (p: number): number => {
+    const position = (sorted.length - 1) * p;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  };
+
+  const q1 = quantile(0.25);
+  const q3 = quantile(0.75);
+
+  return {
+    median: quantile(0.5),
+    q1,
+    q3,
+    iqr: q3 - q1,
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    count: sorted.length,
+  };
+}
+
+/**
+ * Create a new Delphi workflow
+ *
+ * @param question - Question to forecast
+ * @param participants - Panelists
+ * @param config - Configuration for the study
+ * @returns New Delphi workflow
+ */
+export function createDelphiWorkflow(
+  question: string,
+  participants: DialogueParticipant[],
+  config?: DelphiWorkflowConfig
+): DelphiWorkflow {
+  return new DelphiWorkflow(question, participants, config);
+}
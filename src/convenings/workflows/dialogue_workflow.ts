@@ -5,7 +5,33 @@
 
 import { IAgent } from "../../utils/interfaces.ts";
 import { IStringUtils } from "../../utils/interfaces.ts";
+import {
+  executeAgent,
+  isConversationalAgent,
+  TokenListener
+} from "../../utils/agent_utils.ts";
 import { createStringUtils } from "../../utils/string_utils.ts";
+import {
+  Bid,
+  IBiddingStrategy,
+  BiddingStrategyFactory
+} from "../participants/bidding/bidding_strategy.ts";
+import {
+  ISelectionStrategy,
+  SelectionStrategyFactory
+} from "../participants/bidding/selection_strategy.ts";
+import { ConveningRecord, MemoryQuery } from "../participants/memory.ts";
+import { RelationshipGraph } from "../participants/relationship_graph.ts";
+import {
+  CHECKPOINT_VERSION,
+  WorkflowCheckpoint
+} from "./checkpoint.ts";
+import { HistoryCompactor } from "./history_compactor.ts";
+import {
+  WorkflowEventPayload,
+  WorkflowEventStream,
+  createWorkflowEventStream
+} from "./events.ts";
 
 /**
  * Participant in a dialogue
@@ -35,6 +61,33 @@ export interface DialogueParticipant {
    * Optional configuration for the participant
    */
   config?: Record<string, unknown>;
+  
+  /**
+   * Optional bid calculation for speaker selection
+   * Participants without it bid using a turn-taking strategy
+   */
+  calculateBid?(dialogueState: DialogueState): Promise<Bid>;
+  
+  /**
+   * Optional snapshot of the participant's internal state for checkpoints
+   */
+  getCheckpointState?(): Record<string, unknown>;
+  
+  /**
+   * Optional restoration of the participant's internal state from a checkpoint
+   */
+  restoreCheckpointState?(state: Record<string, unknown>): void;
+  
+  /**
+   * Optional recall of long-term memories relevant to the current convening
+   * The returned text is added to the participant's turn prompts
+   */
+  recallMemories?(query: MemoryQuery): Promise<string>;
+  
+  /**
+   * Optional formation of long-term memories once the dialogue completes
+   */
+  rememberConvening?(record: ConveningRecord): Promise<void>;
 }
 
 /**
@@ -97,7 +150,8 @@ export interface DialogueState {
   isComplete: boolean;
   
   /**
-   * Timestamp when the dialogue started
+   * Timestamp active run time is measured from
+   * Rebased when the dialogue resumes, so time spent paused is not counted
    */
   startTime: number;
   
@@ -144,6 +198,37 @@ export interface DialogueWorkflowConfig {
    * Optional function to determine when the dialogue should end
    */
   exitCondition?: (state: DialogueState) => boolean;
+  
+  /**
+   * Strategy for selecting the next speaker from participant bids
+   * Default: round-robin rotation
+   */
+  selectionStrategy?: ISelectionStrategy;
+  
+  /**
+   * Optional handler called with a checkpoint after every completed turn
+   * Use with saveCheckpoint to persist progress for crash recovery
+   */
+  checkpointHandler?: (checkpoint: WorkflowCheckpoint) => void | Promise<void>;
+  
+  /**
+   * Event stream the workflow emits progress events to
+   * Default: a new stream, available as the workflow's events property
+   */
+  eventStream?: WorkflowEventStream;
+  
+  /**
+   * Optional compactor that summarizes older messages in turn prompts
+   * Default: every message is included verbatim
+   */
+  historyCompactor?: HistoryCompactor;
+  
+  /**
+   * Optional graph of how participants regard each other
+   * It is updated from every committed message, and each participant's notable
+   * relationships are added to their turn prompts
+   */
+  relationshipGraph?: RelationshipGraph;
 }
 
 /**
@@ -195,9 +280,16 @@ export interface DialogueWorkflowResult {
  * Core workflow for multi-agent dialogues
  */
 export class DialogueWorkflow {
-  private config: Required<DialogueWorkflowConfig>;
-  private state: DialogueState;
+  private config: Required<Omit<DialogueWorkflowConfig, "historyCompactor" | "relationshipGraph">>;
+  protected state: DialogueState;
   private stringUtils: IStringUtils;
+  private fallbackBiddingStrategy: IBiddingStrategy;
+  private pauseRequested = false;
+  private running = false;
+  private elapsedBeforeRun = 0;
+  private historyCompactor?: HistoryCompactor;
+  private historySummaryVersion = 0;
+  protected relationshipGraph?: RelationshipGraph;
   
   /**
    * Create a new dialogue workflow
@@ -225,6 +317,10 @@ export class DialogueWorkflow {
         "Each participant should stay in character and engage meaningfully with the topic.",
       includeSystemPrompt: config.includeSystemPrompt ?? true,
       exitCondition: config.exitCondition ?? (() => false),
+      selectionStrategy: config.selectionStrategy ??
+        SelectionStrategyFactory.createDefaultStrategy(),
+      checkpointHandler: config.checkpointHandler ?? (() => {}),
+      eventStream: config.eventStream ?? createWorkflowEventStream(),
     };
     
     // Initialize dialogue state
@@ -241,6 +337,12 @@ export class DialogueWorkflow {
     
     // Initialize string utilities
     this.stringUtils = createStringUtils();
+    
+    // Bidding strategy for participants that cannot bid themselves
+    this.fallbackBiddingStrategy = BiddingStrategyFactory.createTurnTakingStrategy();
+    
+    this.historyCompactor = config.historyCompactor;
+    this.relationshipGraph = config.relationshipGraph;
   }
   
   /**
@@ -249,28 +351,97 @@ export class DialogueWorkflow {
    * @returns Result of the dialogue
    */
   async run(): Promise<DialogueWorkflowResult> {
+    return this.finishRun(await this.runDialogue());
+  }
+  
+  /**
+   * Finish a run with its final result
+   * Workflows that extend the result call this once from their own run(),
+   * so memories and listeners receive the complete result. Nothing is
+   * recorded or emitted when paused.
+   * 
+   * @param result - Final result of the run
+   * @returns The same result
+   */
+  protected async finishRun<T extends DialogueWorkflowResult>(result: T): Promise<T> {
+    if (result.endReason === "paused") {
+      return result;
+    }
+    
+    // Let participants remember the dialogue in later convenings
+    if (result.success) {
+      await this.recordMemories(result);
+    }
+    
+    this.emit({ type: "workflow-ended", result });
+    
+    return result;
+  }
+  
+  /**
+   * Stream of progress events emitted by the workflow
+   */
+  get events(): WorkflowEventStream {
+    return this.config.eventStream;
+  }
+  
+  /**
+   * Run turns until the dialogue ends or is paused
+   * 
+   * @returns Result of the dialogue
+   */
+  protected async runDialogue(): Promise<DialogueWorkflowResult> {
+    // Rebase the start time so time spent paused does not count toward maxDuration
+    this.state.startTime = Date.now() - this.elapsedBeforeRun;
+    this.running = true;
+    
     try {
       let endReason = "completed";
       
+      // Bring conversation threads in line with the dialogue history
+      this.syncConversationalAgents();
+      
       // Run until exit condition is met
       while (!this.shouldExit()) {
-        // Execute the next turn
-        await this.executeTurn();
-        
-        // Check if we've reached max turns
-        if (this.state.currentTurn >= this.config.maxTurns) {
+        // Check if we've reached max turns (turns are numbered from 0 to maxTurns)
+        if (this.state.currentTurn > this.config.maxTurns) {
           endReason = "max_turns_reached";
           break;
         }
         
+        // Execute the next turn
+        await this.executeTurn();
+        
+        // Increment turn counter
+        this.state.currentTurn++;
+        
+        // Hand a checkpoint of the completed turn to the handler, including the last one
+        await this.config.checkpointHandler(this.createCheckpoint());
+        
         // Check if we've exceeded max duration
         if (Date.now() - this.state.startTime >= this.config.maxDuration) {
           endReason = "max_duration_reached";
           break;
         }
         
-        // Increment turn counter
-        this.state.currentTurn++;
+        // Stop after this turn if a pause was requested
+        if (this.pauseRequested) {
+          this.pauseRequested = false;
+          endReason = "paused";
+          break;
+        }
+      }
+      
+      // A paused dialogue can be resumed by calling run again
+      if (endReason === "paused") {
+        return {
+          id: this.state.id,
+          topic: this.state.topic,
+          messages: this.state.messages,
+          success: true,
+          endReason,
+          duration: Date.now() - this.state.startTime,
+        };
       }
       
       // Mark dialogue as complete
@@ -298,7 +469,165 @@ export class DialogueWorkflow {
         endReason: `error: ${error.message}`,
         duration: Date.now() - this.state.startTime,
       };
+    } finally {
+      this.elapsedBeforeRun = Date.now() - this.state.startTime;
+      this.running = false;
+    }
+  }
+  
+  /**
+   * Get the time the dialogue has spent running, excluding pauses
+   * 
+   * @returns Active run time in milliseconds
+   */
+  private getElapsedTime(): number {
+    if (this.state.endTime !== undefined) {
+      return this.state.endTime - this.state.startTime;
+    }
+    
+    return this.running ? Date.now() - this.state.startTime : this.elapsedBeforeRun;
+  }
+  
+  /**
+   * Request the dialogue to pause once the current turn completes
+   * Calling run again resumes the dialogue from where it stopped
+   */
+  pause(): void {
+    this.pauseRequested = true;
+  }
+  
+  /**
+   * Create a serializable checkpoint of the workflow state
+   * 
+   * @returns Checkpoint of the current workflow state
+   */
+  createCheckpoint(): WorkflowCheckpoint {
+    const participants: Record<string, Record<string, unknown>> = {};
+    
+    for (const participant of this.state.participants) {
+      if (participant.getCheckpointState) {
+        participants[participant.id] = participant.getCheckpointState();
+      }
     }
+    
+    // Round-trip through JSON so the checkpoint shares no references with live state
+    return JSON.parse(JSON.stringify({
+      version: CHECKPOINT_VERSION,
+      workflowType: this.getWorkflowType(),
+      createdAt: Date.now(),
+      dialogue: {
+        id: this.state.id,
+        topic: this.state.topic,
+        participantIds: this.state.participants.map(p => p.id),
+        messages: this.state.messages,
+        currentTurn: this.state.currentTurn,
+        isComplete: this.state.isComplete,
+        elapsed: this.getElapsedTime(),
+        context: this.state.context,
+      },
+      participants,
+      workflow: this.getCheckpointData(),
+      history: this.historyCompactor?.getState(),
+      relationships: this.relationshipGraph?.getState(),
+    }));
+  }
+  
+  /**
+   * Restore the workflow state from a checkpoint
+   * The workflow must have been created with the same participants
+   * 
+   * @param checkpoint - Checkpoint to restore
+   */
+  restoreCheckpoint(checkpoint: WorkflowCheckpoint): void {
+    if (checkpoint.version !== CHECKPOINT_VERSION) {
+      throw new Error(
+        `Unsupported checkpoint version ${checkpoint.version} (expected ${CHECKPOINT_VERSION})`
+      );
+    }
+    
+    if (checkpoint.workflowType !== this.getWorkflowType()) {
+      throw new Error(
+        `Cannot restore a ${checkpoint.workflowType} checkpoint into a ${this.getWorkflowType()} workflow`
+      );
+    }
+    
+    const { dialogue } = checkpoint;
+    
+    // Match the checkpoint's participants to the ones supplied to this workflow
+    const participants = dialogue.participantIds.map(id => {
+      const participant = this.state.participants.find(p => p.id === id);
+      
+      if (!participant) {
+        throw new Error(`Checkpoint participant ${id} not found in workflow`);
+      }
+      
+      return participant;
+    });
+    
+    for (const participant of participants) {
+      const participantState = checkpoint.participants[participant.id];
+      
+      if (participantState && participant.restoreCheckpointState) {
+        participant.restoreCheckpointState(participantState);
+      }
+    }
+    
+    const now = Date.now();
+    
+    this.state = {
+      id: dialogue.id,
+      topic: dialogue.topic,
+      participants,
+      messages: structuredClone(dialogue.messages),
+      currentTurn: dialogue.currentTurn,
+      isComplete: dialogue.isComplete,
+      // Shift the start time so elapsed time carries over for maxDuration checks
+      startTime: now - dialogue.elapsed,
+      endTime: dialogue.isComplete ? now : undefined,
+      context: structuredClone(dialogue.context),
+    };
+    
+    this.pauseRequested = false;
+    this.elapsedBeforeRun = dialogue.elapsed;
+    
+    if (checkpoint.history && this.historyCompactor) {
+      this.historyCompactor.restoreState(checkpoint.history);
+    }
+    
+    if (checkpoint.relationships && this.relationshipGraph) {
+      this.relationshipGraph.restoreState(checkpoint.relationships);
+    }
+    
+    this.restoreCheckpointData(checkpoint.workflow);
+  }
+  
+  /**
+   * Get the type identifier recorded in checkpoints
+   * 
+   * @returns Workflow type identifier
+   */
+  protected getWorkflowType(): string {
+    return "dialogue";
+  }
+  
+  /**
+   * Get workflow-specific state to include in checkpoints
+   * Subclasses override this to capture their own state
+   * 
+   * @returns Serializable workflow state
+   */
+  protected getCheckpointData(): Record<string, unknown> {
+    return {};
+  }
+  
+  /**
+   * Restore workflow-specific state from a checkpoint
+   * Subclasses override this to restore their own state
+   * 
+   * @param _data - Workflow state from the checkpoint
+   */
+  protected restoreCheckpointData(_data: Record<string, unknown>): void {
+    // No additional state in the base workflow
   }
   
   /**
@@ -314,28 +643,274 @@ export class DialogueWorkflow {
   /**
    * Execute a single turn of the dialogue
    */
-  private async executeTurn(): Promise<void> {
-    // Determine which participant's turn it is
-    const participantIndex = this.state.currentTurn % this.state.participants.length;
-    const participant = this.state.participants[participantIndex];
+  protected async executeTurn(): Promise<void> {
+    this.emit({ type: "turn-started", turnNumber: this.state.currentTurn });
+    
+    // Collect bids from every participant and select the speaker
+    const bids = await this.collectBids();
+    const selection = await this.config.selectionStrategy.selectSpeaker({
+      dialogueState: this.state,
+      bids,
+    });
+    
+    this.emit({
+      type: "bids-collected",
+      turnNumber: this.state.currentTurn,
+      bids,
+      selection,
+    });
+    
+    const participant = this.state.participants.find(
+      p => p.id === selection.participantId
+    );
+    
+    if (!participant) {
+      throw new Error(`Selected participant ${selection.participantId} not found`);
+    }
     
-    // Generate the prompt for this turn
-    const prompt = await this.generatePrompt(participant);
+    // Generate the prompt for this turn, including what the participant remembers
+    // and how they regard the others
+    const prompt = this.addRelationshipContext(
+      participant,
+      await this.addRecalledMemories(participant, await this.generatePrompt(participant))
+    );
     
-    // Get response from the participant's agent
-    const response = await participant.agent.execute(prompt);
+    // Get response from the participant's agent, forwarding streamed tokens
+    const response = await executeAgent(
+      participant.agent,
+      prompt,
+      this.createTokenForwarder(participant.id)
+    );
     
-    // Record the message
+    // Record the message along with the bid table and selection decision
     const message: DialogueMessage = {
       participantId: participant.id,
       content: response,
       timestamp: Date.now(),
       metadata: {
         turnNumber: this.state.currentTurn,
+        bids: bids.map(bid => ({
+          participantId: bid.participantId,
+          strength: bid.strength,
+          reason: bid.reason,
+        })),
+        selection,
+        ...this.getHistoryMetadata(),
       },
     };
     
+    this.commitMessage(message);
+  }
+  
+  /**
+   * Add a participant's long-term memories to a turn prompt
+   * 
+   * @param participant - The participant whose turn it is
+   * @param prompt - Prompt for the turn
+   * @returns Prompt preceded by the relevant memories, if any
+   */
+  protected async addRecalledMemories(participant: DialogueParticipant, prompt: string): Promise<string> {
+    if (!participant.recallMemories) {
+      return prompt;
+    }
+    
+    const memories = await participant.recallMemories({
+      topic: this.state.topic,
+      participantIds: this.state.participants.filter(p => p.id !== participant.id).map(p => p.id),
+      recentMessages: this.state.messages.slice(-3).map(message => message.content),
+    });
+    
+    return memories ? `${memories}\n\n${prompt}` : prompt;
+  }
+  
+  /**
+   * Add a participant's notable relationships to a turn prompt
+   * 
+   * @param participant - The participant whose turn it is
+   * @param prompt - Prompt for the turn
+   * @returns Prompt preceded by the relationships, if a relationship graph is configured
+   */
+  protected addRelationshipContext(participant: DialogueParticipant, prompt: string): string {
+    const relationships = this.relationshipGraph?.describeForPrompt(participant.id, this.state.participants);
+    return relationships ? `${relationships}\n\n${prompt}` : prompt;
+  }
+  
+  /**
+   * Let each participant with long-term memory remember the completed dialogue
+   * A failure to store one participant's memories does not fail the dialogue
+   * 
+   * @param result - Final result of the dialogue
+   */
+  protected async recordMemories(result: DialogueWorkflowResult): Promise<void> {
+    const record: ConveningRecord = {
+      conveningId: this.state.id,
+      topic: this.state.topic,
+      participants: this.state.participants.map(p => ({ id: p.id, name: p.name })),
+      messages: this.state.messages,
+      outcome: this.describeOutcome(result),
+    };
+    
+    for (const participant of this.state.participants) {
+      if (!participant.rememberConvening) {
+        continue;
+      }
+      
+      try {
+        await participant.rememberConvening(record);
+      } catch (error) {
+        console.error(`Error recording memories for ${participant.id}:`, error);
+      }
+    }
+  }
+  
+  /**
+   * Describe the outcome of the dialogue for participants' memories
+   * Workflows that reach agreements, statements or forecasts override this
+   * 
+   * @param result - Final result of the dialogue
+   * @returns Description of the outcome, or undefined if there is none
+   */
+  protected describeOutcome(result: DialogueWorkflowResult): string | undefined {
+    return result.summary;
+  }
+  
+  /**
+   * Add a message to the dialogue history
+   * The message is emitted to observers, shared with conversational agents and
+   * used to update the relationship graph
+   * 
+   * @param message - The message to commit
+   */
+  protected commitMessage(message: DialogueMessage): void {
+    this.relationshipGraph?.observeMessage(message, this.state.messages, this.state.participants);
     this.state.messages.push(message);
+    this.emit({ type: "message-committed", message });
+    this.shareMessage(message);
+  }
+  
+  /**
+   * Share a committed message with the participants' conversational agents
+   * Workflows that keep participants' contributions private override this
+   * 
+   * @param message - The message to share
+   * @param recipients - Participants to share with (default: everyone)
+   */
+  protected shareMessage(
+    message: DialogueMessage,
+    recipients: DialogueParticipant[] = this.state.participants
+  ): void {
+    const speaker = this.state.participants.find(p => p.id === message.participantId);
+    
+    for (const participant of recipients) {
+      if (isConversationalAgent(participant.agent)) {
+        participant.agent.observeMessage(
+          {
+            speakerId: message.participantId,
+            speakerName: speaker?.name || message.participantId,
+            content: message.content,
+          },
+          participant.id === message.participantId
+        );
+      }
+    }
+  }
+  
+  /**
+   * Reset the threads of conversational agents and replay the dialogue history
+   * Agents that keep their own thread receive the system prompt once here
+   * rather than in every turn prompt
+   */
+  private syncConversationalAgents(): void {
+    const systemPrompt = this.getSystemPrompt();
+    
+    for (const participant of this.state.participants) {
+      if (isConversationalAgent(participant.agent)) {
+        participant.agent.resetConversation();
+        participant.agent.setSystemPrompt(systemPrompt);
+      }
+    }
+    
+    for (const message of this.state.messages) {
+      this.shareMessage(message);
+    }
+  }
+  
+  /**
+   * Fit a conversational agent's thread to the history compactor's token budget
+   * Once older messages have been summarized, the thread is rebuilt from the
+   * summary and the messages still kept verbatim
+   * 
+   * @param participant - The participant whose turn it is
+   */
+  protected async compactConversation(participant: DialogueParticipant): Promise<void> {
+    if (!this.historyCompactor || !isConversationalAgent(participant.agent)) {
+      return;
+    }
+    
+    const compacted = await this.historyCompactor.compact(
+      this.state.messages,
+      this.state.participants
+    );
+    
+    this.historySummaryVersion = compacted.summaryVersion ?? 0;
+    
+    if (!compacted.summaryText) {
+      return;
+    }
+    
+    participant.agent.resetConversation();
+    participant.agent.setSystemPrompt(`${this.getSystemPrompt()}\n\n${compacted.summaryText}`);
+    
+    const verbatim = this.state.messages.slice(this.state.messages.length - compacted.verbatimMessageCount);
+    
+    for (const message of verbatim) {
+      this.shareMessage(message, [participant]);
+    }
+  }
+  
+  /**
+   * Create a listener that forwards streamed tokens as token-delta events
+   * 
+   * @param participantId - ID of the speaking participant
+   * @returns Token listener for the current turn
+   */
+  protected createTokenForwarder(participantId: string): TokenListener {
+    const turnNumber = this.state.currentTurn;
+    
+    return (delta: string) => {
+      this.emit({ type: "token-delta", turnNumber, participantId, delta });
+    };
+  }
+  
+  /**
+   * Emit an event to the workflow's event stream
+   * 
+   * @param event - Event contents (workflow ID and timestamp are added)
+   */
+  protected emit(event: WorkflowEventPayload): void {
+    this.config.eventStream.emit({
+      ...event,
+      workflowId: this.state.id,
+      timestamp: Date.now(),
+    });
+  }
+  
+  /**
+   * Collect bids from every participant for the current turn
+   * 
+   * @returns Bids from all participants, in participant order
+   */
+  protected collectBids(): Promise<Bid[]> {
+    return Promise.all(
+      this.state.participants.map(participant =>
+        participant.calculateBid
+          ? participant.calculateBid(this.state)
+          : this.fallbackBiddingStrategy.calculateBid({
+              dialogueState: this.state,
+              participantId: participant.id,
+            })
+      )
+    );
   }
   
   /**
@@ -344,12 +919,22 @@ export class DialogueWorkflow {
    * @param participant - The participant whose turn it is
    * @returns Prompt for the participant
    */
-  private async generatePrompt(participant: DialogueParticipant): Promise<string> {
+  protected async generatePrompt(participant: DialogueParticipant): Promise<string> {
+    // Conversational agents already hold the system prompt and history
+    if (isConversationalAgent(participant.agent)) {
+      await this.compactConversation(participant);
+      
+      return [
+        `The current topic is: ${this.state.topic}`,
+        `It is now ${participant.name}'s turn to speak.`,
+      ].join("\n");
+    }
+    
     // Get system prompt
     const systemPrompt = this.getSystemPrompt();
     
     // Build dialogue history
-    const dialogueHistory = this.formatDialogueHistory();
+    const dialogueHistory = await this.buildDialogueHistory();
     
     // Construct the full prompt
     const prompt = [
@@ -370,7 +955,7 @@ export class DialogueWorkflow {
    * 
    * @returns Formatted system prompt
    */
-  private getSystemPrompt(): string {
+  protected getSystemPrompt(): string {
     const participantNames = this.state.participants
       .map(p => p.name)
       .join(", ");
@@ -384,12 +969,45 @@ export class DialogueWorkflow {
     );
   }
   
+  /**
+   * Build the dialogue history for a turn prompt
+   * Uses the history compactor when one is configured
+   * 
+   * @returns Dialogue history for the prompt
+   */
+  protected async buildDialogueHistory(): Promise<string> {
+    if (!this.historyCompactor) {
+      return this.formatDialogueHistory();
+    }
+    
+    const compacted = await this.historyCompactor.compact(
+      this.state.messages,
+      this.state.participants
+    );
+    
+    this.historySummaryVersion = compacted.summaryVersion ?? 0;
+    
+    return compacted.text;
+  }
+  
+  /**
+   * Get message metadata recording the history summary used for the turn
+   * 
+   * @returns Summary version metadata, or nothing if history is not compacted
+   */
+  protected getHistoryMetadata(): Record<string, unknown> {
+    // Version 0 means the turn saw the full history verbatim
+    return this.historyCompactor
+      ? { historySummaryVersion: this.historySummaryVersion }
+      : {};
+  }
+  
   /**
    * Format the dialogue history for inclusion in prompts
    * 
    * @returns Formatted dialogue history
    */
-  private formatDialogueHistory(): string {
+  protected formatDialogueHistory(): string {
     if (this.state.messages.length === 0) {
       return "No messages yet.";
     }
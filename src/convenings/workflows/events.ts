@@ -0,0 +1,307 @@
+/**
+ * Workflow Events Implementation
+ * Typed event stream for observing workflow progress as it happens
+ */
+
+import type {
+  DialogueMessage,
+  DialogueWorkflowResult
+} from "./dialogue_workflow.ts";
+import type { Bid } from "../participants/bidding/bidding_strategy.ts";
+import type { SpeakerSelection } from "../participants/bidding/selection_strategy.ts";
+import type { ParticipantScore } from "../participants/debate_participant.ts";
+import type { BudgetStatus } from "../utils/logger.ts";
+
+/**
+ * Fields shared by every workflow event
+ */
+export interface WorkflowEventBase {
+  /**
+   * ID of the dialogue that emitted the event
+   */
+  workflowId: string;
+
+  /**
+   * Time the event was emitted
+   */
+  timestamp: number;
+}
+
+/**
+ * Emitted when a turn begins
+ */
+export interface TurnStartedEvent extends WorkflowEventBase {
+  type: "turn-started";
+
+  /**
+   * Turn number that is starting
+   */
+  turnNumber: number;
+}
+
+/**
+ * Emitted when bids have been collected and a speaker selected
+ */
+export interface BidsCollectedEvent extends WorkflowEventBase {
+  type: "bids-collected";
+
+  /**
+   * Turn number the bids were collected for
+   */
+  turnNumber: number;
+
+  /**
+   * Bids from every participant
+   */
+  bids: Bid[];
+
+  /**
+   * Speaker selection made from the bids
+   */
+  selection: SpeakerSelection;
+}
+
+/**
+ * Emitted for each piece of text a speaker produces
+ * Agents that do not stream produce their whole response as one delta
+ */
+export interface TokenDeltaEvent extends WorkflowEventBase {
+  type: "token-delta";
+
+  /**
+   * Turn number the text belongs to
+   */
+  turnNumber: number;
+
+  /**
+   * ID of the speaking participant
+   */
+  participantId: string;
+
+  /**
+   * Newly produced text
+   */
+  delta: string;
+}
+
+/**
+ * Emitted when a message is added to the dialogue history
+ */
+export interface MessageCommittedEvent extends WorkflowEventBase {
+  type: "message-committed";
+
+  /**
+   * The committed message
+   */
+  message: DialogueMessage;
+}
+
+/**
+ * Emitted when a structured workflow moves to a new phase
+ */
+export interface PhaseChangedEvent extends WorkflowEventBase {
+  type: "phase-changed";
+
+  /**
+   * Phase being left
+   */
+  previousPhase: string;
+
+  /**
+   * Phase being entered
+   */
+  phase: string;
+
+  /**
+   * ID of the phase being entered, for workflows with configurable phases
+   */
+  phaseId?: string;
+
+  /**
+   * Display name of the phase being entered, for workflows with configurable phases
+   */
+  phaseName?: string;
+
+  /**
+   * Current round number
+   */
+  round: number;
+}
+
+/**
+ * Emitted when a participant's contribution is scored
+ */
+export interface ScoreRecordedEvent extends WorkflowEventBase {
+  type: "score-recorded";
+
+  /**
+   * ID of the scored participant
+   */
+  participantId: string;
+
+  /**
+   * The recorded score
+   */
+  score: ParticipantScore;
+}
+
+/**
+ * Emitted when API usage approaches or exceeds the configured budget
+ */
+export interface BudgetWarningEvent extends WorkflowEventBase {
+  type: "budget-warning";
+
+  /**
+   * Budget status at the time of the warning
+   */
+  status: BudgetStatus;
+}
+
+/**
+ * Emitted once when a run of the workflow ends, with its final result
+ * Not emitted when the run is paused
+ */
+export interface WorkflowEndedEvent extends WorkflowEventBase {
+  type: "workflow-ended";
+
+  /**
+   * Result of the run
+   */
+  result: DialogueWorkflowResult;
+}
+
+/**
+ * Any event emitted by a workflow
+ */
+export type WorkflowEvent =
+  | TurnStartedEvent
+  | BidsCollectedEvent
+  | TokenDeltaEvent
+  | MessageCommittedEvent
+  | PhaseChangedEvent
+  | ScoreRecordedEvent
+  | BudgetWarningEvent
+  | WorkflowEndedEvent;
+
+/**
+ * Type identifier of a workflow event
+ */
+export type WorkflowEventType = WorkflowEvent["type"];
+
+/**
+ * Event contents supplied by the emitter, before shared fields are added
+ */
+export type WorkflowEventPayload = OmitEventBase<WorkflowEvent>;
+
+/**
+ * Remove the shared fields from each member of an event union
+ */
+type OmitEventBase<E> = E extends WorkflowEvent ? Omit<E, keyof WorkflowEventBase> : never;
+
+/**
+ * Function that receives workflow events
+ */
+export type WorkflowEventListener = (event: WorkflowEvent) => void;
+
+/**
+ * Stream of events emitted by a workflow
+ * Consume it with subscribe, or iterate it with for await
+ */
+export class WorkflowEventStream implements AsyncIterable<WorkflowEvent> {
+  private listeners: Set<WorkflowEventListener> = new Set();
+
+  /**
+   * Emit an event to all listeners
+   *
+   * @param event - Event to emit
+   */
+  emit(event: WorkflowEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        // A failing listener must not break the workflow
+        console.error(`Error in workflow event listener for ${event.type}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Register a listener for all events
+   *
+   * @param listener - Listener to call for each event
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: WorkflowEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Register a listener for a single event type
+   *
+   * @param type - Event type to listen for
+   * @param listener - Listener to call for matching events
+   * @returns Function that removes the listener
+   */
+  on<T extends WorkflowEventType>(
+    type: T,
+    listener: (event: Extract<WorkflowEvent, { type: T }>) => void
+  ): () => void {
+    return this.subscribe(event => {
+      if (event.type === type) {
+        listener(event as Extract<WorkflowEvent, { type: T }>);
+      }
+    });
+  }
+
+  /**
+   * Iterate over events as they are emitted
+   * Iteration ends after the next workflow-ended event
+   *
+   * @returns Async iterator of events
+   */
+  [Symbol.asyncIterator](): AsyncIterator<WorkflowEvent> {
+    const queue: WorkflowEvent[] = [];
+    let notify: (() => void) | undefined;
+
+    // Subscribe immediately so no events are missed before the first next()
+    const unsubscribe = this.subscribe(event => {
+      queue.push(event);
+      notify?.();
+    });
+
+    async function* iterate(): AsyncGenerator<WorkflowEvent> {
+      try {
+        while (true) {
+          if (queue.length === 0) {
+            await new Promise<void>(resolve => notify = resolve);
+            notify = undefined;
+          }
+
+          const event = queue.shift()!;
+          yield event;
+
+          if (event.type === "workflow-ended") {
+            return;
+          }
+        }
+      } finally {
+        unsubscribe();
+      }
+    }
+
+    return iterate();
+  }
+}
+
+/**
+ * Create a new workflow event stream
+ *
+ * @returns New workflow event stream
+ */
+export function createWorkflowEventStream(): WorkflowEventStream {
+  return new WorkflowEventStream();
+}
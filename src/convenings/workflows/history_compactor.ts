@@ -0,0 +1,378 @@
+/**
+ * History Compactor Implementation
+ * Rolling summarization that keeps dialogue history within a prompt token budget
+ */
+
+import { IAgent } from "../../utils/interfaces.ts";
+import { estimateTextTokens } from "../../mastra/openrouter_client.ts";
+import { DialogueMessage, DialogueParticipant } from "./dialogue_workflow.ts";
+
+/**
+ * Rough number of tokens per word of English text
+ */
+const TOKENS_PER_WORD = 1.3;
+
+/**
+ * Configuration for a history compactor
+ */
+export interface HistoryCompactorConfig {
+  /**
+   * Agent used to summarize older messages
+   * Typically backed by a cheaper model tier than the participants
+   */
+  summarizer: IAgent;
+
+  /**
+   * Number of most recent messages to keep verbatim
+   * Default: 6
+   */
+  recentTurns?: number;
+
+  /**
+   * Maximum estimated tokens for the compacted history
+   * Older verbatim messages that would exceed it are folded into the summary
+   * Default: 2000
+   */
+  tokenBudget?: number;
+
+  /**
+   * Maximum number of salient points kept per participant
+   * Default: 3
+   */
+  maxSalientPoints?: number;
+
+  /**
+   * Target maximum length of the rolling summary in words
+   * Default: 200
+   */
+  maxSummaryWords?: number;
+}
+
+/**
+ * A version of the rolling summary of older messages
+ */
+export interface HistorySummary {
+  /**
+   * Version number, starting at 1 and increasing with each update
+   */
+  version: number;
+
+  /**
+   * Number of messages, from the start of the dialogue, covered by the summary
+   */
+  coveredMessageCount: number;
+
+  /**
+   * Summary of the covered messages
+   */
+  summary: string;
+
+  /**
+   * Most important points made by each participant, keyed by participant ID
+   */
+  salientPoints: Record<string, string[]>;
+
+  /**
+   * Time the summary was created
+   */
+  createdAt: number;
+}
+
+/**
+ * Dialogue history prepared for a prompt
+ */
+export interface CompactedHistory {
+  /**
+   * Formatted history text
+   */
+  text: string;
+
+  /**
+   * Version of the summary included, or undefined if nothing was summarized
+   */
+  summaryVersion?: number;
+
+  /**
+   * Summary and key points without the verbatim messages, or undefined if nothing was summarized
+   */
+  summaryText?: string;
+
+  /**
+   * Number of messages included verbatim
+   */
+  verbatimMessageCount: number;
+
+  /**
+   * Estimated token count of the formatted history
+   */
+  estimatedTokens: number;
+}
+
+/**
+ * Serializable state of a history compactor, for checkpoints
+ */
+export interface HistoryCompactorState {
+  /**
+   * Every summary version created so far, oldest first
+   */
+  summaries: HistorySummary[];
+}
+
+/**
+ * Keeps recent messages verbatim and folds older messages into a rolling summary
+ * Summaries are versioned so workflows can record which one each turn used
+ */
+export class HistoryCompactor {
+  private config: Required<HistoryCompactorConfig>;
+  private summaries: HistorySummary[] = [];
+
+  /**
+   * Create a new history compactor
+   *
+   * @param config - Configuration for the compactor
+   */
+  constructor(config: HistoryCompactorConfig) {
+    this.config = {
+      summarizer: config.summarizer,
+      recentTurns: config.recentTurns ?? 6,
+      tokenBudget: config.tokenBudget ?? 2000,
+      maxSalientPoints: config.maxSalientPoints ?? 3,
+      maxSummaryWords: config.maxSummaryWords ?? 200,
+    };
+  }
+
+  /**
+   * Compact a dialogue history to fit the token budget
+   *
+   * @param messages - Messages in the dialogue, oldest first
+   * @param participants - Participants in the dialogue
+   * @returns History formatted for a prompt
+   */
+  async compact(
+    messages: DialogueMessage[],
+    participants: DialogueParticipant[]
+  ): Promise<CompactedHistory> {
+    const participantMap = new Map(participants.map(p => [p.id, p.name]));
+    const coveredCount = this.getCurrentSummary()?.coveredMessageCount ?? 0;
+    const summaryTokens = this.estimateSummaryTokens(participantMap);
+
+    // Keep the recent messages verbatim, dropping the oldest of them
+    // while they would not fit in the budget alongside the summary
+    let summarizeUpTo = Math.max(coveredCount, messages.length - this.config.recentTurns);
+
+    while (summarizeUpTo < messages.length) {
+      const verbatimTokens = estimateTextTokens(this.formatMessages(messages.slice(summarizeUpTo), participantMap));
+
+      if (verbatimTokens + (summarizeUpTo > 0 ? summaryTokens : 0) <= this.config.tokenBudget) {
+        break;
+      }
+
+      summarizeUpTo++;
+    }
+
+    // Fold the whole overflow into the summary with a single call
+    if (summarizeUpTo > coveredCount) {
+      await this.summarize(messages.slice(coveredCount, summarizeUpTo), summarizeUpTo, participantMap);
+    }
+
+    const summary = this.getCurrentSummary();
+    const verbatim = messages.slice(summary?.coveredMessageCount ?? 0);
+    const text = this.formatHistory(summary, verbatim, participantMap);
+
+    return {
+      text,
+      summaryVersion: summary?.version,
+      summaryText: summary && this.formatHistory(summary, [], participantMap),
+      verbatimMessageCount: verbatim.length,
+      estimatedTokens: estimateTextTokens(text),
+    };
+  }
+
+  /**
+   * Get the latest summary
+   *
+   * @returns The latest summary, or undefined if nothing has been summarized
+   */
+  getCurrentSummary(): HistorySummary | undefined {
+    return this.summaries[this.summaries.length - 1];
+  }
+
+  /**
+   * Get every summary version created so far
+   *
+   * @returns Summaries, oldest first
+   */
+  getSummaries(): HistorySummary[] {
+    return [...this.summaries];
+  }
+
+  /**
+   * Get the compactor's state for a checkpoint
+   *
+   * @returns Serializable compactor state
+   */
+  getState(): HistoryCompactorState {
+    return { summaries: structuredClone(this.summaries) };
+  }
+
+  /**
+   * Restore the compactor's state from a checkpoint
+   *
+   * @param state - Compactor state to restore
+   */
+  restoreState(state: HistoryCompactorState): void {
+    this.summaries = structuredClone(state.summaries);
+  }
+
+  /**
+   * Estimate the tokens to set aside for the summary in the compacted history
+   * Uses the current summary's size, or for a first summary its target length
+   * capped at half the budget
+   *
+   * @param participantMap - Map of participant IDs to names
+   * @returns Estimated summary tokens
+   */
+  private estimateSummaryTokens(participantMap: Map<string, string>): number {
+    const summary = this.getCurrentSummary();
+
+    if (summary) {
+      return estimateTextTokens(this.formatHistory(summary, [], participantMap));
+    }
+
+    return Math.min(
+      Math.ceil(this.config.maxSummaryWords * TOKENS_PER_WORD),
+      Math.floor(this.config.tokenBudget / 2)
+    );
+  }
+
+  /**
+   * Fold messages into a new summary version
+   *
+   * @param messages - Messages not yet covered by the summary
+   * @param coveredMessageCount - Number of messages covered once these are included
+   * @param participantMap - Map of participant IDs to names
+   */
+  private async summarize(
+    messages: DialogueMessage[],
+    coveredMessageCount: number,
+    participantMap: Map<string, string>
+  ): Promise<void> {
+    const previous = this.getCurrentSummary();
+    const salientPoints = structuredClone(previous?.salientPoints ?? {});
+
+    const prompt = `
+You are maintaining a running summary of a multi-participant dialogue.
+
+Current summary:
+${previous?.summary || "Nothing has been summarized yet."}
+
+New messages to fold into the summary:
+${this.formatMessages(messages, participantMap)}
+
+Update the summary to cover the new messages in at most ${this.config.maxSummaryWords} words.
+Also list the most important new points made by each participant in the new messages.
+
+Important: Your response must be formatted EXACTLY as follows (JSON object only, no other text):
+{
+  "summary": "...",
+  "salient_points": {"<participant name>": ["...", "..."]}
+}
+    `;
+
+    const response = await this.config.summarizer.execute(prompt);
+    let summary: string;
+
+    try {
+      // Extract JSON from response (in case model adds surrounding text)
+      const jsonMatch = response.match(/\{[\s\S]*\}/);
+      const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : response);
+
+      summary = String(parsed.summary ?? "");
+
+      const nameToId = new Map([...participantMap].map(([id, name]) => [name, id]));
+
+      for (const [name, points] of Object.entries(parsed.salient_points ?? {})) {
+        const participantId = nameToId.get(name) ?? name;
+        const merged = [...(salientPoints[participantId] ?? []), ...(points as string[])];
+
+        // Keep only the most recent points for each participant
+        salientPoints[participantId] = merged.slice(-this.config.maxSalientPoints);
+      }
+    } catch (error) {
+      console.error("Error parsing summary response:", error);
+
+      // Use the raw response as the summary and keep the existing points
+      summary = response.trim();
+    }
+
+    this.summaries.push({
+      version: (previous?.version ?? 0) + 1,
+      coveredMessageCount,
+      summary,
+      salientPoints,
+      createdAt: Date.now(),
+    });
+  }
+
+  /**
+   * Format a summary and verbatim messages as history text
+   *
+   * @param summary - Summary of older messages, if any
+   * @param verbatim - Messages to include verbatim
+   * @param participantMap - Map of participant IDs to names
+   * @returns Formatted history
+   */
+  private formatHistory(
+    summary: HistorySummary | undefined,
+    verbatim: DialogueMessage[],
+    participantMap: Map<string, string>
+  ): string {
+    if (!summary) {
+      return verbatim.length > 0
+        ? this.formatMessages(verbatim, participantMap)
+        : "No messages yet.";
+    }
+
+    const sections = [`Summary of earlier discussion:\n${summary.summary}`];
+
+    const pointLines = Object.entries(summary.salientPoints)
+      .filter(([, points]) => points.length > 0)
+      .map(([id, points]) => `- ${participantMap.get(id) || id}: ${points.join("; ")}`);
+
+    if (pointLines.length > 0) {
+      sections.push(`Key points so far:\n${pointLines.join("\n")}`);
+    }
+
+    if (verbatim.length > 0) {
+      sections.push(`Recent messages:\n${this.formatMessages(verbatim, participantMap)}`);
+    }
+
+    return sections.join("\n\n");
+  }
+
+  /**
+   * Format messages as speaker-attributed text
+   *
+   * @param messages - Messages to format
+   * @param participantMap - Map of participant IDs to names
+   * @returns Formatted messages
+   */
+  private formatMessages(
+    messages: DialogueMessage[],
+    participantMap: Map<string, string>
+  ): string {
+    return messages
+      .map(msg => `${participantMap.get(msg.participantId) || msg.participantId}: ${msg.content}`)
+      .join("\n\n");
+  }
+}
+
+/**
+ * Create a new history compactor
+ *
+ * @param config - Configuration for the compactor
+ * @returns New history compactor
+ */
+export function createHistoryCompactor(config: HistoryCompactorConfig): HistoryCompactor {
+  return new HistoryCompactor(config);
+}
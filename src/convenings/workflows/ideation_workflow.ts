@@ -0,0 +1,688 @@
+/**
+ * Ideation Workflow Implementation
+ * Structured brainstorming with divergent generation, clustering and dot voting
+ */
+
+import {
+  DialogueWorkflow,
+  DialogueParticipant,
+  DialogueWorkflowConfig,
+  DialogueWorkflowResult,
+  DialogueMessage
+} from "./dialogue_workflow.ts";
+import { IAgent } from "../../utils/interfaces.ts";
+import { executeAgent } from "../../utils/agent_utils.ts";
+
+/**
+ * Phases of an ideation session
+ */
+export enum IdeationPhase {
+  /**
+   * Participants add ideas without critique
+   */
+  GENERATION = "generation",
+
+  /**
+   * Similar ideas are merged into clusters
+   */
+  CLUSTERING = "clustering",
+
+  /**
+   * Participants distribute dots across the clusters
+   */
+  VOTING = "voting",
+
+  /**
+   * Session is complete
+   */
+  COMPLETE = "complete"
+}
+
+/**
+ * Idea contributed during generation
+ */
+export interface Idea {
+  /**
+   * Unique identifier for the idea
+   */
+  id: string;
+
+  /**
+   * Text of the idea
+   */
+  text: string;
+
+  /**
+   * ID of the participant who contributed the idea
+   */
+  authorId: string;
+
+  /**
+   * Turn in which the idea was contributed
+   */
+  turnNumber: number;
+
+  /**
+   * ID of the cluster the idea was merged into
+   */
+  clusterId?: string;
+}
+
+/**
+ * Group of similar ideas
+ */
+export interface IdeaCluster {
+  /**
+   * Unique identifier for the cluster (e.g. "C1")
+   */
+  id: string;
+
+  /**
+   * Short label describing the cluster
+   */
+  label: string;
+
+  /**
+   * IDs of the ideas in the cluster
+   */
+  ideaIds: string[];
+}
+
+/**
+ * Cluster in the final ranking
+ */
+export interface RankedIdea {
+  /**
+   * Position in the ranking, starting at 1
+   */
+  rank: number;
+
+  /**
+   * ID of the cluster
+   */
+  clusterId: string;
+
+  /**
+   * Label of the cluster
+   */
+  label: string;
+
+  /**
+   * Ideas merged into the cluster, with their authors
+   */
+  ideas: Idea[];
+
+  /**
+   * IDs of the participants who contributed to the cluster
+   */
+  authorIds: string[];
+
+  /**
+   * Total dots received
+   */
+  votes: number;
+
+  /**
+   * Dots received from each participant, keyed by participant ID
+   */
+  votesByParticipant: Record<string, number>;
+}
+
+/**
+ * Configuration for an ideation workflow
+ */
+export interface IdeationWorkflowConfig extends DialogueWorkflowConfig {
+  /**
+   * Number of rounds of idea generation (each participant speaks once per round)
+   * Default: 2
+   */
+  generationRounds?: number;
+
+  /**
+   * Number of dots each participant distributes when voting
+   * Default: 3
+   */
+  dotsPerParticipant?: number;
+
+  /**
+   * Agent used to cluster ideas
+   * Default: ideas are clustered by word overlap
+   */
+  clusterer?: IAgent;
+
+  /**
+   * Word overlap (0.0 to 1.0) above which ideas are merged when clustering without an agent
+   * Default: 0.5
+   */
+  similarityThreshold?: number;
+
+  /**
+   * System prompt template for ideation sessions
+   */
+  ideationPromptTemplate?: string;
+}
+
+/**
+ * Result of an ideation workflow with the ranked ideas
+ */
+export interface IdeationWorkflowResult extends DialogueWorkflowResult {
+  /**
+   * Clusters ranked by votes received
+   */
+  rankedIdeas: RankedIdea[];
+
+  /**
+   * Every idea contributed, in order
+   */
+  ideas: Idea[];
+
+  /**
+   * Clusters the ideas were merged into
+   */
+  clusters: IdeaCluster[];
+
+  /**
+   * Whether voting was completed by every participant
+   */
+  votingCompleted: boolean;
+}
+
+/**
+ * Words ignored when comparing ideas
+ */
+const STOP_WORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "from", "into", "our", "their",
+  "your", "have", "more", "less", "about", "will", "should", "could", "would",
+]);
+
+/**
+ * Specialized workflow for structured brainstorming sessions
+ */
+export class IdeationWorkflow extends DialogueWorkflow {
+  private ideationConfig: Required<Pick<
+    IdeationWorkflowConfig,
+    "generationRounds" | "dotsPerParticipant" | "similarityThreshold"
+  >> & { clusterer?: IAgent };
+  private phase: IdeationPhase = IdeationPhase.GENERATION;
+  private ideas: Idea[] = [];
+  private clusters: IdeaCluster[] = [];
+  private votes: Record<string, Record<string, number>> = {};
+
+  /**
+   * Create a new ideation workflow
+   *
+   * @param topic - Topic for the session
+   * @param participants - Participants in the session
+   * @param config - Configuration for the session
+   */
+  constructor(
+    topic: string,
+    participants: DialogueParticipant[],
+    config: IdeationWorkflowConfig = {}
+  ) {
+    const generationRounds = config.generationRounds ?? 2;
+
+    const ideationPromptTemplate = config.ideationPromptTemplate ??
+      "This is a brainstorming session about {topic} between {participantNames}. " +
+      "The goal is a concrete list of ideas the group can act on. " +
+      "Build on each other's ideas and aim for variety.";
+
+    super(topic, participants, {
+      ...config,
+      // Enough turns for every generation round and one vote per participant
+      maxTurns: config.maxTurns ?? participants.length * (generationRounds + 1),
+      systemPromptTemplate: ideationPromptTemplate,
+      exitCondition: state => this.phase === IdeationPhase.COMPLETE || (config.exitCondition?.(state) ?? false),
+    });
+
+    this.ideationConfig = {
+      generationRounds,
+      dotsPerParticipant: config.dotsPerParticipant ?? 3,
+      similarityThreshold: config.similarityThreshold ?? 0.5,
+      clusterer: config.clusterer,
+    };
+  }
+
+  /**
+   * Run the ideation session to completion
+   *
+   * @returns Result of the session
+   */
+  override async run(): Promise<IdeationWorkflowResult> {
+    const baseResult = await this.runDialogue();
+
+    return this.finishRun({
+      ...baseResult,
+      rankedIdeas: this.rankIdeas(),
+      ideas: this.ideas,
+      clusters: this.clusters,
+      votingCompleted: this.phase === IdeationPhase.COMPLETE,
+    });
+  }
+
+  /**
+   * Get the current phase of the session
+   *
+   * @returns Current phase
+   */
+  getPhase(): IdeationPhase {
+    return this.phase;
+  }
+
+  /**
+   * Get the type identifier recorded in checkpoints
+   *
+   * @returns Workflow type identifier
+   */
+  protected override getWorkflowType(): string {
+    return "ideation";
+  }
+
+  /**
+   * Get ideation state to include in checkpoints
+   *
+   * @returns Serializable ideation state
+   */
+  protected override getCheckpointData(): Record<string, unknown> {
+    return {
+      phase: this.phase,
+      ideas: this.ideas,
+      clusters: this.clusters,
+      votes: this.votes,
+    };
+  }
+
+  /**
+   * Restore ideation state from a checkpoint
+   *
+   * @param data - Ideation state from the checkpoint
+   */
+  protected override restoreCheckpointData(data: Record<string, unknown>): void {
+    this.phase = (data.phase as IdeationPhase | undefined) ?? IdeationPhase.GENERATION;
+    this.ideas = structuredClone((data.ideas as Idea[] | undefined) ?? []);
+    this.clusters = structuredClone((data.clusters as IdeaCluster[] | undefined) ?? []);
+    this.votes = structuredClone(
+      (data.votes as Record<string, Record<string, number>> | undefined) ?? {}
+    );
+  }
+
+  /**
+   * Execute a single turn of the session
+   * Generation turns use the configured speaker selection; every participant votes once
+   */
+  protected override async executeTurn(): Promise<void> {
+    if (this.phase === IdeationPhase.GENERATION) {
+      await super.executeTurn();
+
+      const generationTurns = this.state.participants.length * this.ideationConfig.generationRounds;
+
+      if (this.state.messages.length >= generationTurns) {
+        this.setPhase(IdeationPhase.CLUSTERING);
+        await this.clusterIdeas();
+        this.setPhase(IdeationPhase.VOTING);
+      }
+
+      return;
+    }
+
+    if (this.phase === IdeationPhase.VOTING) {
+      await this.executeVotingTurn();
+    }
+  }
+
+  /**
+   * Record a message, extracting ideas from generation turns
+   *
+   * @param message - The message to commit
+   */
+  protected override commitMessage(message: DialogueMessage): void {
+    if (this.phase === IdeationPhase.GENERATION) {
+      const ideaIds = parseIdeas(message.content).map(text => {
+        const idea: Idea = {
+          id: `idea-${this.ideas.length + 1}`,
+          text,
+          authorId: message.participantId,
+          turnNumber: this.state.currentTurn,
+        };
+
+        this.ideas.push(idea);
+        return idea.id;
+      });
+
+      message.metadata = { ...message.metadata, ideationPhase: this.phase, ideaIds };
+    }
+
+    super.commitMessage(message);
+  }
+
+  /**
+   * Generate a prompt with instructions for the current phase
+   *
+   * @param participant - The participant whose turn it is
+   * @returns Prompt for the participant
+   */
+  protected override async generatePrompt(participant: DialogueParticipant): Promise<string> {
+    const basePrompt = await super.generatePrompt(participant);
+
+    if (this.phase === IdeationPhase.VOTING) {
+      return [
+        basePrompt,
+        "",
+        "Phase: voting. The ideas have been grouped into these clusters:",
+        ...this.clusters.map(cluster => `- ${cluster.id}: ${cluster.label}`),
+        "",
+        `You have ${this.ideationConfig.dotsPerParticipant} dots to distribute across the clusters.`,
+        "You may put several dots on one cluster. List your votes in exactly this format:",
+        "VOTES:",
+        "- <cluster id>: <number of dots>",
+      ].join("\n");
+    }
+
+    return [
+      basePrompt,
+      "",
+      "Phase: idea generation. Add new ideas or build on earlier ones.",
+      "Do not critique or evaluate any ideas yet.",
+      "Put each idea on its own line starting with \"IDEA:\".",
+    ].join("\n");
+  }
+
+  /**
+   * Execute a voting turn for the next participant who has not voted
+   */
+  private async executeVotingTurn(): Promise<void> {
+    const participant = this.state.participants.find(p => !this.votes[p.id]);
+
+    if (!participant) {
+      this.setPhase(IdeationPhase.COMPLETE);
+      return;
+    }
+
+    this.emit({ type: "turn-started", turnNumber: this.state.currentTurn });
+
+    const prompt = await this.addRecalledMemories(participant, await this.generatePrompt(participant));
+    const response = await executeAgent(
+      participant.agent,
+      prompt,
+      this.createTokenForwarder(participant.id)
+    );
+
+    const allocation = this.allocateDots(parseVotes(response));
+    this.votes[participant.id] = allocation;
+
+    this.commitMessage({
+      participantId: participant.id,
+      content: response,
+      timestamp: Date.now(),
+      metadata: {
+        turnNumber: this.state.currentTurn,
+        ideationPhase: this.phase,
+        votes: allocation,
+      },
+    });
+
+    if (this.state.participants.every(p => this.votes[p.id])) {
+      this.setPhase(IdeationPhase.COMPLETE);
+    }
+  }
+
+  /**
+   * Keep votes for known clusters, up to the participant's number of dots
+   *
+   * @param requested - Dots requested per cluster ID, in the order given
+   * @returns Dots allocated per cluster ID
+   */
+  private allocateDots(requested: [string, number][]): Record<string, number> {
+    const allocation: Record<string, number> = {};
+    let remaining = this.ideationConfig.dotsPerParticipant;
+
+    for (const [clusterId, dots] of requested) {
+      const cluster = this.clusters.find(c => c.id.toLowerCase() === clusterId.toLowerCase());
+      const allocated = Math.min(dots, remaining);
+
+      if (cluster && allocated > 0) {
+        allocation[cluster.id] = (allocation[cluster.id] ?? 0) + allocated;
+        remaining -= allocated;
+      }
+    }
+
+    return allocation;
+  }
+
+  /**
+   * Merge similar ideas into clusters
+   */
+  private async clusterIdeas(): Promise<void> {
+    const groups = (this.ideationConfig.clusterer && await this.clusterWithAgent()) ||
+      this.clusterByWordOverlap();
+
+    this.clusters = groups.map((group, i) => ({
+      id: `C${i + 1}`,
+      label: group.label,
+      ideaIds: group.ideas.map(idea => idea.id),
+    }));
+
+    for (const cluster of this.clusters) {
+      for (const ideaId of cluster.ideaIds) {
+        const idea = this.ideas.find(i => i.id === ideaId);
+        if (idea) idea.clusterId = cluster.id;
+      }
+    }
+  }
+
+  /**
+   * Ask the clusterer agent to group the ideas
+   *
+   * @returns Groups of ideas, or undefined if the response could not be used
+   */
+  private async clusterWithAgent(): Promise<{ label: string; ideas: Idea[] }[] | undefined> {
+    const prompt = `
+Group these brainstormed ideas so that ideas which say essentially the same thing share a group.
+Give each group a short label.
+
+Ideas:
+${this.ideas.map((idea, i) => `${i + 1}. ${idea.text}`).join("\n")}
+
+Important: Your response must be formatted EXACTLY as follows (JSON object only, no other text):
+{
+  "clusters": [{"label": "...", "ideas": [1, 2]}]
+}
+    `;
+
+    const response = await this.ideationConfig.clusterer!.execute(prompt);
+
+    try {
+      // Extract JSON from response (in case model adds surrounding text)
+      const jsonMatch = response.match(/\{[\s\S]*\}/);
+      const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : response);
+      const assigned = new Set<Idea>();
+      const groups: { label: string; ideas: Idea[] }[] = [];
+
+      for (const cluster of parsed.clusters as { label: string; ideas: number[] }[]) {
+        const ideas = cluster.ideas
+          .map(n => this.ideas[n - 1])
+          .filter(idea => idea && !assigned.has(idea));
+
+        if (ideas.length > 0) {
+          ideas.forEach(idea => assigned.add(idea));
+          groups.push({ label: String(cluster.label || ideas[0].text), ideas });
+        }
+      }
+
+      // Ideas the agent left out form their own clusters
+      for (const idea of this.ideas) {
+        if (!assigned.has(idea)) {
+          groups.push({ label: idea.text, ideas: [idea] });
+        }
+      }
+
+      return groups;
+    } catch (error) {
+      console.error("Error parsing clustering response:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Group ideas whose words overlap enough with an idea already in a group
+   *
+   * @returns Groups of ideas, labeled by their first idea
+   */
+  private clusterByWordOverlap(): { label: string; ideas: Idea[] }[] {
+    const groups: { label: string; ideas: Idea[]; words: Set<string>[] }[] = [];
+
+    for (const idea of this.ideas) {
+      const words = extractKeywords(idea.text);
+      const group = groups.find(g =>
+        g.words.some(other => jaccardSimilarity(words, other) >= this.ideationConfig.similarityThreshold)
+      );
+
+      if (group) {
+        group.ideas.push(idea);
+        group.words.push(words);
+      } else {
+        groups.push({ label: idea.text, ideas: [idea], words: [words] });
+      }
+    }
+
+    return groups.map(({ label, ideas }) => ({ label, ideas }));
+  }
+
+  /**
+   * Rank the clusters by votes received
+   * Ties go to larger clusters, then to clusters formed earlier
+   *
+   * @returns Ranked clusters
+   */
+  private rankIdeas(): RankedIdea[] {
+    const ranked = this.clusters.map((cluster, index) => {
+      const votesByParticipant: Record<string, number> = {};
+
+      for (const [participantId, allocation] of Object.entries(this.votes)) {
+        if (allocation[cluster.id]) {
+          votesByParticipant[participantId] = allocation[cluster.id];
+        }
+      }
+
+      const ideas = this.ideas.filter(idea => cluster.ideaIds.includes(idea.id));
+
+      return {
+        index,
+        clusterId: cluster.id,
+        label: cluster.label,
+        ideas,
+        authorIds: [...new Set(ideas.map(idea => idea.authorId))],
+        votes: Object.values(votesByParticipant).reduce((sum, dots) => sum + dots, 0),
+        votesByParticipant,
+      };
+    });
+
+    ranked.sort((a, b) =>
+      b.votes - a.votes || b.ideas.length - a.ideas.length || a.index - b.index
+    );
+
+    return ranked.map(({ index: _index, ...entry }, i) => ({ rank: i + 1, ...entry }));
+  }
+
+  /**
+   * Move to a new phase, emitting a phase-changed event
+   *
+   * @param phase - Phase to enter
+   */
+  private setPhase(phase: IdeationPhase): void {
+    const previousPhase = this.phase;
+    this.phase = phase;
+
+    this.emit({
+      type: "phase-changed",
+      previousPhase,
+      phase,
+      round: Math.ceil(this.state.messages.length / this.state.participants.length),
+    });
+  }
+}
+
+/**
+ * Extract ideas from a generation message
+ * Lines starting with "IDEA:" are used; otherwise bulleted or numbered lines
+ *
+ * @param content - Message content
+ * @returns Text of each idea
+ */
+export function parseIdeas(content: string): string[] {
+  const lines = content.split("\n");
+
+  const tagged = lines
+    .map(line => line.match(/^\s*(?:[-*]|\d+[.)])?\s*IDEA:\s*(.+?)\s*$/i)?.[1])
+    .filter((idea): idea is string => Boolean(idea));
+
+  if (tagged.length > 0) {
+    return tagged;
+  }
+
+  return lines
+    .map(line => line.match(/^\s*(?:[-*]|\d+[.)])\s+(.+?)\s*$/)?.[1])
+    .filter((idea): idea is string => Boolean(idea));
+}
+
+/**
+ * Extract dot votes from a voting message
+ *
+ * @param content - Message content
+ * @returns Cluster ID and number of dots for each vote, in order
+ */
+export function parseVotes(content: string): [string, number][] {
+  const votes: [string, number][] = [];
+
+  for (const match of content.matchAll(/\b(C\d+)\s*[:=x×]\s*(\d+)/gi)) {
+    votes.push([match[1].toUpperCase(), parseInt(match[2], 10)]);
+  }
+
+  return votes;
+}
+
+/**
+ * Extract the significant words of an idea
+ *
+ * @param text - Idea text
+ * @returns Set of lowercase keywords
+ */
+function extractKeywords(text: string): Set<string> {
+  return new Set(
+    text.toLowerCase()
+      .split(/\W+/)
+      .filter(word => word.length >= 3 && !STOP_WORDS.has(word))
+  );
+}
+
+/**
+ * Calculate the Jaccard similarity of two word sets
+ *
+ * @param a - First word set
+ * @param b - Second word set
+ * @returns Similarity (0.0 to 1.0)
+ */
+function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 0;
+  }
+
+  const intersection = [...a].filter(word => b.has(word)).length;
+  return intersection / (a.size + b.size - intersection);
+}
+
+/**
+ * Create a new ideation workflow
+ *
+ * @param topic - Topic for the session
+ * @param participants - Participants in the session
+ * @param config - Configuration for the session
+ * @returns New ideation workflow
+ */
+export function createIdeationWorkflow(
+  topic: string,
+  participants: DialogueParticipant[],
+  config?: IdeationWorkflowConfig
+): IdeationWorkflow {
+  return new IdeationWorkflow(topic, participants, config);
+}
@@ -0,0 +1,354 @@
+/**
+ * Judging Panel
+ * Scores debate arguments with several independent judges and measures their agreement
+ */
+
+import {
+  DebateModeratorParticipant,
+  ClaimCheck,
+  CriterionScore,
+  ParticipantScore
+} from "../participants/debate_participant.ts";
+
+/**
+ * How judges' scores are combined into the panel's score
+ */
+export type ScoreAggregationMethod = "mean" | "median" | "trimmed_mean";
+
+/**
+ * Score given by a single judge
+ */
+export interface JudgeScore {
+  /**
+   * ID of the judge
+   */
+  judgeId: string;
+
+  /**
+   * The judge's score
+   */
+  score: ParticipantScore;
+
+  /**
+   * Whether the score fell back to a default because the judge's response could not be parsed
+   */
+  defaulted: boolean;
+}
+
+/**
+ * Score aggregated from a panel of judges
+ */
+export interface PanelScore extends ParticipantScore {
+  /**
+   * Method used to aggregate the judges' scores
+   */
+  aggregation: ScoreAggregationMethod;
+
+  /**
+   * Each judge's individual score
+   */
+  judgeScores: JudgeScore[];
+
+  /**
+   * IDs of judges whose scores were defaulted and left out of the aggregate
+   */
+  defaultedJudgeIds: string[];
+
+  /**
+   * Krippendorff's alpha across the criteria for this argument
+   * Undefined when fewer than two judges scored or the scores do not vary
+   */
+  agreement?: number;
+}
+
+/**
+ * Agreement between judges over a set of scored arguments
+ */
+export interface PanelAgreement {
+  /**
+   * Krippendorff's alpha (interval metric) over every criterion of every argument
+   * Undefined when fewer than two judges scored or the scores do not vary
+   */
+  krippendorffAlpha?: number;
+
+  /**
+   * Krippendorff's alpha for each criterion across arguments
+   */
+  criterionAlpha: Record<string, number | undefined>;
+
+  /**
+   * Number of arguments scored
+   */
+  scoredArguments: number;
+
+  /**
+   * Number of individual judge scores that were defaulted
+   */
+  defaultedScores: number;
+}
+
+/**
+ * Configuration for a judging panel
+ */
+export interface JudgingPanelConfig {
+  /**
+   * Judges on the panel
+   */
+  judges: DebateModeratorParticipant[];
+
+  /**
+   * How to combine the judges' scores
+   * Default: "mean"
+   */
+  aggregation?: ScoreAggregationMethod;
+
+  /**
+   * Fraction of scores dropped from each end for the trimmed mean
+   * Default: 0.2
+   */
+  trimFraction?: number;
+}
+
+/**
+ * Panel of judges that score arguments independently
+ */
+export class JudgingPanel {
+  private judges: DebateModeratorParticipant[];
+  private aggregation: ScoreAggregationMethod;
+  private trimFraction: number;
+
+  /**
+   * Create a new judging panel
+   *
+   * @param config - Configuration for the panel
+   */
+  constructor(config: JudgingPanelConfig) {
+    if (config.judges.length === 0) {
+      throw new Error("Judging panel requires at least one judge");
+    }
+
+    const trimFraction = config.trimFraction ?? 0.2;
+    if (trimFraction < 0 || trimFraction >= 0.5) {
+      throw new Error("Trim fraction must be at least 0 and less than 0.5");
+    }
+
+    this.judges = config.judges;
+    this.aggregation = config.aggregation ?? "mean";
+    this.trimFraction = trimFraction;
+  }
+
+  /**
+   * Get the IDs of the judges on the panel
+   *
+   * @returns Judge IDs
+   */
+  getJudgeIds(): string[] {
+    return this.judges.map(judge => judge.id);
+  }
+
+  /**
+   * Score an argument with every judge and aggregate the results
+   *
+   * @param participantId - ID of the participant
+   * @param argument - Argument to score
+   * @param context - Dialogue context
+   * @param criteria - Criteria weights for this argument
+   * @param factChecks - Fact-check verdicts on the argument's claims
+   * @returns Aggregated panel score
+   */
+  async scoreArgument(
+    participantId: string,
+    argument: string,
+    context: string,
+    criteria?: Record<string, number>,
+    factChecks?: ClaimCheck[]
+  ): Promise<PanelScore> {
+    const judgeScores: JudgeScore[] = [];
+
+    // Judges score one after another so each sees only the argument, not the others' scores
+    for (const judge of this.judges) {
+      const score = await judge.scoreArgument(participantId, argument, context, criteria, factChecks);
+      judgeScores.push({ judgeId: judge.id, score, defaulted: score.defaulted ?? false });
+    }
+
+    return this.aggregate(judgeScores);
+  }
+
+  /**
+   * Combine judges' scores into a panel score
+   * Defaulted scores are left out unless every judge's score was defaulted
+   *
+   * @param judgeScores - Individual judges' scores
+   * @returns Aggregated panel score
+   */
+  aggregate(judgeScores: JudgeScore[]): PanelScore {
+    const defaultedJudgeIds = judgeScores.filter(s => s.defaulted).map(s => s.judgeId);
+    const valid = judgeScores.filter(s => !s.defaulted);
+    const counted = valid.length > 0 ? valid : judgeScores;
+
+    const criteria = [...new Set(counted.flatMap(s => Object.keys(s.score.breakdown)))];
+    const breakdown: Record<string, CriterionScore> = {};
+
+    for (const criterion of criteria) {
+      const scores = counted
+        .map(s => s.score.breakdown[criterion])
+        .filter((score): score is CriterionScore => score !== undefined);
+
+      breakdown[criterion] = {
+        raw: this.combine(scores.map(score => score.raw)),
+        weighted: this.combine(scores.map(score => score.weighted)),
+        justification: counted
+          .filter(s => s.score.breakdown[criterion]?.justification)
+          .map(s => `${s.judgeId}: ${s.score.breakdown[criterion].justification}`)
+          .join(" | "),
+      };
+    }
+
+    return {
+      total: this.combine(counted.map(s => s.score.total)),
+      breakdown,
+      ...(valid.length === 0 ? { defaulted: true } : {}),
+      aggregation: this.aggregation,
+      judgeScores,
+      defaultedJudgeIds,
+      agreement: krippendorffAlpha(criteria.map(criterion => getRatings([{ judgeScores }], criterion))),
+    };
+  }
+
+  /**
+   * Measure agreement between the judges over a set of panel scores
+   *
+   * @param scores - Panel scores to measure
+   * @returns Agreement statistics
+   */
+  getAgreement(scores: PanelScore[]): PanelAgreement {
+    const criteria = [...new Set(scores.flatMap(s => Object.keys(s.breakdown)))];
+    const criterionAlpha: Record<string, number | undefined> = {};
+
+    for (const criterion of criteria) {
+      criterionAlpha[criterion] = krippendorffAlpha(
+        scores.map(score => getRatings([score], criterion))
+      );
+    }
+
+    return {
+      krippendorffAlpha: krippendorffAlpha(
+        scores.flatMap(score => criteria.map(criterion => getRatings([score], criterion)))
+      ),
+      criterionAlpha,
+      scoredArguments: scores.length,
+      defaultedScores: scores.reduce((sum, s) => sum + s.defaultedJudgeIds.length, 0),
+    };
+  }
+
+  /**
+   * Combine values with the panel's aggregation method
+   *
+   * @param values - Values to combine
+   * @returns Combined value
+   */
+  private combine(values: number[]): number {
+    return aggregateValues(values, this.aggregation, this.trimFraction);
+  }
+}
+
+/**
+ * Get the judges' raw ratings of one criterion, leaving out defaulted scores
+ *
+ * @param scores - Scores holding judges' ratings
+ * @param criterion - Criterion to rate
+ * @returns Ratings, one per non-defaulted judge score
+ */
+function getRatings(scores: Pick<PanelScore, "judgeScores">[], criterion: string): number[] {
+  return scores.flatMap(score =>
+    score.judgeScores
+      .filter(s => !s.defaulted && s.score.breakdown[criterion] !== undefined)
+      .map(s => s.score.breakdown[criterion].raw)
+  );
+}
+
+/**
+ * Combine values with an aggregation method
+ *
+ * @param values - Values to combine
+ * @param method - Aggregation method
+ * @param trimFraction - Fraction of values dropped from each end for the trimmed mean
+ * @returns Combined value, or 0 if there are no values
+ */
+export function aggregateValues(
+  values: number[],
+  method: ScoreAggregationMethod,
+  trimFraction: number = 0.2
+): number {
+  if (values.length === 0) {
+    return 0;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = (items: number[]) => items.reduce((sum, v) => sum + v, 0) / items.length;
+
+  switch (method) {
+    case "median": {
+      const middle = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+    }
+
+    case "trimmed_mean": {
+      const trim = Math.floor(sorted.length * trimFraction);
+      return mean(sorted.slice(trim, sorted.length - trim));
+    }
+
+    default:
+      return mean(sorted);
+  }
+}
+
+/**
+ * Calculate Krippendorff's alpha with the interval metric
+ * Units with fewer than two ratings cannot be paired and are ignored
+ *
+ * @param units - Ratings of each unit, one value per rater who rated it
+ * @returns Alpha (1 is perfect agreement, 0 is chance), or undefined if the ratings do not vary
+ */
+export function krippendorffAlpha(units: number[][]): number | undefined {
+  const pairable = units.filter(unit => unit.length >= 2);
+  const values = pairable.flat();
+  const n = values.length;
+
+  if (n < 2) {
+    return undefined;
+  }
+
+  const sumSquaredDifferences = (items: number[]) => {
+    let sum = 0;
+    for (let i = 0; i < items.length; i++) {
+      for (let j = 0; j < items.length; j++) {
+        sum += (items[i] - items[j]) ** 2;
+      }
+    }
+    return sum;
+  };
+
+  // Observed disagreement within units against expected disagreement across all values
+  const observed = pairable.reduce(
+    (sum, unit) => sum + sumSquaredDifferences(unit) / (unit.length - 1),
+    0
+  ) / n;
+  const expected = sumSquaredDifferences(values) / (n * (n - 1));
+
+  if (expected === 0) {
+    return undefined;
+  }
+
+  return 1 - observed / expected;
+}
+
+/**
+ * Create a new judging panel
+ *
+ * @param config - Configuration for the panel
+ * @returns New judging panel
+ */
+export function createJudgingPanel(config: JudgingPanelConfig): JudgingPanel {
+  return new JudgingPanel(config);
+}
@@ -14,24 +14,205 @@ export {
   type DialogueWorkflowResult
 } from "./dialogue_workflow.ts";
 
+// Export workflow checkpoints
+export {
+  CHECKPOINT_VERSION,
+  serializeCheckpoint,
+  parseCheckpoint,
+  saveCheckpoint,
+  loadCheckpoint,
+  type WorkflowCheckpoint,
+  type DialogueCheckpointState
+} from "./checkpoint.ts";
+
+// Export history compaction
+export {
+  HistoryCompactor,
+  createHistoryCompactor,
+  type HistoryCompactorConfig,
+  type HistoryCompactorState,
+  type HistorySummary,
+  type CompactedHistory
+} from "./history_compactor.ts";
+
+// Export workflow events
+export {
+  WorkflowEventStream,
+  createWorkflowEventStream,
+  type WorkflowEvent,
+  type WorkflowEventType,
+  type WorkflowEventPayload,
+  type WorkflowEventListener,
+  type WorkflowEventBase,
+  type TurnStartedEvent,
+  type BidsCollectedEvent,
+  type TokenDeltaEvent,
+  type MessageCommittedEvent,
+  type PhaseChangedEvent,
+  type ScoreRecordedEvent,
+  type BudgetWarningEvent,
+  type WorkflowEndedEvent
+} from "./events.ts";
+
 // Export consensus workflow
 export {
   ConsensusWorkflow,
   createConsensusWorkflow,
+  parseConsensusMoves,
   type ConsensusPoint,
+  type ConsensusVoteType,
+  type ConsensusProposalStatus,
+  type ConsensusVote,
+  type ConsensusProposal,
+  type ConsensusMove,
+  type ConsensusVoteTally,
+  type StandingObjection,
+  type AdoptedProposal,
+  type ConsensusReviewDecision,
+  type ConsensusDocumentReview,
+  type ConsensusDocumentVersion,
+  type MinorityReport,
+  type ConsensusDocument,
   type ConsensusWorkflowConfig,
   type ConsensusWorkflowResult
 } from "./consensus_workflow.ts";
 
+// Export stance tracker
+export {
+  StanceTracker,
+  createStanceTracker,
+  calculateIssueConsensus,
+  type Stance,
+  type StanceIssue,
+  type StanceAssessment,
+  type StanceSnapshot,
+  type StanceTrackerConfig
+} from "./stance_tracker.ts";
+
 // Export debate workflow
 export {
   DebateWorkflow,
   createDebateWorkflow,
   DebatePhase,
   type DebateWorkflowConfig,
-  type DebateWorkflowResult
+  type DebateWorkflowResult,
+  type CrossExaminationExchange,
+  type JudgedArgument,
+  type AudienceStanceChange,
+  type AudiencePollResult
 } from "./debate_workflow.ts";
 
+// Export debate formats
+export {
+  DebateFormatRegistry,
+  createDebateFormatRegistry,
+  createStandardDebateFormat,
+  debateFormatRegistry,
+  registerDebateFormat,
+  validateDebateFormat,
+  BUILT_IN_DEBATE_FORMATS,
+  OXFORD_DEBATE_FORMAT,
+  LINCOLN_DOUGLAS_DEBATE_FORMAT,
+  BRITISH_PARLIAMENTARY_DEBATE_FORMAT,
+  KARL_POPPER_DEBATE_FORMAT,
+  type DebateFormatDefinition,
+  type DebatePhaseDefinition,
+  type DebateTurnDefinition,
+  type DebateTurnAction,
+  type DebateSpeaker,
+  type StandardDebateFormatOptions
+} from "./debate_formats.ts";
+
+// Export judging panel
+export {
+  JudgingPanel,
+  createJudgingPanel,
+  aggregateValues,
+  krippendorffAlpha,
+  type ScoreAggregationMethod,
+  type JudgeScore,
+  type PanelScore,
+  type PanelAgreement,
+  type JudgingPanelConfig
+} from "./judging_panel.ts";
+
+// Export debate tournament
+export {
+  DebateTournament,
+  createDebateTournament,
+  createRoundRobinSchedule,
+  updateElo,
+  updateGlicko,
+  type TournamentPairing,
+  type RoundPairing,
+  type RatingSystem,
+  type TournamentDebater,
+  type TournamentMotion,
+  type GlickoRating,
+  type TournamentMatch,
+  type TournamentStanding,
+  type HeadToHeadRecord,
+  type DebateTournamentConfig,
+  type DebateTournamentResult
+} from "./debate_tournament.ts";
+
+// Export argument map analysis
+export {
+  ArgumentMapAnalyzer,
+  createArgumentMapAnalyzer,
+  renderArgumentMapMermaid,
+  renderArgumentMapMarkdown,
+  renderArgumentMapDot,
+  type ArgumentNodeType,
+  type ArgumentRelationType,
+  type ArgumentNode,
+  type ArgumentEdge,
+  type ArgumentMap,
+  type ArgumentMapAnalyzerConfig
+} from "./argument_map.ts";
+
+// Export negotiation workflow
+export {
+  NegotiationWorkflow,
+  createNegotiationWorkflow,
+  parseNegotiationMove,
+  type NegotiationIssue,
+  type NegotiationPreferences,
+  type NegotiationAction,
+  type NegotiationMove,
+  type NegotiationOffer,
+  type ParetoAnalysis,
+  type NegotiationWorkflowConfig,
+  type NegotiationWorkflowResult
+} from "./negotiation_workflow.ts";
+
+// Export ideation workflow
+export {
+  IdeationWorkflow,
+  createIdeationWorkflow,
+  IdeationPhase,
+  parseIdeas,
+  parseVotes,
+  type Idea,
+  type IdeaCluster,
+  type RankedIdea,
+  type IdeationWorkflowConfig,
+  type IdeationWorkflowResult
+} from "./ideation_workflow.ts";
+
+// Export Delphi workflow
+export {
+  DelphiWorkflow,
+  createDelphiWorkflow,
+  parseDelphiEstimate,
+  aggregateEstimates,
+  type DelphiEstimate,
+  type DelphiAggregate,
+  type DelphiRound,
+  type DelphiWorkflowConfig,
+  type DelphiWorkflowResult
+} from "./delphi_workflow.ts";
+
 // Export OpenRouter dialogue workflow
 export {
   createOpenRouterDialogueWorkflow,
@@ -0,0 +1,635 @@
+/**
+ * Negotiation Workflow Implementation
+ * Specialized workflow for multi-issue negotiations with offers and counteroffers
+ */
+
+import {
+  DialogueWorkflow,
+  DialogueParticipant,
+  DialogueWorkflowConfig,
+  DialogueWorkflowResult,
+  DialogueMessage
+} from "./dialogue_workflow.ts";
+
+/**
+ * Issue under negotiation
+ */
+export interface NegotiationIssue {
+  /**
+   * Name of the issue (e.g. "price", "delivery")
+   */
+  name: string;
+
+  /**
+   * Optional description of the issue
+   */
+  description?: string;
+
+  /**
+   * Values that can be proposed for the issue
+   */
+  options: string[];
+}
+
+/**
+ * Private preferences of a negotiating party
+ */
+export interface NegotiationPreferences {
+  /**
+   * Importance of each issue, keyed by issue name
+   * Weights are normalized when calculating utility
+   */
+  issueWeights: Record<string, number>;
+
+  /**
+   * Value of each option (0.0 to 1.0), keyed by issue name then option
+   */
+  optionValues: Record<string, Record<string, number>>;
+
+  /**
+   * Minimum utility (0.0 to 1.0) the party will accept
+   * This is also the party's utility if no deal is reached
+   */
+  reservationValue: number;
+}
+
+/**
+ * Action a party takes in a negotiation message
+ */
+export type NegotiationAction = "offer" | "counter" | "accept" | "reject" | "none";
+
+/**
+ * Move extracted from a negotiation message
+ */
+export interface NegotiationMove {
+  /**
+   * Action taken
+   */
+  action: NegotiationAction;
+
+  /**
+   * Proposed value for each issue, keyed by issue name (for offers and counters)
+   */
+  terms: Record<string, string>;
+}
+
+/**
+ * Offer recorded in the negotiation ledger
+ */
+export interface NegotiationOffer {
+  /**
+   * Unique identifier for the offer
+   */
+  id: string;
+
+  /**
+   * ID of the participant who proposed the offer
+   */
+  proposerId: string;
+
+  /**
+   * Proposed value for each issue, keyed by issue name
+   */
+  terms: Record<string, string>;
+
+  /**
+   * Turn in which the offer was made
+   */
+  turnNumber: number;
+
+  /**
+   * Current status of the offer
+   */
+  status: "open" | "accepted" | "rejected" | "countered";
+
+  /**
+   * Response of each other participant, keyed by participant ID
+   */
+  responses: Record<string, "accept" | "reject">;
+}
+
+/**
+ * Pareto-efficiency analysis of a negotiation outcome
+ */
+export interface ParetoAnalysis {
+  /**
+   * Whether no other outcome makes a party better off without making another worse off
+   */
+  isParetoEfficient: boolean;
+
+  /**
+   * Number of possible agreements that Pareto-dominate the outcome
+   */
+  dominatingOutcomes: number;
+
+  /**
+   * Sum of the parties' utilities for the outcome
+   */
+  jointUtility: number;
+
+  /**
+   * Highest sum of utilities among possible agreements acceptable to all parties
+   */
+  maxJointUtility: number;
+}
+
+/**
+ * Configuration for a negotiation workflow
+ */
+export interface NegotiationWorkflowConfig extends DialogueWorkflowConfig {
+  /**
+   * Issues under negotiation
+   */
+  issues: NegotiationIssue[];
+
+  /**
+   * Private preferences of each participant, keyed by participant ID
+   */
+  preferences: Record<string, NegotiationPreferences>;
+
+  /**
+   * System prompt template for negotiations
+   */
+  negotiationPromptTemplate?: string;
+
+  /**
+   * Function that extracts a move from a message
+   * Default: parses the MOVE block participants are asked to end with
+   */
+  moveParser?: (content: string, issues: NegotiationIssue[]) => NegotiationMove;
+}
+
+/**
+ * Result of a negotiation workflow with negotiation-specific information
+ */
+export interface NegotiationWorkflowResult extends DialogueWorkflowResult {
+  /**
+   * Whether an agreement was reached
+   */
+  dealReached: boolean;
+
+  /**
+   * Agreed value for each issue, if a deal was reached
+   */
+  agreement?: Record<string, string>;
+
+  /**
+   * Every offer made during the negotiation, in order
+   */
+  offers: NegotiationOffer[];
+
+  /**
+   * Utility of the outcome for each participant, keyed by participant ID
+   * Without a deal, each participant receives their reservation value
+   */
+  utilities: Record<string, number>;
+
+  /**
+   * Pareto-efficiency of the outcome
+   * Omitted when there are too many possible agreements to enumerate
+   */
+  pareto?: ParetoAnalysis;
+}
+
+/**
+ * Maximum number of possible agreements enumerated for Pareto analysis
+ */
+const MAX_PARETO_OUTCOMES = 100000;
+
+/**
+ * Specialized workflow for negotiations
+ * Participants exchange offers on a set of issues, each judging them against
+ * private preferences, until every party accepts the same offer
+ */
+export class NegotiationWorkflow extends DialogueWorkflow {
+  private negotiationConfig: Required<Pick<
+    NegotiationWorkflowConfig,
+    "issues" | "preferences" | "moveParser"
+  >>;
+  private offers: NegotiationOffer[] = [];
+  private agreement?: Record<string, string>;
+
+  /**
+   * Create a new negotiation workflow
+   *
+   * @param topic - Topic for the negotiation
+   * @param participants - Participants in the negotiation
+   * @param config - Configuration for the negotiation
+   */
+  constructor(
+    topic: string,
+    participants: DialogueParticipant[],
+    config: NegotiationWorkflowConfig
+  ) {
+    const negotiationPromptTemplate = config.negotiationPromptTemplate ??
+      "This is a negotiation about {topic} between {participantNames}. " +
+      "Each party has private interests and a walk-away point. " +
+      "Make offers, respond to counteroffers, and look for trades across issues " +
+      "that leave every party better off than having no deal.";
+
+    super(topic, participants, {
+      ...config,
+      systemPromptTemplate: negotiationPromptTemplate,
+      // End as soon as every party accepts an offer
+      exitCondition: state => this.agreement !== undefined || (config.exitCondition?.(state) ?? false),
+    });
+
+    for (const participant of participants) {
+      if (!config.preferences[participant.id]) {
+        throw new Error(`No negotiation preferences for participant ${participant.id}`);
+      }
+    }
+
+    this.negotiationConfig = {
+      issues: config.issues,
+      preferences: config.preferences,
+      moveParser: config.moveParser ?? parseNegotiationMove,
+    };
+  }
+
+  /**
+   * Run the negotiation to completion
+   *
+   * @returns Result of the negotiation
+   */
+  override async run(): Promise<NegotiationWorkflowResult> {
+    const baseResult = await this.runDialogue();
+
+    const utilities: Record<string, number> = {};
+
+    for (const participant of this.state.participants) {
+      utilities[participant.id] = this.agreement
+        ? this.calculateUtility(participant.id, this.agreement)
+        : this.negotiationConfig.preferences[participant.id].reservationValue;
+    }
+
+    return this.finishRun({
+      ...baseResult,
+      endReason: this.agreement ? "deal_reached" : baseResult.endReason,
+      dealReached: this.agreement !== undefined,
+      agreement: this.agreement,
+      offers: this.offers,
+      utilities,
+      pareto: this.analyzePareto(utilities),
+    });
+  }
+
+  /**
+   * Get the offer currently on the table
+   *
+   * @returns The open offer, or undefined if there is none
+   */
+  getOpenOffer(): NegotiationOffer | undefined {
+    const latest = this.offers[this.offers.length - 1];
+    return latest?.status === "open" ? latest : undefined;
+  }
+
+  /**
+   * Calculate a participant's utility for a set of terms
+   *
+   * @param participantId - ID of the participant
+   * @param terms - Value for each issue
+   * @returns Utility (0.0 to 1.0)
+   */
+  calculateUtility(participantId: string, terms: Record<string, string>): number {
+    const preferences = this.negotiationConfig.preferences[participantId];
+    let weightedValue = 0;
+    let totalWeight = 0;
+
+    for (const issue of this.negotiationConfig.issues) {
+      const weight = preferences.issueWeights[issue.name] ?? 0;
+      const value = preferences.optionValues[issue.name]?.[terms[issue.name]] ?? 0;
+
+      weightedValue += weight * value;
+      totalWeight += weight;
+    }
+
+    return totalWeight > 0 ? weightedValue / totalWeight : 0;
+  }
+
+  /**
+   * Get the type identifier recorded in checkpoints
+   *
+   * @returns Workflow type identifier
+   */
+  protected override getWorkflowType(): string {
+    return "negotiation";
+  }
+
+  /**
+   * Describe the agreed terms for participants' memories
+   *
+   * @param result - Final result of the negotiation
+   * @returns Agreed terms, or undefined if no deal was reached
+   */
+  protected override describeOutcome(result: NegotiationWorkflowResult): string | undefined {
+    if (!result.agreement) {
+      return undefined;
+    }
+
+    const terms = Object.entries(result.agreement).map(([issue, option]) => `${issue}: ${option}`);
+    return `Agreed on ${terms.join(", ")}.`;
+  }
+
+  /**
+   * Get negotiation state to include in checkpoints
+   *
+   * @returns Serializable negotiation state
+   */
+  protected override getCheckpointData(): Record<string, unknown> {
+    return {
+      offers: this.offers,
+      agreement: this.agreement,
+    };
+  }
+
+  /**
+   * Restore negotiation state from a checkpoint
+   *
+   * @param data - Negotiation state from the checkpoint
+   */
+  protected override restoreCheckpointData(data: Record<string, unknown>): void {
+    this.offers = structuredClone((data.offers as NegotiationOffer[] | undefined) ?? []);
+    this.agreement = data.agreement as Record<string, string> | undefined;
+  }
+
+  /**
+   * Record a message and apply its move to the offer ledger
+   *
+   * @param message - The message to commit
+   */
+  protected override commitMessage(message: DialogueMessage): void {
+    const move = this.negotiationConfig.moveParser(message.content, this.negotiationConfig.issues);
+    const offerId = this.applyMove(message.participantId, move, message.metadata?.turnNumber as number);
+
+    message.metadata = {
+      ...message.metadata,
+      negotiationMove: { action: move.action, terms: move.terms, offerId },
+    };
+
+    super.commitMessage(message);
+  }
+
+  /**
+   * Generate a prompt that adds the participant's private brief and the open offer
+   *
+   * @param participant - The participant whose turn it is
+   * @returns Prompt for the participant
+   */
+  protected override async generatePrompt(participant: DialogueParticipant): Promise<string> {
+    const basePrompt = await super.generatePrompt(participant);
+    const preferences = this.negotiationConfig.preferences[participant.id];
+
+    const issueLines = this.negotiationConfig.issues.map(issue => {
+      const values = issue.options
+        .map(option => `${option} = ${(preferences.optionValues[issue.name]?.[option] ?? 0).toFixed(2)}`)
+        .join(", ");
+      return `- ${issue.name} (importance ${preferences.issueWeights[issue.name] ?? 0}): ${values}`;
+    });
+
+    const openOffer = this.getOpenOffer();
+    const offerLine = openOffer
+      ? `Offer on the table (${openOffer.id}): ${this.formatTerms(openOffer.terms)} ` +
+        `(worth ${this.calculateUtility(participant.id, openOffer.terms).toFixed(2)} to you)`
+      : "There is no offer on the table yet.";
+
+    return [
+      basePrompt,
+      "",
+      "Your private brief (do not reveal these numbers):",
+      ...issueLines,
+      `Your walk-away utility is ${preferences.reservationValue.toFixed(2)}; ` +
+        "never accept a deal worth less to you.",
+      "",
+      offerLine,
+      "",
+      "End your message with your move in exactly this format:",
+      "MOVE: OFFER | COUNTER | ACCEPT | REJECT",
+      ...this.negotiationConfig.issues.map(issue =>
+        `- ${issue.name}: <one of ${issue.options.join(" / ")}>`
+      ),
+      "List issue values only for OFFER or COUNTER.",
+    ].join("\n");
+  }
+
+  /**
+   * Apply a move to the offer ledger
+   *
+   * @param participantId - ID of the participant making the move
+   * @param move - The move to apply
+   * @param turnNumber - Turn in which the move was made
+   * @returns ID of the offer the move created or responded to
+   */
+  private applyMove(
+    participantId: string,
+    move: NegotiationMove,
+    turnNumber: number
+  ): string | undefined {
+    const openOffer = this.getOpenOffer();
+
+    switch (move.action) {
+      case "offer":
+      case "counter": {
+        if (openOffer) {
+          openOffer.status = "countered";
+          openOffer.responses[participantId] = "reject";
+        }
+
+        // Issues left out of a counteroffer keep their value from the open offer
+        const offer: NegotiationOffer = {
+          id: `offer-${this.offers.length + 1}`,
+          proposerId: participantId,
+          terms: { ...openOffer?.terms, ...move.terms },
+          turnNumber,
+          status: "open",
+          responses: {},
+        };
+
+        this.offers.push(offer);
+        return offer.id;
+      }
+
+      case "accept": {
+        if (!openOffer || openOffer.proposerId === participantId) {
+          return undefined;
+        }
+
+        openOffer.responses[participantId] = "accept";
+
+        const everyoneAccepted = this.state.participants
+          .filter(p => p.id !== openOffer.proposerId)
+          .every(p => openOffer.responses[p.id] === "accept");
+
+        if (everyoneAccepted && this.isComplete(openOffer.terms)) {
+          openOffer.status = "accepted";
+          this.agreement = { ...openOffer.terms };
+        }
+
+        return openOffer.id;
+      }
+
+      case "reject": {
+        if (!openOffer || openOffer.proposerId === participantId) {
+          return undefined;
+        }
+
+        openOffer.responses[participantId] = "reject";
+        openOffer.status = "rejected";
+        return openOffer.id;
+      }
+
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Check whether terms give a value for every issue
+   *
+   * @param terms - Terms to check
+   * @returns Whether the terms are complete
+   */
+  private isComplete(terms: Record<string, string>): boolean {
+    return this.negotiationConfig.issues.every(issue => terms[issue.name] !== undefined);
+  }
+
+  /**
+   * Format terms for a prompt
+   *
+   * @param terms - Terms to format
+   * @returns Formatted terms
+   */
+  private formatTerms(terms: Record<string, string>): string {
+    return Object.entries(terms)
+      .map(([issue, value]) => `${issue} = ${value}`)
+      .join(", ");
+  }
+
+  /**
+   * Analyze the Pareto-efficiency of an outcome
+   *
+   * @param utilities - Utility of the outcome for each participant
+   * @returns Pareto analysis, or undefined if there are too many possible agreements
+   */
+  private analyzePareto(utilities: Record<string, number>): ParetoAnalysis | undefined {
+    const { issues, preferences } = this.negotiationConfig;
+    const outcomeCount = issues.reduce((count, issue) => count * issue.options.length, 1);
+
+    if (outcomeCount > MAX_PARETO_OUTCOMES) {
+      return undefined;
+    }
+
+    const participantIds = this.state.participants.map(p => p.id);
+    const jointUtility = participantIds.reduce((sum, id) => sum + utilities[id], 0);
+    let dominatingOutcomes = 0;
+    let maxJointUtility = 0;
+
+    for (const terms of enumerateOutcomes(issues)) {
+      const outcomeUtilities = participantIds.map(id => this.calculateUtility(id, terms));
+
+      // Only agreements every party would prefer to walking away are feasible
+      const acceptable = participantIds.every(
+        (id, i) => outcomeUtilities[i] >= preferences[id].reservationValue
+      );
+
+      if (acceptable) {
+        maxJointUtility = Math.max(
+          maxJointUtility,
+          outcomeUtilities.reduce((sum, utility) => sum + utility, 0)
+        );
+      }
+
+      const dominates = participantIds.every((id, i) => outcomeUtilities[i] >= utilities[id]) &&
+        participantIds.some((id, i) => outcomeUtilities[i] > utilities[id]);
+
+      if (dominates) {
+        dominatingOutcomes++;
+      }
+    }
+
+    return {
+      isParetoEfficient: dominatingOutcomes === 0,
+      dominatingOutcomes,
+      jointUtility,
+      maxJointUtility,
+    };
+  }
+}
+
+/**
+ * Enumerate every combination of issue values
+ *
+ * @param issues - Issues to combine
+ * @returns Generator of terms
+ */
+function* enumerateOutcomes(
+  issues: NegotiationIssue[],
+  terms: Record<string, string> = {}
+): Generator<Record<string, string>> {
+  if (issues.length === 0) {
+    yield { ...terms };
+    return;
+  }
+
+  const [issue, ...rest] = issues;
+
+  for (const option of issue.options) {
+    yield* enumerateOutcomes(rest, { ...terms, [issue.name]: option });
+  }
+}
+
+/**
+ * Parse the MOVE block at the end of a negotiation message
+ * Issue names and values are matched case-insensitively against the issues
+ *
+ * @param content - Message content
+ * @param issues - Issues under negotiation
+ * @returns The extracted move, with action "none" if there is no MOVE block
+ */
+export function parseNegotiationMove(
+  content: string,
+  issues: NegotiationIssue[]
+): NegotiationMove {
+  const moveMatch = content.match(/^\s*MOVE:\s*(OFFER|COUNTER|ACCEPT|REJECT)\b/im);
+
+  if (!moveMatch) {
+    return { action: "none", terms: {} };
+  }
+
+  const action = moveMatch[1].toLowerCase() as NegotiationAction;
+  const terms: Record<string, string> = {};
+
+  if (action === "offer" || action === "counter") {
+    const block = content.slice((moveMatch.index ?? 0) + moveMatch[0].length);
+
+    for (const line of block.split("\n")) {
+      const termMatch = line.match(/^\s*[-*]?\s*([^:]+):\s*(.+?)\s*$/);
+      if (!termMatch) continue;
+
+      const issue = issues.find(i => i.name.toLowerCase() === termMatch[1].trim().toLowerCase());
+      const option = issue?.options.find(o => o.toLowerCase() === termMatch[2].toLowerCase());
+
+      if (issue && option) {
+        terms[issue.name] = option;
+      }
+    }
+  }
+
+  return { action, terms };
+}
+
+/**
+ * Create a new negotiation workflow
+ *
+ * @param topic - Topic for the negotiation
+ * @param participants - Participants in the negotiation
+ * @param config - Configuration for the negotiation
+ * @returns New negotiation workflow
+ */
+export function createNegotiationWorkflow(
+  topic: string,
+  participants: DialogueParticipant[],
+  config: NegotiationWorkflowConfig
+): NegotiationWorkflow {
+  return new NegotiationWorkflow(topic, participants, config);
+}
@@ -19,8 +19,10 @@ import {
 } from "../../mastra/openrouter_client.ts";
 import {
   ModelTier,
+  MODEL_TIERS,
   getModelTierConfig
 } from "../../mastra/model_tiers.ts";
+import { createHistoryCompactor } from "./history_compactor.ts";
 
 /**
  * Configuration for an OpenRouter dialogue participant
@@ -63,6 +65,13 @@ export interface OpenRouterDialogueWorkflowConfig extends DialogueWorkflowConfig
    * If specified, overrides model settings in openRouterConfig
    */
   modelTier?: ModelTier;
+  
+  /**
+   * Model tier used to summarize older messages
+   * If specified and no historyCompactor is given, history is compacted
+   * with a summarizer on this tier's default model
+   */
+  summaryModelTier?: ModelTier;
 }
 
 /**
@@ -118,8 +127,25 @@ export async function createOpenRouterDialogueWorkflow(
     participants.push(participant);
   }
   
+  // Summarize older history with a cheaper model if requested
+  let historyCompactor = config.historyCompactor;
+  
+  if (!historyCompactor && config.summaryModelTier) {
+    historyCompactor = createHistoryCompactor({
+      summarizer: createOpenRouterAgent(
+        {
+          id: "history-summarizer",
+          systemPrompt: "You summarize dialogues accurately and concisely.",
+          model: MODEL_TIERS[config.summaryModelTier].defaultModel,
+          temperature: 0.3,
+        },
+        client
+      ),
+    });
+  }
+  
   // Create dialogue workflow
-  return new DialogueWorkflow(topic, participants, config);
+  return new DialogueWorkflow(topic, participants, { ...config, historyCompactor });
 }
 
 /**
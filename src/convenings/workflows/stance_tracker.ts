@@ -0,0 +1,311 @@
+/**
+ * Stance Tracker Implementation
+ * Uses a judge model to track each participant's stance on each open issue
+ */
+
+import type { IAgent } from "../../utils/interfaces.ts";
+import type { DialogueMessage, DialogueParticipant } from "./dialogue_workflow.ts";
+
+/**
+ * Stance a participant holds on an issue
+ */
+export type Stance = "agree" | "disagree" | "partial" | "undecided";
+
+/**
+ * Issue whose stances are tracked
+ */
+export interface StanceIssue {
+  /**
+   * Unique identifier for the issue
+   */
+  id: string;
+
+  /**
+   * Statement participants agree or disagree with
+   */
+  description: string;
+}
+
+/**
+ * Judge's assessment of one participant's stance on one issue
+ */
+export interface StanceAssessment {
+  /**
+   * Stance held
+   */
+  stance: Stance;
+
+  /**
+   * Judge's confidence in the assessment (0.0 to 1.0)
+   */
+  confidence: number;
+
+  /**
+   * Quote from the participant supporting the assessment
+   */
+  quote: string;
+}
+
+/**
+ * Participant × issue stance matrix after a turn
+ */
+export interface StanceSnapshot {
+  /**
+   * Turn after which the stances were assessed
+   */
+  turn: number;
+
+  /**
+   * Issues assessed
+   */
+  issues: StanceIssue[];
+
+  /**
+   * Assessment for each participant and issue, keyed by participant ID then issue ID
+   */
+  stances: Record<string, Record<string, StanceAssessment>>;
+
+  /**
+   * Consensus level on each issue (0.0 to 1.0), keyed by issue ID
+   */
+  issueConsensus: Record<string, number>;
+
+  /**
+   * Average consensus level across the issues (0.0 to 1.0)
+   */
+  consensusLevel: number;
+}
+
+/**
+ * Configuration for a stance tracker
+ */
+export interface StanceTrackerConfig {
+  /**
+   * Agent used to judge participants' stances
+   */
+  judge: IAgent;
+
+  /**
+   * Number of most recent messages shown to the judge
+   * Default: 10
+   */
+  recentMessageCount?: number;
+}
+
+/**
+ * Weight each stance gives to agreeing with an issue
+ */
+const AGREEMENT_WEIGHTS: Record<Stance, number> = {
+  agree: 1,
+  partial: 0.5,
+  disagree: 0,
+  undecided: 0,
+};
+
+/**
+ * Tracks participants' stances on issues over the course of a dialogue
+ */
+export class StanceTracker {
+  private judge: IAgent;
+  private recentMessageCount: number;
+  private history: StanceSnapshot[] = [];
+
+  /**
+   * Create a new stance tracker
+   *
+   * @param config - Configuration for the tracker
+   */
+  constructor(config: StanceTrackerConfig) {
+    this.judge = config.judge;
+    this.recentMessageCount = config.recentMessageCount ?? 10;
+  }
+
+  /**
+   * Ask the judge for every participant's stance on every issue and record the matrix
+   * Stances the judge does not report carry over from the previous snapshot
+   *
+   * @param topic - Topic of the dialogue
+   * @param issues - Open issues to assess
+   * @param participants - Participants whose stances are assessed
+   * @param messages - Dialogue history
+   * @param turn - Turn that has just completed
+   * @returns The recorded snapshot
+   */
+  async track(
+    topic: string,
+    issues: StanceIssue[],
+    participants: DialogueParticipant[],
+    messages: DialogueMessage[],
+    turn: number
+  ): Promise<StanceSnapshot> {
+    const previous = this.history[this.history.length - 1]?.stances ?? {};
+    const judged = await this.judgeStances(topic, issues, participants, messages, previous);
+
+    const stances: Record<string, Record<string, StanceAssessment>> = {};
+
+    for (const participant of participants) {
+      stances[participant.id] = {};
+
+      for (const issue of issues) {
+        stances[participant.id][issue.id] = normalizeAssessment(judged[participant.id]?.[issue.id]) ??
+          previous[participant.id]?.[issue.id] ??
+          { stance: "undecided", confidence: 0, quote: "" };
+      }
+    }
+
+    const issueConsensus: Record<string, number> = {};
+
+    for (const issue of issues) {
+      issueConsensus[issue.id] = calculateIssueConsensus(
+        participants.map(p => stances[p.id][issue.id])
+      );
+    }
+
+    const levels = Object.values(issueConsensus);
+    const snapshot: StanceSnapshot = {
+      turn,
+      issues,
+      stances,
+      issueConsensus,
+      consensusLevel: levels.length > 0 ? levels.reduce((sum, level) => sum + level, 0) / levels.length : 0,
+    };
+
+    this.history.push(snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Get every snapshot recorded so far
+   *
+   * @returns Stance matrices in turn order
+   */
+  getHistory(): StanceSnapshot[] {
+    return this.history;
+  }
+
+  /**
+   * Replace the recorded snapshots, e.g. when restoring a checkpoint
+   *
+   * @param history - Stance matrices in turn order
+   */
+  setHistory(history: StanceSnapshot[]): void {
+    this.history = history;
+  }
+
+  /**
+   * Ask the judge for the stances shown in the dialogue so far
+   *
+   * @param topic - Topic of the dialogue
+   * @param issues - Open issues to assess
+   * @param participants - Participants whose stances are assessed
+   * @param messages - Dialogue history
+   * @param previous - Stances from the previous snapshot
+   * @returns Raw assessments keyed by participant ID then issue ID
+   */
+  private async judgeStances(
+    topic: string,
+    issues: StanceIssue[],
+    participants: DialogueParticipant[],
+    messages: DialogueMessage[],
+    previous: Record<string, Record<string, StanceAssessment>>
+  ): Promise<Record<string, Record<string, Partial<StanceAssessment>>>> {
+    const issueLines = issues.map(issue => `- ${issue.id}: ${issue.description}`).join("\n");
+    const participantLines = participants.map(p => `- ${p.id} (${p.name})`).join("\n");
+    const previousLines = Object.entries(previous).flatMap(([participantId, byIssue]) =>
+      Object.entries(byIssue).map(([issueId, assessment]) =>
+        `- ${participantId} on ${issueId}: ${assessment.stance} (${assessment.confidence})`
+      )
+    );
+    const transcript = messages
+      .slice(-this.recentMessageCount)
+      .map(m => `${m.participantId}: ${m.content}`)
+      .join("\n\n");
+
+    const prompt = `
+You are tracking where participants stand in a dialogue on: ${topic}
+
+Issues:
+${issueLines}
+
+Participants:
+${participantLines}
+
+Previous assessment:
+${previousLines.length > 0 ? previousLines.join("\n") : "(none)"}
+
+Recent dialogue:
+${transcript || "(no messages yet)"}
+
+For each participant and issue, judge whether the participant agrees, disagrees, partially agrees or is undecided,
+how confident you are (0.0 to 1.0), and quote the words that show it. Use "undecided" with an empty quote
+if the participant has not addressed the issue.
+
+Important: Your response must be formatted EXACTLY as follows (JSON object only, no other text):
+{"stances": {"<participant id>": {"<issue id>": {"stance": "agree", "confidence": 0.8, "quote": "..."}}}}
+    `;
+
+    const response = await this.judge.execute(prompt);
+
+    try {
+      // Extract JSON from response (in case model adds surrounding text)
+      const jsonMatch = response.match(/\{[\s\S]*\}/);
+      const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : response);
+
+      return parsed.stances && typeof parsed.stances === "object" ? parsed.stances : {};
+    } catch (error) {
+      console.error("Error parsing stance response:", error);
+      return {};
+    }
+  }
+}
+
+/**
+ * Validate a raw assessment from the judge
+ *
+ * @param raw - Assessment as reported by the judge
+ * @returns The assessment with its confidence clamped, or undefined if it is malformed
+ */
+function normalizeAssessment(raw?: Partial<StanceAssessment>): StanceAssessment | undefined {
+  if (!raw || !raw.stance || !(raw.stance in AGREEMENT_WEIGHTS)) {
+    return undefined;
+  }
+
+  const confidence = Number(raw.confidence);
+
+  return {
+    stance: raw.stance,
+    confidence: Number.isFinite(confidence) ? Math.max(0, Math.min(1, confidence)) : 0.5,
+    quote: String(raw.quote ?? ""),
+  };
+}
+
+/**
+ * Calculate how far participants agree with an issue
+ * Agreement is weighted by confidence and partial agreement counts half; disagreeing
+ * and undecided participants add nothing, so shared rejection is not consensus
+ *
+ * @param assessments - Each participant's assessment on the issue
+ * @returns Consensus level (0.0 to 1.0)
+ */
+export function calculateIssueConsensus(assessments: StanceAssessment[]): number {
+  if (assessments.length === 0) {
+    return 0;
+  }
+
+  const agreement = assessments.reduce(
+    (sum, assessment) => sum + assessment.confidence * AGREEMENT_WEIGHTS[assessment.stance],
+    0
+  );
+
+  return agreement / assessments.length;
+}
+
+/**
+ * Create a new stance tracker
+ *
+ * @param config - Configuration for the tracker
+ * @returns New stance tracker
+ */
+export function createStanceTracker(config: StanceTrackerConfig): StanceTracker {
+  return new StanceTracker(config);
+}
@@ -0,0 +1,86 @@
+/**
+ * Tests for argument map extraction
+ *
+ * Verifies extraction from debate transcripts and the Mermaid and DOT renderings.
+ */
+
+import { assert, assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import {
+  createArgumentMapAnalyzer,
+  renderArgumentMapDot,
+  renderArgumentMapMarkdown,
+  renderArgumentMapMermaid
+} from "../argument_map.ts";
+import { DebateWorkflowResult } from "../debate_workflow.ts";
+
+const result = {
+  topic: "Remote work",
+  participantRoles: { mod: "moderator", alice: "position_advocate", bob: "position_advocate" },
+  messages: [
+    { participantId: "mod", content: "Welcome.", timestamp: 0 },
+    { participantId: "alice", content: "Remote work helps.", timestamp: 1, metadata: { turnNumber: 1 } },
+    { participantId: "bob", content: "It hurts mentoring.", timestamp: 2, metadata: { turnNumber: 2 } },
+  ],
+} as unknown as DebateWorkflowResult;
+
+// Analyzer that maps each advocate's message to fixed elements
+const extractions: Record<string, unknown> = {
+  "Remote work helps.": {
+    nodes: [
+      { key: "a", type: "claim", text: "Remote work raises\n  productivity" },
+      { key: "b", type: "evidence", text: "A \"2023\" survey found gains" },
+    ],
+    relations: [{ from: "b", to: "a", type: "supports" }],
+  },
+  "It hurts mentoring.": {
+    nodes: [{ key: "a", type: "premise", text: "Juniors learn less remotely" }, { key: "x", type: "opinion", text: "?" }],
+    relations: [{ from: "a", to: "n1", type: "rebuts" }, { from: "a", to: "n99", type: "rebuts" }],
+  },
+};
+
+Deno.test("ArgumentMapAnalyzer - links elements and relations to their messages", async () => {
+  const prompts: string[] = [];
+  const analyzer = createArgumentMapAnalyzer({
+    analyzer: {
+      id: "mapper",
+      execute: (input: string) => {
+        prompts.push(input);
+        const message = Object.keys(extractions).find(content => input.includes(content))!;
+        return Promise.resolve(JSON.stringify(extractions[message]));
+      },
+    },
+  });
+
+  const map = await analyzer.analyze(result);
+
+  // The moderator's message is skipped
+  assertEquals(prompts.length, 2);
+  assert(prompts[1].includes("n1 [claim, alice]: Remote work raises productivity"));
+
+  assertEquals(map.nodes.map(n => [n.id, n.type, n.participantId, n.messageIndex, n.turnNumber]), [
+    ["n1", "claim", "alice", 1, 1],
+    ["n2", "evidence", "alice", 1, 1],
+    ["n3", "premise", "bob", 2, 2],
+  ]);
+
+  // Malformed elements and relations to unknown nodes are dropped
+  assertEquals(map.edges, [
+    { from: "n2", to: "n1", type: "supports", messageIndex: 1 },
+    { from: "n3", to: "n1", type: "rebuts", messageIndex: 2 },
+  ]);
+
+  const mermaid = renderArgumentMapMermaid(map);
+  assert(mermaid.startsWith("flowchart BT"));
+  assert(mermaid.includes(`n2[["EVIDENCE (alice): A #quot;2023#quot; survey found gains"]]`));
+  assert(mermaid.includes("n3 -.->|rebuts| n1"));
+  assert(mermaid.includes(`n1["CLAIM (alice): Remote work raises productivity"]`));
+
+  const markdown = renderArgumentMapMarkdown(map);
+  assert(markdown.startsWith("## Argument Map\n\n```mermaid\nflowchart BT"));
+  assert(markdown.endsWith("- **n3** (premise, bob, message 3): Juniors learn less remotely"));
+  assert(markdown.includes("- **n1** (claim, alice, message 2): Remote work raises productivity\n"));
+
+  const dot = renderArgumentMapDot(map);
+  assert(dot.includes(`n2 [label="EVIDENCE (alice): A \\"2023\\" survey found gains", shape=note];`));
+  assert(dot.includes(`n3 -> n1 [label="rebuts", color=red, style=dashed];`));
+});
@@ -0,0 +1,129 @@
+/**
+ * Tests for workflow checkpoints
+ *
+ * Verifies that workflows can be paused, checkpointed and resumed.
+ */
+
+import { assertEquals, assertThrows } from "https://deno.land/std/testing/asserts.ts";
+import { createDialogueWorkflow } from "../dialogue_workflow.ts";
+import { createConsensusWorkflow } from "../consensus_workflow.ts";
+import {
+  parseCheckpoint,
+  serializeCheckpoint,
+  WorkflowCheckpoint
+} from "../checkpoint.ts";
+import {
+  createDialogueParticipant,
+  DialogueParticipant
+} from "../../participants/dialogue_participant.ts";
+
+// Mock participants for testing
+const createParticipants = (): DialogueParticipant[] =>
+  ["alice", "bob"].map(id =>
+    createDialogueParticipant(
+      {
+        id,
+        name: id,
+        agentConfig: { id, model: "test" },
+        motivations: { curiosity: 0.5 },
+      },
+      {
+        id: `${id}-agent`,
+        execute: (input: string) => Promise.resolve(`${id} turn ${input.length}`),
+      }
+    )
+  );
+
+Deno.test("DialogueWorkflow - pauses and resumes from a serialized checkpoint", async () => {
+  const checkpoints: WorkflowCheckpoint[] = [];
+  const original = createDialogueWorkflow("Testing", createParticipants(), {
+    maxTurns: 4,
+    checkpointHandler: checkpoint => {
+      checkpoints.push(checkpoint);
+    },
+  });
+
+  original.pause();
+  const paused = await original.run();
+
+  assertEquals(paused.endReason, "paused");
+  assertEquals(paused.messages.length, 1);
+  assertEquals(checkpoints.length, 1);
+
+  // Change participant state after the checkpoint was taken
+  const participants = createParticipants();
+  participants[0].updateMotivations({ curiosity: 0.9 });
+
+  const checkpoint = parseCheckpoint(serializeCheckpoint(checkpoints[0]));
+  const resumed = createDialogueWorkflow("Testing", participants, { maxTurns: 4 });
+  resumed.restoreCheckpoint(checkpoint);
+
+  assertEquals(participants[0].getMotivations(), { curiosity: 0.5 });
+
+  const result = await resumed.run();
+
+  assertEquals(result.id, paused.id);
+  assertEquals(result.endReason, "max_turns_reached");
+  assertEquals(result.messages.length, 5);
+  assertEquals(result.messages[0].content, paused.messages[0].content);
+  assertEquals(
+    result.messages.map(m => m.metadata?.turnNumber),
+    [0, 1, 2, 3, 4]
+  );
+});
+
+Deno.test("DialogueWorkflow - checkpoints the final turn", async () => {
+  const checkpoints: WorkflowCheckpoint[] = [];
+  const original = createDialogueWorkflow("Testing", createParticipants(), {
+    maxTurns: 2,
+    checkpointHandler: checkpoint => {
+      checkpoints.push(checkpoint);
+    },
+  });
+
+  const result = await original.run();
+
+  assertEquals(checkpoints.length, 3);
+  assertEquals(checkpoints[2].dialogue.messages.length, result.messages.length);
+
+  // Resuming from the final checkpoint runs no further turns
+  const resumed = createDialogueWorkflow("Testing", createParticipants(), { maxTurns: 2 });
+  resumed.restoreCheckpoint(checkpoints[2]);
+
+  const resumedResult = await resumed.run();
+  assertEquals(resumedResult.endReason, "max_turns_reached");
+  assertEquals(resumedResult.messages.length, 3);
+});
+
+Deno.test("DialogueWorkflow - does not count paused time toward the duration", async () => {
+  const workflow = createDialogueWorkflow("Testing", createParticipants(), {
+    maxTurns: 4,
+    maxDuration: 100,
+  });
+
+  workflow.pause();
+  await workflow.run();
+  await new Promise(resolve => setTimeout(resolve, 150));
+
+  assertEquals(workflow.createCheckpoint().dialogue.elapsed < 100, true);
+
+  const result = await workflow.run();
+  assertEquals(result.endReason, "max_turns_reached");
+  assertEquals(result.duration < 100, true);
+});
+
+Deno.test("DialogueWorkflow - rejects incompatible checkpoints", () => {
+  const checkpoint = createDialogueWorkflow("Testing", createParticipants())
+    .createCheckpoint();
+
+  const consensus = createConsensusWorkflow("Testing", createParticipants());
+  assertThrows(() => consensus.restoreCheckpoint(checkpoint), Error, "dialogue checkpoint");
+
+  const strangers = createDialogueWorkflow(
+    "Testing",
+    createParticipants().map(p => ({ ...p, id: `other-${p.id}` }))
+  );
+  assertThrows(() => strangers.restoreCheckpoint(checkpoint), Error, "not found");
+
+  assertThrows(() => parseCheckpoint(JSON.stringify({ ...checkpoint, version: 99 })));
+});
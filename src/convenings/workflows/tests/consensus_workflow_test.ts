@@ -0,0 +1,129 @@
+/**
+ * Tests for the consensus workflow
+ *
+ * Verifies move extraction, ratification of amendments, standing objections
+ * and drafting of the consensus statement.
+ */
+
+import { assert, assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { createConsensusWorkflow, parseConsensusMoves } from "../consensus_workflow.ts";
+import { DialogueParticipant } from "../dialogue_workflow.ts";
+
+// Participants that send scripted messages in turn
+const createParticipants = (scripts: Record<string, string[]>, prompts: string[]): DialogueParticipant[] =>
+  Object.entries(scripts).map(([id, script]) => ({
+    id,
+    name: id,
+    agent: {
+      id: `${id}-agent`,
+      execute: (input: string) => {
+        prompts.push(input);
+        return Promise.resolve(script.shift() ?? "Nothing to add.");
+      },
+    },
+  }));
+
+Deno.test("parseConsensusMoves - extracts proposals, amendments and votes", () => {
+  const moves = parseConsensusMoves(
+    "I have thoughts.\n- PROPOSE: Meet weekly\n**AMEND p1:** Meet monthly\nvote P2: Object - too slow\nVOTE P3: maybe"
+  );
+
+  assertEquals(moves, [
+    { action: "propose", text: "Meet weekly" },
+    { action: "amend", proposalId: "P1", text: "Meet monthly" },
+    { action: "vote", proposalId: "P2", vote: "object", reason: "too slow" },
+  ]);
+});
+
+Deno.test("ConsensusWorkflow - ratifies an amendment and keeps standing objections", async () => {
+  const prompts: string[] = [];
+  const participants = createParticipants({
+    a: ["PROPOSE: Meet weekly", "VOTE P2: OBJECT: I still prefer weekly"],
+    b: ["VOTE P1: OBJECT - weekly is too often\nAMEND P1: Meet every two weeks"],
+    c: ["VOTE P2: SUPPORT - a fair compromise\nVOTE P1: ABSTAIN"],
+  }, prompts);
+
+  const workflow = createConsensusWorkflow("Team meetings", participants, {
+    maxTurns: 8,
+    consensusThreshold: 0.6,
+    requiredStableTurns: 1,
+  });
+
+  const result = await workflow.run();
+
+  // The ratified amendment supersedes the original, so the late vote on P1 is ignored
+  assertEquals(result.proposals.map(p => [p.id, p.status, p.amends]), [
+    ["P1", "superseded", undefined],
+    ["P2", "ratified", "P1"],
+  ]);
+  assertEquals(result.messages[2].metadata?.consensusMoves, [
+    { action: "vote", proposalId: "P2", vote: "support", reason: "a fair compromise" },
+  ]);
+
+  const objection = { proposalId: "P2", participantId: "a", reason: "I still prefer weekly" };
+  assertEquals(result.adoptedProposals, [{
+    proposalId: "P2",
+    text: "Meet every two weeks",
+    tally: { support: 2, object: 1, abstain: 0, notVoted: 0 },
+    objections: [objection],
+  }]);
+  assertEquals(result.standingObjections, [objection]);
+
+  assertEquals(result.consensusPoints, [{
+    description: "Meet every two weeks",
+    confidence: 2 / 3,
+    supportingParticipants: ["b", "c"],
+    identifiedAtTurn: 2,
+  }]);
+  assertEquals(result.consensusReached, true);
+
+  // Prompts show the live proposals with the participant's own vote
+  assert(prompts[3].includes("- P2 [ratified, amends P1]: Meet every two weeks"));
+  assert(prompts[3].includes("your vote: none"));
+});
+
+Deno.test("ConsensusWorkflow - drafts a statement and revises it once after a dissent", async () => {
+  const reviews = [
+    { decision: "dissent", comment: "It omits the remote option" },
+    { decision: "sign", comment: "Fair now" },
+  ];
+  const participants: DialogueParticipant[] = [
+    {
+      id: "a",
+      name: "a",
+      agent: {
+        id: "a-agent",
+        execute: (input: string) => Promise.resolve(
+          input.includes("revising") ? "We meet every two weeks, remotely if needed." :
+          input.includes("drafting") ? "We meet every two weeks." :
+          "PROPOSE: Meet every two weeks"
+        ),
+      },
+    },
+    {
+      id: "b",
+      name: "b",
+      agent: {
+        id: "b-agent",
+        execute: (input: string) => Promise.resolve(
+          input.includes("reviewing") ? JSON.stringify(reviews.shift()) : "VOTE P1: SUPPORT - agreed"
+        ),
+      },
+    },
+  ];
+
+  const result = await createConsensusWorkflow("Team meetings", participants, {
+    maxTurns: 2,
+    drafterId: "a",
+  }).run();
+
+  const document = result.consensusDocument!;
+  assertEquals(document.versions.map(v => [v.version, v.reviews.map(r => r.decision)]), [
+    [1, ["sign", "dissent"]],
+    [2, ["sign", "sign"]],
+  ]);
+  assertEquals(document.version, 2);
+  assertEquals(document.text, "We meet every two weeks, remotely if needed.");
+  assertEquals(document.signatories, ["a", "b"]);
+  assertEquals(document.dissents, []);
+});
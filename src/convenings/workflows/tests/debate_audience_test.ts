@@ -0,0 +1,87 @@
+/**
+ * Tests for audience polling in Oxford-style debates
+ *
+ * Verifies the polls around the debate, the swing and the stance changes.
+ */
+
+import { assert, assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { createDebateWorkflow } from "../debate_workflow.ts";
+import {
+  AudienceVote,
+  createAudienceMember,
+  createDebateModerator,
+  createDebateParticipant
+} from "../../participants/debate_participant.ts";
+
+// Audience member who votes one way before the debate and another after it
+const createMember = (id: string, prior: AudienceVote, after: AudienceVote, prompts: string[]) =>
+  createAudienceMember(
+    { id, name: id, agentConfig: { id, model: "test" }, persona: `${id} persona`, prior },
+    {
+      id: `${id}-agent`,
+      execute: (input: string) => {
+        prompts.push(input);
+        const heard = input.includes("Debate transcript");
+        return Promise.resolve(JSON.stringify({
+          vote: heard ? after : prior,
+          reason: heard ? `${id} was moved` : `${id} starts ${prior}`,
+        }));
+      },
+    }
+  );
+
+Deno.test("DebateWorkflow - polls the audience before and after an Oxford debate", async () => {
+  const prompts: string[] = [];
+  const advocates = ["prop1", "opp1", "prop2", "opp2"].map(id =>
+    createDebateParticipant(
+      {
+        id,
+        name: id,
+        agentConfig: { id, model: "test" },
+        debateRole: "position_advocate",
+        position: `${id}'s position`,
+      },
+      { id: `${id}-agent`, execute: () => Promise.resolve(`${id} speaks.`) }
+    )
+  );
+
+  const workflow = createDebateWorkflow(
+    "This house would test everything",
+    [
+      createDebateModerator(
+        { id: "mod", name: "Moderator", agentConfig: { id: "mod", model: "test" } },
+        { id: "mod-agent", execute: () => Promise.resolve("Moderator speaks.") }
+      ),
+      ...advocates,
+      createMember("ann", "against", "for", prompts),
+      createMember("ben", "undecided", "for", prompts),
+      createMember("cat", "for", "against", prompts),
+    ],
+    { formatDefinition: "oxford", maxTurns: 100, scoringEnabled: false, showProgress: false }
+  );
+
+  const result = await workflow.run();
+  const poll = result.audiencePoll!;
+
+  assertEquals(poll.before, { for: 1, against: 1, undecided: 1 });
+  assertEquals(poll.after, { for: 2, against: 1, undecided: 0 });
+  assertEquals(Math.round(poll.swing!.for), 33);
+  assertEquals(poll.swing!.against, 0);
+  assertEquals(poll.winner, "for");
+  assertEquals(poll.winnerIds, ["prop1", "prop2"]);
+
+  assertEquals(poll.changes[0], {
+    memberId: "ann",
+    persona: "ann persona",
+    before: "against",
+    reasonBefore: "ann starts against",
+    after: "for",
+    reasonAfter: "ann was moved",
+    changed: true,
+  });
+
+  // Each member is polled twice, the second time with the closing speeches in the transcript
+  assertEquals(prompts.length, 6);
+  assert(!prompts[0].includes("prop1 speaks."));
+  assert(prompts[5].includes("opp2 speaks."));
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for the debate cross-examination phase
+ *
+ * Verifies question and answer pairs, relevance redirects and scoring context.
+ */
+
+import { assert, assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { createDebateWorkflow, DebatePhase } from "../debate_workflow.ts";
+import {
+  createDebateModerator,
+  createDebateParticipant
+} from "../../participants/debate_participant.ts";
+
+// Advocates that ask scripted questions, with Bob evading his first question
+const createParticipants = (scoringPrompts: string[] = []) => {
+  let bobAnswers = 0;
+
+  const advocate = (id: string) =>
+    createDebateParticipant(
+      {
+        id,
+        name: id,
+        agentConfig: { id, model: "test" },
+        debateRole: "position_advocate",
+        position: `${id}'s position`,
+      },
+      {
+        id: `${id}-agent`,
+        execute: (input: string) => {
+          if (input.includes("You are being cross-examined")) {
+            if (id === "bob" && bobAnswers++ === 0) {
+              return Promise.resolve("Let me tell you about the weather.");
+            }
+            return Promise.resolve(`${id} answers directly.`);
+          }
+          if (input.includes("This is cross-examination")) {
+            return Promise.resolve(`${id} asks a question?`);
+          }
+          return Promise.resolve(`${id} speaks.`);
+        },
+      }
+    );
+
+  const moderator = createDebateModerator(
+    { id: "mod", name: "Moderator", agentConfig: { id: "mod", model: "test" } },
+    {
+      id: "mod-agent",
+      execute: (input: string) => {
+        if (input.includes("directly addresses the question")) {
+          const relevant = !input.includes("weather");
+          return Promise.resolve(`{"relevant": ${relevant}, "reason": "Off topic"}`);
+        }
+        if (input.includes("You are evaluating an argument")) {
+          scoringPrompts.push(input);
+          return Promise.resolve("{}");
+        }
+        if (input.includes("did not directly answer")) {
+          return Promise.resolve("Please answer the question.");
+        }
+        return Promise.resolve("Moderator speaks.");
+      },
+    }
+  );
+
+  return [moderator, advocate("alice"), advocate("bob")];
+};
+
+Deno.test("DebateWorkflow - cross-examination redirects irrelevant answers", async () => {
+  const workflow = createDebateWorkflow("Testing", createParticipants(), {
+    maxTurns: 100,
+    roundCount: 1,
+    scoringEnabled: false,
+    roundSummariesEnabled: false,
+    showProgress: false,
+    crossExaminationEnabled: true,
+    crossExaminationQuestions: 1,
+  });
+
+  const result = await workflow.run();
+
+  assertEquals(result.debateCompleted, true);
+  assertEquals(result.crossExaminations.length, 2);
+
+  const [aliceAsks, bobAsks] = result.crossExaminations;
+  assertEquals(aliceAsks.examinerId, "alice");
+  assertEquals(aliceAsks.witnessId, "bob");
+  assertEquals(aliceAsks.answer, "bob answers directly.");
+  assertEquals(aliceAsks.answerRelevant, true);
+  assertEquals(aliceAsks.irrelevantAnswers, ["Let me tell you about the weather."]);
+  assertEquals(aliceAsks.rulings, ["Please answer the question."]);
+  assertEquals(bobAsks.answer, "alice answers directly.");
+  assertEquals(bobAsks.rulings, []);
+
+  const kinds = result.messages
+    .filter(m => m.metadata?.debatePhase === DebatePhase.CROSS_EXAMINATION)
+    .map(m => (m.metadata?.crossExamination as { kind: string } | undefined)?.kind);
+  assertEquals(kinds, [
+    undefined, "question", "answer", "ruling", "answer",
+    undefined, "question", "answer",
+  ]);
+});
+
+Deno.test("DebateWorkflow - cross-examination is included in scoring context", async () => {
+  const scoringPrompts: string[] = [];
+  const workflow = createDebateWorkflow("Testing", createParticipants(scoringPrompts), {
+    maxTurns: 100,
+    roundCount: 1,
+    roundSummariesEnabled: false,
+    showProgress: false,
+    crossExaminationEnabled: true,
+    crossExaminationQuestions: 1,
+    crossExaminationMaxRedirects: 0,
+  });
+
+  const result = await workflow.run();
+
+  // Without redirects the evasive answer stands
+  assertEquals(result.crossExaminations[0].answer, "Let me tell you about the weather.");
+  assertEquals(result.crossExaminations[0].answerRelevant, false);
+
+  assert(scoringPrompts.length > 0);
+  assert(scoringPrompts.every(p => p.includes("Cross-examination exchanges")));
+  assert(scoringPrompts.some(p => p.includes("[ruled not responsive]")));
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for debate fact-checking
+ *
+ * Verifies claim verdicts, fact-check turns and their effect on scoring.
+ */
+
+import { assert, assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { createDebateWorkflow } from "../debate_workflow.ts";
+import {
+  createDebateModerator,
+  createDebateParticipant,
+  createFactChecker
+} from "../../participants/debate_participant.ts";
+
+const evidence = [
+  {
+    id: "census",
+    title: "Census Report",
+    content: "The city population reached two million residents in 2020. Growth has slowed since.",
+  },
+  {
+    id: "transit",
+    source: "Transit Authority",
+    content: "Ridership on city buses fell sharply during 2021.",
+  },
+];
+
+// Fact-checker that finds one supported and one unverifiable claim in every argument
+const createChecker = () =>
+  createFactChecker(
+    { id: "checker", name: "Checker", agentConfig: { id: "checker", model: "test" }, evidence },
+    {
+      id: "checker-agent",
+      execute: (input: string) =>
+        Promise.resolve(
+          input.includes("Extract up to")
+            ? `{"claims": ["The city population reached two million in 2020", "Unicorns ride the metro"]}`
+            : `{"verdict": "supported", "explanation": "Census data agrees", "citations": ["census"]}`
+        ),
+    }
+  );
+
+const createParticipants = (scoringPrompts: string[] = []) => [
+  createDebateModerator(
+    { id: "mod", name: "Moderator", agentConfig: { id: "mod", model: "test" } },
+    {
+      id: "mod-agent",
+      execute: (input: string) => {
+        if (input.includes("You are evaluating an argument")) {
+          scoringPrompts.push(input);
+          return Promise.resolve(`{"evidence_quality": {"score": 4, "justification": "Thin"}}`);
+        }
+        return Promise.resolve("Moderator speaks.");
+      },
+    }
+  ),
+  ...["alice", "bob"].map(id =>
+    createDebateParticipant(
+      {
+        id,
+        name: id,
+        agentConfig: { id, model: "test" },
+        debateRole: "position_advocate",
+        position: `${id}'s position`,
+      },
+      { id: `${id}-agent`, execute: () => Promise.resolve(`${id} speaks.`) }
+    )
+  ),
+  createChecker(),
+];
+
+Deno.test("FactCheckerParticipant - cites corpus evidence and flags unsupported claims", async () => {
+  const report = await createChecker().factCheck("alice", "The city hit two million people.");
+
+  assertEquals(report.checkerId, "checker");
+  assertEquals(report.speakerId, "alice");
+  assertEquals(report.claims.map(c => c.verdict), ["supported", "unverifiable"]);
+  assertEquals(report.claims[0].citations, [{
+    sourceId: "census",
+    source: "Census Report",
+    excerpt: "The city population reached two million residents in 2020.",
+  }]);
+  assertEquals(report.claims[1].citations, []);
+});
+
+Deno.test("DebateWorkflow - fact-checks arguments and blends verdicts into scoring", async () => {
+  const scoringPrompts: string[] = [];
+  const workflow = createDebateWorkflow("Testing", createParticipants(scoringPrompts), {
+    maxTurns: 100,
+    roundCount: 1,
+    roundSummariesEnabled: false,
+    showProgress: false,
+  });
+
+  const result = await workflow.run();
+
+  assertEquals(result.debateCompleted, true);
+  // Arguments and rebuttals are both checked by default
+  assertEquals(result.factChecks.map(r => r.speakerId), ["alice", "bob", "bob", "alice"]);
+
+  // Each report directly follows the argument it checks
+  result.messages.forEach((m, i) => {
+    if (m.participantId === "checker") {
+      const speakerId = (m.metadata?.factCheck as { speakerId: string }).speakerId;
+      assertEquals(result.messages[i - 1].participantId, speakerId);
+    }
+  });
+  const factCheckMessage = result.messages.find(m => m.participantId === "checker")!;
+  assertEquals(
+    (factCheckMessage.metadata?.factCheck as { verdicts: string[] }).verdicts,
+    ["supported", "unverifiable"]
+  );
+  assert(factCheckMessage.content.includes("SUPPORTED"));
+  assert(factCheckMessage.content.includes("[Sources: Census Report]"));
+
+  // Verdicts score (10 + 5) / 2 = 7.5, averaged with the moderator's 4
+  assert(scoringPrompts.every(p => p.includes("Fact-check verdicts")));
+  assertEquals(result.scores.alice.breakdown.evidence_quality.raw, 5.75);
+});
@@ -0,0 +1,210 @@
+/**
+ * Tests for debate format definitions
+ *
+ * Verifies format validation, the registry and format-driven debates.
+ */
+
+import { assertEquals, assertThrows } from "https://deno.land/std/testing/asserts.ts";
+import { createDebateWorkflow } from "../debate_workflow.ts";
+import {
+  BUILT_IN_DEBATE_FORMATS,
+  createDebateFormatRegistry,
+  DebateFormatDefinition,
+  DebatePhase,
+  validateDebateFormat
+} from "../debate_formats.ts";
+import {
+  createDebateModerator,
+  createDebateParticipant
+} from "../../participants/debate_participant.ts";
+
+// Moderator and advocates that answer every prompt with a fixed line
+const createParticipants = (advocateIds: string[], prompts: string[] = []) => [
+  createDebateModerator(
+    { id: "mod", name: "Moderator", agentConfig: { id: "mod", model: "test" } },
+    {
+      id: "mod-agent",
+      execute: (input: string) =>
+        Promise.resolve(
+          input.includes("directly addresses the question")
+            ? `{"relevant": true, "reason": "Answered"}`
+            : "Moderator speaks."
+        ),
+    }
+  ),
+  ...advocateIds.map(id =>
+    createDebateParticipant(
+      {
+        id,
+        name: id,
+        agentConfig: { id, model: "test" },
+        debateRole: "position_advocate",
+        position: `${id}'s position`,
+      },
+      {
+        id: `${id}-agent`,
+        execute: (input: string) => {
+          prompts.push(`${id}> ${input}`);
+          return Promise.resolve(`${id} speaks.`);
+        },
+      }
+    )
+  ),
+];
+
+const customFormat: DebateFormatDefinition = {
+  id: "quick_clash",
+  name: "Quick Clash",
+  description: "One exchange of speeches and a summary",
+  advocateCount: 2,
+  speakerRoles: ["Pro", "Con"],
+  phases: [
+    {
+      id: "speeches",
+      name: "Speeches",
+      kind: DebatePhase.ARGUMENT_ROUNDS,
+      rounds: 2,
+      promptTemplate: "As {role}, argue about {topic} in round {round} of {rounds}.",
+      turns: [
+        { speaker: 0, action: "argument" },
+        { speaker: 1, action: "rebuttal", target: 0 },
+      ],
+    },
+    {
+      id: "summary",
+      name: "Debate Summary",
+      kind: DebatePhase.SUMMARY,
+      turns: [{ speaker: "moderator", action: "conclusion" }],
+    },
+  ],
+};
+
+Deno.test("DebateFormatRegistry - holds the built-in formats and registers custom ones", () => {
+  const registry = createDebateFormatRegistry();
+
+  assertEquals(
+    registry.list().map(f => f.id),
+    ["oxford", "lincoln_douglas", "british_parliamentary", "karl_popper"]
+  );
+
+  registry.register(customFormat);
+  assertEquals(registry.get("quick_clash"), customFormat);
+  assertThrows(() => registry.register(customFormat), Error, "already registered");
+
+  // Every built-in format is well formed
+  BUILT_IN_DEBATE_FORMATS.forEach(validateDebateFormat);
+});
+
+Deno.test("validateDebateFormat - rejects answers that do not follow a question", () => {
+  const invalid: DebateFormatDefinition = {
+    ...customFormat,
+    phases: [{
+      id: "questions",
+      name: "Questions",
+      kind: DebatePhase.CROSS_EXAMINATION,
+      turns: [
+        { speaker: 0, action: "question", target: 1 },
+        { speaker: 0, action: "answer" },
+      ],
+    }],
+  };
+
+  assertThrows(() => validateDebateFormat(invalid), Error, "does not follow a question");
+});
+
+Deno.test("DebateWorkflow - follows a registered format by id", async () => {
+  const workflow = createDebateWorkflow("Testing", createParticipants(["aff", "neg"]), {
+    formatDefinition: "lincoln_douglas",
+    maxTurns: 100,
+    scoringEnabled: false,
+    showProgress: false,
+  });
+
+  const result = await workflow.run();
+
+  assertEquals(result.debateCompleted, true);
+  assertEquals(result.formatId, "lincoln_douglas");
+  assertEquals(result.completedRounds, 1);
+  assertEquals(
+    result.crossExaminations.map(e => `${e.examinerId}>${e.witnessId}`),
+    ["neg>aff", "neg>aff", "neg>aff", "aff>neg", "aff>neg", "aff>neg"]
+  );
+  assertEquals(
+    result.messages.filter(m => m.metadata?.speech).map(m => m.metadata?.speech),
+    [
+      "Affirmative Constructive",
+      "Negative Constructive",
+      "First Affirmative Rebuttal",
+      "Negative Rebuttal",
+      "Second Affirmative Rebuttal",
+    ]
+  );
+});
+
+Deno.test("DebateWorkflow - follows a custom format and fills its prompt templates", async () => {
+  const prompts: string[] = [];
+  const workflow = createDebateWorkflow("Testing", createParticipants(["pro", "con"], prompts), {
+    formatDefinition: customFormat,
+    maxTurns: 100,
+    scoringEnabled: false,
+    showProgress: false,
+  });
+
+  const result = await workflow.run();
+
+  assertEquals(result.completedRounds, 2);
+  assertEquals(
+    result.messages.map(m => `${m.metadata?.formatPhase}:${m.participantId}`),
+    ["speeches:pro", "speeches:con", "speeches:pro", "speeches:con", "summary:mod"]
+  );
+  const proPrompts = prompts.filter(p => p.startsWith("pro> "));
+  assertEquals(proPrompts.length, 2);
+  assertEquals(proPrompts[1].includes("As Pro, argue about Testing in round 2 of 2."), true);
+});
+
+Deno.test("DebateWorkflow - announces each format phase, even of the same kind", async () => {
+  const [speeches, summary] = customFormat.phases;
+  const workflow = createDebateWorkflow("Testing", createParticipants(["pro", "con"]), {
+    formatDefinition: {
+      ...customFormat,
+      phases: [
+        { ...speeches, rounds: 1 },
+        { ...speeches, id: "replies", name: "Replies" },
+        summary,
+      ],
+    },
+    maxTurns: 100,
+    scoringEnabled: false,
+    showProgress: false,
+  });
+  const entered: Array<string | undefined> = [];
+  workflow.events.on("phase-changed", event => {
+    if (event.type === "phase-changed") {
+      entered.push(event.phaseName);
+    }
+  });
+
+  await workflow.run();
+
+  assertEquals(entered, ["Replies", "Debate Summary", undefined]);
+});
+
+Deno.test("DebateWorkflow - rejects formats the participants cannot fill", () => {
+  assertThrows(
+    () => createDebateWorkflow("Testing", createParticipants(["a", "b"]), {
+      formatDefinition: "british_parliamentary",
+      showProgress: false,
+    }),
+    Error,
+    "requires 8 position advocates"
+  );
+
+  assertThrows(
+    () => createDebateWorkflow("Testing", createParticipants(["a", "b"]), {
+      formatDefinition: "unknown",
+      showProgress: false,
+    }),
+    Error,
+    "Unknown debate format"
+  );
+});
@@ -0,0 +1,185 @@
+/**
+ * Tests for debate tournaments
+ *
+ * Verifies scheduling, side swapping, standings and rating updates.
+ */
+
+import { assert, assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import {
+  createDebateTournament,
+  createRoundRobinSchedule,
+  TournamentDebater,
+  updateElo,
+  updateGlicko
+} from "../debate_tournament.ts";
+import {
+  createDebateModerator,
+  createDebateParticipant
+} from "../../participants/debate_participant.ts";
+
+// Debaters whose every argument earns a fixed score
+const strength: Record<string, number> = { strong: 9, middle: 6, weak: 3 };
+
+const debaters: TournamentDebater[] = Object.keys(strength).map(id => ({ id, name: id }));
+
+const createTournament = (pairing: "round_robin" | "swiss", failingId?: string) =>
+  createDebateTournament({
+    debaters,
+    motions: [
+      { topic: "Motion one", affirmative: "For one", negative: "Against one" },
+      { topic: "Motion two", affirmative: "For two", negative: "Against two" },
+    ],
+    pairing,
+    showProgress: false,
+    debateConfig: { maxTurns: 100, roundCount: 1, roundSummariesEnabled: false },
+    createAdvocate: (debater, position) =>
+      createDebateParticipant(
+        {
+          id: debater.id,
+          name: debater.name,
+          agentConfig: { id: debater.id, model: "test" },
+          debateRole: "position_advocate",
+          position,
+        },
+        {
+          id: `${debater.id}-agent`,
+          execute: () => debater.id === failingId
+            ? Promise.reject(new Error("Model unavailable"))
+            : Promise.resolve(`${debater.id} argues.`),
+        }
+      ),
+    createModerator: () =>
+      createDebateModerator(
+        { id: "mod", name: "Moderator", agentConfig: { id: "mod", model: "test" } },
+        {
+          id: "mod-agent",
+          execute: (input: string) => {
+            const speaker = Object.keys(strength).find(id => input.includes(`evaluate: ${id} argues.`));
+            return Promise.resolve(
+              speaker
+                ? JSON.stringify({ persuasiveness: { score: strength[speaker], justification: "" } })
+                : "Moderator speaks."
+            );
+          },
+        }
+      ),
+  });
+
+Deno.test("createRoundRobinSchedule - pairs everyone once with byes for odd counts", () => {
+  const schedule = createRoundRobinSchedule(["a", "b", "c"]);
+
+  assertEquals(schedule.length, 3);
+  const pairs = schedule.flat().filter(([, second]) => second).map(p => [...p].sort().join());
+  assertEquals(pairs.sort(), ["a,b", "a,c", "b,c"]);
+  assertEquals(schedule.flat().filter(([, second]) => !second).length, 3);
+});
+
+Deno.test("updateElo and updateGlicko - move ratings toward the result", () => {
+  assertEquals(updateElo(1500, 1500, 1), [1516, 1484]);
+  assertEquals(updateElo(1500, 1500, 0.5), [1500, 1500]);
+
+  const updated = updateGlicko({ rating: 1500, deviation: 200 }, { rating: 1400, deviation: 30 }, 1);
+  assert(updated.rating > 1500);
+  assert(updated.deviation < 200);
+});
+
+Deno.test("DebateTournament - plays a round robin with swapped sides", async () => {
+  const result = await createTournament("round_robin").run();
+
+  assertEquals(result.rounds, 3);
+  assertEquals(result.matches.length, 6);
+  assertEquals(result.standings.map(s => s.debaterId), ["strong", "middle", "weak"]);
+  assertEquals(result.standings.map(s => [s.wins, s.losses, s.byes]), [[4, 0, 1], [2, 2, 1], [0, 4, 1]]);
+  assertEquals(result.headToHead.strong.weak, { wins: 2, losses: 0, draws: 0 });
+
+  // Each pairing argues both sides of its motion
+  const strongWeak = result.matches.filter(m =>
+    [m.affirmativeId, m.negativeId].sort().join() === "strong,weak"
+  );
+  assertEquals(strongWeak.map(m => m.affirmativeId).sort(), ["strong", "weak"]);
+  assertEquals(strongWeak[0].scores, { strong: 9, weak: 3 });
+
+  const [strong, middle, weak] = result.standings;
+  assert(strong.elo > middle.elo && middle.elo > weak.elo);
+  assert(strong.glicko.rating > weak.glicko.rating);
+});
+
+Deno.test("DebateTournament - decides matches from every judged argument", async () => {
+  // "rally" finishes strongly after a weak opening; "steady" is better on average
+  const argumentScores: Record<string, number[]> = { rally: [1, 9], steady: [8, 6] };
+  const judged: Record<string, number> = {};
+
+  const result = await createDebateTournament({
+    debaters: Object.keys(argumentScores).map(id => ({ id, name: id })),
+    motions: [{ topic: "Motion", affirmative: "For", negative: "Against" }],
+    pairing: "round_robin",
+    swapSides: false,
+    showProgress: false,
+    debateConfig: { maxTurns: 100, roundCount: 1, roundSummariesEnabled: false },
+    createAdvocate: (debater, position) =>
+      createDebateParticipant(
+        {
+          id: debater.id,
+          name: debater.name,
+          agentConfig: { id: debater.id, model: "test" },
+          debateRole: "position_advocate",
+          position,
+        },
+        {
+          id: `${debater.id}-agent`,
+          execute: () => Promise.resolve(`${debater.id} argues.`),
+        }
+      ),
+    createModerator: () =>
+      createDebateModerator(
+        { id: "mod", name: "Moderator", agentConfig: { id: "mod", model: "test" } },
+        {
+          id: "mod-agent",
+          execute: (input: string) => {
+            const speaker = input.match(/evaluate: (\w+) argues\./)?.[1];
+            if (!speaker) {
+              return Promise.resolve("Moderator speaks.");
+            }
+
+            const turn = judged[speaker] ?? 0;
+            judged[speaker] = turn + 1;
+            const score = argumentScores[speaker][turn];
+            return Promise.resolve(JSON.stringify({ persuasiveness: { score, justification: "" } }));
+          },
+        }
+      ),
+  }).run();
+
+  const [match] = result.matches;
+  assertEquals(match.result.judgedArguments.length, 4);
+  assertEquals(match.scores, { rally: 5, steady: 7 });
+  assertEquals(match.winnerId, "steady");
+});
+
+Deno.test("DebateTournament - reports failed debates without rating them", async () => {
+  const result = await createTournament("round_robin", "weak").run();
+
+  assertEquals(result.matches.length, 6);
+  assertEquals(
+    result.matches.map(m => m.rated),
+    result.matches.map(m => !(m.affirmativeId === "weak" || m.negativeId === "weak"))
+  );
+  assert(result.matches.filter(m => !m.rated).every(m => !m.result.success && m.winnerId === undefined));
+
+  const weak = result.standings.find(s => s.debaterId === "weak")!;
+  assertEquals([weak.played, weak.draws, weak.elo], [0, 0, 1500]);
+  assertEquals(result.headToHead.strong.weak, undefined);
+  assertEquals(result.headToHead.strong.middle, { wins: 2, losses: 0, draws: 0 });
+});
+
+Deno.test("DebateTournament - pairs Swiss rounds without rematches", async () => {
+  const result = await createTournament("swiss").run();
+
+  // Three debaters need two Swiss rounds
+  assertEquals(result.rounds, 2);
+  const pairings = result.matches
+    .filter(m => m.affirmativeId < m.negativeId)
+    .map(m => `${m.round}:${m.affirmativeId},${m.negativeId}`);
+  assertEquals(new Set(pairings.map(p => p.split(":")[1])).size, pairings.length);
+  assertEquals(result.standings[0].debaterId, "strong");
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for the Delphi workflow
+ *
+ * Verifies estimate parsing, aggregation and convergence across rounds.
+ */
+
+import { assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import {
+  aggregateEstimates,
+  createDelphiWorkflow,
+  parseDelphiEstimate
+} from "../delphi_workflow.ts";
+import { DialogueParticipant } from "../dialogue_workflow.ts";
+
+// Panelists that send scripted answers and record the prompts they receive
+const createPanel = (scripts: Record<string, string[]>) => {
+  const prompts: Record<string, string[]> = {};
+
+  const participants: DialogueParticipant[] = Object.entries(scripts).map(([id, script]) => {
+    prompts[id] = [];
+    return {
+      id,
+      name: id,
+      agent: {
+        id: `${id}-agent`,
+        execute: (input: string) => {
+          prompts[id].push(input);
+          return Promise.resolve(script.shift() ?? "I am not sure.");
+        },
+      },
+    };
+  });
+
+  return { participants, prompts };
+};
+
+Deno.test("parseDelphiEstimate - reads probabilities and percentages", () => {
+  assertEquals(
+    parseDelphiEstimate("ESTIMATE: 35%\nRATIONALE: Base rates are low."),
+    { value: 0.35, rationale: "Base rates are low." }
+  );
+  assertEquals(parseDelphiEstimate("ESTIMATE: 0.8").value, 0.8);
+  assertEquals(parseDelphiEstimate("ESTIMATE: 1,200 days", "estimate").value, 1200);
+  assertEquals(parseDelphiEstimate("No idea").value, undefined);
+});
+
+Deno.test("aggregateEstimates - computes median and interquartile range", () => {
+  const aggregate = aggregateEstimates([0.4, 0.1, 0.3, 0.2]);
+
+  assertEquals(aggregate.median, 0.25);
+  assertEquals(Number(aggregate.q1.toFixed(3)), 0.175);
+  assertEquals(Number(aggregate.q3.toFixed(3)), 0.325);
+  assertEquals(aggregate.count, 4);
+});
+
+Deno.test("DelphiWorkflow - repeats rounds until the spread converges", async () => {
+  const { participants, prompts } = createPanel({
+    alice: ["ESTIMATE: 0.2\nRATIONALE: Adoption is slow.", "ESTIMATE: 0.45\nRATIONALE: Fair point."],
+    bob: ["ESTIMATE: 0.8\nRATIONALE: Demand is strong.", "ESTIMATE: 0.5\nRATIONALE: Tempered."],
+    carol: ["ESTIMATE: 0.5\nRATIONALE: Uncertain.", "Same as before."],
+  });
+
+  const workflow = createDelphiWorkflow("Will the product launch this year?", participants, {
+    convergenceThreshold: 0.05,
+  });
+
+  const result = await workflow.run();
+
+  assertEquals(result.converged, true);
+  assertEquals(result.endReason, "converged");
+  assertEquals(result.rounds.length, 2);
+  assertEquals(result.rounds[0].aggregate.median, 0.5);
+  assertEquals(Number(result.rounds[0].aggregate.iqr.toFixed(3)), 0.3);
+  assertEquals(result.finalForecast?.median, 0.5);
+
+  // Carol's unreadable second answer keeps her first estimate
+  const carol = result.rounds[1].estimates.find(e => e.participantId === "carol");
+  assertEquals([carol?.value, carol?.carriedForward], [0.5, true]);
+
+  // Round 2 prompts show anonymized feedback but not other panelists' names
+  assertEquals(prompts.alice[1].includes("Median 0.5"), true);
+  assertEquals(prompts.alice[1].includes("Demand is strong."), true);
+  assertEquals(prompts.alice[1].includes("bob"), false);
+  assertEquals(prompts.alice[0].includes("Feedback"), false);
+});
+
+Deno.test("DelphiWorkflow - measures the spread of estimates relative to the median", async () => {
+  const { participants } = createPanel({
+    alice: ["ESTIMATE: 9500\nRATIONALE: Slow quarter.", "ESTIMATE: 9800\nRATIONALE: Closer."],
+    bob: ["ESTIMATE: 12000\nRATIONALE: Strong pipeline.", "ESTIMATE: 10200\nRATIONALE: Tempered."],
+    carol: ["ESTIMATE: 10000\nRATIONALE: Flat.", "ESTIMATE: 10000\nRATIONALE: Same."],
+  });
+
+  const result = await createDelphiWorkflow("How many units will ship?", participants, {
+    forecastType: "estimate",
+    unit: "units",
+  }).run();
+
+  // An absolute spread of 200 units is 2% of the median
+  assertEquals(result.rounds.map(r => r.aggregate.iqr), [1250, 200]);
+  assertEquals(result.converged, true);
+  assertEquals(result.rounds.length, 2);
+});
+
+Deno.test("DelphiWorkflow - honors the caller's exit condition", async () => {
+  const { participants } = createPanel({
+    alice: ["ESTIMATE: 0.2\nRATIONALE: Slow."],
+    bob: ["ESTIMATE: 0.8\nRATIONALE: Fast."],
+  });
+
+  const result = await createDelphiWorkflow("Will it launch?", participants, {
+    exitCondition: state => state.messages.length >= 2,
+  }).run();
+
+  assertEquals(result.converged, false);
+  assertEquals(result.rounds.length, 1);
+  assertEquals(result.messages.length, 2);
+});
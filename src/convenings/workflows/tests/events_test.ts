@@ -0,0 +1,104 @@
+/**
+ * Tests for workflow events
+ *
+ * Verifies that workflows emit progress events to their event stream.
+ */
+
+import { assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { createDialogueWorkflow, DialogueParticipant } from "../dialogue_workflow.ts";
+import { ConsensusWorkflowResult, createConsensusWorkflow } from "../consensus_workflow.ts";
+import { WorkflowEvent } from "../events.ts";
+
+// Mock participants for testing
+const createParticipants = (): DialogueParticipant[] =>
+  ["alice", "bob"].map(id => ({
+    id,
+    name: id,
+    agent: {
+      id: `${id}-agent`,
+      execute: (_input: string) => Promise.resolve(`Hello from ${id}`),
+    },
+  }));
+
+Deno.test("DialogueWorkflow - emits events for each turn", async () => {
+  const workflow = createDialogueWorkflow("Testing", createParticipants(), { maxTurns: 1 });
+  const events: WorkflowEvent[] = [];
+  workflow.events.subscribe(event => events.push(event));
+
+  const result = await workflow.run();
+
+  assertEquals(events.map(e => e.type), [
+    "turn-started",
+    "bids-collected",
+    "token-delta",
+    "message-committed",
+    "turn-started",
+    "bids-collected",
+    "token-delta",
+    "message-committed",
+    "workflow-ended",
+  ]);
+  assertEquals(events.every(e => e.workflowId === result.id), true);
+
+  const ended = events[events.length - 1];
+  assertEquals(ended.type === "workflow-ended" && ended.result.endReason, "max_turns_reached");
+});
+
+Deno.test("WorkflowEventStream - async iteration ends with the workflow", async () => {
+  const workflow = createDialogueWorkflow("Testing", createParticipants(), { maxTurns: 2 });
+  const committed: string[] = [];
+
+  // Start iterating before running so no events are missed
+  const iteration = (async () => {
+    for await (const event of workflow.events) {
+      if (event.type === "message-committed") {
+        committed.push(event.message.participantId);
+      }
+    }
+  })();
+
+  await workflow.run();
+  await iteration;
+
+  assertEquals(committed, ["alice", "bob", "alice"]);
+});
+
+Deno.test("ConsensusWorkflow - emits workflow-ended once with the final result, not on pause", async () => {
+  const workflow = createConsensusWorkflow("Testing", createParticipants(), { maxTurns: 2 });
+  const ended: WorkflowEvent[] = [];
+  workflow.events.on("workflow-ended", event => ended.push(event));
+
+  // Pause after the first turn, then resume to the end
+  const stopPausing = workflow.events.on("message-committed", () => {
+    workflow.pause();
+    stopPausing();
+  });
+
+  const paused = await workflow.run();
+  assertEquals(paused.endReason, "paused");
+  assertEquals(ended.length, 0);
+
+  const result = await workflow.run();
+
+  assertEquals(ended.length, 1);
+  const event = ended[0];
+  assertEquals(event.type === "workflow-ended" && event.result, result);
+  assertEquals(event.type === "workflow-ended" && (event.result as ConsensusWorkflowResult).consensusReached, false);
+});
+
+Deno.test("DialogueWorkflow - forwards streamed tokens as token-delta events", async () => {
+  const participants = createParticipants();
+  participants[0].agent.executeStream = async function* () {
+    yield "Hel";
+    yield "lo";
+  };
+
+  const workflow = createDialogueWorkflow("Testing", participants, { maxTurns: 0 });
+  const deltas: string[] = [];
+  workflow.events.on("token-delta", event => deltas.push(event.delta));
+
+  const result = await workflow.run();
+
+  assertEquals(deltas, ["Hel", "lo"]);
+  assertEquals(result.messages[0].content, "Hello");
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for history compaction
+ *
+ * Verifies rolling summarization of older messages and summary version tracking.
+ */
+
+import { assert, assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { createHistoryCompactor } from "../history_compactor.ts";
+import { createDialogueWorkflow, DialogueMessage, DialogueParticipant } from "../dialogue_workflow.ts";
+import { IConversationalAgent } from "../../../utils/interfaces.ts";
+
+// Mock participants for testing
+const createParticipants = (): DialogueParticipant[] =>
+  ["alice", "bob"].map(id => ({
+    id,
+    name: id,
+    agent: {
+      id: `${id}-agent`,
+      execute: (_input: string) => Promise.resolve(`Hello from ${id}`),
+    },
+  }));
+
+// Mock summarizer that records how many prompts it received
+const createSummarizer = () => {
+  const prompts: string[] = [];
+
+  return {
+    prompts,
+    agent: {
+      id: "summarizer",
+      execute: (input: string) => {
+        prompts.push(input);
+        return Promise.resolve(JSON.stringify({
+          summary: `Summary ${prompts.length}`,
+          salient_points: { alice: [`Point ${prompts.length}`] },
+        }));
+      },
+    },
+  };
+};
+
+const createMessages = (count: number): DialogueMessage[] =>
+  Array.from({ length: count }, (_, i) => ({
+    participantId: i % 2 === 0 ? "alice" : "bob",
+    content: `Message ${i} ${"x".repeat(40)}`,
+    timestamp: i,
+  }));
+
+Deno.test("HistoryCompactor - summarizes messages older than the recent window", async () => {
+  const summarizer = createSummarizer();
+  const compactor = createHistoryCompactor({ summarizer: summarizer.agent, recentTurns: 2 });
+
+  const short = await compactor.compact(createMessages(2), createParticipants());
+  assertEquals(short.summaryVersion, undefined);
+  assertEquals(summarizer.prompts.length, 0);
+
+  const long = await compactor.compact(createMessages(5), createParticipants());
+  assertEquals(long.summaryVersion, 1);
+  assertEquals(long.verbatimMessageCount, 2);
+  assertEquals(long.text.includes("Summary 1"), true);
+  assertEquals(long.text.includes("- alice: Point 1"), true);
+  assertEquals(long.text.includes("Message 2"), false);
+  assertEquals(long.text.includes("Message 4"), true);
+
+  // Nothing new to summarize, so the same version is reused
+  const again = await compactor.compact(createMessages(5), createParticipants());
+  assertEquals(again.summaryVersion, 1);
+  assertEquals(summarizer.prompts.length, 1);
+});
+
+Deno.test("HistoryCompactor - summarizes more messages to fit the token budget", async () => {
+  const summarizer = createSummarizer();
+  const compactor = createHistoryCompactor({
+    summarizer: summarizer.agent,
+    recentTurns: 4,
+    tokenBudget: 40,
+  });
+
+  const compacted = await compactor.compact(createMessages(6), createParticipants());
+
+  assertEquals(compacted.estimatedTokens <= 40, true);
+  assertEquals(compacted.verbatimMessageCount, 1);
+  assertEquals(summarizer.prompts.length, 1);
+  assertEquals(compactor.getCurrentSummary()?.coveredMessageCount, 6 - compacted.verbatimMessageCount);
+});
+
+Deno.test("DialogueWorkflow - records the summary version used for each turn", async () => {
+  const summarizer = createSummarizer();
+  const workflow = createDialogueWorkflow("Testing", createParticipants(), {
+    maxTurns: 4,
+    historyCompactor: createHistoryCompactor({ summarizer: summarizer.agent, recentTurns: 2 }),
+  });
+
+  const result = await workflow.run();
+
+  assertEquals(
+    result.messages.map(m => m.metadata?.historySummaryVersion),
+    [0, 0, 0, 1, 2]
+  );
+  assertEquals(workflow.createCheckpoint().history?.summaries.length, 2);
+});
+
+Deno.test("DialogueWorkflow - fits conversational threads to the token budget", async () => {
+  const summarizer = createSummarizer();
+  const threads: Array<{ systemPrompt: string; thread: string[] }> = [];
+  let systemPrompt = "";
+  let thread: string[] = [];
+
+  const participants = createParticipants();
+  participants[0].agent = {
+    id: "alice-agent",
+    execute: () => {
+      threads.push({ systemPrompt, thread: [...thread] });
+      return Promise.resolve("Hello from alice");
+    },
+    setSystemPrompt: (prompt: string) => {
+      systemPrompt = prompt;
+    },
+    observeMessage: message => {
+      thread.push(message.content);
+    },
+    resetConversation: () => {
+      thread = [];
+    },
+  } as IConversationalAgent;
+
+  const workflow = createDialogueWorkflow("Testing", participants, {
+    maxTurns: 4,
+    historyCompactor: createHistoryCompactor({ summarizer: summarizer.agent, recentTurns: 2 }),
+  });
+
+  await workflow.run();
+
+  // Alice speaks in turns 0, 2 and 4; by turn 4 the oldest messages are summarized
+  assertEquals(threads.map(t => t.thread.length), [0, 2, 2]);
+  assert(!threads[1].systemPrompt.includes("Summary of earlier discussion"));
+  assert(threads[2].systemPrompt.includes("Summary of earlier discussion:\nSummary 2"));
+});
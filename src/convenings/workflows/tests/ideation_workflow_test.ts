@@ -0,0 +1,62 @@
+/**
+ * Tests for the ideation workflow
+ *
+ * Verifies idea generation, clustering and dot voting.
+ */
+
+import { assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { createIdeationWorkflow, IdeationPhase, parseIdeas } from "../ideation_workflow.ts";
+import { DialogueParticipant } from "../dialogue_workflow.ts";
+
+// Participants that send scripted messages in turn
+const createParticipants = (scripts: Record<string, string[]>): DialogueParticipant[] =>
+  Object.entries(scripts).map(([id, script]) => ({
+    id,
+    name: id,
+    agent: {
+      id: `${id}-agent`,
+      execute: (_input: string) => Promise.resolve(script.shift() ?? ""),
+    },
+  }));
+
+Deno.test("parseIdeas - prefers IDEA lines and falls back to list items", () => {
+  assertEquals(
+    parseIdeas("Some thoughts:\nIDEA: Dark mode\n- IDEA: Offline sync\nNot an idea"),
+    ["Dark mode", "Offline sync"]
+  );
+  assertEquals(parseIdeas("1. Dark mode\n2) Offline sync"), ["Dark mode", "Offline sync"]);
+});
+
+Deno.test("IdeationWorkflow - clusters similar ideas and ranks them by dots", async () => {
+  const participants = createParticipants({
+    alice: [
+      "IDEA: Add offline sync for mobile notes\nIDEA: Dark mode theme",
+      "VOTES:\n- C1: 2\n- C2: 5",
+    ],
+    bob: [
+      "IDEA: Offline sync for mobile notes app\nIDEA: Export notes to PDF",
+      "VOTES:\n- C1: 1\n- C3: 1\n- C2: 1",
+    ],
+  });
+
+  const workflow = createIdeationWorkflow("Notes app roadmap", participants, {
+    generationRounds: 1,
+    dotsPerParticipant: 3,
+  });
+
+  const result = await workflow.run();
+
+  assertEquals(workflow.getPhase(), IdeationPhase.COMPLETE);
+  assertEquals(result.votingCompleted, true);
+  assertEquals(result.endReason, "completed");
+  assertEquals(result.ideas.length, 4);
+  assertEquals(result.clusters.map(c => c.ideaIds), [["idea-1", "idea-3"], ["idea-2"], ["idea-4"]]);
+
+  const [first, second, third] = result.rankedIdeas;
+  assertEquals([first.clusterId, first.votes, first.authorIds], ["C1", 3, ["alice", "bob"]]);
+  // Alice's extra dots beyond her three are ignored
+  assertEquals(first.votesByParticipant, { alice: 2, bob: 1 });
+  assertEquals([second.clusterId, second.votes], ["C2", 2]);
+  assertEquals([third.clusterId, third.votes, third.rank], ["C3", 1, 3]);
+  assertEquals(result.ideas[2].clusterId, "C1");
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for the debate judging panel
+ *
+ * Verifies score aggregation, agreement statistics and defaulted scores.
+ */
+
+import { assert, assertAlmostEquals, assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { aggregateValues, createJudgingPanel, krippendorffAlpha } from "../judging_panel.ts";
+import { createDebateWorkflow } from "../debate_workflow.ts";
+import {
+  createDebateJudge,
+  createDebateModerator,
+  createDebateParticipant
+} from "../../participants/debate_participant.ts";
+
+// Judge that gives every criterion the same score, or an unparseable response
+const createJudge = (id: string, score?: number) =>
+  createDebateJudge(
+    { id, name: id, agentConfig: { id, model: "test" } },
+    {
+      id: `${id}-agent`,
+      execute: () =>
+        Promise.resolve(
+          score === undefined
+            ? "I cannot score this."
+            : JSON.stringify({
+              logical_coherence: { score, justification: `${id} reasons` },
+              evidence_quality: { score, justification: `${id} evidence` },
+            })
+        ),
+    }
+  );
+
+Deno.test("aggregateValues - combines with mean, median and trimmed mean", () => {
+  const values = [1, 6, 7, 8, 10];
+
+  assertEquals(aggregateValues(values, "mean"), 6.4);
+  assertEquals(aggregateValues(values, "median"), 7);
+  assertEquals(aggregateValues([4, 1, 3, 2], "median"), 2.5);
+  assertEquals(aggregateValues(values, "trimmed_mean", 0.2), 7);
+});
+
+Deno.test("krippendorffAlpha - measures interval agreement", () => {
+  assertEquals(krippendorffAlpha([[1, 1], [5, 5], [9, 9]]), 1);
+  assert(krippendorffAlpha([[1, 9], [9, 1], [5, 5]])! < 0);
+  assertAlmostEquals(krippendorffAlpha([[2, 3], [7, 8], [4, 4]])!, 0.939, 0.001);
+
+  // No variation and no pairable units leave agreement undefined
+  assertEquals(krippendorffAlpha([[5, 5], [5, 5]]), undefined);
+  assertEquals(krippendorffAlpha([[5], [7]]), undefined);
+});
+
+Deno.test("DebateJudge - averages criterion scores by weight on the 0-10 scale", async () => {
+  const judge = createDebateJudge(
+    { id: "judge", name: "judge", agentConfig: { id: "judge", model: "test" } },
+    {
+      id: "judge-agent",
+      execute: () => Promise.resolve(JSON.stringify({
+        logical_coherence: { score: 8, justification: "Sound" },
+        evidence_quality: { score: 2, justification: "Thin" },
+        responsiveness: { score: 5, justification: "Partial" },
+      })),
+    }
+  );
+
+  const score = await judge.scoreArgument("alice", "An argument", "Context");
+
+  // Only the scored criteria count: (8 * 0.25 + 2 * 0.25 + 5 * 0.2) / 0.7
+  assertAlmostEquals(score.total, 5, 1e-9);
+  assertEquals(score.breakdown.logical_coherence.weighted, 2);
+});
+
+Deno.test("JudgingPanel - flags defaulted scores and leaves them out of the aggregate", async () => {
+  const panel = createJudgingPanel({
+    judges: [createJudge("a", 8), createJudge("b", 6), createJudge("c")],
+    aggregation: "median",
+  });
+
+  const score = await panel.scoreArgument("alice", "An argument", "Context");
+
+  assertEquals(score.aggregation, "median");
+  assertEquals(score.defaultedJudgeIds, ["c"]);
+  assertEquals(score.judgeScores.map(s => s.defaulted), [false, false, true]);
+  assertEquals(score.breakdown.logical_coherence.raw, 7);
+  assertEquals(score.defaulted, undefined);
+
+  const agreement = panel.getAgreement([score]);
+  assertEquals(agreement.scoredArguments, 1);
+  assertEquals(agreement.defaultedScores, 1);
+});
+
+Deno.test("DebateWorkflow - scores arguments with its judges", async () => {
+  const moderator = createDebateModerator(
+    { id: "mod", name: "Moderator", agentConfig: { id: "mod", model: "test" } },
+    { id: "mod-agent", execute: () => Promise.resolve("Moderator speaks.") }
+  );
+  const advocates = ["alice", "bob"].map(id =>
+    createDebateParticipant(
+      {
+        id,
+        name: id,
+        agentConfig: { id, model: "test" },
+        debateRole: "position_advocate",
+        position: `${id}'s position`,
+      },
+      { id: `${id}-agent`, execute: () => Promise.resolve(`${id} speaks.`) }
+    )
+  );
+
+  const workflow = createDebateWorkflow(
+    "Testing",
+    [moderator, ...advocates, createJudge("j1", 7), createJudge("j2", 9)],
+    { maxTurns: 100, roundCount: 1, roundSummariesEnabled: false, showProgress: false }
+  );
+
+  const result = await workflow.run();
+
+  assert(result.judgedArguments.length > 0);
+  assert(result.judgedArguments.every(a =>
+    a.score.judgeScores.map(s => s.judgeId).join() === "j1,j2"
+  ));
+  assertEquals(result.scores.alice.breakdown.evidence_quality.raw, 8);
+  assertEquals(result.scoringAgreement.scoredArguments, result.judgedArguments.length);
+  assertEquals(result.scoringAgreement.defaultedScores, 0);
+});
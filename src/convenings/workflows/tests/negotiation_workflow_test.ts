@@ -0,0 +1,128 @@
+/**
+ * Tests for the negotiation workflow
+ *
+ * Verifies offer extraction, deal tracking and outcome analysis.
+ */
+
+import { assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import {
+  createNegotiationWorkflow,
+  NegotiationIssue,
+  NegotiationPreferences,
+  parseNegotiationMove
+} from "../negotiation_workflow.ts";
+import { DialogueParticipant } from "../dialogue_workflow.ts";
+import { ConveningRecord } from "../../participants/memory.ts";
+
+const issues: NegotiationIssue[] = [
+  { name: "price", options: ["low", "high"] },
+  { name: "delivery", options: ["fast", "slow"] },
+];
+
+// The buyer cares most about price, the seller about delivery
+const preferences: Record<string, NegotiationPreferences> = {
+  buyer: {
+    issueWeights: { price: 3, delivery: 1 },
+    optionValues: { price: { low: 1, high: 0 }, delivery: { fast: 1, slow: 0 } },
+    reservationValue: 0.2,
+  },
+  seller: {
+    issueWeights: { price: 1, delivery: 3 },
+    optionValues: { price: { low: 0, high: 1 }, delivery: { fast: 0, slow: 1 } },
+    reservationValue: 0.2,
+  },
+};
+
+// Participants that send scripted messages in turn
+const createParticipants = (scripts: Record<string, string[]>): DialogueParticipant[] =>
+  Object.entries(scripts).map(([id, script]) => ({
+    id,
+    name: id,
+    agent: {
+      id: `${id}-agent`,
+      execute: (_input: string) => Promise.resolve(script.shift() ?? "Let me think."),
+    },
+  }));
+
+Deno.test("parseNegotiationMove - extracts the action and known issue values", () => {
+  const move = parseNegotiationMove(
+    "That works for me if we ship quickly.\n\nMOVE: Counter\n- Price: HIGH\n- delivery: fast\n- color: red",
+    issues
+  );
+
+  assertEquals(move, { action: "counter", terms: { price: "high", delivery: "fast" } });
+  assertEquals(parseNegotiationMove("Just talking.", issues).action, "none");
+});
+
+Deno.test("NegotiationWorkflow - reaches an efficient deal through a counteroffer", async () => {
+  const participants = createParticipants({
+    buyer: [
+      "MOVE: OFFER\n- price: low\n- delivery: fast",
+      "Agreed.\nMOVE: ACCEPT",
+    ],
+    seller: [
+      "Fast delivery is too costly.\nMOVE: COUNTER\n- delivery: slow",
+    ],
+  });
+
+  const workflow = createNegotiationWorkflow("Supply contract", participants, {
+    issues,
+    preferences,
+    maxTurns: 10,
+  });
+
+  const result = await workflow.run();
+
+  assertEquals(result.dealReached, true);
+  assertEquals(result.endReason, "deal_reached");
+  assertEquals(result.agreement, { price: "low", delivery: "slow" });
+  assertEquals(result.offers.map(o => o.status), ["countered", "accepted"]);
+  assertEquals(result.utilities, { buyer: 0.75, seller: 0.75 });
+  assertEquals(result.pareto?.isParetoEfficient, true);
+  assertEquals(result.messages[1].metadata?.negotiationMove, {
+    action: "counter",
+    terms: { delivery: "slow" },
+    offerId: "offer-2",
+  });
+});
+
+Deno.test("NegotiationWorkflow - lets participants remember the agreed terms", async () => {
+  const participants = createParticipants({
+    buyer: ["MOVE: OFFER\n- price: low\n- delivery: slow"],
+    seller: ["Deal.\nMOVE: ACCEPT"],
+  });
+  const records: ConveningRecord[] = [];
+  participants[0].rememberConvening = (record) => {
+    records.push(record);
+    return Promise.resolve();
+  };
+
+  await createNegotiationWorkflow("Supply contract", participants, {
+    issues,
+    preferences,
+    maxTurns: 10,
+  }).run();
+
+  assertEquals(records.length, 1);
+  assertEquals(records[0].outcome, "Agreed on price: low, delivery: slow.");
+});
+
+Deno.test("NegotiationWorkflow - reports no deal at reservation values", async () => {
+  const participants = createParticipants({
+    buyer: ["MOVE: OFFER\n- price: low\n- delivery: fast"],
+    seller: ["MOVE: REJECT"],
+  });
+
+  const workflow = createNegotiationWorkflow("Supply contract", participants, {
+    issues,
+    preferences,
+    maxTurns: 2,
+  });
+
+  const result = await workflow.run();
+
+  assertEquals(result.dealReached, false);
+  assertEquals(result.utilities, { buyer: 0.2, seller: 0.2 });
+  // Trading price for delivery would have left both parties better off
+  assertEquals(result.pareto?.isParetoEfficient, false);
+});
@@ -0,0 +1,78 @@
+/**
+ * Tests for stance tracking in consensus workflows
+ *
+ * Verifies the stance matrix history and the consensus level computed from it.
+ */
+
+import { assert, assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { createConsensusWorkflow } from "../consensus_workflow.ts";
+import { calculateIssueConsensus } from "../stance_tracker.ts";
+import { DialogueParticipant } from "../dialogue_workflow.ts";
+
+const participants: DialogueParticipant[] = ["alice", "bob"].map(id => ({
+  id,
+  name: id,
+  agent: { id: `${id}-agent`, execute: () => Promise.resolve(`${id} shares a view.`) },
+}));
+
+Deno.test("calculateIssueConsensus - weighs stances by confidence", () => {
+  const level = calculateIssueConsensus([
+    { stance: "disagree", confidence: 0.9, quote: "" },
+    { stance: "partial", confidence: 0.6, quote: "" },
+    { stance: "undecided", confidence: 0.9, quote: "" },
+  ]);
+
+  // Only the partial agreement counts: 0.3 / 3
+  assertEquals(level.toFixed(2), "0.10");
+});
+
+Deno.test("calculateIssueConsensus - unanimous disagreement is not consensus", () => {
+  const level = calculateIssueConsensus([
+    { stance: "disagree", confidence: 1, quote: "" },
+    { stance: "disagree", confidence: 0.9, quote: "" },
+  ]);
+
+  assertEquals(level, 0);
+});
+
+Deno.test("ConsensusWorkflow - measures consensus from the judge's stance matrix", async () => {
+  const prompts: string[] = [];
+  const judged = [
+    "I cannot tell yet.",
+    JSON.stringify({ stances: {
+      alice: { topic: { stance: "agree", confidence: 1, quote: "alice shares a view." } },
+      bob: { topic: { stance: "partial", confidence: 0.6, quote: "bob shares a view." } },
+    } }),
+  ];
+  const agreed = JSON.stringify({ stances: {
+    alice: { topic: { stance: "agree", confidence: 0.9, quote: "alice shares a view." } },
+    bob: { topic: { stance: "agree", confidence: 0.9, quote: "bob shares a view." } },
+  } });
+
+  const workflow = createConsensusWorkflow("Four-day weeks", participants, {
+    maxTurns: 10,
+    requiredStableTurns: 2,
+    stanceJudge: {
+      id: "judge",
+      execute: (input: string) => {
+        prompts.push(input);
+        return Promise.resolve(judged.shift() ?? agreed);
+      },
+    },
+  });
+
+  const result = await workflow.run();
+
+  // Consensus holds from the third matrix, is first counted once four messages exist
+  // and is stable after two checks
+  assertEquals(result.messages.length, 5);
+  assertEquals(result.stanceHistory.map(s => s.turn), [0, 1, 2, 3, 4]);
+  assertEquals(result.stanceHistory.map(s => s.consensusLevel), [0, 0.65, 0.9, 0.9, 0.9]);
+  assertEquals(result.stanceHistory[0].stances.bob.topic, { stance: "undecided", confidence: 0, quote: "" });
+  assertEquals(result.stanceHistory[1].issues, [{ id: "topic", description: "Four-day weeks" }]);
+  assertEquals(result.consensusLevel, 0.9);
+  assertEquals(result.consensusReached, true);
+
+  // The judge sees its previous assessment
+  assert(prompts[2].includes("- bob on topic: partial (0.6)"));
+});
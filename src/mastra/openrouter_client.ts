@@ -3,7 +3,12 @@
  * Provides integration with OpenRouter API for accessing multiple LLM providers
  */
 
-import { IAgent, IAgentConfig } from "../utils/interfaces.ts";
+import {
+  IAgent,
+  IAgentConfig,
+  IConversationalAgent,
+  IConversationMessage
+} from "../utils/interfaces.ts";
 import { ILogger, createLogger, LogLevel } from "../convenings/utils/logger.ts";
 
 /**
@@ -122,6 +127,21 @@ export interface ChatCompletionOptions {
   stopSequences?: string[];
 }
 
+/**
+ * Very rough approximation of characters per token
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the token count of a piece of text (very rough approximation)
+ * 
+ * @param text - Text to estimate
+ * @returns Estimated token count
+ */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
 /**
  * Client for communicating with OpenRouter API
  */
@@ -179,7 +199,6 @@ export class OpenRouterClient {
    * @returns Estimated token count
    */
   private estimateTokenCount(messages: ChatMessage[]): number {
-    // Very rough approximation (4 chars ~ 1 token)
     let totalChars = 0;
     
     for (const message of messages) {
@@ -188,7 +207,7 @@ export class OpenRouterClient {
       totalChars += 10; // Overhead for message formatting
     }
     
-    return Math.ceil(totalChars / 4);
+    return Math.ceil(totalChars / CHARS_PER_TOKEN);
   }
   
   /**
@@ -235,6 +254,45 @@ export class OpenRouterClient {
     return false;
   }
   
+  /**
+   * Get the HTTP headers for OpenRouter API requests
+   * 
+   * @returns Request headers
+   */
+  private getRequestHeaders(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${this.config.apiKey}`,
+      "HTTP-Referer": "https://github.com/user/convenings", // Identifying the client
+      "X-Title": "Convenings Multi-Agent Dialogue System", // Project name for OpenRouter analytics
+    };
+  }
+  
+  /**
+   * Record token usage and cost for a completed API call
+   * 
+   * @param model - Model that was used
+   * @param inputTokens - Number of input tokens
+   * @param outputTokens - Number of output tokens
+   */
+  private recordUsage(model: string, inputTokens: number, outputTokens: number): void {
+    // Calculate cost
+    const cost = this.logger.calculateCost(model, inputTokens, outputTokens);
+    
+    // Track usage
+    if (this.config.trackTokens) {
+      this.logger.trackApiUsage(model, inputTokens, outputTokens, cost);
+    }
+    
+    this.logger.info(`API call completed`, {
+      model,
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+      cost: cost.toFixed(6),
+    });
+  }
+  
   /**
    * Send a chat completion request to OpenRouter
    * 
@@ -271,12 +329,7 @@ export class OpenRouterClient {
       
       const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${this.config.apiKey}`,
-          "HTTP-Referer": "https://github.com/user/convenings", // Identifying the client
-          "X-Title": "Convenings Multi-Agent Dialogue System", // Project name for OpenRouter analytics
-        },
+        headers: this.getRequestHeaders(),
         body: JSON.stringify({
           model,
           messages,
@@ -298,30 +351,12 @@ export class OpenRouterClient {
       // Get actual token usage from response if available
       const usage = data.usage || {
         prompt_tokens: estimatedInputTokens,
-        completion_tokens: Math.ceil(data.choices[0].message.content.length / 4),
+        completion_tokens: estimateTextTokens(data.choices[0].message.content),
         total_tokens: 0
       };
       
-      // Calculate total tokens if not provided
-      if (!usage.total_tokens) {
-        usage.total_tokens = usage.prompt_tokens + usage.completion_tokens;
-      }
-      
-      // Calculate cost
-      const cost = this.logger.calculateCost(model, usage.prompt_tokens, usage.completion_tokens);
-      
       // Track usage
-      if (this.config.trackTokens) {
-        this.logger.trackApiUsage(model, usage.prompt_tokens, usage.completion_tokens, cost);
-      }
-      
-      this.logger.info(`API call completed`, {
-        model,
-        inputTokens: usage.prompt_tokens,
-        outputTokens: usage.completion_tokens,
-        totalTokens: usage.total_tokens,
-        cost: cost.toFixed(6),
-      });
+      this.recordUsage(model, usage.prompt_tokens, usage.completion_tokens);
       
       this.logger.endSection(`api_call_${model}`);
       
@@ -353,6 +388,149 @@ export class OpenRouterClient {
     }
   }
   
+  /**
+   * Send a streaming chat completion request to OpenRouter
+   * Tokens are yielded as they arrive over server-sent events, and usage is
+   * tracked once the stream finishes
+   * 
+   * @param messages - Array of messages for the chat completion
+   * @param options - Options for the completion
+   * @returns Async iterable of content deltas
+   */
+  async *chatCompletionStream(
+    messages: ChatMessage[],
+    options: ChatCompletionOptions = {},
+  ): AsyncGenerator<string> {
+    const temperature = options.temperature ?? this.config.temperature;
+    const maxTokens = options.maxTokens ?? this.config.maxTokens;
+    
+    // Estimate input tokens
+    const estimatedInputTokens = this.estimateTokenCount(messages);
+    
+    // Fallback models can only be tried before any tokens have been produced
+    const primaryModel = options.model || this.config.defaultModel;
+    const models = primaryModel === this.config.defaultModel
+      ? [primaryModel, ...(this.config.fallbackModels ?? [])]
+      : [primaryModel];
+    
+    let response: Response | undefined;
+    let model = primaryModel;
+    let lastError: unknown;
+    
+    // The timeout limits the wait for each chunk rather than the whole stream,
+    // so long responses are not cut off while tokens are still arriving
+    let controller = new AbortController();
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        controller.abort(new Error(`OpenRouter stream received no data for ${this.config.timeout}ms`));
+      }, this.config.timeout!);
+    };
+    
+    for (const candidate of models) {
+      model = candidate;
+      
+      this.logger.debug(`Streaming chat completion request`, {
+        model,
+        temperature,
+        maxTokens,
+        messageCount: messages.length,
+        estimatedInputTokens,
+      });
+      
+      // Check budget limits
+      if (this.checkBudgetLimits(model, estimatedInputTokens)) {
+        throw new Error(`Budget limit would be exceeded by this API call`);
+      }
+      
+      controller = new AbortController();
+      resetIdleTimer();
+      
+      try {
+        response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+          method: "POST",
+          headers: this.getRequestHeaders(),
+          body: JSON.stringify({
+            model,
+            messages,
+            temperature,
+            max_tokens: maxTokens,
+            stop: options.stopSequences,
+            stream: true,
+            usage: { include: true },
+          }),
+          signal: controller.signal,
+        });
+        
+        if (!response.ok || !response.body) {
+          const errorText = await response.text();
+          this.logger.error(`OpenRouter API error (${response.status})`, { error: errorText });
+          throw new Error(`OpenRouter API error (${response.status}): ${errorText}`);
+        }
+        
+        break;
+      } catch (error) {
+        clearTimeout(idleTimer);
+        lastError = error;
+        response = undefined;
+        
+        if (candidate !== models[models.length - 1]) {
+          console.warn(`Error with model ${model}, trying fallback: ${(error as Error).message}`);
+        }
+      }
+    }
+    
+    if (!response?.body) {
+      throw lastError;
+    }
+    
+    this.logger.startSection(`api_call_${model}`);
+    
+    let content = "";
+    let usage: { prompt_tokens: number; completion_tokens: number } | undefined;
+    
+    try {
+      // Leaving the loop early cancels the response body
+      for await (const data of readServerSentEvents(response.body)) {
+        resetIdleTimer();
+        
+        if (data === "[DONE]") {
+          break;
+        }
+        
+        const chunk = JSON.parse(data);
+        
+        if (chunk.error) {
+          this.logger.error(`OpenRouter stream error`, { error: chunk.error });
+          throw new Error(`OpenRouter stream error: ${chunk.error.message ?? JSON.stringify(chunk.error)}`);
+        }
+        
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+        
+        const delta = chunk.choices?.[0]?.delta?.content;
+        
+        if (delta) {
+          content += delta;
+          yield delta;
+        }
+      }
+    } finally {
+      clearTimeout(idleTimer);
+    }
+    
+    // Track usage, estimating it if the stream did not report any
+    this.recordUsage(
+      model,
+      usage?.prompt_tokens ?? estimatedInputTokens,
+      usage?.completion_tokens ?? estimateTextTokens(content)
+    );
+    
+    this.logger.endSection(`api_call_${model}`);
+  }
+  
   /**
    * Send a text completion request to OpenRouter
    * 
@@ -383,10 +561,10 @@ export class OpenRouterAgent implements IAgent {
    */
   id: string;
   
-  private client: OpenRouterClient;
-  private systemPrompt: string;
-  private model: string;
-  private temperature: number;
+  protected client: OpenRouterClient;
+  protected systemPrompt: string;
+  protected model: string;
+  protected temperature: number;
   
   /**
    * Create a new OpenRouter agent
@@ -422,6 +600,171 @@ export class OpenRouterAgent implements IAgent {
     
     return response.content;
   }
+  
+  /**
+   * Execute a request with the agent, streaming the response
+   * 
+   * @param input - The input to process
+   * @returns Chunks of the agent's response
+   */
+  executeStream(input: string): AsyncIterable<string> {
+    const messages: ChatMessage[] = [
+      { role: "system", content: this.systemPrompt },
+      { role: "user", content: input },
+    ];
+    
+    return this.client.chatCompletionStream(messages, {
+      model: this.model,
+      temperature: this.temperature,
+    });
+  }
+}
+
+/**
+ * OpenRouter agent that keeps a multi-turn chat thread for one participant
+ * Its own turns are sent as assistant messages and other participants' turns as
+ * user messages attributed to the speaker, so the prompt prefix stays stable
+ * between turns
+ */
+export class OpenRouterConversationAgent extends OpenRouterAgent implements IConversationalAgent {
+  private thread: ChatMessage[] = [];
+  private conversationSystemPrompt?: string;
+  
+  /**
+   * Set the system prompt of the conversation
+   * It is sent after the agent's own system prompt
+   * 
+   * @param systemPrompt - System prompt for the conversation
+   */
+  setSystemPrompt(systemPrompt: string): void {
+    this.conversationSystemPrompt = systemPrompt;
+  }
+  
+  /**
+   * Add a message to the conversation thread
+   * 
+   * @param message - The message to add
+   * @param isOwnMessage - Whether this agent produced the message
+   */
+  observeMessage(message: IConversationMessage, isOwnMessage: boolean): void {
+    this.thread.push(
+      isOwnMessage
+        ? { role: "assistant", content: message.content }
+        : { role: "user", content: `${message.speakerName}: ${message.content}` }
+    );
+  }
+  
+  /**
+   * Clear the conversation thread
+   */
+  resetConversation(): void {
+    this.thread = [];
+  }
+  
+  /**
+   * Get a copy of the conversation thread
+   * 
+   * @returns Messages in the thread, oldest first
+   */
+  getThread(): ChatMessage[] {
+    return this.thread.map(message => ({ ...message }));
+  }
+  
+  /**
+   * Execute a request with the conversation thread as context
+   * 
+   * @param input - Instruction for the current turn
+   * @returns The agent's response
+   */
+  override async execute(input: string): Promise<string> {
+    const response = await this.client.chatCompletion(this.buildMessages(input), {
+      model: this.model,
+      temperature: this.temperature,
+    });
+    
+    return response.content;
+  }
+  
+  /**
+   * Execute a request with the conversation thread as context, streaming the response
+   * 
+   * @param input - Instruction for the current turn
+   * @returns Chunks of the agent's response
+   */
+  override executeStream(input: string): AsyncIterable<string> {
+    return this.client.chatCompletionStream(this.buildMessages(input), {
+      model: this.model,
+      temperature: this.temperature,
+    });
+  }
+  
+  /**
+   * Build the chat messages for a request
+   * 
+   * @param input - Instruction for the current turn
+   * @returns System prompt, conversation thread and turn instruction
+   */
+  private buildMessages(input: string): ChatMessage[] {
+    const systemPrompt = [this.systemPrompt, this.conversationSystemPrompt]
+      .filter(Boolean)
+      .join("\n\n");
+    
+    return [
+      { role: "system", content: systemPrompt },
+      ...this.thread,
+      { role: "user", content: input },
+    ];
+  }
+}
+
+/**
+ * Read the data payloads from a server-sent events stream
+ * Comment lines (used by OpenRouter as keep-alives) are skipped, and the
+ * stream is cancelled if reading stops before it ends
+ * 
+ * @param body - Response body containing the event stream
+ * @returns Async iterable of event data payloads
+ */
+async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      
+      if (done) {
+        break;
+      }
+      
+      buffer += value.replace(/\r\n/g, "\n");
+      
+      // Events are separated by blank lines
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const event = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        
+        const data = event
+          .split("\n")
+          .filter(line => line.startsWith("data:"))
+          .map(line => line.slice(5).trimStart())
+          .join("\n");
+        
+        if (data) {
+          yield data;
+        }
+        
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+  } finally {
+    // Cancelling a finished or failed stream has no effect
+    await reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
 }
 
 /**
@@ -434,6 +777,20 @@ export function createOpenRouterClient(config: OpenRouterConfig): OpenRouterClie
   return new OpenRouterClient(config);
 }
 
+/**
+ * Create a conversation-aware agent that uses OpenRouter for completion
+ * 
+ * @param config - Agent configuration
+ * @param client - OpenRouter client to use
+ * @returns New OpenRouter conversation agent
+ */
+export function createOpenRouterConversationAgent(
+  config: IAgentConfig,
+  client: OpenRouterClient
+): IConversationalAgent {
+  return new OpenRouterConversationAgent(config, client);
+}
+
 /**
  * Create an agent that uses OpenRouter for completion
  * 
@@ -0,0 +1,223 @@
+/**
+ * OpenRouter client tests
+ *
+ * Verifies the streaming completion path against a mocked fetch.
+ */
+
+import { assertEquals, assertRejects } from "https://deno.land/std/assert/mod.ts";
+import {
+  createOpenRouterAgent,
+  OpenRouterClient,
+  OpenRouterConversationAgent
+} from "../openrouter_client.ts";
+import { createLogger, LogLevel } from "../../convenings/utils/logger.ts";
+
+// Build a server-sent events response from data payloads
+function createSseResponse(payloads: string[]): Response {
+  const body = payloads.map(payload => `data: ${payload}\n\n`).join("");
+  const encoded = new TextEncoder().encode(`: OPENROUTER PROCESSING\n\n${body}`);
+
+  // Split the body across chunks to exercise buffering
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < encoded.length; i += 7) {
+        controller.enqueue(encoded.slice(i, i + 7));
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(stream, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+// Run a function with fetch replaced by a mock
+async function withMockFetch(
+  mockFetch: (input: string | URL | Request, init?: RequestInit) => Promise<Response>,
+  fn: () => Promise<void>
+): Promise<void> {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = mockFetch as typeof fetch;
+
+  try {
+    await fn();
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+const chunk = (content: string) =>
+  JSON.stringify({ choices: [{ delta: { content } }] });
+
+Deno.test("OpenRouterClient - streams completion deltas and tracks usage", async () => {
+  const logger = createLogger({ logLevel: LogLevel.NONE, consoleOutput: false });
+  const requests: Record<string, unknown>[] = [];
+
+  await withMockFetch((_input, init) => {
+    requests.push(JSON.parse(init?.body as string));
+    return Promise.resolve(createSseResponse([
+      chunk("Hello"),
+      chunk(", world"),
+      JSON.stringify({
+        choices: [{ delta: {} }],
+        usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+      }),
+      "[DONE]",
+    ]));
+  }, async () => {
+    const client = new OpenRouterClient({
+      apiKey: "test-key",
+      defaultModel: "test/model",
+      logger,
+    });
+
+    const deltas: string[] = [];
+    for await (const delta of client.chatCompletionStream([{ role: "user", content: "Hi" }])) {
+      deltas.push(delta);
+    }
+
+    assertEquals(deltas, ["Hello", ", world"]);
+  });
+
+  assertEquals(requests[0].stream, true);
+
+  const usage = logger.getApiUsageMetrics();
+  assertEquals(usage.totalCalls, 1);
+  assertEquals(usage.inputTokens, 12);
+  assertEquals(usage.outputTokens, 3);
+});
+
+Deno.test("OpenRouterClient - times out idle streams but not slow ones", async () => {
+  const logger = createLogger({ logLevel: LogLevel.NONE, consoleOutput: false });
+  const encoder = new TextEncoder();
+
+  // Sends a chunk every 20ms, then stalls after the given number of chunks
+  // Aborting the request errors the body, as fetch does
+  const createSlowResponse = (chunks: number, signal?: AbortSignal | null) => {
+    let sent = 0;
+
+    return new Response(new ReadableStream<Uint8Array>({
+      start(controller) {
+        const timer = setInterval(() => {
+          if (sent < chunks) {
+            controller.enqueue(encoder.encode(`data: ${chunk(`${sent++}`)}\n\n`));
+          } else if (chunks === 5) {
+            controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+            controller.close();
+            clearInterval(timer);
+          }
+        }, 20);
+
+        signal?.addEventListener("abort", () => {
+          clearInterval(timer);
+          controller.error(signal.reason);
+        });
+      },
+    }));
+  };
+
+  const collect = async (client: OpenRouterClient) => {
+    let response = "";
+    for await (const delta of client.chatCompletionStream([{ role: "user", content: "Hi" }])) {
+      response += delta;
+    }
+    return response;
+  };
+
+  // The whole stream takes longer than the timeout, but no single wait does
+  await withMockFetch((_input, init) => Promise.resolve(createSlowResponse(5, init?.signal)), async () => {
+    const client = new OpenRouterClient({ apiKey: "test-key", defaultModel: "test/model", timeout: 50, logger });
+    assertEquals(await collect(client), "01234");
+  });
+
+  // A stream that stops sending data is aborted
+  await withMockFetch((_input, init) => Promise.resolve(createSlowResponse(2, init?.signal)), async () => {
+    const client = new OpenRouterClient({ apiKey: "test-key", defaultModel: "test/model", timeout: 50, logger });
+    await assertRejects(() => collect(client), Error, "received no data for 50ms");
+  });
+});
+
+Deno.test("OpenRouterClient - cancels the response body when the caller stops early", async () => {
+  const logger = createLogger({ logLevel: LogLevel.NONE, consoleOutput: false });
+  let cancelled = false;
+
+  await withMockFetch(() => Promise.resolve(new Response(new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(`data: ${chunk("First")}\n\n`));
+    },
+    cancel() {
+      cancelled = true;
+    },
+  }))), async () => {
+    const client = new OpenRouterClient({ apiKey: "test-key", defaultModel: "test/model", logger });
+
+    for await (const delta of client.chatCompletionStream([{ role: "user", content: "Hi" }])) {
+      assertEquals(delta, "First");
+      break;
+    }
+  });
+
+  assertEquals(cancelled, true);
+});
+
+Deno.test("OpenRouterAgent - executeStream yields the agent's response", async () => {
+  const logger = createLogger({ logLevel: LogLevel.NONE, consoleOutput: false });
+
+  await withMockFetch(
+    () => Promise.resolve(createSseResponse([chunk("Streamed"), chunk(" reply"), "[DONE]"])),
+    async () => {
+      const client = new OpenRouterClient({
+        apiKey: "test-key",
+        defaultModel: "test/model",
+        logger,
+      });
+      const agent = createOpenRouterAgent({ id: "agent", model: "test/model" }, client);
+
+      let response = "";
+      for await (const delta of agent.executeStream!("Hi")) {
+        response += delta;
+      }
+
+      assertEquals(response, "Streamed reply");
+    }
+  );
+
+  // Usage is estimated when the stream does not report it
+  assertEquals(logger.getApiUsageMetrics().totalCalls, 1);
+});
+
+Deno.test("OpenRouterConversationAgent - sends the thread as chat messages", async () => {
+  const logger = createLogger({ logLevel: LogLevel.NONE, consoleOutput: false });
+  const requests: Record<string, unknown>[] = [];
+
+  await withMockFetch((_input, init) => {
+    requests.push(JSON.parse(init?.body as string));
+    return Promise.resolve(Response.json({
+      model: "test/model",
+      choices: [{ message: { content: "Agreed" } }],
+      usage: { prompt_tokens: 20, completion_tokens: 1, total_tokens: 21 },
+    }));
+  }, async () => {
+    const client = new OpenRouterClient({
+      apiKey: "test-key",
+      defaultModel: "test/model",
+      logger,
+    });
+    const agent = new OpenRouterConversationAgent(
+      { id: "alice", model: "test/model", systemPrompt: "You are Alice." },
+      client
+    );
+
+    agent.setSystemPrompt("Discuss testing.");
+    agent.observeMessage({ speakerId: "alice", speakerName: "Alice", content: "Tests help." }, true);
+    agent.observeMessage({ speakerId: "bob", speakerName: "Bob", content: "Not always." }, false);
+
+    assertEquals(await agent.execute("Your turn."), "Agreed");
+  });
+
+  assertEquals(requests[0].messages, [
+    { role: "system", content: "You are Alice.\n\nDiscuss testing." },
+    { role: "assistant", content: "Tests help." },
+    { role: "user", content: "Bob: Not always." },
+    { role: "user", content: "Your turn." },
+  ]);
+});
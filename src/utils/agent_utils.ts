@@ -0,0 +1,63 @@
+/**
+ * Agent utility functions
+ * Helpers for executing agents with optional response streaming
+ */
+
+import { IAgent, IConversationalAgent } from "./interfaces.ts";
+
+/**
+ * Function that receives chunks of a streamed response
+ */
+export type TokenListener = (delta: string) => void;
+
+/**
+ * Execute an agent, streaming its response to a listener when possible
+ * Agents without executeStream deliver their whole response as a single chunk
+ *
+ * @param agent - Agent to execute
+ * @param input - The input to process
+ * @param onToken - Optional listener for response chunks
+ * @returns The agent's complete response
+ *
+ * @example
+ * ```ts
+ * const response = await executeAgent(agent, prompt, delta => console.log(delta));
+ * ```
+ */
+export async function executeAgent(
+  agent: IAgent,
+  input: string,
+  onToken?: TokenListener,
+): Promise<string> {
+  if (!onToken) {
+    return agent.execute(input);
+  }
+
+  if (!agent.executeStream) {
+    const response = await agent.execute(input);
+    onToken(response);
+    return response;
+  }
+
+  let response = "";
+
+  for await (const delta of agent.executeStream(input)) {
+    response += delta;
+    onToken(delta);
+  }
+
+  return response;
+}
+
+/**
+ * Check whether an agent keeps its own conversation thread
+ *
+ * @param agent - Agent to check
+ * @returns Whether the agent is conversational
+ */
+export function isConversationalAgent(agent: IAgent): agent is IConversationalAgent {
+  const candidate = agent as Partial<IConversationalAgent>;
+  return typeof candidate.observeMessage === "function" &&
+    typeof candidate.setSystemPrompt === "function" &&
+    typeof candidate.resetConversation === "function";
+}
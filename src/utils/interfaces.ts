@@ -19,6 +19,62 @@ export interface IAgent {
    * @returns The agent's response
    */
   execute(input: string): Promise<string>;
+
+  /**
+   * Execute a request with the agent, streaming the response as it is generated
+   * Optional; callers fall back to execute for agents without it
+   *
+   * @param input - The input to process
+   * @returns Chunks of the agent's response, in order
+   */
+  executeStream?(input: string): AsyncIterable<string>;
+}
+
+/**
+ * Message from a multi-party conversation, as seen by a conversational agent
+ */
+export interface IConversationMessage {
+  /**
+   * ID of the participant who spoke
+   */
+  speakerId: string;
+
+  /**
+   * Display name of the participant who spoke
+   */
+  speakerName: string;
+
+  /**
+   * Content of the message
+   */
+  content: string;
+}
+
+/**
+ * Agent that keeps its own multi-turn conversation thread
+ * Workflows share every committed message with it instead of repeating the
+ * full history in each prompt
+ */
+export interface IConversationalAgent extends IAgent {
+  /**
+   * Set the system prompt of the conversation (e.g. the workflow's framing)
+   *
+   * @param systemPrompt - System prompt for the conversation
+   */
+  setSystemPrompt(systemPrompt: string): void;
+
+  /**
+   * Add a message to the agent's conversation thread
+   *
+   * @param message - The message to add
+   * @param isOwnMessage - Whether the agent itself produced the message
+   */
+  observeMessage(message: IConversationMessage, isOwnMessage: boolean): void;
+
+  /**
+   * Clear the agent's conversation thread
+   */
+  resetConversation(): void;
 }
 
 /**
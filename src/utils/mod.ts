@@ -4,7 +4,18 @@
  */
 
 // Export interfaces for dependency injection
-export type { IStringUtils } from "./interfaces.ts";
+export type {
+  IConversationalAgent,
+  IConversationMessage,
+  IStringUtils,
+} from "./interfaces.ts";
+
+// Export agent helpers
+export {
+  executeAgent,
+  isConversationalAgent,
+  type TokenListener,
+} from "./agent_utils.ts";
 
 // Export both the implementation class and factory function
 export {